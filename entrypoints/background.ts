@@ -4,7 +4,32 @@ import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching'
 import { NavigationRoute, registerRoute } from 'workbox-routing'
 import { CacheFirst, NetworkFirst, StaleWhileRevalidate } from 'workbox-strategies'
 import Analytics from '../src/analytics'
-import { removeFromStorage, setToStorage } from '../src/common/storage'
+import { runStorageMigrations } from '../src/common/migrations'
+import { removeFromStorage, setToStorage, watchStorage } from '../src/common/storage'
+import {
+	BOOKMARK_HEALTH_ALARM,
+	BOOKMARK_HEALTH_ORIGINS,
+	runBookmarkHealthCheck,
+} from '../src/layouts/bookmark/utils/bookmark-health.util'
+import {
+	scheduleBookmarkMirror,
+	syncBookmarkMirror,
+	watchNativeBookmarks,
+} from '../src/layouts/bookmark/utils/bookmark-mirror.util'
+import {
+	drainSyncOutbox,
+	ownSyncOutbox,
+	SYNC_OUTBOX_ALARM,
+} from '../src/layouts/navbar/sync/sync-outbox'
+import {
+	handleTodoReminderAction,
+	isTodoReminderMessage,
+	scheduleTodoReminders,
+	showTodoReminder,
+	TODO_REMINDER_ALARM_PREFIX,
+	TODO_REMINDER_REFRESH_ALARM,
+	watchTodoReminderNotifications,
+} from '../src/layouts/widgets/todos/todo-reminders'
 
 export default defineBackground(() => {
 	const isDev = import.meta.env.DEV
@@ -155,18 +180,83 @@ export default defineBackground(() => {
 				offlineSupport: true,
 			})
 
+			await runStorageMigrations()
 			await cleanupOutdatedCaches()
 			await preloadCriticalResources()
 		}
 	})
 
+	// Pages send their outbox updates here, so they never race with ours
+	ownSyncOutbox()
 	browser.runtime.onStartup.addListener(async () => {
 		Analytics.event('Startup')
+		await drainSyncOutbox()
+	})
+
+	ensureAlarm(SYNC_OUTBOX_ALARM, 1)
+	ensureAlarm(TODO_REMINDER_REFRESH_ALARM, 360)
+	ensureAlarm(BOOKMARK_HEALTH_ALARM, 24 * 60)
+	browser.alarms.onAlarm.addListener(async (alarm) => {
+		if (alarm.name === SYNC_OUTBOX_ALARM) {
+			await drainSyncOutbox()
+		} else if (alarm.name === BOOKMARK_HEALTH_ALARM) {
+			await runBookmarkHealthCheck()
+		} else if (alarm.name === TODO_REMINDER_REFRESH_ALARM) {
+			await scheduleTodoReminders()
+		} else if (alarm.name.startsWith(TODO_REMINDER_ALARM_PREFIX)) {
+			await showTodoReminder(alarm.name)
+		}
+	})
+
+	// Stored values may still need an upgrade (e.g. JSON strings on Firefox)
+	const migrated = runStorageMigrations()
+
+	migrated.finally(() => scheduleTodoReminders())
+	watchStorage('todos', () => {
+		scheduleTodoReminders()
+	})
+
+	watchNativeBookmarks()
+	browser.permissions.onAdded?.addListener((added) => {
+		watchNativeBookmarks()
+		watchTodoReminderNotifications()
+		syncBookmarkMirror()
+		// Only access to every site lets the check run, other grants change nothing
+		if (added.origins?.some((origin) => BOOKMARK_HEALTH_ORIGINS.includes(origin))) {
+			runBookmarkHealthCheck()
+		}
+	})
+	migrated.finally(() => syncBookmarkMirror())
+	watchStorage('bookmarks', () => {
+		scheduleBookmarkMirror()
+	})
+	watchStorage('bookmarkMirror', () => {
+		scheduleBookmarkMirror()
+	})
+
+	watchTodoReminderNotifications()
+	browser.runtime.onMessage.addListener((message) => {
+		if (isTodoReminderMessage(message)) {
+			return handleTodoReminderAction(message.notificationId, message.action)
+		}
+	})
+
+	self.addEventListener('online', () => {
+		drainSyncOutbox({ force: true })
 	})
 
 	cleanupOutdatedCaches()
 })
 
+/**
+ * Creating an alarm again restarts its delay, and the worker starts over and over,
+ * so long periods would never fire. Only create alarms that do not exist yet.
+ */
+async function ensureAlarm(name: string, periodInMinutes: number) {
+	if (await browser.alarms.get(name)) return
+	browser.alarms.create(name, { periodInMinutes })
+}
+
 async function preloadCriticalResources() {
 	try {
 		const cache = await caches.open('critical-resources-v1')
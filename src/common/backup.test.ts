@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { fakeBrowser } from 'wxt/testing'
+import {
+	type BackupArchive,
+	getArchiveSectionIds,
+	getArchiveSectionKeys,
+	restoreBackupArchive,
+} from './backup'
+import { CURRENT_SCHEMA_VERSION } from './migrations'
+import { getFromStorage } from './storage'
+
+function archive(sections: Record<string, Record<string, unknown>>): BackupArchive {
+	return {
+		app: 'widgetify',
+		version: 1,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		createdAt: '2025-10-18T10:00:00.000Z',
+		extensionVersion: '1.0.0',
+		sections: sections as BackupArchive['sections'],
+	}
+}
+
+describe('restoreBackupArchive', () => {
+	beforeEach(() => {
+		fakeBrowser.reset()
+	})
+
+	it('ignores keys filed under a section they do not belong to', async () => {
+		const crafted = archive({
+			bookmarks: {
+				bookmarks: [],
+				auth_token: 'stolen',
+				storageSchemaVersion: 0,
+			},
+		})
+
+		await restoreBackupArchive(crafted, ['bookmarks'])
+
+		expect(await getFromStorage('bookmarks')).toEqual([])
+		expect(await getFromStorage('auth_token')).toBeNull()
+		expect(await getFromStorage('storageSchemaVersion')).toBeNull()
+	})
+
+	it('previews only the keys that would be restored', () => {
+		const crafted = archive({
+			bookmarks: { bookmarks: [], auth_token: 'stolen' },
+			notes: { theme: 'dark' },
+		})
+
+		expect(getArchiveSectionKeys(crafted, 'bookmarks')).toEqual(['bookmarks'])
+		expect(getArchiveSectionIds(crafted)).toEqual(['bookmarks'])
+	})
+
+	it('upgrades an old archive without touching the rest of storage', async () => {
+		await fakeBrowser.storage.local.set({
+			storageSchemaVersion: CURRENT_SCHEMA_VERSION,
+			notes_data: [{ id: 'n1', title: '', body: '', createdAt: 1, updatedAt: 1 }],
+		})
+		const old = {
+			...archive({ todos: { todos: [{ id: 't1', text: 'first' }] } }),
+			schemaVersion: 0,
+		}
+
+		await restoreBackupArchive(old, ['todos'])
+
+		expect((await getFromStorage('todos'))?.[0].order).toBe(0)
+		expect(await getFromStorage('storageSchemaVersion')).toBe(CURRENT_SCHEMA_VERSION)
+		// Not restored, so the notes migration must not have run over it again
+		expect((await getFromStorage('notes_data'))?.[0].onlineId).toBeUndefined()
+	})
+})
@@ -0,0 +1,307 @@
+import type { StorageKV } from './constant/store.key'
+import {
+	applyMigrations,
+	CURRENT_SCHEMA_VERSION,
+	type StorageSnapshot,
+} from './migrations'
+import { getFromStorage, getStorageKeys, setToStorage } from './storage'
+import { exportWallpaperUploads, importWallpaperUploads } from './wallpaper-uploads'
+
+export const BACKUP_ARCHIVE_VERSION = 1
+
+export type BackupSectionId =
+	| 'bookmarks'
+	| 'todos'
+	| 'notes'
+	| 'wallpaper'
+	| 'appearance'
+	| 'widgets'
+	| 'pets'
+	| 'pomodoro'
+	| 'account'
+	| 'cache'
+	| 'other'
+
+export interface BackupSection {
+	id: BackupSectionId
+	label: string
+	keys: (keyof StorageKV)[]
+	prefixes?: string[]
+	excludedByDefault?: boolean
+}
+
+export interface BackupArchive {
+	app: 'widgetify'
+	version: number
+	schemaVersion?: number
+	createdAt: string
+	extensionVersion: string
+	sections: Partial<Record<BackupSectionId, Partial<StorageKV>>>
+	/** Uploaded wallpaper files by wallpaper id, part of the wallpaper section */
+	uploads?: Record<string, string>
+}
+
+export const backupSections: BackupSection[] = [
+	{
+		id: 'bookmarks',
+		label: 'بوکمارک‌ها',
+		keys: ['bookmarks', 'deletedBookmarkIds'],
+	},
+	{
+		id: 'todos',
+		label: 'وظایف',
+		keys: [
+			'todos',
+			'deletedTodos',
+			'todoOptions',
+			'seenTodoNewViewMode',
+			'todoSyncBase',
+			'todoConflicts',
+			'todoHistory',
+		],
+	},
+	{
+		id: 'notes',
+		label: 'یادداشت‌ها',
+		keys: ['notes_data', 'deletedNotes'],
+	},
+	{
+		id: 'wallpaper',
+		label: 'تصویر زمینه',
+		keys: [
+			'wallpaper',
+			'customWallpaper',
+			'customWallpapers',
+			'wallpaperFavorites',
+			'wallpaperRotation',
+		],
+	},
+	{
+		id: 'appearance',
+		label: 'ظاهر و تنظیمات عمومی',
+		keys: [
+			'theme',
+			'appearance',
+			'appearanceSchedule',
+			'generalSettings',
+			'selectedCity',
+			'searchEngines',
+		],
+	},
+	{
+		id: 'widgets',
+		label: 'ویجت‌ها',
+		keys: [
+			'activeWidgets',
+			'dashboards',
+			'clock',
+			'wigiPadDate',
+			'weatherSettings',
+			'notesView',
+			'currencies',
+			'currencyColorMode',
+			'rss_news_state',
+			'news_filter_sort_state',
+			'youtubeSettings',
+			'toolsTab',
+			'comboTabs',
+			'calendarDrawerState',
+		],
+	},
+	{
+		id: 'pets',
+		label: 'حیوان خانگی',
+		keys: ['pets'],
+	},
+	{
+		id: 'pomodoro',
+		label: 'پومودورو',
+		keys: ['pomodoro_settings', 'pomodoro_session'],
+	},
+	{
+		id: 'account',
+		label: 'اطلاعات ورود (توکن‌ها)',
+		keys: [
+			'auth_token',
+			'refresh_token',
+			'profile',
+			'enable_sync',
+			'syncOutbox',
+			'syncStatus',
+		],
+		excludedByDefault: true,
+	},
+	{
+		id: 'cache',
+		label: 'داده‌های موقت (کش)',
+		keys: [
+			'news',
+			'youtubeProfile',
+			'currentWeather',
+			'forecastWeather',
+			'search_trends',
+			'recommended_sites',
+			'configData',
+			'bookmarkHealth',
+		],
+		prefixes: ['currency:'],
+		excludedByDefault: true,
+	},
+]
+
+// Keys that are bound to this browser installation and must never travel.
+const localOnlyKeys: (keyof StorageKV)[] = [
+	'gaClientId',
+	'analyticsSession',
+	'storageSchemaVersion',
+	'bookmarkMirror',
+	'appearanceScheduleApplied',
+	'dashboardScheduleApplied',
+	'wallpaperRotationState',
+]
+
+function findSectionForKey(key: string): BackupSectionId | null {
+	if (localOnlyKeys.includes(key as keyof StorageKV)) return null
+
+	const section = backupSections.find(
+		(item) =>
+			item.keys.includes(key as keyof StorageKV) ||
+			item.prefixes?.some((prefix) => key.startsWith(prefix))
+	)
+
+	return section ? section.id : 'other'
+}
+
+export function getBackupSectionLabel(id: BackupSectionId) {
+	return backupSections.find((section) => section.id === id)?.label || 'سایر'
+}
+
+export function getDefaultBackupSelection(): BackupSectionId[] {
+	return [
+		...backupSections
+			.filter((section) => !section.excludedByDefault)
+			.map((section) => section.id),
+		'other',
+	]
+}
+
+export async function createBackupArchive(
+	selectedSections: BackupSectionId[]
+): Promise<BackupArchive> {
+	const keys = await getStorageKeys()
+	const sections: BackupArchive['sections'] = {}
+
+	for (const key of keys) {
+		const sectionId = findSectionForKey(key)
+		if (!sectionId || !selectedSections.includes(sectionId)) continue
+
+		const value = await getFromStorage(key)
+		if (value === null) continue
+
+		if (!sections[sectionId]) sections[sectionId] = {}
+		;(sections[sectionId] as Record<string, unknown>)[key] = value
+	}
+
+	const uploads = selectedSections.includes('wallpaper')
+		? await exportWallpaperUploads()
+		: {}
+
+	return {
+		app: 'widgetify',
+		version: BACKUP_ARCHIVE_VERSION,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		createdAt: new Date().toISOString(),
+		extensionVersion: browser.runtime.getManifest().version,
+		sections,
+		...(Object.keys(uploads).length > 0 && { uploads }),
+	}
+}
+
+export function parseBackupArchive(content: string): BackupArchive {
+	let data: any
+	try {
+		data = JSON.parse(content)
+	} catch {
+		throw new Error('INVALID_BACKUP_FILE')
+	}
+
+	if (
+		!data ||
+		data.app !== 'widgetify' ||
+		typeof data.version !== 'number' ||
+		typeof data.sections !== 'object' ||
+		data.sections === null
+	) {
+		throw new Error('INVALID_BACKUP_FILE')
+	}
+
+	if (data.version > BACKUP_ARCHIVE_VERSION) {
+		throw new Error('UNSUPPORTED_BACKUP_VERSION')
+	}
+
+	return data as BackupArchive
+}
+
+/**
+ * Keys of an archive section that really belong to it. The file's grouping is never
+ * trusted, so an edited archive can not slip e.g. auth tokens in under "bookmarks".
+ */
+export function getArchiveSectionKeys(
+	archive: BackupArchive,
+	sectionId: BackupSectionId
+): (keyof StorageKV)[] {
+	return Object.keys(archive.sections[sectionId] || {}).filter(
+		(key) => findSectionForKey(key) === sectionId
+	) as (keyof StorageKV)[]
+}
+
+export function getArchiveSectionIds(archive: BackupArchive): BackupSectionId[] {
+	return (Object.keys(archive.sections) as BackupSectionId[]).filter(
+		(id) => getArchiveSectionKeys(archive, id).length > 0
+	)
+}
+
+export async function restoreBackupArchive(
+	archive: BackupArchive,
+	selectedSections: BackupSectionId[]
+) {
+	const snapshot: Record<string, unknown> = {}
+	for (const sectionId of selectedSections) {
+		const values = archive.sections[sectionId] as Record<string, unknown>
+		for (const key of getArchiveSectionKeys(archive, sectionId)) {
+			snapshot[key] = values[key]
+		}
+	}
+
+	// Archives from older installs carry old-schema values, so they are upgraded
+	// before being written. The rest of storage is already current.
+	const { snapshot: migrated } = applyMigrations(
+		snapshot as StorageSnapshot,
+		archive.schemaVersion || 0,
+		{ fromBackup: true }
+	)
+	for (const [key, value] of Object.entries(migrated)) {
+		await setToStorage(key as keyof StorageKV, value as any)
+	}
+
+	if (selectedSections.includes('wallpaper') && archive.uploads) {
+		await importWallpaperUploads(archive.uploads)
+	}
+}
+
+export function downloadBackupArchive(archive: BackupArchive) {
+	const blob = new Blob([JSON.stringify(archive, null, 2)], {
+		type: 'application/json',
+	})
+	const url = URL.createObjectURL(blob)
+	const date = archive.createdAt.slice(0, 10)
+
+	const link = document.createElement('a')
+	link.href = url
+	link.download = `widgetify-backup-${date}.json`
+	document.body.appendChild(link)
+	link.click()
+	link.remove()
+
+	URL.revokeObjectURL(url)
+}
@@ -1,14 +1,29 @@
 import type { CurrencyColorMode } from '@/context/currency.context'
+import type { DashboardsState } from '@/context/dashboard.context'
 import type { SelectedCity } from '@/context/general-setting.context'
+import type { Note } from '@/context/notes.context'
 import type { Theme } from '@/context/theme.context'
 import type { TodoOptions } from '@/context/todo.context'
-import type { WidgetItem } from '@/context/widget-visibility.context'
+import type { WidgetInstance } from '@/context/widget-instance.context'
 import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
+import type { BookmarkHealth } from '@/layouts/bookmark/utils/bookmark-health.util'
+import type { BookmarkMirrorState } from '@/layouts/bookmark/utils/bookmark-mirror.util'
+import type { SyncOutboxEntry } from '@/layouts/navbar/sync/sync-outbox'
+import type { SyncTarget, SyncTargetStatus } from '@/layouts/navbar/sync/sync-tasks'
+import type { TodoConflict } from '@/layouts/navbar/sync/todo-merge'
+import type { SearchEngineSettings } from '@/layouts/search/engines/search-engines'
+import type { AppearanceScheduleSettings } from '@/layouts/setting/tabs/appearance/schedule/appearance-schedule'
+import type {
+	WallpaperRotationSettings,
+	WallpaperRotationState,
+} from '@/layouts/setting/tabs/wallpapers/rotation/wallpaper-rotation'
 import type { PetSettings } from '@/layouts/widgetify-card/pets/pet.context'
 import type { Todo } from '@/layouts/widgets/calendar/interface/todo.interface'
 import type { ComboTabType } from '@/layouts/widgets/comboWidget/combo-widget.layout'
 import type { FilterSortState } from '@/layouts/widgets/news/components/news-filter-sort'
 import type { WigiNewsSetting } from '@/layouts/widgets/news/news.interface'
+import type { NotesViewSettings } from '@/layouts/widgets/notes/notes-view'
+import type { TodoCompletionEvent } from '@/layouts/widgets/todos/todo-history'
 import type {
 	PomodoroSession,
 	PomodoroSettings,
@@ -27,6 +42,7 @@ import type { NewsResponse } from '@/services/hooks/news/getNews.hook'
 import type { RecommendedSite, TrendItem } from '@/services/hooks/trends/getTrends'
 import type { UserProfile } from '@/services/hooks/user/userService.hook'
 import type { FetchedYouTubeProfile } from '@/services/hooks/youtube/getYouTubeProfile.hook'
+import type { TrashItem } from '../trash'
 import type { StoredWallpaper, Wallpaper } from '../wallpaper.interface'
 
 export interface StorageKV {
@@ -38,10 +54,22 @@ export interface StorageKV {
 	todos: Todo[]
 	wallpaper: StoredWallpaper
 	customWallpaper: Wallpaper
+	/** Recent uploads, newest first, that the rotation can cycle through */
+	customWallpapers: Wallpaper[]
+	wallpaperFavorites: Wallpaper[]
+	wallpaperRotation: WallpaperRotationSettings
+	wallpaperRotationState: WallpaperRotationState
 	generalSettings: Record<string, any>
 	appearance: Record<string, any>
+	appearanceSchedule: AppearanceScheduleSettings
+	/** Rule id and trigger time of the last scheduled change */
+	appearanceScheduleApplied: string
+	/** Id of the dashboard the schedule last switched to */
+	dashboardScheduleApplied: string
 	bookmarks: Bookmark[]
 	deletedBookmarkIds: string[]
+	bookmarkMirror: BookmarkMirrorState
+	bookmarkHealth: Record<string, BookmarkHealth>
 	showWelcomeModal: boolean
 	weatherSettings: WeatherSettings
 	hasSeenTour: boolean
@@ -53,22 +81,26 @@ export interface StorageKV {
 	auth_token: string | undefined
 	refresh_token: string | null
 	profile: UserProfile
-	activeWidgets: WidgetItem[]
+	activeWidgets: WidgetInstance[]
+	dashboards: DashboardsState
 	news: NewsResponse & { isCached?: boolean }
 	search_trends: TrendItem[]
 	recommended_sites: RecommendedSite[]
+	searchEngines: SearchEngineSettings
 	deletedTodos: Todo[]
+	todoSyncBase: Todo[]
+	todoConflicts: TodoConflict[]
+	todoHistory: TodoCompletionEvent[]
+	trash: TrashItem[]
+	syncOutbox: SyncOutboxEntry[]
+	syncStatus: Partial<Record<SyncTarget, SyncTargetStatus>>
 	rss_news_state: WigiNewsSetting
 	news_filter_sort_state: FilterSortState
 	analyticsSession: any
 	enable_sync: boolean
-	notes_data: {
-		body: string
-		createdAt: number
-		id: string
-		title: string
-		updatedAt: number
-	}[]
+	notes_data: Note[]
+	notesView: NotesViewSettings
+	deletedNotes: Note[]
 	calendarDrawerState: boolean
 	pets: PetSettings
 	todoOptions: TodoOptions
@@ -86,4 +118,5 @@ export interface StorageKV {
 	pomodoro_settings: PomodoroSettings | null
 	seenWidgetSettings_1: boolean
 	seenTodoNewViewMode: boolean
+	storageSchemaVersion: number
 }
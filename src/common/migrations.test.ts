@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeBrowser } from 'wxt/testing'
+import legacyFirefoxStorage from './__fixtures__/legacy-firefox-storage.json'
+import legacyStorage from './__fixtures__/legacy-storage.json'
+import {
+	applyMigrations,
+	CURRENT_SCHEMA_VERSION,
+	parseJsonEncodedValues,
+	runStorageMigrations,
+	type StorageSnapshot,
+	storageMigrations,
+} from './migrations'
+import { getFromStorage } from './storage'
+
+const fixture = () => structuredClone(legacyStorage) as unknown as StorageSnapshot
+
+describe('storageMigrations', () => {
+	it('has unique versions', () => {
+		const versions = storageMigrations.map((migration) => migration.version)
+		expect(new Set(versions).size).toBe(versions.length)
+	})
+
+	it('upgrades a legacy snapshot to the current version', () => {
+		const { snapshot, version } = applyMigrations(fixture(), 0)
+
+		expect(version).toBe(CURRENT_SCHEMA_VERSION)
+		expect(snapshot.todos?.map((todo) => todo.order)).toEqual([0, 7])
+		expect(snapshot.generalSettings?.selected_timezone).toEqual({
+			label: 'آسیا / تهران',
+			value: 'Asia/Tehran',
+			offset: '+03:30',
+		})
+		expect(snapshot.generalSettings?.analyticsEnabled).toBe(true)
+		expect(snapshot.notes_data?.[0]).toMatchObject({
+			id: 'n1',
+			onlineId: 'n1',
+			createdAt: Date.parse('2025-01-01T10:00:00.000Z'),
+			updatedAt: Date.parse('2025-01-02T10:00:00.000Z'),
+			syncedAt: Date.parse('2025-01-02T10:00:00.000Z'),
+		})
+		expect(snapshot.activeWidgets).toEqual([
+			{ id: 'calendar', type: 'calendar', order: 0 },
+			{ id: 'todos', type: 'todos', order: 3 },
+		])
+		expect(snapshot.theme).toBe('dark')
+	})
+
+	it('is idempotent', () => {
+		const once = applyMigrations(fixture(), 0).snapshot
+		const twice = applyMigrations(structuredClone(once), 0).snapshot
+
+		expect(twice).toEqual(once)
+	})
+
+	it('only runs migrations newer than the stored version', () => {
+		const { snapshot } = applyMigrations(fixture(), CURRENT_SCHEMA_VERSION - 1)
+
+		expect(snapshot.todos?.[0].order).toBeUndefined()
+		expect(snapshot.notes_data?.[0].onlineId).toBeUndefined()
+		expect(snapshot.activeWidgets?.[0]).toEqual({
+			id: 'calendar',
+			type: 'calendar',
+			order: 0,
+		})
+	})
+
+	it('stops at a failing migration and keeps the last good version', () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {})
+		const broken = { ...fixture(), notes_data: [null] } as unknown as StorageSnapshot
+
+		const { version } = applyMigrations(broken, 0)
+
+		// The notes migration is version 4
+		expect(version).toBe(3)
+	})
+
+	it('skips storage-only migrations for backup values', () => {
+		const storageOnly = storageMigrations.filter((migration) => migration.storageOnly)
+		const spies = storageOnly.map((migration) => vi.spyOn(migration, 'migrate'))
+
+		const { version } = applyMigrations(fixture(), 0, { fromBackup: true })
+
+		expect(version).toBe(CURRENT_SCHEMA_VERSION)
+		for (const spy of spies) expect(spy).not.toHaveBeenCalled()
+	})
+})
+
+describe('parseJsonEncodedValues', () => {
+	it('decodes values Firefox stored as JSON strings', () => {
+		expect(
+			parseJsonEncodedValues(legacyFirefoxStorage as unknown as StorageSnapshot)
+		).toEqual(legacyStorage)
+	})
+
+	it('keeps native values and plain strings', () => {
+		const snapshot = {
+			theme: 'dark',
+			hasSeenTour: true,
+			todos: [],
+		} as unknown as StorageSnapshot
+
+		expect(parseJsonEncodedValues(snapshot)).toEqual(snapshot)
+	})
+})
+
+describe('runStorageMigrations', () => {
+	beforeEach(() => {
+		fakeBrowser.reset()
+	})
+
+	it('rewrites stored data once and records the version', async () => {
+		await fakeBrowser.storage.local.set(legacyStorage)
+
+		await runStorageMigrations()
+
+		expect(await getFromStorage('storageSchemaVersion')).toBe(CURRENT_SCHEMA_VERSION)
+		expect((await getFromStorage('todos'))?.map((todo) => todo.order)).toEqual([0, 7])
+		expect((await getFromStorage('notes_data'))?.[0].syncedAt).toBe(
+			Date.parse('2025-01-02T10:00:00.000Z')
+		)
+	})
+
+	it('leaves storage alone when already up to date', async () => {
+		await fakeBrowser.storage.local.set({
+			...legacyStorage,
+			storageSchemaVersion: CURRENT_SCHEMA_VERSION,
+		})
+
+		await runStorageMigrations()
+
+		expect((await getFromStorage('todos'))?.[0].order).toBeUndefined()
+	})
+})
@@ -0,0 +1,228 @@
+import type { WidgetKeys } from '@/context/widget-visibility.context'
+import type { StorageKV } from './constant/store.key'
+import { getFromStorage, getStorageKeys, setToStorage } from './storage'
+
+export type StorageSnapshot = Partial<StorageKV>
+
+export interface StorageMigration {
+	version: number
+	description: string
+	/** The keys the migration reads and may rewrite, or every stored key */
+	keys: (keyof StorageKV)[] | 'all'
+	/** Rewrites how values are stored rather than what they hold, backups skip it */
+	storageOnly?: boolean
+	migrate: (snapshot: StorageSnapshot) => StorageSnapshot
+}
+
+/**
+ * Ordered list of storage migrations. Each entry must be deterministic and
+ * idempotent: it receives a snapshot of the keys it declared and returns the
+ * upgraded snapshot. Storage-only entries are the exception, they run exactly once
+ * over raw storage. Never edit a released migration, append a new one instead.
+ */
+export const storageMigrations: StorageMigration[] = [
+	{
+		version: 1,
+		description: 'store Firefox values natively instead of as JSON strings',
+		keys: 'all',
+		// Backups were always written from decoded values
+		storageOnly: true,
+		migrate: (snapshot) =>
+			import.meta.env.FIREFOX ? parseJsonEncodedValues(snapshot) : snapshot,
+	},
+	{
+		version: 2,
+		description: 'back-fill todo order',
+		keys: ['todos'],
+		migrate: (snapshot) => {
+			if (!Array.isArray(snapshot.todos)) return snapshot
+
+			return {
+				...snapshot,
+				todos: snapshot.todos.map((todo, index) => ({
+					...todo,
+					order: todo.order !== undefined ? todo.order : index,
+				})),
+			}
+		},
+	},
+	{
+		version: 3,
+		description: 'replace legacy string timezone with timezone object',
+		keys: ['generalSettings'],
+		migrate: (snapshot) => {
+			const settings = snapshot.generalSettings
+			if (!settings || typeof settings.selected_timezone !== 'string') {
+				return snapshot
+			}
+
+			return {
+				...snapshot,
+				generalSettings: {
+					...settings,
+					selected_timezone: {
+						label: 'آسیا / تهران',
+						value: 'Asia/Tehran',
+						offset: '+03:30',
+					},
+				},
+			}
+		},
+	},
+	{
+		version: 4,
+		description: 'mark server-created notes as synced',
+		keys: ['notes_data'],
+		migrate: (snapshot) => {
+			if (!Array.isArray(snapshot.notes_data)) return snapshot
+
+			// Notes used to be created on the server, so every stored id is an online id
+			return {
+				...snapshot,
+				notes_data: snapshot.notes_data.map((note) => {
+					if (note.onlineId !== undefined) return note
+
+					const updatedAt = new Date(note.updatedAt).getTime()
+					return {
+						...note,
+						onlineId: note.id,
+						createdAt: new Date(note.createdAt).getTime(),
+						updatedAt,
+						syncedAt: updatedAt,
+					}
+				}),
+			}
+		},
+	},
+	{
+		version: 5,
+		description: 'store active widgets as instances instead of widget items',
+		keys: ['activeWidgets'],
+		migrate: (snapshot) => {
+			if (!Array.isArray(snapshot.activeWidgets)) return snapshot
+
+			// Widget items were stored whole, keyed by the widget and without a type
+			return {
+				...snapshot,
+				activeWidgets: snapshot.activeWidgets.map((widget, index) =>
+					widget.type
+						? widget
+						: {
+								id: widget.id,
+								type: widget.id as WidgetKeys,
+								order: widget.order ?? index,
+							}
+				),
+			}
+		},
+	},
+]
+
+/**
+ * Firefox used to get every value as a JSON string. Decodes those, leaving strings
+ * that are not JSON as they are.
+ */
+export function parseJsonEncodedValues(snapshot: StorageSnapshot): StorageSnapshot {
+	const result: Record<string, unknown> = {}
+	for (const [key, value] of Object.entries(snapshot)) {
+		if (typeof value !== 'string') {
+			result[key] = value
+			continue
+		}
+
+		try {
+			result[key] = JSON.parse(value)
+		} catch {
+			result[key] = value
+		}
+	}
+	return result as StorageSnapshot
+}
+
+export const CURRENT_SCHEMA_VERSION = storageMigrations.reduce(
+	(max, migration) => Math.max(max, migration.version),
+	0
+)
+
+export function getPendingMigrations(fromVersion: number) {
+	return storageMigrations
+		.filter((migration) => migration.version > fromVersion)
+		.sort((a, b) => a.version - b.version)
+}
+
+/**
+ * Applies every migration newer than `fromVersion` to the given snapshot and stops
+ * at the first one that throws. Pure, so it can be exercised against fixture
+ * snapshots of old storage. Pass `fromBackup` for values read from a backup archive.
+ */
+export function applyMigrations(
+	snapshot: StorageSnapshot,
+	fromVersion: number,
+	{ fromBackup = false } = {}
+): { snapshot: StorageSnapshot; version: number } {
+	let result = snapshot
+	let version = fromVersion
+
+	for (const migration of getPendingMigrations(fromVersion)) {
+		if (fromBackup && migration.storageOnly) {
+			version = migration.version
+			continue
+		}
+
+		try {
+			result = migration.migrate(result)
+			version = migration.version
+		} catch (error) {
+			console.error(`Storage migration ${migration.version} failed:`, error)
+			break
+		}
+	}
+
+	return { snapshot: result, version }
+}
+
+let runningMigrations: Promise<void> | null = null
+
+export function runStorageMigrations(): Promise<void> {
+	if (!runningMigrations) {
+		runningMigrations = migrateStorage().finally(() => {
+			runningMigrations = null
+		})
+	}
+
+	return runningMigrations
+}
+
+async function migrateStorage() {
+	// Still a JSON string on Firefox until the first migration ran
+	const fromVersion = Number(await getFromStorage('storageSchemaVersion')) || 0
+	const pending = getPendingMigrations(fromVersion)
+	if (!pending.length) return
+
+	const keys = pending.some((migration) => migration.keys === 'all')
+		? await getStorageKeys()
+		: [
+				...new Set(
+					pending.flatMap((migration) => migration.keys as (keyof StorageKV)[])
+				),
+			]
+	const snapshot: StorageSnapshot = {}
+	for (const key of keys) {
+		const value = await getFromStorage(key)
+		if (value !== null) (snapshot as Record<string, unknown>)[key] = value
+	}
+
+	const { snapshot: migrated, version } = applyMigrations(snapshot, fromVersion)
+
+	for (const key of keys) {
+		const before = (snapshot as Record<string, unknown>)[key]
+		const after = (migrated as Record<string, unknown>)[key]
+		if (after === undefined || JSON.stringify(before) === JSON.stringify(after)) {
+			continue
+		}
+
+		await setToStorage(key, after as any)
+	}
+
+	await setToStorage('storageSchemaVersion', version)
+}
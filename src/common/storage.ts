@@ -1,37 +1,90 @@
 import { storage } from 'wxt/utils/storage'
 import type { StorageKV } from './constant/store.key'
 
+type StorageListener = (value: any) => void
+
+const storageListeners = new Map<string, Set<StorageListener>>()
+const storageUnwatchers = new Map<string, () => void>()
+// Last value this page knows each watched key holds, used to drop the change
+// events caused by its own writes.
+const lastKnownValues = new Map<string, string>()
+
+function serialize(value: unknown) {
+	return JSON.stringify(value ?? null)
+}
+
+function decodeValue<K extends keyof StorageKV>(value: unknown): StorageKV[K] | null {
+	if (typeof value === 'boolean') return value as StorageKV[K]
+	if (!value) return null
+
+	return value as StorageKV[K]
+}
+
 export async function setToStorage<K extends keyof StorageKV>(
 	key: K,
 	value: StorageKV[K]
 ) {
-	if (import.meta.env.FIREFOX) {
-		try {
-			await storage.setItem(`local:${key}`, JSON.stringify(value))
-		} catch {
-			await storage.setItem(`local:${key}`, value)
-		}
-	} else await storage.setItem(`local:${key}`, value)
+	lastKnownValues.set(key, serialize(value))
+
+	await storage.setItem(`local:${key}`, value)
 }
 
 export async function getFromStorage<K extends keyof StorageKV>(
 	key: K
 ): Promise<StorageKV[K] | null> {
 	const value = await storage.getItem(`local:${key}`)
-	if (typeof value === 'boolean') return value as StorageKV[K]
-	if (!value) return null
-
-	if (import.meta.env.FIREFOX) {
-		try {
-			return JSON.parse(value as StorageKV[K])
-		} catch {
-			return value as StorageKV[K]
-		}
-	}
-
-	return value as StorageKV[K]
+	return decodeValue<K>(value)
 }
 
 export async function removeFromStorage<K extends keyof StorageKV>(key: K) {
+	lastKnownValues.set(key, serialize(null))
 	await storage.removeItem(`local:${key}`)
 }
+
+export async function getStorageKeys(): Promise<(keyof StorageKV)[]> {
+	const snapshot = await storage.snapshot('local')
+	return Object.keys(snapshot).filter(
+		(key) => !key.endsWith('$')
+	) as (keyof StorageKV)[]
+}
+
+/**
+ * Subscribes to changes of a storage key made by other pages (e.g. another open new tab
+ * or the background script). Changes written by this page are not reported back.
+ * @returns {function} - A function to remove the listener.
+ */
+export function watchStorage<K extends keyof StorageKV>(
+	key: K,
+	callback: (value: StorageKV[K] | null) => void
+): () => void {
+	let listeners = storageListeners.get(key)
+	if (!listeners) {
+		const created = new Set<StorageListener>()
+		listeners = created
+		storageListeners.set(key, created)
+		storageUnwatchers.set(
+			key,
+			storage.watch(`local:${key}`, (rawValue) => {
+				const value = decodeValue<K>(rawValue)
+				const serialized = serialize(value)
+				if (lastKnownValues.get(key) === serialized) return
+
+				lastKnownValues.set(key, serialized)
+				for (const listener of created) {
+					listener(value)
+				}
+			})
+		)
+	}
+
+	listeners.add(callback)
+
+	return () => {
+		listeners.delete(callback)
+		if (listeners.size === 0) {
+			storageUnwatchers.get(key)?.()
+			storageUnwatchers.delete(key)
+			storageListeners.delete(key)
+		}
+	}
+}
@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { Note } from '@/context/notes.context'
+import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
+import type { Todo } from '@/layouts/widgets/calendar/interface/todo.interface'
+import { getFromStorage, setToStorage } from './storage'
+import { callEvent } from './utils/call-event'
+
+export const TRASH_RETENTION_DAYS = 30
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+export type TrashContent =
+	| { type: 'todo'; todo: Todo }
+	| { type: 'note'; note: Note }
+	/** The deleted bookmark or folder first, then everything inside it */
+	| { type: 'bookmark'; bookmarks: Bookmark[] }
+
+export type TrashItem = TrashContent & {
+	id: string
+	title: string
+	deletedAt: number
+}
+
+export function getTrashExpiry(item: TrashItem) {
+	return item.deletedAt + RETENTION_MS
+}
+
+/** Items in the trash, newest first. Expired items are dropped on the way. */
+export async function getTrash() {
+	const trash = (await getFromStorage('trash')) || []
+	const now = Date.now()
+	const kept = trash.filter((item) => getTrashExpiry(item) > now)
+
+	if (kept.length !== trash.length) await saveTrash(kept)
+	return kept.sort((a, b) => b.deletedAt - a.deletedAt)
+}
+
+async function saveTrash(trash: TrashItem[]) {
+	await setToStorage('trash', trash)
+	callEvent('trashChanged', trash)
+}
+
+/**
+ * Keeps a copy of a deleted item. The deletion itself still reaches the server
+ * through the usual tombstones, so purging only forgets the local copy.
+ */
+export async function moveToTrash(title: string, content: TrashContent) {
+	const item: TrashItem = { ...content, id: uuidv4(), title, deletedAt: Date.now() }
+	const trash = await getTrash()
+	await saveTrash([item, ...trash])
+
+	return item.id
+}
+
+export async function purgeTrashItem(id: string) {
+	const trash = await getTrash()
+	await saveTrash(trash.filter((item) => item.id !== id))
+}
+
+export async function emptyTrash() {
+	await saveTrash([])
+}
+
+export async function restoreTrashItem(id: string) {
+	const trash = await getTrash()
+	const item = trash.find((entry) => entry.id === id)
+	if (!item) return false
+
+	if (item.type === 'todo') await restoreTodo(item.todo)
+	else if (item.type === 'note') await restoreNote(item.note)
+	else await restoreBookmarks(item.bookmarks)
+
+	await saveTrash(trash.filter((entry) => entry.id !== id))
+	return true
+}
+
+// A tombstone that has not been synced yet is simply withdrawn. Once the server
+// has deleted the item, it comes back as a new one.
+
+async function restoreTodo(todo: Todo) {
+	const [todos, deletedTodos] = await Promise.all([
+		getFromStorage('todos'),
+		getFromStorage('deletedTodos'),
+	])
+	const list = todos || []
+	if (list.some((item) => item.id === todo.id)) return
+
+	const isPending = !!deletedTodos?.some((item) => item.id === todo.id)
+	const restored = isPending ? todo : { ...todo, onlineId: null, updatedAt: Date.now() }
+	const updatedTodos = [...list, restored]
+
+	await Promise.all([
+		setToStorage('todos', updatedTodos),
+		isPending &&
+			setToStorage(
+				'deletedTodos',
+				(deletedTodos || []).filter((item) => item.id !== todo.id)
+			),
+	])
+	callEvent('todosChanged', updatedTodos)
+	callEvent('startSync', SyncTarget.TODOS)
+}
+
+async function restoreNote(note: Note) {
+	const [notes, deletedNotes] = await Promise.all([
+		getFromStorage('notes_data'),
+		getFromStorage('deletedNotes'),
+	])
+	const list = notes || []
+	if (list.some((item) => item.id === note.id)) return
+
+	const isPending = !!deletedNotes?.some((item) => item.id === note.id)
+	const restored: Note = isPending
+		? note
+		: { ...note, onlineId: undefined, syncedAt: undefined, updatedAt: Date.now() }
+	const updatedNotes = [restored, ...list]
+
+	await Promise.all([
+		setToStorage('notes_data', updatedNotes),
+		isPending &&
+			setToStorage(
+				'deletedNotes',
+				(deletedNotes || []).filter((item) => item.id !== note.id)
+			),
+	])
+	callEvent('notesChanged', updatedNotes)
+	callEvent('startSync', SyncTarget.NOTES)
+}
+
+async function restoreBookmarks(bookmarks: Bookmark[]) {
+	const [stored, deletedIds] = await Promise.all([
+		getFromStorage('bookmarks'),
+		getFromStorage('deletedBookmarkIds'),
+	])
+	const list = stored || []
+	const restoredIds = new Set(bookmarks.map((bookmark) => bookmark.id))
+	const existingIds = new Set(list.map((bookmark) => bookmark.id))
+
+	// Like todos, a pending tombstone is withdrawn and the server copy kept. Ids
+	// leave `deletedBookmarkIds` once synced, after that the item comes back as a
+	// new one. A folder that is gone since puts them back at the root.
+	const pendingIds = new Set(deletedIds || [])
+	const restored = bookmarks
+		.filter((bookmark) => !existingIds.has(bookmark.id))
+		.map((bookmark) => ({
+			...bookmark,
+			onlineId: pendingIds.has(bookmark.id) ? bookmark.onlineId : null,
+			parentId:
+				bookmark.parentId &&
+				(existingIds.has(bookmark.parentId) || restoredIds.has(bookmark.parentId))
+					? bookmark.parentId
+					: null,
+		}))
+
+	await Promise.all([
+		setToStorage('bookmarks', [...list, ...restored]),
+		setToStorage(
+			'deletedBookmarkIds',
+			(deletedIds || []).filter((id) => !restoredIds.has(id))
+		),
+	])
+	callEvent('bookmarksChanged', restored)
+	callEvent('startSync', SyncTarget.BOOKMARKS)
+}
@@ -1,29 +1,48 @@
 import type { CurrencyColorMode } from '@/context/currency.context'
+import type { Note } from '@/context/notes.context'
 import type { Theme } from '@/context/theme.context'
 import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
-import type { SyncTarget } from '@/layouts/navbar/sync/sync'
+import type { SyncOutboxEntry } from '@/layouts/navbar/sync/sync-outbox'
+import type { SyncTarget, SyncTargetStatus } from '@/layouts/navbar/sync/sync-tasks'
+import type { TodoConflict } from '@/layouts/navbar/sync/todo-merge'
+import type { AppearanceScheduleSettings } from '@/layouts/setting/tabs/appearance/schedule/appearance-schedule'
+import type { WallpaperRotationSettings } from '@/layouts/setting/tabs/wallpapers/rotation/wallpaper-rotation'
 import type { PetTypes } from '@/layouts/widgetify-card/pets/pet.context'
 import type { Todo } from '@/layouts/widgets/calendar/interface/todo.interface'
 import type { WigiNewsSetting } from '@/layouts/widgets/news/news.interface'
+import type { NotesViewSettings } from '@/layouts/widgets/notes/notes-view'
 import type { WeatherSettings } from '@/layouts/widgets/weather/weather.interface'
 import type { ClockSettings } from '@/layouts/widgets/wigiPad/clock-display/clock-setting.interface'
 import type { WigiPadDateSetting } from '@/layouts/widgets/wigiPad/date-display/date-setting.interface'
 import type { WidgetTabKeys } from '@/layouts/widgets-settings/constant/tab-keys'
-import type { StoredWallpaper } from '../wallpaper.interface'
+import type { TrashItem } from '../trash'
+import type { StoredWallpaper, Wallpaper } from '../wallpaper.interface'
 
 export interface EventName {
 	startSync: SyncTarget
-	openSettings: 'account' | 'wallpapers' | null
+	openSettings: 'account' | 'wallpapers' | 'trash' | 'dashboards' | null
 	todosChanged: Todo[]
+	todoConflictsChanged: TodoConflict[]
+	notesChanged: Note[]
+	trashChanged: TrashItem[]
+	syncOutboxChanged: SyncOutboxEntry[]
+	syncStatusChanged: Partial<Record<SyncTarget, SyncTargetStatus>>
 	wallpaperChanged: StoredWallpaper
+	wallpaperRotationChanged: WallpaperRotationSettings
+	wallpaperFavoritesChanged: Wallpaper[]
 	openWidgetsSettings: { tab: WidgetTabKeys | null }
+	openWidgetInstanceSettings: string
 	bookmarksChanged: Bookmark[]
+	openBookmarkFolder: string
+	openTodo: string
+	openNote: string
 	updatedPetSettings: {
 		enablePets?: boolean
 		petName?: string
 		petType: PetTypes
 	}
 	themeChanged: Theme
+	appearanceScheduleChanged: AppearanceScheduleSettings
 	auth_logout: null
 
 	// setting keys
@@ -35,9 +54,13 @@ export interface EventName {
 	}
 	wigiNewsSettingsChanged: WigiNewsSetting
 	weatherSettingsChanged: WeatherSettings
+	notesViewChanged: NotesViewSettings
 }
 
 export function callEvent<K extends keyof EventName>(eventName: K, data?: EventName[K]) {
+	// The background script shares the sync code but has no window to dispatch on
+	if (typeof window === 'undefined') return
+
 	const event = new CustomEvent(eventName, { detail: data })
 	window.dispatchEvent(event)
 }
@@ -9,3 +9,13 @@ export function preloadImages(images: string[]): void {
 		img.src = src
 	})
 }
+
+/** Resolves once the image is loaded, or failed to, so it can be shown at once */
+export function preloadImage(src: string): Promise<void> {
+	return new Promise((resolve) => {
+		const img = new Image()
+		img.onload = () => resolve()
+		img.onerror = () => resolve()
+		img.src = src
+	})
+}
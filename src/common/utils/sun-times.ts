@@ -0,0 +1,55 @@
+const rad = Math.PI / 180
+const dayMs = 1000 * 60 * 60 * 24
+const J1970 = 2440588
+const J2000 = 2451545
+// Sun's upper limb touching the horizon, with atmospheric refraction
+const sunAltitude = -0.833 * rad
+const obliquity = 23.4397 * rad
+
+const toDays = (date: Date) => date.valueOf() / dayMs - 0.5 + J1970 - J2000
+const fromJulian = (julian: number) => new Date((julian + 0.5 - J1970) * dayMs)
+
+export interface SunTimes {
+	sunrise: Date
+	sunset: Date
+}
+
+/**
+ * Sunrise and sunset of the local day of `date`, computed with the usual
+ * sunrise equation (accurate to a minute or two). Null when the sun does not
+ * rise or set that day, near the poles.
+ */
+export function getSunTimes(date: Date, lat: number, lon: number): SunTimes | null {
+	const noon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12)
+	const lw = -lon * rad
+	const phi = lat * rad
+
+	const cycle = Math.round(toDays(noon) - 0.0009 - lw / (2 * Math.PI))
+	const approxTransit = 0.0009 + lw / (2 * Math.PI) + cycle
+
+	const anomaly = rad * (357.5291 + 0.98560028 * approxTransit)
+	const center =
+		rad *
+		(1.9148 * Math.sin(anomaly) +
+			0.02 * Math.sin(2 * anomaly) +
+			0.0003 * Math.sin(3 * anomaly))
+	const longitude = anomaly + center + rad * 102.9372 + Math.PI
+	const declination = Math.asin(Math.sin(longitude) * Math.sin(obliquity))
+
+	const transit = (days: number) =>
+		J2000 + days + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude)
+
+	const cosHourAngle =
+		(Math.sin(sunAltitude) - Math.sin(phi) * Math.sin(declination)) /
+		(Math.cos(phi) * Math.cos(declination))
+	if (cosHourAngle < -1 || cosHourAngle > 1) return null
+
+	const hourAngle = Math.acos(cosHourAngle)
+	const solarNoon = transit(approxTransit)
+	const set = transit(0.0009 + (hourAngle + lw) / (2 * Math.PI) + cycle)
+
+	return {
+		sunrise: fromJulian(solarNoon - (set - solarNoon)),
+		sunset: fromJulian(set),
+	}
+}
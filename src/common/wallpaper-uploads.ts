@@ -0,0 +1,133 @@
+import type { StoredWallpaper } from './wallpaper.interface'
+
+// Uploaded files live here once, keyed by wallpaper id. Every stored copy of the
+// wallpaper only keeps the id and an empty src, so storage.local stays small.
+const DB_NAME = 'widgetify'
+const STORE_NAME = 'wallpaperUploads'
+
+let database: Promise<IDBDatabase> | null = null
+const objectUrls = new Map<string, string>()
+
+function openDatabase() {
+	if (!database) {
+		database = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, 1)
+			request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => reject(request.error)
+		})
+		// Try again next time, e.g. once a private window allows it
+		database.catch(() => {
+			database = null
+		})
+	}
+	return database
+}
+
+async function runTransaction<T>(
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T> | undefined
+): Promise<T | undefined> {
+	const db = await openDatabase()
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, mode)
+		const request = run(transaction.objectStore(STORE_NAME))
+		transaction.oncomplete = () => resolve(request?.result)
+		transaction.onerror = () => reject(transaction.error)
+		transaction.onabort = () => reject(transaction.error)
+	})
+}
+
+/** False when the browser refused the file, e.g. out of quota */
+export async function saveWallpaperUpload(id: string, file: Blob) {
+	try {
+		await runTransaction('readwrite', (store) => store.put(file, id))
+		objectUrls.set(id, URL.createObjectURL(file))
+		return true
+	} catch {
+		return false
+	}
+}
+
+async function getWallpaperUploads() {
+	try {
+		const ids = ((await runTransaction('readonly', (store) => store.getAllKeys())) ||
+			[]) as string[]
+		const files = ((await runTransaction('readonly', (store) => store.getAll())) ||
+			[]) as Blob[]
+		return ids.map((id, index) => ({ id, file: files[index] }))
+	} catch {
+		return []
+	}
+}
+
+/** Deletes the uploads no wallpaper refers to anymore */
+export async function pruneWallpaperUploads(usedIds: string[]) {
+	const unused = (await getWallpaperUploads())
+		.map(({ id }) => id)
+		.filter((id) => !usedIds.includes(id))
+	if (!unused.length) return
+
+	await runTransaction('readwrite', (store) => {
+		for (const id of unused) store.delete(id)
+		return undefined
+	})
+	for (const id of unused) {
+		const url = objectUrls.get(id)
+		if (url) URL.revokeObjectURL(url)
+		objectUrls.delete(id)
+	}
+}
+
+/**
+ * The url to show a wallpaper with. Uploads kept in the database get an object
+ * url, older ones still carry their data url in src.
+ */
+export async function resolveWallpaperSrc(
+	wallpaper: Pick<StoredWallpaper, 'id' | 'type' | 'src'>
+) {
+	if (wallpaper.src || wallpaper.type === 'GRADIENT') return wallpaper.src
+
+	const cached = objectUrls.get(wallpaper.id)
+	if (cached) return cached
+
+	try {
+		const file = (await runTransaction('readonly', (store) =>
+			store.get(wallpaper.id)
+		)) as Blob | undefined
+		if (!file) return ''
+
+		const url = URL.createObjectURL(file)
+		objectUrls.set(wallpaper.id, url)
+		return url
+	} catch {
+		return ''
+	}
+}
+
+function readAsDataUrl(file: Blob) {
+	return new Promise<string>((resolve, reject) => {
+		const reader = new FileReader()
+		reader.onload = () => resolve(reader.result as string)
+		reader.onerror = () => reject(reader.error)
+		reader.readAsDataURL(file)
+	})
+}
+
+/** Backups are single files, so the uploads travel along as data urls */
+export async function exportWallpaperUploads() {
+	const uploads: Record<string, string> = {}
+	for (const { id, file } of await getWallpaperUploads()) {
+		uploads[id] = await readAsDataUrl(file)
+	}
+	return uploads
+}
+
+export async function importWallpaperUploads(uploads: Record<string, string>) {
+	for (const [id, dataUrl] of Object.entries(uploads)) {
+		if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) continue
+
+		const file = await (await fetch(dataUrl)).blob()
+		await saveWallpaperUpload(id, file)
+	}
+}
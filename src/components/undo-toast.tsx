@@ -0,0 +1,32 @@
+import toast from 'react-hot-toast'
+import { callEvent } from '@/common/utils/call-event'
+
+/** A toast offering to bring back an item that was just moved to the trash. */
+export function showUndoToast(message: string, onUndo: () => void) {
+	toast(
+		(t) => (
+			<div className="flex items-center gap-3 text-sm">
+				<span>{message}</span>
+				<button
+					onClick={() => {
+						toast.dismiss(t.id)
+						onUndo()
+					}}
+					className="px-2 py-1 text-xs font-medium rounded-lg cursor-pointer text-primary hover:bg-primary/10"
+				>
+					بازگردانی
+				</button>
+				<button
+					onClick={() => {
+						toast.dismiss(t.id)
+						callEvent('openSettings', 'trash')
+					}}
+					className="px-2 py-1 text-xs rounded-lg cursor-pointer text-muted hover:bg-base-300"
+				>
+					سطل زباله
+				</button>
+			</div>
+		),
+		{ duration: 6000 }
+	)
+}
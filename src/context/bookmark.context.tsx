@@ -2,35 +2,57 @@ import ms from 'ms'
 import React, { createContext, useEffect, useState } from 'react'
 import { toast } from 'react-hot-toast'
 import Analytics from '@/analytics'
-import { getFromStorage, setToStorage } from '@/common/storage'
+import { getFromStorage, setToStorage, watchStorage } from '@/common/storage'
+import { moveToTrash, restoreTrashItem } from '@/common/trash'
 import { callEvent, listenEvent } from '@/common/utils/call-event'
+import { showUndoToast } from '@/components/undo-toast'
 import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
-import { SyncTarget } from '@/layouts/navbar/sync/sync'
+import {
+	type BookmarkHealth,
+	runBookmarkHealthCheck,
+} from '@/layouts/bookmark/utils/bookmark-health.util'
+import { mergeBookmarkLists } from '@/layouts/navbar/sync/bookmark-merge'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
 
 const MAX_BOOKMARK_SIZE = 1.5 * 1024 * 1024
 
 export interface BookmarkStoreContext {
 	bookmarks: Bookmark[]
+	bookmarkHealth: Record<string, BookmarkHealth>
 	setBookmarks: (bookmarks: Bookmark[]) => void
 	getCurrentFolderItems: (parentId: string | null) => Bookmark[]
 	addBookmark: (bookmark: Bookmark) => void
 	editBookmark: (bookmark: Bookmark) => void
 	deleteBookmark: (id: string) => void
+	deleteBookmarks: (ids: string[]) => void
+	updateBookmarks: (changed: Bookmark[]) => void
+	checkBookmarkHealth: (
+		onProgress?: (done: number, total: number) => void
+	) => Promise<boolean>
+	importBookmarks: (bookmarks: Bookmark[]) => Promise<boolean>
 }
 
 const bookmarkContext = createContext<BookmarkStoreContext>({
 	bookmarks: [],
+	bookmarkHealth: {},
 	setBookmarks: () => {},
 	getCurrentFolderItems: () => [],
 	addBookmark: () => {},
 	editBookmark: () => {},
 	deleteBookmark: () => {},
+	deleteBookmarks: () => {},
+	updateBookmarks: () => {},
+	checkBookmarkHealth: async () => false,
+	importBookmarks: async () => false,
 })
 
 export const BookmarkProvider: React.FC<{ children: React.ReactNode }> = ({
 	children,
 }) => {
 	const [bookmarks, setBookmarks] = useState<Bookmark[] | null>(null)
+	const [bookmarkHealth, setBookmarkHealth] = useState<Record<string, BookmarkHealth>>(
+		{}
+	)
 
 	useEffect(() => {
 		const loadBookmarks = async () => {
@@ -40,42 +62,29 @@ export const BookmarkProvider: React.FC<{ children: React.ReactNode }> = ({
 			}
 		}
 		loadBookmarks()
+		getFromStorage('bookmarkHealth').then((health) => setBookmarkHealth(health || {}))
 
 		const bookEvent = listenEvent('bookmarksChanged', async (data: Bookmark[]) => {
 			if (data) {
 				const current = (await getFromStorage('bookmarks')) || []
-				const all = [...current, ...data]
-				const uniqueBookmarks = all.reduce(
-					(acc: Bookmark[], bookmark: Bookmark) => {
-						if (!acc.some((b) => b.id === bookmark.id)) {
-							acc.push(bookmark)
-						} else {
-							// update existing bookmark
-							const index = acc.findIndex(
-								(b) =>
-									b.id === bookmark.id ||
-									b.onlineId === bookmark.onlineId
-							)
-							if (index !== -1) {
-								acc[index] = {
-									...bookmark,
-									icon: bookmark.icon,
-									customImage:
-										acc[index].customImage || bookmark.customImage,
-								}
-							}
-						}
-						return acc
-					},
-					[]
-				)
+				const uniqueBookmarks = mergeBookmarkLists(current, data)
 
 				setBookmarks(uniqueBookmarks)
 			}
 		})
 
+		const bookmarksWatcher = watchStorage('bookmarks', (data) => {
+			setBookmarks(Array.isArray(data) ? data : [])
+		})
+
+		const healthWatcher = watchStorage('bookmarkHealth', (data) => {
+			setBookmarkHealth(data || {})
+		})
+
 		return () => {
 			bookEvent()
+			bookmarksWatcher()
+			healthWatcher()
 		}
 	}, [])
 
@@ -336,6 +345,27 @@ export const BookmarkProvider: React.FC<{ children: React.ReactNode }> = ({
 		}
 	}
 
+	const importBookmarks = async (imported: Bookmark[]) => {
+		const updatedBookmarks = [...(bookmarks || []), ...imported]
+
+		const testData = JSON.stringify(updatedBookmarks.filter((b) => b.isLocal))
+		if (testData.length > 5 * 1024 * 1024) {
+			toast.error(
+				'حجم بوکمارک‌ها بیش از حد مجاز است. لطفاً برخی بوکمارک‌ها را حذف کنید.'
+			)
+			return false
+		}
+
+		setBookmarks(updatedBookmarks)
+		await setToStorage(
+			'bookmarks',
+			updatedBookmarks.filter((b) => b.isLocal)
+		)
+
+		callEvent('startSync', SyncTarget.BOOKMARKS)
+		return true
+	}
+
 	const getNestedItems = (parentId: string, visited = new Set<string>()): string[] => {
 		if (!bookmarks) return []
 
@@ -380,6 +410,19 @@ export const BookmarkProvider: React.FC<{ children: React.ReactNode }> = ({
 		deletedList.push(...itemsToDelete)
 		await setToStorage('deletedBookmarkIds', deletedList)
 
+		const trashId = await moveToTrash(bookmarkToDelete.title, {
+			type: 'bookmark',
+			bookmarks: itemsToDelete
+				.map((itemId) => bookmarks.find((b) => b.id === itemId))
+				.filter((b): b is Bookmark => !!b),
+		})
+		showUndoToast(
+			bookmarkToDelete.type === 'FOLDER'
+				? 'پوشه به سطل زباله منتقل شد'
+				: 'بوکمارک به سطل زباله منتقل شد',
+			() => restoreTrashItem(trashId)
+		)
+
 		Analytics.event('delete_bookmark', {
 			bookmark_type: bookmarkToDelete.type,
 			items_deleted: itemsToDelete.length,
@@ -391,15 +434,80 @@ export const BookmarkProvider: React.FC<{ children: React.ReactNode }> = ({
 		callEvent('startSync', SyncTarget.BOOKMARKS)
 	}
 
+	/** Deletes several bookmarks at once, folders in `ids` are left alone. */
+	const deleteBookmarks = async (ids: string[]) => {
+		if (!bookmarks) return
+
+		const toDelete = bookmarks.filter(
+			(b) => b.type === 'BOOKMARK' && ids.includes(b.id)
+		)
+		if (!toDelete.length) return
+
+		const deletedIds = toDelete.map((b) => b.id)
+		const updatedBookmarks = bookmarks.filter((b) => !deletedIds.includes(b.id))
+		setBookmarks(updatedBookmarks)
+		await setToStorage(
+			'bookmarks',
+			updatedBookmarks.filter((b) => b.isLocal)
+		)
+
+		const deletedList = (await getFromStorage('deletedBookmarkIds')) || []
+		await setToStorage('deletedBookmarkIds', [...deletedList, ...deletedIds])
+
+		const trashIds: string[] = []
+		for (const bookmark of toDelete) {
+			trashIds.push(
+				await moveToTrash(bookmark.title, {
+					type: 'bookmark',
+					bookmarks: [bookmark],
+				})
+			)
+		}
+		showUndoToast(`${toDelete.length} بوکمارک به سطل زباله منتقل شد`, async () => {
+			for (const trashId of trashIds) await restoreTrashItem(trashId)
+		})
+
+		Analytics.event('delete_bookmarks', { items_deleted: toDelete.length })
+		callEvent('startSync', SyncTarget.BOOKMARKS)
+	}
+
+	const updateBookmarks = async (changed: Bookmark[]) => {
+		if (!bookmarks) return
+
+		const updatedBookmarks = bookmarks.map(
+			(b) => changed.find((item) => item.id === b.id) || b
+		)
+		setBookmarks(updatedBookmarks)
+		await setToStorage(
+			'bookmarks',
+			updatedBookmarks.filter((b) => b.isLocal)
+		)
+
+		callEvent('startSync', SyncTarget.BOOKMARKS)
+	}
+
+	const checkBookmarkHealth = async (
+		onProgress?: (done: number, total: number) => void
+	) => {
+		const results = await runBookmarkHealthCheck({ maxAge: 0, onProgress })
+		if (results) setBookmarkHealth(results)
+		return !!results
+	}
+
 	return (
 		<bookmarkContext.Provider
 			value={{
 				bookmarks: bookmarks || [],
+				bookmarkHealth,
 				setBookmarks,
 				getCurrentFolderItems,
 				addBookmark,
 				editBookmark,
 				deleteBookmark,
+				deleteBookmarks,
+				updateBookmarks,
+				checkBookmarkHealth,
+				importBookmarks,
 			}}
 		>
 			{children}
@@ -1,6 +1,7 @@
 import React, { createContext, useEffect, useState } from 'react'
 import { getFromStorage, setToStorage } from '@/common/storage'
 import { listenEvent } from '@/common/utils/call-event'
+import { useWidgetInstance } from './widget-instance.context'
 
 export interface StoreContext {
 	selectedCurrencies: Array<string>
@@ -24,12 +25,17 @@ export const currencyContext = createContext<StoreContext>({
 export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({
 	children,
 }) => {
+	const instance = useWidgetInstance()
+	const ownSettings = instance?.ownSettings
 	const [selectedCurrencies, setSelectedCurrencies] = useState<string[] | null>(null)
 	const [currencyColorMode, setCurrencyColorMode] = useState<CurrencyColorMode | null>(
 		null
 	)
 
 	useEffect(() => {
+		// Extra widget instances keep their own list
+		if (ownSettings) return
+
 		async function load() {
 			const [storedCurrencies, currencyColorMode] = await Promise.all([
 				getFromStorage('currencies'),
@@ -70,6 +76,24 @@ export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({
 		save()
 	}, [currencyColorMode])
 
+	if (instance && ownSettings) {
+		return (
+			<currencyContext.Provider
+				value={{
+					selectedCurrencies: ownSettings.currencies ?? [],
+					setSelectedCurrencies: (currencies) =>
+						instance.updateSettings({ currencies }),
+					currencyColorMode:
+						ownSettings.currencyColorMode || CurrencyColorMode.NORMAL,
+					setCurrencyColorMode: (currencyColorMode) =>
+						instance.updateSettings({ currencyColorMode }),
+				}}
+			>
+				{children}
+			</currencyContext.Provider>
+		)
+	}
+
 	return (
 		<currencyContext.Provider
 			value={{
@@ -0,0 +1,274 @@
+import {
+	createContext,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useRef,
+	useState,
+} from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import Analytics from '@/analytics'
+import {
+	getFromStorage,
+	removeFromStorage,
+	setToStorage,
+	watchStorage,
+} from '@/common/storage'
+import { callEvent } from '@/common/utils/call-event'
+import type { StoredWallpaper } from '@/common/wallpaper.interface'
+import type { WidgetInstance } from './widget-instance.context'
+import { getDefaultInstances, useWidgetVisibility } from './widget-visibility.context'
+
+export interface DashboardSchedule {
+	/** Weekdays as in Date.getDay(), every day when empty */
+	days: number[]
+	/** HH:mm, the whole day when both are empty. `to` may pass midnight */
+	from: string
+	to: string
+}
+
+export interface Dashboard {
+	id: string
+	name: string
+	emoji: string
+	/** Folder shown as the bookmarks root, all bookmarks when null */
+	bookmarkRootId: string | null
+	schedule: DashboardSchedule | null
+	// The active dashboard lives in activeWidgets and wallpaper, these are
+	// its copies from the last time it was switched away from
+	widgets?: WidgetInstance[]
+	wallpaper?: StoredWallpaper
+}
+
+export interface DashboardsState {
+	dashboards: Dashboard[]
+	activeId: string
+}
+
+export type DashboardChanges = Partial<
+	Pick<Dashboard, 'name' | 'emoji' | 'bookmarkRootId' | 'schedule'>
+>
+
+const defaultDashboardsState: DashboardsState = {
+	dashboards: [
+		{
+			id: 'default',
+			name: 'اصلی',
+			emoji: '🏠',
+			bookmarkRootId: null,
+			schedule: null,
+		},
+	],
+	activeId: 'default',
+}
+
+const toMinutes = (time: string) => {
+	const [hours, minutes] = time.split(':').map(Number)
+	return hours * 60 + (minutes || 0)
+}
+
+export function matchesSchedule(schedule: DashboardSchedule, date: Date) {
+	if (schedule.days.length && !schedule.days.includes(date.getDay())) return false
+	if (!schedule.from && !schedule.to) return true
+
+	const now = date.getHours() * 60 + date.getMinutes()
+	const from = schedule.from ? toMinutes(schedule.from) : 0
+	const to = schedule.to ? toMinutes(schedule.to) : 24 * 60
+
+	return from <= to ? now >= from && now < to : now >= from || now < to
+}
+
+/** The first dashboard whose schedule covers the date, in the user's order */
+export function findScheduledDashboard(dashboards: Dashboard[], date: Date) {
+	return (
+		dashboards.find(
+			(dashboard) => dashboard.schedule && matchesSchedule(dashboard.schedule, date)
+		) || null
+	)
+}
+
+type SwitchSource = 'navbar' | 'keyboard' | 'schedule' | 'settings'
+
+interface DashboardContextType {
+	dashboards: Dashboard[]
+	activeDashboard: Dashboard
+	switchDashboard: (id: string, source: SwitchSource) => Promise<void>
+	addDashboard: (name: string, emoji: string) => Promise<void>
+	updateDashboard: (id: string, changes: DashboardChanges) => void
+	removeDashboard: (id: string) => void
+}
+
+const DashboardContext = createContext<DashboardContextType | null>(null)
+
+export function DashboardProvider({ children }: { children: ReactNode }) {
+	const { instances, widgetsLoaded, loadWidgets } = useWidgetVisibility()
+	const [state, setState] = useState<DashboardsState>(defaultDashboardsState)
+	const [loaded, setLoaded] = useState(false)
+
+	useEffect(() => {
+		getFromStorage('dashboards').then((stored) => {
+			if (stored?.dashboards.length) setState(stored)
+			setLoaded(true)
+		})
+
+		return watchStorage('dashboards', (stored) => {
+			if (stored?.dashboards.length) setState(stored)
+		})
+	}, [])
+
+	const saveState = (next: DashboardsState) => {
+		setState(next)
+		setToStorage('dashboards', next)
+	}
+
+	const activeDashboard =
+		state.dashboards.find((dashboard) => dashboard.id === state.activeId) ||
+		state.dashboards[0]
+
+	const applyDashboard = (dashboard: Dashboard) => {
+		loadWidgets(dashboard.widgets || getDefaultInstances())
+		if (dashboard.wallpaper) callEvent('wallpaperChanged', dashboard.wallpaper)
+	}
+
+	const switchDashboard = async (id: string, source: SwitchSource) => {
+		if (!widgetsLoaded) return
+
+		// Another tab may have switched or edited dashboards since this state was read
+		const [stored, wallpaper] = await Promise.all([
+			getFromStorage('dashboards'),
+			getFromStorage('wallpaper'),
+		])
+		const current = stored?.dashboards.length ? stored : state
+		const active =
+			current.dashboards.find((dashboard) => dashboard.id === current.activeId) ||
+			current.dashboards[0]
+		const target = current.dashboards.find((dashboard) => dashboard.id === id)
+		if (!target || target.id === active.id) return
+
+		saveState({
+			activeId: target.id,
+			dashboards: current.dashboards.map((dashboard) =>
+				dashboard.id === active.id
+					? {
+							...dashboard,
+							widgets: instances,
+							...(wallpaper && { wallpaper }),
+						}
+					: dashboard
+			),
+		})
+		applyDashboard(target)
+		Analytics.event('dashboard_switched', { source })
+	}
+
+	const addDashboard = async (name: string, emoji: string) => {
+		const wallpaper = await getFromStorage('wallpaper')
+		saveState({
+			...state,
+			dashboards: [
+				...state.dashboards,
+				{
+					id: uuidv4(),
+					name,
+					emoji,
+					bookmarkRootId: null,
+					schedule: null,
+					widgets: getDefaultInstances(),
+					...(wallpaper && { wallpaper }),
+				},
+			],
+		})
+		Analytics.event('dashboard_added')
+	}
+
+	const updateDashboard = (id: string, changes: DashboardChanges) => {
+		saveState({
+			...state,
+			dashboards: state.dashboards.map((dashboard) =>
+				dashboard.id === id ? { ...dashboard, ...changes } : dashboard
+			),
+		})
+	}
+
+	const removeDashboard = (id: string) => {
+		const dashboards = state.dashboards.filter((dashboard) => dashboard.id !== id)
+		if (!dashboards.length || dashboards.length === state.dashboards.length) return
+
+		if (id === activeDashboard.id) {
+			saveState({ dashboards, activeId: dashboards[0].id })
+			applyDashboard(dashboards[0])
+		} else {
+			saveState({ ...state, dashboards })
+		}
+		Analytics.event('dashboard_removed')
+	}
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (!event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return
+
+			// By code, so it works with the Persian layout too
+			const match = event.code.match(/^(?:Digit|Numpad)([1-9])$/)
+			const target = match && state.dashboards[Number(match[1]) - 1]
+			if (!target) return
+
+			event.preventDefault()
+			switchDashboard(target.id, 'keyboard')
+		}
+
+		window.addEventListener('keydown', handleKeyDown)
+		return () => window.removeEventListener('keydown', handleKeyDown)
+	}, [state, instances, widgetsLoaded])
+
+	// The schedule check runs on a timer, it must switch with the current widgets
+	const switchDashboardRef = useRef(switchDashboard)
+	switchDashboardRef.current = switchDashboard
+
+	useEffect(() => {
+		if (!loaded || !widgetsLoaded) return
+
+		// Only follow the schedule when the scheduled dashboard changes, so picking
+		// another one by hand sticks until the next slot, in this tab and in new ones
+		const checkSchedule = async () => {
+			const stored = await getFromStorage('dashboards')
+			const scheduled = findScheduledDashboard(stored?.dashboards || [], new Date())
+			const applied = await getFromStorage('dashboardScheduleApplied')
+			if ((scheduled?.id ?? null) === applied) return
+
+			if (!scheduled) {
+				await removeFromStorage('dashboardScheduleApplied')
+				return
+			}
+
+			await setToStorage('dashboardScheduleApplied', scheduled.id)
+			switchDashboardRef.current(scheduled.id, 'schedule')
+		}
+
+		checkSchedule()
+		const interval = setInterval(checkSchedule, 60 * 1000)
+		return () => clearInterval(interval)
+	}, [loaded, widgetsLoaded])
+
+	return (
+		<DashboardContext.Provider
+			value={{
+				dashboards: state.dashboards,
+				activeDashboard,
+				switchDashboard,
+				addDashboard,
+				updateDashboard,
+				removeDashboard,
+			}}
+		>
+			{children}
+		</DashboardContext.Provider>
+	)
+}
+
+export function useDashboards() {
+	const context = useContext(DashboardContext)
+	if (!context) {
+		throw new Error('useDashboards must be used within a DashboardProvider')
+	}
+	return context
+}
@@ -70,10 +70,6 @@ export function GeneralSettingProvider({ children }: { children: React.ReactNode
 					setSettings({
 						...DEFAULT_SETTINGS,
 						...storedSettings,
-						selected_timezone:
-							typeof storedSettings.selected_timezone === 'string'
-								? DEFAULT_SETTINGS.selected_timezone
-								: storedSettings.selected_timezone,
 						browserBookmarksEnabled: browserBookmarksEnabled,
 						browserTabsEnabled: browserTabsEnabled,
 						selectedCity: {
@@ -1,4 +1,3 @@
-import type { AxiosError } from 'axios'
 import {
 	createContext,
 	type ReactNode,
@@ -7,25 +6,23 @@ import {
 	useRef,
 	useState,
 } from 'react'
-import toast from 'react-hot-toast'
+import { v4 as uuidv4 } from 'uuid'
 import Analytics from '@/analytics'
-import { getFromStorage, setToStorage } from '@/common/storage'
-import { sleep } from '@/common/utils/timeout'
-import { safeAwait } from '@/services/api'
-import {
-	deleteNote,
-	type FetchedNote,
-	getNotes,
-	upsertNote,
-} from '@/services/note/note-api'
-import { translateError } from '@/utils/translate-error'
+import { getFromStorage, setToStorage, watchStorage } from '@/common/storage'
+import { moveToTrash, restoreTrashItem } from '@/common/trash'
+import { callEvent, listenEvent } from '@/common/utils/call-event'
+import { showUndoToast } from '@/components/undo-toast'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
 
 export interface Note {
 	id: string
+	onlineId?: string | null
 	title: string
 	body: string
 	createdAt: number
 	updatedAt: number
+	/** `updatedAt` of the version last confirmed by the server */
+	syncedAt?: number
 }
 
 interface NotesContextType {
@@ -36,119 +33,120 @@ interface NotesContextType {
 	updateNote: (id: string, updates: Partial<Note>) => void
 	deleteNote: (id: string) => void
 	isSaving: boolean
-	isCreatingNote: boolean
 }
 
 const NotesContext = createContext<NotesContextType | undefined>(undefined)
 
+const SYNC_DEBOUNCE_TIME = 2500
+
 export function NotesProvider({ children }: { children: ReactNode }) {
 	const [notes, setNotes] = useState<Note[]>([])
 	const [activeNoteId, setActiveNoteId] = useState<string | null>(null)
 	const [isSaving, setIsSaving] = useState(false)
-	const [isCreatingNote, setIsCreatingNote] = useState(false)
-	const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+	const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
 	useEffect(() => {
 		async function loadNotes() {
 			const storedNotes = await getFromStorage('notes_data')
-			if (storedNotes && Array.isArray(storedNotes) && storedNotes.length > 0) {
+			if (Array.isArray(storedNotes)) {
 				setNotes(storedNotes)
 			}
-
-			await sleep(1000)
-			setIsSaving(true)
-			const [error, fetchedNotes] = await safeAwait<AxiosError, FetchedNote[]>(
-				getNotes()
-			)
-			setIsSaving(false)
-			if (!error) {
-				setNotes(fetchedNotes)
-			}
 		}
 
 		loadNotes()
-	}, [])
 
-	const addNote = async () => {
-		if (isCreatingNote) return
+		const notesChangedEvent = listenEvent('notesChanged', (updatedNotes) => {
+			setNotes(Array.isArray(updatedNotes) ? updatedNotes : [])
+		})
 
-		setIsCreatingNote(true)
+		const notesWatcher = watchStorage('notes_data', (storedNotes) => {
+			setNotes(Array.isArray(storedNotes) ? storedNotes : [])
+		})
 
-		const newNote: Note = {
-			id: '',
-			title: '',
-			body: '',
-			createdAt: Date.now(),
-			updatedAt: Date.now(),
+		const openNoteEvent = listenEvent('openNote', setActiveNoteId)
+
+		return () => {
+			notesChangedEvent()
+			notesWatcher()
+			openNoteEvent()
+			if (syncTimeoutRef.current) {
+				clearTimeout(syncTimeoutRef.current)
+			}
 		}
+	}, [])
 
-		const [er, createdNote] = await safeAwait<AxiosError, FetchedNote>(
-			upsertNote(newNote)
-		)
+	const saveNotes = async (updatedNotes: Note[]) => {
+		setNotes(updatedNotes)
+		await setToStorage('notes_data', updatedNotes)
+	}
 
-		setIsCreatingNote(false)
+	const requestSync = () => {
+		callEvent('startSync', SyncTarget.NOTES)
+	}
 
-		if (er) {
-			return
+	const addNote = async () => {
+		const now = Date.now()
+		const newNote: Note = {
+			id: uuidv4(),
+			onlineId: null,
+			title: '',
+			body: '',
+			createdAt: now,
+			updatedAt: now,
 		}
 
-		setNotes((prevNotes) => {
-			const updatedNotes = [createdNote, ...prevNotes]
-			setToStorage('notes_data', updatedNotes)
-			return updatedNotes
-		})
-		setActiveNoteId(createdNote.id)
+		await saveNotes([newNote, ...notes])
+		setActiveNoteId(newNote.id)
+		requestSync()
 		Analytics.event('add_notes')
 	}
 
-	const updateNote = (id: string, updates: Partial<Note>) => {
-		setIsSaving(true)
+	const updateNote = async (id: string, updates: Partial<Note>) => {
+		const current = (await getFromStorage('notes_data')) || notes
+		const updatedNotes = current.map((note) =>
+			note.id === id
+				? {
+						...note,
+						title: updates.title ?? note.title,
+						body: updates.body ?? note.body,
+						updatedAt: Date.now(),
+					}
+				: note
+		)
+		await saveNotes(updatedNotes)
 
-		if (saveTimeoutRef.current) {
-			clearTimeout(saveTimeoutRef.current)
+		// Typing produces a stream of updates, push only once it settles
+		setIsSaving(true)
+		if (syncTimeoutRef.current) {
+			clearTimeout(syncTimeoutRef.current)
 		}
-
-		saveTimeoutRef.current = setTimeout(async () => {
+		syncTimeoutRef.current = setTimeout(() => {
 			Analytics.event('update_notes')
-			const [error, updatedNote] = await safeAwait<AxiosError, FetchedNote>(
-				upsertNote({
-					title: updates.title || null,
-					body: updates.body || null,
-					id,
-				})
-			)
 			setIsSaving(false)
-			if (error) {
-				const translatedError = translateError(error)
-				if (typeof translatedError === 'string') {
-					return toast.error(translatedError)
-				}
-				const key = Object.keys(translatedError)[0]
-				return toast.error(`${key}: ${translatedError[key]}`)
-			}
-
-			// update notes
-			const updatedNotes = notes.map((note) =>
-				note.id === id ? updatedNote : note
-			)
-
-			await setToStorage('notes_data', updatedNotes)
-		}, 2500)
+			requestSync()
+		}, SYNC_DEBOUNCE_TIME)
 	}
 
 	const onDeleteNote = async (id: string) => {
-		const existingNote = notes.findIndex((note) => note.id === id)
-		if (existingNote !== -1) {
-			setIsSaving(true)
-			const updatedNotes = [...notes]
-			updatedNotes.splice(existingNote, 1)
-			setNotes(updatedNotes)
+		const note = notes.find((note) => note.id === id)
+		if (note) {
 			setActiveNoteId(null)
+			await saveNotes(notes.filter((item) => item.id !== id))
 
-			await safeAwait(deleteNote(id))
+			if (note.onlineId) {
+				const deletedNotes = (await getFromStorage('deletedNotes')) || []
+				deletedNotes.push(note)
+				await setToStorage('deletedNotes', deletedNotes)
+				requestSync()
+			}
 
-			await setToStorage('notes_data', updatedNotes)
-			setIsSaving(false)
+			const trashId = await moveToTrash(note.title || 'یادداشت بدون عنوان', {
+				type: 'note',
+				note,
+			})
+			showUndoToast('یادداشت به سطل زباله منتقل شد', () =>
+				restoreTrashItem(trashId)
+			)
 		}
 		Analytics.event('delete_notes')
 	}
@@ -163,7 +161,6 @@ export function NotesProvider({ children }: { children: ReactNode }) {
 				updateNote,
 				deleteNote: onDeleteNote,
 				isSaving,
-				isCreatingNote,
 			}}
 		>
 			{children}
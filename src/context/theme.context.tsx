@@ -1,7 +1,7 @@
 import type React from 'react'
 import { createContext, useContext, useEffect, useState } from 'react'
 import Analytics from '@/analytics'
-import { getFromStorage, setToStorage } from '@/common/storage'
+import { getFromStorage, setToStorage, watchStorage } from '@/common/storage'
 import { listenEvent } from '@/common/utils/call-event'
 import { useUpdateExtensionSettings } from '@/services/hooks/extension/updateSetting.hook'
 import { useAuth } from './auth.context'
@@ -45,8 +45,15 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
 			applyThemeChange(newTheme)
 		})
 
+		const themeWatcher = watchStorage('theme', (newTheme) => {
+			if (!newTheme) return
+			setTheme(newTheme)
+			document.documentElement.setAttribute('data-theme', newTheme)
+		})
+
 		return () => {
 			event()
+			themeWatcher()
 		}
 	}, [])
 
@@ -1,23 +1,35 @@
 import type React from 'react'
 import { createContext, useContext, useEffect, useRef, useState } from 'react'
 import { v4 as uuidv4 } from 'uuid'
-import { getFromStorage, setToStorage } from '@/common/storage'
+import { getFromStorage, setToStorage, watchStorage } from '@/common/storage'
+import { moveToTrash, restoreTrashItem } from '@/common/trash'
 import { callEvent, listenEvent } from '@/common/utils/call-event'
-import { SyncTarget } from '@/layouts/navbar/sync/sync'
-import type { Todo } from '@/layouts/widgets/calendar/interface/todo.interface'
+import { showUndoToast } from '@/components/undo-toast'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
+import type {
+	Todo,
+	TodoRecurrence,
+} from '@/layouts/widgets/calendar/interface/todo.interface'
+import { reconcileTodoHistory } from '@/layouts/widgets/todos/todo-history'
 
 export enum TodoViewType {
 	Day = 'day',
 	Monthly = 'monthly',
 	All = 'all',
+	Board = 'board',
 }
 export enum TodoPriority {
 	Low = 'low',
 	Medium = 'medium',
 	High = 'high',
 }
+export type TodoBoardGroupBy = 'status' | 'category'
+
 export interface TodoOptions {
 	viewMode: TodoViewType
+	boardGroupBy?: TodoBoardGroupBy
+	/** Max cards per board column, keyed by `${groupBy}:${column}` */
+	wipLimits?: Record<string, number>
 }
 export interface AddTodoInput {
 	text: string
@@ -25,6 +37,9 @@ export interface AddTodoInput {
 	priority?: TodoPriority
 	category?: string
 	notes?: string
+	recurrence?: TodoRecurrence | null
+	dueTime?: string | null
+	reminders?: number[]
 }
 
 interface TodoContextType {
@@ -32,11 +47,12 @@ interface TodoContextType {
 	addTodo: (input: AddTodoInput) => void
 	todoOptions: TodoOptions
 	removeTodo: (id: string) => void
-	toggleTodo: (id: string) => void
+	toggleTodo: (id: string, occurrenceDate?: string) => void
 	updateTodo: (id: string, updates: Partial<Omit<Todo, 'id'>>) => void
 	clearCompleted: (date?: string) => void
 	updateOptions: (options: Partial<TodoOptions>) => void
 	reorderTodos: (todos: Todo[]) => void
+	importTodos: (todos: Todo[]) => void
 	showNewBadge: boolean
 }
 
@@ -63,12 +79,7 @@ export function TodoProvider({ children }: { children: React.ReactNode }) {
 				setShowNewBadge(true)
 			}
 
-			const migratedTodos = (todos || []).map((todo: Todo, index: number) => ({
-				...todo,
-				order: todo.order !== undefined ? todo.order : index,
-			}))
-
-			setTodos(migratedTodos)
+			setTodos(todos || [])
 			if (todoOptions) {
 				setTodoOptions(todoOptions)
 			} else {
@@ -92,16 +103,22 @@ export function TodoProvider({ children }: { children: React.ReactNode }) {
 			}
 		})
 
+		const todosWatcher = watchStorage('todos', (todoList) => {
+			setTodos(todoList || [])
+		})
+
 		load()
 
 		return () => {
 			todosChangedEvent()
+			todosWatcher()
 		}
 	}, [])
 
 	useEffect(() => {
 		if (todos === null) return
 		setToStorage('todos', todos)
+		reconcileTodoHistory(todos)
 	}, [todos])
 
 	useEffect(() => {
@@ -140,6 +157,10 @@ export function TodoProvider({ children }: { children: React.ReactNode }) {
 				notes: input.notes || '',
 				onlineId: null,
 				order: maxOrder + 1,
+				updatedAt: Date.now(),
+				recurrence: input.recurrence || null,
+				dueTime: input.dueTime || null,
+				reminders: input.dueTime ? input.reminders || [] : [],
 			},
 		])
 		callEvent('startSync', SyncTarget.TODOS)
@@ -162,14 +183,41 @@ export function TodoProvider({ children }: { children: React.ReactNode }) {
 			setToStorage('deletedTodos', deletedTodos)
 			callEvent('startSync', SyncTarget.TODOS)
 		}
+
+		const trashId = await moveToTrash(todo.text, { type: 'todo', todo })
+		showUndoToast('وظیفه به سطل زباله منتقل شد', () => restoreTrashItem(trashId))
 	}
 
-	const toggleTodo = (id: string) => {
+	const toggleTodo = (id: string, occurrenceDate?: string) => {
 		setTodos((prev) => {
 			if (!prev) return null
-			return prev.map((todo) =>
-				todo.id === id ? { ...todo, completed: !todo.completed } : todo
-			)
+			return prev.map((todo) => {
+				if (todo.id !== id) return todo
+
+				// Recurring todos are completed one occurrence at a time
+				if (todo.recurrence && occurrenceDate) {
+					const completedDates = todo.completedDates || []
+					return {
+						...todo,
+						completedDates: completedDates.includes(occurrenceDate)
+							? completedDates.filter((date) => date !== occurrenceDate)
+							: [...completedDates, occurrenceDate].sort(),
+						updatedAt: Date.now(),
+					}
+				}
+
+				const completed = !todo.completed
+				return {
+					...todo,
+					completed,
+					status: completed
+						? 'done'
+						: todo.status === 'done'
+							? 'todo'
+							: todo.status,
+					updatedAt: Date.now(),
+				}
+			})
 		})
 		callEvent('startSync', SyncTarget.TODOS)
 	}
@@ -177,27 +225,55 @@ export function TodoProvider({ children }: { children: React.ReactNode }) {
 	const updateTodo = (id: string, updates: Partial<Omit<Todo, 'id'>>) => {
 		setTodos((prev) => {
 			if (!prev) return null
-			return prev.map((todo) => (todo.id === id ? { ...todo, ...updates } : todo))
+			return prev.map((todo) =>
+				todo.id === id ? { ...todo, ...updates, updatedAt: Date.now() } : todo
+			)
 		})
 		callEvent('startSync', SyncTarget.TODOS)
 	}
 
-	const clearCompleted = (date?: string) => {
+	const clearCompleted = async (date?: string) => {
+		const cleared = (todos || []).filter(
+			(todo) => todo.completed && (!date || todo.date === date)
+		)
+		if (!cleared.length) return
+
+		const clearedIds = new Set(cleared.map((todo) => todo.id))
 		setTodos((prev) => {
 			if (!prev) return null
-			return prev.filter((todo) => !todo.completed || (date && todo.date !== date))
+			return prev.filter((todo) => !clearedIds.has(todo.id))
+		})
+
+		const synced = cleared.filter((todo) => todo.onlineId)
+		if (synced.length) {
+			const old = await getFromStorage('deletedTodos')
+			setToStorage('deletedTodos', [...(old || []), ...synced])
+			callEvent('startSync', SyncTarget.TODOS)
+		}
+
+		// One after another, each move rewrites the whole trash
+		const trashIds: string[] = []
+		for (const todo of cleared) {
+			trashIds.push(await moveToTrash(todo.text, { type: 'todo', todo }))
+		}
+		showUndoToast(`${cleared.length} وظیفه به سطل زباله منتقل شد`, async () => {
+			for (const trashId of trashIds) await restoreTrashItem(trashId)
 		})
 	}
 
 	const reorderTodos = (newTodos: Todo[]) => {
-		const todosWithOrder = newTodos.map((todo, index) => ({
-			...todo,
-			order: index,
-		}))
+		const todosWithOrder = newTodos.map((todo, index) =>
+			todo.order === index ? todo : { ...todo, order: index, updatedAt: Date.now() }
+		)
 		setTodos(todosWithOrder)
 		callEvent('startSync', SyncTarget.TODOS)
 	}
 
+	const importTodos = (imported: Todo[]) => {
+		setTodos((prev) => [...(prev || []), ...imported])
+		callEvent('startSync', SyncTarget.TODOS)
+	}
+
 	return (
 		<TodoContext.Provider
 			value={{
@@ -210,6 +286,7 @@ export function TodoProvider({ children }: { children: React.ReactNode }) {
 				updateOptions,
 				todoOptions,
 				reorderTodos,
+				importTodos,
 				showNewBadge,
 			}}
 		>
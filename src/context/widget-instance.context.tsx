@@ -0,0 +1,58 @@
+import { createContext, type ReactNode, useContext } from 'react'
+import type { StorageKV } from '@/common/constant/store.key'
+import type { GridBreakpoint, WidgetSize } from '@/layouts/widgets/grid/widget-grid'
+import type { WidgetKeys } from './widget-visibility.context'
+
+/** Own copies of the storage keys a widget normally shares */
+export type WidgetInstanceSettings = Partial<StorageKV>
+
+export interface WidgetInstance {
+	/** The first instance of a widget keeps the widget key as its id */
+	id: string
+	type: WidgetKeys
+	order: number
+	settings?: WidgetInstanceSettings
+	/** Span in the widget grid, kept separately for each screen width */
+	sizes?: Partial<Record<GridBreakpoint, WidgetSize>>
+}
+
+/** Extra instances keep their settings in the instance instead of the shared keys */
+export function isExtraInstance(instance: WidgetInstance) {
+	return instance.id !== instance.type
+}
+
+interface WidgetInstanceContextType {
+	instance: WidgetInstance
+	/** Null when the widget reads and writes the shared storage keys */
+	ownSettings: WidgetInstanceSettings | null
+	updateSettings: (settings: WidgetInstanceSettings) => void
+}
+
+const WidgetInstanceContext = createContext<WidgetInstanceContextType | null>(null)
+
+export function WidgetInstanceProvider({
+	instance,
+	onUpdateSettings,
+	children,
+}: {
+	instance: WidgetInstance
+	onUpdateSettings: (id: string, settings: WidgetInstanceSettings) => void
+	children: ReactNode
+}) {
+	return (
+		<WidgetInstanceContext.Provider
+			value={{
+				instance,
+				ownSettings: isExtraInstance(instance) ? instance.settings || {} : null,
+				updateSettings: (settings) => onUpdateSettings(instance.id, settings),
+			}}
+		>
+			{children}
+		</WidgetInstanceContext.Provider>
+	)
+}
+
+/** The instance a widget is rendered as, null outside the widget grid */
+export function useWidgetInstance() {
+	return useContext(WidgetInstanceContext)
+}
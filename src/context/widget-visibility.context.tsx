@@ -7,10 +7,13 @@ import {
 	useState,
 } from 'react'
 import toast from 'react-hot-toast'
+import { v4 as uuidv4 } from 'uuid'
 import Analytics from '@/analytics'
-import { getFromStorage, setToStorage } from '@/common/storage'
+import type { StorageKV } from '@/common/constant/store.key'
+import { getFromStorage, setToStorage, watchStorage } from '@/common/storage'
 import CalendarLayout from '@/layouts/widgets/calendar/calendar'
 import { ComboWidget } from '@/layouts/widgets/comboWidget/combo-widget.layout'
+import type { GridBreakpoint, WidgetSize } from '@/layouts/widgets/grid/widget-grid'
 import { NetworkLayout } from '@/layouts/widgets/network/network.layout'
 import { NewsLayout } from '@/layouts/widgets/news/news.layout'
 import { NotesLayout } from '@/layouts/widgets/notes/notes.layout'
@@ -21,6 +24,7 @@ import { WigiArzLayout } from '@/layouts/widgets/wigiArz/wigi_arz.layout'
 import { YouTubeLayout } from '@/layouts/widgets/youtube/youtube.layout'
 import { useAuth } from './auth.context'
 import { CurrencyProvider } from './currency.context'
+import type { WidgetInstance, WidgetInstanceSettings } from './widget-instance.context'
 
 export enum WidgetKeys {
 	comboWidget = 'comboWidget',
@@ -43,6 +47,10 @@ export interface WidgetItem {
 	order: number
 	canToggle?: boolean
 	isNew?: boolean
+	/** Can be added more than once, each instance with its own settings */
+	multiInstance?: boolean
+	/** Shared keys that extra instances keep their own copy of */
+	sharedSettingKeys?: (keyof StorageKV)[]
 }
 
 export const widgetItems: WidgetItem[] = [
@@ -77,6 +85,8 @@ export const widgetItems: WidgetItem[] = [
 		order: 3,
 		node: <WeatherLayout />,
 		canToggle: true,
+		multiInstance: true,
+		sharedSettingKeys: ['weatherSettings', 'selectedCity'],
 	},
 	{
 		id: WidgetKeys.comboWidget,
@@ -101,6 +111,8 @@ export const widgetItems: WidgetItem[] = [
 			</CurrencyProvider>
 		),
 		canToggle: true,
+		multiInstance: true,
+		sharedSettingKeys: ['currencies', 'currencyColorMode'],
 	},
 	{
 		id: WidgetKeys.news,
@@ -109,6 +121,8 @@ export const widgetItems: WidgetItem[] = [
 		order: 6,
 		node: <NewsLayout inComboWidget={false} />,
 		canToggle: true,
+		multiInstance: true,
+		sharedSettingKeys: ['rss_news_state', 'news_filter_sort_state'],
 	},
 
 	{
@@ -118,6 +132,8 @@ export const widgetItems: WidgetItem[] = [
 		order: 7,
 		node: <NotesLayout />,
 		canToggle: true,
+		multiInstance: true,
+		sharedSettingKeys: ['notesView'],
 	},
 	{
 		id: WidgetKeys.youtube,
@@ -139,10 +155,28 @@ export const widgetItems: WidgetItem[] = [
 ]
 
 interface WidgetVisibilityContextType {
+	/** Widgets with at least one instance on the page */
 	visibility: WidgetKeys[]
+	instances: WidgetInstance[]
+	widgetsLoaded: boolean
+	/** Replaces the whole widget set, used when switching dashboards */
+	loadWidgets: (widgets: WidgetInstance[]) => void
 	toggleWidget: (widgetId: WidgetKeys) => void
+	addWidgetInstance: (widgetId: WidgetKeys) => void
+	removeWidgetInstance: (instanceId: string) => void
+	updateInstanceSettings: (instanceId: string, settings: WidgetInstanceSettings) => void
+	resizeWidget: (
+		instanceId: string,
+		breakpoint: GridBreakpoint,
+		size: WidgetSize
+	) => void
 	reorderWidgets: (sourceIndex: number, destinationIndex: number) => void
-	getSortedWidgets: () => WidgetItem[]
+	getSortedWidgets: () => ActiveWidget[]
+}
+
+export interface ActiveWidget {
+	instance: WidgetInstance
+	item: WidgetItem
 }
 
 const defaultVisibility: WidgetKeys[] = [
@@ -157,119 +191,174 @@ const WidgetVisibilityContext = createContext<WidgetVisibilityContextType | unde
 	undefined
 )
 
-const getDefaultWidgetOrders = (): Record<WidgetKeys, number> => {
-	const orders: Record<WidgetKeys, number> = {} as Record<WidgetKeys, number>
-	for (const item of widgetItems) {
-		orders[item.id] = item.order
-	}
-	return orders
-}
+const getDefaultOrder = (widgetId: WidgetKeys) =>
+	widgetItems.find((item) => item.id === widgetId)?.order ?? widgetItems.length
+
+export const getDefaultInstances = (): WidgetInstance[] =>
+	defaultVisibility.map((id) => ({ id, type: id, order: getDefaultOrder(id) }))
+
+// Stored widgets may name a widget this version no longer has
+const withKnownWidgets = (stored: WidgetInstance[]) =>
+	stored.filter((instance) => widgetItems.some((item) => item.id === instance.type))
 
 export function WidgetVisibilityProvider({ children }: { children: ReactNode }) {
-	const [visibility, setVisibility] = useState<WidgetKeys[]>([])
-	const [widgetOrders, setWidgetOrders] =
-		useState<Record<WidgetKeys, number>>(getDefaultWidgetOrders)
+	const [instances, setInstances] = useState<WidgetInstance[]>([])
+	const [widgetsLoaded, setWidgetsLoaded] = useState(false)
 	const firstRender = useRef(true)
 	const { isAuthenticated } = useAuth()
 	useEffect(() => {
+		function applyStoredWidgets(storedWidgets: WidgetInstance[] | null) {
+			const next = storedWidgets
+				? withKnownWidgets(storedWidgets)
+				: getDefaultInstances()
+			setInstances((prev) =>
+				JSON.stringify(prev) === JSON.stringify(next) ? prev : next
+			)
+		}
+
 		async function loadSettings() {
-			const storedVisibility = await getFromStorage('activeWidgets')
-			if (storedVisibility) {
-				const visibilityIds = storedVisibility
-					.filter((item) => widgetItems.some((w) => w.id === item.id))
-					.map((item: any) => item.id as WidgetKeys)
-				setVisibility(visibilityIds)
-
-				const orders: Record<WidgetKeys, number> = {} as Record<
-					WidgetKeys,
-					number
-				>
-				for (const item of storedVisibility) {
-					orders[item.id as WidgetKeys] =
-						item.order ?? getDefaultWidgetOrders()[item.id as WidgetKeys]
-				}
-				setWidgetOrders(orders)
-			} else {
-				setVisibility(defaultVisibility)
-				setWidgetOrders(getDefaultWidgetOrders())
-			}
+			const storedWidgets = await getFromStorage('activeWidgets')
+			applyStoredWidgets(storedWidgets)
 			firstRender.current = false
+			setWidgetsLoaded(true)
 		}
 
 		loadSettings()
+
+		const activeWidgetsWatcher = watchStorage('activeWidgets', applyStoredWidgets)
+
+		return () => {
+			activeWidgetsWatcher()
+		}
 	}, [])
 	useEffect(() => {
 		if (!firstRender.current) {
-			const activeWidgets = widgetItems
-				.filter((item) => visibility.includes(item.id))
-				.map((item) => ({
-					...item,
-					order: widgetOrders[item.id] ?? item.order,
-				}))
-			setToStorage('activeWidgets', activeWidgets)
+			setToStorage('activeWidgets', instances)
 		}
-	}, [visibility, widgetOrders])
-	const toggleWidget = (widgetId: WidgetKeys) => {
-		setVisibility((prev) => {
-			const isCurrentlyVisible = prev.includes(widgetId)
-
-			if (!isCurrentlyVisible) {
-				if (!isAuthenticated && prev.length >= MAX_VISIBLE_WIDGETS) {
-					toast.error(
-						`کاربران مهمان تنها می‌توانند حداکثر ${MAX_VISIBLE_WIDGETS} ویجت فعال کنند. برای فعال کردن ویجت‌های بیشتر، وارد حساب کاربری خود شوید.`
-					)
-					return prev
-				}
-			}
+	}, [instances])
+
+	const visibility = [...new Set(instances.map((instance) => instance.type))]
+
+	const canAddWidget = () => {
+		if (!isAuthenticated && instances.length >= MAX_VISIBLE_WIDGETS) {
+			toast.error(
+				`کاربران مهمان تنها می‌توانند حداکثر ${MAX_VISIBLE_WIDGETS} ویجت فعال کنند. برای فعال کردن ویجت‌های بیشتر، وارد حساب کاربری خود شوید.`
+			)
+			return false
+		}
+		return true
+	}
+
+	const addWidgetInstance = async (widgetId: WidgetKeys) => {
+		if (!canAddWidget()) return
 
-			const newVisibility = isCurrentlyVisible
-				? prev.filter((id) => id !== widgetId)
-				: [...prev, widgetId]
+		const order = Math.max(-1, ...instances.map((instance) => instance.order)) + 1
+		let instance: WidgetInstance = { id: widgetId, type: widgetId, order }
 
-			if (isCurrentlyVisible) {
-				Analytics.event(`widget_remove_${widgetId}`)
-			} else {
-				Analytics.event(`widget_add_${widgetId}`)
+		if (instances.some((item) => item.id === widgetId)) {
+			// Extra instances start as a copy of the shared settings
+			const item = widgetItems.find((widget) => widget.id === widgetId)
+			const settings: Record<string, unknown> = {}
+			for (const key of item?.sharedSettingKeys || []) {
+				const value = await getFromStorage(key)
+				if (value !== null && value !== undefined) settings[key] = value
 			}
-			return newVisibility
-		})
+			instance = {
+				id: `${widgetId}-${uuidv4().slice(0, 8)}`,
+				type: widgetId,
+				order,
+				settings: settings as WidgetInstanceSettings,
+			}
+		}
+
+		setInstances((prev) => [...prev, instance])
+		Analytics.event(`widget_add_${widgetId}`)
 	}
 
-	const reorderWidgets = (sourceIndex: number, destinationIndex: number) => {
-		const visibleWidgets = getSortedWidgets()
+	const removeWidgetInstance = (instanceId: string) => {
+		const instance = instances.find((item) => item.id === instanceId)
+		if (!instance) return
 
-		if (sourceIndex === destinationIndex) return
+		setInstances((prev) => prev.filter((item) => item.id !== instanceId))
+		Analytics.event(`widget_remove_${instance.type}`)
+	}
+
+	const toggleWidget = (widgetId: WidgetKeys) => {
+		if (visibility.includes(widgetId)) {
+			setInstances((prev) => prev.filter((instance) => instance.type !== widgetId))
+			Analytics.event(`widget_remove_${widgetId}`)
+		} else {
+			addWidgetInstance(widgetId)
+		}
+	}
+
+	const updateInstanceSettings = (
+		instanceId: string,
+		settings: WidgetInstanceSettings
+	) => {
+		setInstances((prev) =>
+			prev.map((instance) =>
+				instance.id === instanceId
+					? { ...instance, settings: { ...instance.settings, ...settings } }
+					: instance
+			)
+		)
+	}
 
-		setWidgetOrders((prev) => {
-			const newOrders = { ...prev }
+	const resizeWidget = (
+		instanceId: string,
+		breakpoint: GridBreakpoint,
+		size: WidgetSize
+	) => {
+		setInstances((prev) =>
+			prev.map((instance) =>
+				instance.id === instanceId
+					? { ...instance, sizes: { ...instance.sizes, [breakpoint]: size } }
+					: instance
+			)
+		)
+	}
+
+	const loadWidgets = (widgets: WidgetInstance[]) => {
+		setInstances(withKnownWidgets(widgets))
+	}
 
-			const reorderedWidgets = [...visibleWidgets]
-			const [draggedWidget] = reorderedWidgets.splice(sourceIndex, 1)
-			reorderedWidgets.splice(destinationIndex, 0, draggedWidget)
+	const reorderWidgets = (sourceIndex: number, destinationIndex: number) => {
+		if (sourceIndex === destinationIndex) return
 
-			reorderedWidgets.forEach((widget, index) => {
-				newOrders[widget.id] = index
-			})
+		const reorderedWidgets = getSortedWidgets().map(({ instance }) => instance.id)
+		const [draggedWidget] = reorderedWidgets.splice(sourceIndex, 1)
+		reorderedWidgets.splice(destinationIndex, 0, draggedWidget)
 
-			return newOrders
-		})
+		setInstances((prev) =>
+			prev.map((instance) => ({
+				...instance,
+				order: reorderedWidgets.indexOf(instance.id),
+			}))
+		)
 	}
 
-	const getSortedWidgets = (): WidgetItem[] => {
-		return widgetItems
-			.filter((item) => visibility.includes(item.id))
-			.map((item) => ({
-				...item,
-				order: widgetOrders[item.id] ?? item.order,
+	const getSortedWidgets = (): ActiveWidget[] => {
+		return instances
+			.map((instance) => ({
+				instance,
+				item: widgetItems.find((item) => item.id === instance.type),
 			}))
-			.sort((a, b) => a.order - b.order)
+			.filter((widget): widget is ActiveWidget => !!widget.item)
+			.sort((a, b) => a.instance.order - b.instance.order)
 	}
 	return (
 		<WidgetVisibilityContext.Provider
 			value={{
 				visibility,
+				instances,
+				widgetsLoaded,
+				loadWidgets,
 				toggleWidget,
-
+				addWidgetInstance,
+				removeWidgetInstance,
+				updateInstanceSettings,
+				resizeWidget,
 				reorderWidgets,
 				getSortedWidgets,
 			}}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import type { StoredWallpaper } from '@/common/wallpaper.interface'
+import { resolveWallpaperSrc } from '@/common/wallpaper-uploads'
+
+export function useWallpaperSrc(wallpaper: Pick<StoredWallpaper, 'id' | 'type' | 'src'>) {
+	const [src, setSrc] = useState(wallpaper.src)
+
+	useEffect(() => {
+		let isCurrent = true
+		resolveWallpaperSrc(wallpaper).then((url) => {
+			if (isCurrent) setSrc(url)
+		})
+
+		return () => {
+			isCurrent = false
+		}
+	}, [wallpaper.id, wallpaper.src])
+
+	return src
+}
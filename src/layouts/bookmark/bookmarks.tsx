@@ -8,24 +8,30 @@ import {
 } from '@dnd-kit/core'
 import { rectSortingStrategy, SortableContext } from '@dnd-kit/sortable'
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { FiAlertTriangle } from 'react-icons/fi'
 import Analytics from '@/analytics'
-import { callEvent } from '@/common/utils/call-event'
+import { callEvent, listenEvent } from '@/common/utils/call-event'
 import { ConfirmationModal } from '@/components/modal/confirmation-modal'
 import { useBookmarkStore } from '@/context/bookmark.context'
+import { useDashboards } from '@/context/dashboard.context'
 import { useGeneralSetting } from '@/context/general-setting.context'
-import { SyncTarget } from '@/layouts/navbar/sync/sync'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
 import { BookmarkItem } from './components/bookmark-item'
 import { FolderHeader } from './components/folder-header'
 import { AddBookmarkModal } from './components/modal/add-bookmark.modal'
 import { BookmarkContextMenu } from './components/modal/bookmark-context-menu'
+import { BookmarkHealthModal } from './components/modal/bookmark-health.modal'
+import { BookmarkTransferModal } from './components/modal/bookmark-transfer.modal'
 import { EditBookmarkModal } from './components/modal/edit-bookmark.modal'
 import { SortableBookmarkItem } from './components/sortable-bookmark-item'
 import type { Bookmark, FolderPathItem } from './types/bookmark.types'
+import { getBookmarkHealthReport } from './utils/bookmark-health.util'
 import { openBookmarksOptimized } from './utils/tabManager'
 
 export function BookmarksComponent() {
 	const {
 		bookmarks,
+		bookmarkHealth,
 		getCurrentFolderItems,
 		addBookmark,
 		editBookmark,
@@ -33,9 +39,12 @@ export function BookmarksComponent() {
 		setBookmarks,
 	} = useBookmarkStore()
 	const { browserTabsEnabled } = useGeneralSetting()
+	const { activeDashboard } = useDashboards()
 
 	const [showAddBookmarkModal, setShowAddBookmarkModal] = useState(false)
 	const [showEditBookmarkModal, setShowEditBookmarkModal] = useState(false)
+	const [showTransferModal, setShowTransferModal] = useState(false)
+	const [showHealthModal, setShowHealthModal] = useState(false)
 	const [showDeleteConfirmationModal, setShowDeleteConfirmationModal] = useState(false)
 	const [bookmarkToEdit, setBookmarkToEdit] = useState<Bookmark | null>(null)
 	const [bookmarkToDelete, setBookmarkToDelete] = useState<Bookmark | null>(null)
@@ -51,6 +60,13 @@ export function BookmarksComponent() {
 	const [currentFolderIsManageable, setCurrentFolderIsManageable] =
 		useState<boolean>(true)
 
+	// Dashboards can show one folder as the root instead of all bookmarks
+	const rootFolder = bookmarks.find(
+		(b) => b.id === activeDashboard.bookmarkRootId && b.type === 'FOLDER'
+	)
+	const rootId = rootFolder?.id ?? null
+	const isAtRoot = currentFolderId === rootId
+
 	const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
 	const sensors = useSensors(
@@ -88,6 +104,31 @@ export function BookmarksComponent() {
 		}
 	}, [])
 
+	useEffect(() => {
+		setFolderPath([])
+		setCurrentFolderId(rootId)
+		setCurrentFolderIsManageable(rootFolder ? isManageable(rootFolder) : true)
+	}, [rootId])
+
+	useEffect(() => {
+		// Opened from the search bar
+		return listenEvent('openBookmarkFolder', (folderId) => {
+			const path: FolderPathItem[] = []
+			let folder = bookmarks.find((b) => b.id === folderId)
+			const target = folder
+			while (folder && folder.id !== rootId) {
+				path.unshift({ id: folder.id, title: folder.title })
+				const parentId = folder.parentId
+				folder = parentId ? bookmarks.find((b) => b.id === parentId) : undefined
+			}
+			if (!target) return
+
+			setFolderPath(path)
+			setCurrentFolderId(target.id)
+			setCurrentFolderIsManageable(isManageable(target))
+		})
+	}, [bookmarks, rootId])
+
 	const isManageable = (bookmark: Bookmark) => {
 		if ('isManageable' in bookmark && typeof bookmark.isManageable === 'boolean') {
 			return bookmark.isManageable
@@ -221,8 +262,8 @@ export function BookmarksComponent() {
 	const handleNavigate = (folderId: string | null, depth: number) => {
 		if (depth === -1) {
 			setFolderPath([])
-			setCurrentFolderId(null)
-			setCurrentFolderIsManageable(true)
+			setCurrentFolderId(rootId)
+			setCurrentFolderIsManageable(rootFolder ? isManageable(rootFolder) : true)
 			return
 		}
 
@@ -278,7 +319,7 @@ export function BookmarksComponent() {
 	const currentFolderItems = getCurrentFolderItems(currentFolderId)
 
 	const getDisplayedBookmarks = (): (Bookmark | null)[] => {
-		if (!currentFolderId) {
+		if (isAtRoot) {
 			const baseItems = currentFolderItems.slice(0, TOTAL_BOOKMARKS)
 			const fillersCount = Math.max(
 				0,
@@ -311,6 +352,9 @@ export function BookmarksComponent() {
 
 	const displayedBookmarks = getDisplayedBookmarks()
 
+	const healthReport = getBookmarkHealthReport(bookmarks, bookmarkHealth)
+	const problemCount = healthReport.dead.length + healthReport.redirected.length
+
 	return (
 		<>
 			<DndContext
@@ -320,13 +364,13 @@ export function BookmarksComponent() {
 			>
 				<div
 					className={`flex flex-col transition-all duration-300 ${
-						currentFolderId
+						!isAtRoot
 							? 'bg-widget widget-wrapper max-h-60 overflow-y-auto py-1 rounded-2xl'
 							: ''
 					}`}
 					id="bookmarks"
 				>
-					{currentFolderId && (
+					{!isAtRoot && (
 						<FolderHeader
 							folderPath={folderPath}
 							onNavigate={handleNavigate}
@@ -373,11 +417,39 @@ export function BookmarksComponent() {
 					</div>
 				</div>
 			</DndContext>
+			{problemCount > 0 && isAtRoot && (
+				<div className="flex justify-end mt-1">
+					<button
+						onClick={() => {
+							setShowHealthModal(true)
+							Analytics.event('open_bookmark_health_modal')
+						}}
+						className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full cursor-pointer bg-warning/10 text-warning hover:bg-warning/20"
+					>
+						<FiAlertTriangle size={11} />
+						<span>{problemCount} لینک نیاز به بررسی دارد</span>
+					</button>
+				</div>
+			)}
+			<BookmarkHealthModal
+				isOpen={showHealthModal}
+				onClose={() => setShowHealthModal(false)}
+			/>
 			<AddBookmarkModal
 				isOpen={showAddBookmarkModal}
 				onClose={() => setShowAddBookmarkModal(false)}
 				onAdd={(bookmark) => addBookmark(bookmark)}
 				parentId={currentFolderId}
+				onImport={() => {
+					setShowAddBookmarkModal(false)
+					setShowTransferModal(true)
+					Analytics.event('open_bookmark_transfer_modal')
+				}}
+			/>
+			<BookmarkTransferModal
+				isOpen={showTransferModal}
+				onClose={() => setShowTransferModal(false)}
+				parentId={currentFolderId}
 			/>
 			{bookmarkToEdit && (
 				<EditBookmarkModal
@@ -1,7 +1,10 @@
+import { FiAlertTriangle, FiCornerUpLeft } from 'react-icons/fi'
 import { SlOptions } from 'react-icons/sl'
 import { addOpacityToColor } from '@/common/color'
 import Tooltip from '@/components/toolTip'
+import { useBookmarkStore } from '@/context/bookmark.context'
 import type { Bookmark } from '../types/bookmark.types'
+import { type BookmarkHealth, bookmarkHealthLabels } from '../utils/bookmark-health.util'
 import { BookmarkIcon } from './bookmark/bookmark-icon'
 import { RenderStickerPattern } from './bookmark/bookmark-sticker'
 import { BookmarkTitle } from './bookmark/bookmark-title'
@@ -16,6 +19,24 @@ interface BookmarkItemProps {
 	onMenuClick?: (e: React.MouseEvent<HTMLElement>) => void
 }
 
+function HealthBadge({ health }: { health: BookmarkHealth }) {
+	if (health.status !== 'dead' && health.status !== 'redirected') return null
+
+	const isDead = health.status === 'dead'
+	const label = isDead
+		? `${bookmarkHealthLabels.dead}${health.httpStatus ? ` (${health.httpStatus})` : ''}`
+		: `${bookmarkHealthLabels.redirected}: ${health.finalUrl}`
+
+	return (
+		<span
+			title={label}
+			className={`absolute top-1.5 left-1.5 z-10 p-0.5 rounded-full ${isDead ? 'bg-error/15 text-error' : 'bg-warning/15 text-warning'}`}
+		>
+			{isDead ? <FiAlertTriangle size={10} /> : <FiCornerUpLeft size={10} />}
+		</span>
+	)
+}
+
 export function BookmarkItem({
 	bookmark,
 	canAdd = true,
@@ -23,10 +44,14 @@ export function BookmarkItem({
 	isDragging = false,
 	onMenuClick,
 }: BookmarkItemProps) {
+	const { bookmarkHealth } = useBookmarkStore()
+
 	if (!bookmark) {
 		return <EmptyBookmarkSlot onClick={onClick} canAdd={canAdd} />
 	}
 
+	const health = bookmarkHealth[bookmark.id]
+
 	const getBookmarkStyle = () => {
 		return 'bg-widget hover:bg-base-300 text-content backdrop-blur-sm bg-glass'
 	}
@@ -71,6 +96,7 @@ export function BookmarkItem({
 							<SlOptions size={12} />
 						</div>
 					)}
+					{health?.url === bookmark.url && <HealthBadge health={health} />}
 					{RenderStickerPattern(bookmark)}
 					<BookmarkIcon bookmark={bookmark} />
 					<BookmarkTitle
@@ -1,9 +1,11 @@
 import { useState, useTransition } from 'react'
+import { FiUploadCloud } from 'react-icons/fi'
 import { v4 as uuidv4 } from 'uuid'
 import { getFaviconFromUrl } from '@/common/utils/icon'
 import { Button } from '@/components/button/button'
 import Modal from '@/components/modal'
 import { TextInput } from '@/components/text-input'
+import Tooltip from '@/components/toolTip'
 import type { Bookmark, BookmarkType } from '../../types/bookmark.types'
 import { BookmarkSuggestions } from '../bookmark-suggestions'
 import {
@@ -21,6 +23,7 @@ interface AddBookmarkModalProps {
 	onClose: () => void
 	onAdd: (bookmark: Bookmark) => void
 	parentId: string | null
+	onImport?: () => void
 }
 
 export function AddBookmarkModal({
@@ -28,6 +31,7 @@ export function AddBookmarkModal({
 	onClose,
 	onAdd,
 	parentId = null,
+	onImport,
 }: AddBookmarkModalProps) {
 	const [type, setType] = useState<BookmarkType>('BOOKMARK')
 	const [iconSource, setIconSource] = useState<IconSourceType>('auto')
@@ -275,10 +279,23 @@ export function AddBookmarkModal({
 				</div>
 
 				<div className="flex justify-between h-10 gap-x-4">
-					<ShowAdvancedButton
-						showAdvanced={showAdvanced}
-						setShowAdvanced={setShowAdvanced}
-					/>
+					<div className="flex items-center gap-x-2">
+						<ShowAdvancedButton
+							showAdvanced={showAdvanced}
+							setShowAdvanced={setShowAdvanced}
+						/>
+						{onImport && (
+							<Tooltip content="ورود از فایل HTML">
+								<button
+									type="button"
+									onClick={onImport}
+									className="flex items-center justify-center w-10 h-full transition-all duration-200 border cursor-pointer bg-base-300 hover:bg-base-300/70 border-base-300/70 text-content rounded-xl active:scale-95"
+								>
+									<FiUploadCloud size={16} />
+								</button>
+							</Tooltip>
+						)}
+					</div>
 
 					<div className="flex items-center gap-x-2">
 						<Button
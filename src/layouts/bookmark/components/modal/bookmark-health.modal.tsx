@@ -0,0 +1,242 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { FiRefreshCw, FiTrash2 } from 'react-icons/fi'
+import Analytics from '@/analytics'
+import { getFaviconFromUrl } from '@/common/utils/icon'
+import { Button } from '@/components/button/button'
+import CustomCheckbox from '@/components/checkbox'
+import Modal from '@/components/modal'
+import { useBookmarkStore } from '@/context/bookmark.context'
+import {
+	type BookmarkHealthReportItem,
+	bookmarkHealthLabels,
+	getBookmarkHealthReport,
+} from '../../utils/bookmark-health.util'
+
+interface BookmarkHealthModalProps {
+	isOpen: boolean
+	onClose: () => void
+}
+
+function ReportSection({
+	title,
+	items,
+	selected,
+	onToggle,
+	onToggleAll,
+	renderDetail,
+}: {
+	title: string
+	items: BookmarkHealthReportItem[]
+	selected: string[]
+	onToggle: (id: string) => void
+	onToggleAll: (ids: string[], checked: boolean) => void
+	renderDetail: (item: BookmarkHealthReportItem) => string
+}) {
+	if (!items.length) return null
+
+	const ids = items.map(({ bookmark }) => bookmark.id)
+	const allSelected = ids.every((id) => selected.includes(id))
+
+	return (
+		<div className="space-y-1">
+			<div className="flex items-center justify-between">
+				<h3 className="text-sm font-medium text-content">
+					{title} ({items.length})
+				</h3>
+				<CustomCheckbox
+					checked={allSelected}
+					onChange={(checked) => onToggleAll(ids, checked)}
+					label="انتخاب همه"
+				/>
+			</div>
+			{items.map((item) => (
+				<div
+					key={item.bookmark.id}
+					className="flex items-center gap-2 p-2 rounded-lg hover:bg-base-200"
+				>
+					<CustomCheckbox
+						checked={selected.includes(item.bookmark.id)}
+						onChange={() => onToggle(item.bookmark.id)}
+					/>
+					<div className="flex-1 min-w-0">
+						<p className="text-sm truncate text-content">
+							{item.bookmark.title}
+						</p>
+						<p className="text-xs truncate text-muted" dir="ltr">
+							{renderDetail(item)}
+						</p>
+					</div>
+				</div>
+			))}
+		</div>
+	)
+}
+
+export function BookmarkHealthModal({ isOpen, onClose }: BookmarkHealthModalProps) {
+	const {
+		bookmarks,
+		bookmarkHealth,
+		deleteBookmarks,
+		updateBookmarks,
+		checkBookmarkHealth,
+	} = useBookmarkStore()
+	const [selected, setSelected] = useState<string[]>([])
+	const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+	const { dead, redirected } = getBookmarkHealthReport(bookmarks, bookmarkHealth)
+	const lastCheckedAt = Math.max(
+		0,
+		...Object.values(bookmarkHealth).map((health) => health.checkedAt)
+	)
+
+	const onToggle = (id: string) => {
+		setSelected((prev) =>
+			prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]
+		)
+	}
+
+	const onToggleAll = (ids: string[], checked: boolean) => {
+		setSelected((prev) =>
+			checked
+				? [...new Set([...prev, ...ids])]
+				: prev.filter((id) => !ids.includes(id))
+		)
+	}
+
+	const onCheck = async () => {
+		if (!navigator.onLine) {
+			toast.error('برای بررسی لینک‌ها به اینترنت متصل شوید')
+			return
+		}
+
+		setProgress({ done: 0, total: 0 })
+		try {
+			const checked = await checkBookmarkHealth((done, total) =>
+				setProgress({ done, total })
+			)
+			if (!checked) {
+				toast.error(
+					'برای بررسی لینک‌ها، دسترسی به سایت‌ها را در تنظیمات حریم خصوصی فعال کنید'
+				)
+			}
+			Analytics.event('bookmark_health_checked')
+		} finally {
+			setProgress(null)
+		}
+	}
+
+	const onFixRedirects = () => {
+		const fixed = redirected
+			.filter(({ bookmark }) => selected.includes(bookmark.id))
+			.map(({ bookmark, health }) => ({
+				...bookmark,
+				url: health.finalUrl || bookmark.url,
+				icon: bookmark.icon && getFaviconFromUrl(health.finalUrl || bookmark.url),
+			}))
+		if (!fixed.length) return
+
+		updateBookmarks(fixed)
+		setSelected([])
+		toast.success(`آدرس ${fixed.length} بوکمارک به‌روز شد`)
+		Analytics.event('bookmark_health_fixed', { count: fixed.length })
+	}
+
+	const onDelete = () => {
+		const ids = [...dead, ...redirected]
+			.map(({ bookmark }) => bookmark.id)
+			.filter((id) => selected.includes(id))
+		if (!ids.length) return
+
+		deleteBookmarks(ids)
+		setSelected([])
+		Analytics.event('bookmark_health_deleted', { count: ids.length })
+	}
+
+	const selectedRedirects = redirected.filter(({ bookmark }) =>
+		selected.includes(bookmark.id)
+	).length
+	const selectedCount = [...dead, ...redirected].filter(({ bookmark }) =>
+		selected.includes(bookmark.id)
+	).length
+
+	return (
+		<Modal
+			isOpen={isOpen}
+			onClose={onClose}
+			title="بررسی سلامت لینک‌ها"
+			direction="rtl"
+			size="md"
+		>
+			<div className="p-2 space-y-4">
+				<div className="flex items-center justify-between gap-2">
+					<p className="text-xs text-muted">
+						{progress
+							? `در حال بررسی ${progress.done} از ${progress.total}`
+							: lastCheckedAt
+								? `آخرین بررسی: ${new Date(lastCheckedAt).toLocaleString('fa-IR')}`
+								: 'هنوز بررسی نشده است'}
+					</p>
+					<Button
+						onClick={onCheck}
+						size="sm"
+						loading={!!progress}
+						disabled={!!progress}
+						className="border border-content/20 text-content rounded-xl"
+					>
+						<FiRefreshCw size={14} />
+						<span>بررسی دوباره</span>
+					</Button>
+				</div>
+
+				{dead.length || redirected.length ? (
+					<div className="space-y-4 overflow-y-auto max-h-80">
+						<ReportSection
+							title={bookmarkHealthLabels.dead}
+							items={dead}
+							selected={selected}
+							onToggle={onToggle}
+							onToggleAll={onToggleAll}
+							renderDetail={({ bookmark, health }) =>
+								`${health.httpStatus || '—'} · ${bookmark.url}`
+							}
+						/>
+						<ReportSection
+							title={bookmarkHealthLabels.redirected}
+							items={redirected}
+							selected={selected}
+							onToggle={onToggle}
+							onToggleAll={onToggleAll}
+							renderDetail={({ health }) => `→ ${health.finalUrl}`}
+						/>
+					</div>
+				) : (
+					<p className="py-6 text-sm text-center text-muted">
+						لینک خراب یا منتقل شده‌ای پیدا نشد.
+					</p>
+				)}
+
+				<div className="grid grid-cols-2 gap-2">
+					<Button
+						onClick={onFixRedirects}
+						size="md"
+						isPrimary={true}
+						disabled={!selectedRedirects}
+						className="rounded-2xl"
+					>
+						اصلاح آدرس ({selectedRedirects})
+					</Button>
+					<Button
+						onClick={onDelete}
+						size="md"
+						disabled={!selectedCount}
+						className="border border-content/20 text-error rounded-2xl"
+					>
+						<FiTrash2 size={14} />
+						<span>حذف ({selectedCount})</span>
+					</Button>
+				</div>
+			</div>
+		</Modal>
+	)
+}
@@ -0,0 +1,230 @@
+import { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { FiBookmark, FiDownload, FiFolder, FiUploadCloud } from 'react-icons/fi'
+import { v4 as uuidv4 } from 'uuid'
+import Analytics from '@/analytics'
+import { Button } from '@/components/button/button'
+import CustomCheckbox from '@/components/checkbox'
+import Modal from '@/components/modal'
+import { useBookmarkStore } from '@/context/bookmark.context'
+import type { Bookmark } from '../../types/bookmark.types'
+import {
+	buildImportedBookmarks,
+	countNetscapeBookmarks,
+	downloadNetscapeBookmarks,
+	type NetscapeBookmarkNode,
+	parseNetscapeBookmarks,
+	skipExistingUrls,
+} from '../../utils/netscape-bookmarks.util'
+
+interface BookmarkTransferModalProps {
+	isOpen: boolean
+	onClose: () => void
+	parentId: string | null
+}
+
+const IMPORT_FOLDER_TITLE = 'بوکمارک‌های وارد شده'
+
+function PreviewTree({
+	nodes,
+	depth = 0,
+}: {
+	nodes: NetscapeBookmarkNode[]
+	depth?: number
+}) {
+	return nodes.map((node, index) => (
+		<div key={`${depth}-${index}`}>
+			<div
+				className="flex items-center gap-1.5 py-0.5 text-xs text-content"
+				style={{ paddingRight: depth * 14 }}
+			>
+				<span className="text-muted">
+					{node.url ? <FiBookmark size={12} /> : <FiFolder size={12} />}
+				</span>
+				<span className="truncate">{node.title}</span>
+			</div>
+			{node.children && <PreviewTree nodes={node.children} depth={depth + 1} />}
+		</div>
+	))
+}
+
+export function BookmarkTransferModal({
+	isOpen,
+	onClose,
+	parentId,
+}: BookmarkTransferModalProps) {
+	const { bookmarks, getCurrentFolderItems, importBookmarks } = useBookmarkStore()
+	const [tree, setTree] = useState<NetscapeBookmarkNode[] | null>(null)
+	const [inNewFolder, setInNewFolder] = useState(true)
+	const [skipExisting, setSkipExisting] = useState(true)
+	const fileInputRef = useRef<HTMLInputElement>(null)
+
+	// The root only shows a couple of rows, a big import there would be out of sight
+	const mustUseFolder = parentId === null
+
+	const onExport = () => {
+		if (!bookmarks.length) {
+			toast.error('بوکمارکی برای خروجی گرفتن وجود ندارد')
+			return
+		}
+
+		downloadNetscapeBookmarks(bookmarks)
+		Analytics.event('bookmark_exported', { count: bookmarks.length })
+	}
+
+	const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		if (!file) return
+
+		const parsed = parseNetscapeBookmarks(await file.text())
+		if (!countNetscapeBookmarks(parsed).bookmarks) {
+			toast.error('بوکمارکی در این فایل پیدا نشد')
+			return
+		}
+
+		setTree(parsed)
+	}
+
+	const existingUrls = new Set(
+		bookmarks.filter((bookmark) => bookmark.url).map((bookmark) => bookmark.url)
+	)
+	const preview = tree && skipExisting ? skipExistingUrls(tree, existingUrls) : tree
+	const totals = tree ? countNetscapeBookmarks(tree) : null
+	const counts = preview ? countNetscapeBookmarks(preview) : null
+
+	const onImport = async () => {
+		if (!preview || !counts?.bookmarks) return
+
+		const siblings = getCurrentFolderItems(parentId)
+		const startOrder =
+			siblings.reduce((max, item) => Math.max(max, item.order || 0), -1) + 1
+
+		let imported: Bookmark[]
+		if (inNewFolder || mustUseFolder) {
+			const folder: Bookmark = {
+				id: uuidv4(),
+				title: IMPORT_FOLDER_TITLE,
+				type: 'FOLDER',
+				parentId,
+				isLocal: true,
+				onlineId: null,
+				url: '',
+				order: startOrder,
+			}
+			imported = [folder, ...buildImportedBookmarks(preview, folder.id)]
+		} else {
+			imported = buildImportedBookmarks(preview, parentId, startOrder)
+		}
+
+		if (!(await importBookmarks(imported))) return
+
+		Analytics.event('bookmark_imported', {
+			count: counts.bookmarks,
+			folders: counts.folders,
+			skipped: (totals?.bookmarks || 0) - counts.bookmarks,
+			in_new_folder: inNewFolder || mustUseFolder,
+		})
+		toast.success(`${counts.bookmarks} بوکمارک اضافه شد`)
+		onCloseModal()
+	}
+
+	const onCloseModal = () => {
+		setTree(null)
+		onClose()
+	}
+
+	return (
+		<Modal
+			isOpen={isOpen}
+			onClose={onCloseModal}
+			title="ورود و خروج بوکمارک‌ها"
+			direction="rtl"
+			size="md"
+		>
+			<div className="p-2 space-y-4">
+				<div className="space-y-2">
+					<p className="text-sm text-muted">
+						بوکمارک‌ها را به شکل فایل HTML ذخیره کنید تا در هر مرورگری قابل
+						وارد کردن باشند.
+					</p>
+					<Button
+						onClick={onExport}
+						size="md"
+						className="w-full border border-content/20 text-content rounded-2xl"
+					>
+						<FiDownload size={16} />
+						<span>خروجی HTML</span>
+					</Button>
+				</div>
+
+				<div className="space-y-2">
+					<p className="text-sm text-muted">
+						فایل bookmarks.html خروجی گرفته شده از Chrome، Firefox یا Edge را
+						انتخاب کنید. پوشه‌ها و ترتیب بوکمارک‌ها حفظ می‌شوند.
+					</p>
+					<Button
+						onClick={() => fileInputRef.current?.click()}
+						size="md"
+						className="w-full border border-content/20 text-content rounded-2xl"
+					>
+						<FiUploadCloud size={16} />
+						<span>انتخاب فایل</span>
+					</Button>
+					<input
+						type="file"
+						ref={fileInputRef}
+						className="hidden"
+						accept=".html,.htm,text/html"
+						onChange={onFileChange}
+					/>
+				</div>
+
+				{preview && counts && (
+					<div className="p-3 space-y-3 border rounded-lg border-content">
+						<div className="space-y-2">
+							<CustomCheckbox
+								checked={inNewFolder || mustUseFolder}
+								onChange={setInNewFolder}
+								disabled={mustUseFolder}
+								label={`افزودن در پوشه «${IMPORT_FOLDER_TITLE}»`}
+							/>
+							<CustomCheckbox
+								checked={skipExisting}
+								onChange={setSkipExisting}
+								label="نادیده گرفتن آدرس‌های تکراری"
+							/>
+						</div>
+
+						<div className="p-2 overflow-y-auto rounded-lg max-h-52 bg-base-200">
+							{preview.length ? (
+								<PreviewTree nodes={preview} />
+							) : (
+								<p className="py-4 text-xs text-center text-muted">
+									همه بوکمارک‌های این فایل از قبل وجود دارند.
+								</p>
+							)}
+						</div>
+
+						<p className="text-xs text-muted">
+							{counts.bookmarks} بوکمارک در {counts.folders} پوشه
+							{totals &&
+								totals.bookmarks > counts.bookmarks &&
+								` · ${totals.bookmarks - counts.bookmarks} تکراری`}
+						</p>
+
+						<Button
+							onClick={onImport}
+							size="md"
+							isPrimary={true}
+							disabled={!counts.bookmarks}
+							className="w-full rounded-2xl"
+						>
+							افزودن بوکمارک‌ها
+						</Button>
+					</div>
+				)}
+			</div>
+		</Modal>
+	)
+}
@@ -0,0 +1,144 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import type { Bookmark } from '../types/bookmark.types'
+import { checkBookmarksHealth, checkBookmarkUrl } from './bookmark-health.util'
+
+let server: Server
+let baseUrl: string
+let inFlight = 0
+let maxInFlight = 0
+
+/** A local site answering each path the way a real one might */
+function handle(method: string, path: string) {
+	switch (path) {
+		case '/ok':
+			return { status: 200 }
+		case '/no-head':
+			return { status: method === 'HEAD' ? 405 : 200 }
+		case '/head-not-implemented':
+			return { status: method === 'HEAD' ? 501 : 200 }
+		case '/gone':
+			return { status: 404 }
+		case '/removed':
+			return { status: 410 }
+		case '/moved':
+			return { status: 301, headers: { location: '/ok' } }
+		default:
+			return { status: 500 }
+	}
+}
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		const path = req.url || '/'
+		// Never answers, so only the timeout ends the request
+		if (path === '/hang') return
+
+		if (path.startsWith('/slow')) {
+			inFlight++
+			maxInFlight = Math.max(maxInFlight, inFlight)
+			setTimeout(() => {
+				inFlight--
+				res.writeHead(200).end()
+			}, 30)
+			return
+		}
+
+		const { status, headers } = handle(req.method || 'GET', path)
+		res.writeHead(status, headers).end()
+	})
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+	server.closeAllConnections()
+	await new Promise((resolve) => server.close(resolve))
+})
+
+describe('checkBookmarkUrl', () => {
+	it('reports a page that answers as ok', async () => {
+		expect(await checkBookmarkUrl(`${baseUrl}/ok`)).toMatchObject({
+			status: 'ok',
+			httpStatus: 200,
+		})
+	})
+
+	it.each(['/no-head', '/head-not-implemented'])(
+		'falls back to GET when %s rejects HEAD',
+		async (path) => {
+			expect(await checkBookmarkUrl(`${baseUrl}${path}`)).toMatchObject({
+				status: 'ok',
+				httpStatus: 200,
+			})
+		}
+	)
+
+	it.each([
+		['/gone', 404],
+		['/removed', 410],
+	])('reports %s as dead', async (path, httpStatus) => {
+		expect(await checkBookmarkUrl(`${baseUrl}${path}`)).toMatchObject({
+			status: 'dead',
+			httpStatus,
+		})
+	})
+
+	it('reports where a redirect ends up', async () => {
+		expect(await checkBookmarkUrl(`${baseUrl}/moved`)).toMatchObject({
+			status: 'redirected',
+			httpStatus: 200,
+			finalUrl: `${baseUrl}/ok`,
+		})
+	})
+
+	it('reports a server that does not answer in time as unreachable', async () => {
+		expect(await checkBookmarkUrl(`${baseUrl}/hang`, { timeout: 100 })).toMatchObject(
+			{
+				status: 'unreachable',
+			}
+		)
+	})
+
+	it('reports a refused connection as unreachable', async () => {
+		const closed = createServer()
+		await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve))
+		const { port } = closed.address() as AddressInfo
+		await new Promise((resolve) => closed.close(resolve))
+
+		expect(await checkBookmarkUrl(`http://127.0.0.1:${port}/`)).toMatchObject({
+			status: 'unreachable',
+		})
+	})
+})
+
+describe('checkBookmarksHealth', () => {
+	it('checks no more urls at once than the concurrency allows', async () => {
+		inFlight = 0
+		maxInFlight = 0
+		const bookmarks = Array.from(
+			{ length: 8 },
+			(_, index) =>
+				({
+					id: `b${index}`,
+					type: 'BOOKMARK',
+					url: `${baseUrl}/slow/${index}`,
+				}) as Bookmark
+		)
+		const progress: number[] = []
+
+		const results = await checkBookmarksHealth(
+			bookmarks,
+			{},
+			{
+				concurrency: 2,
+				onProgress: (done) => progress.push(done),
+			}
+		)
+
+		expect(Object.keys(results)).toHaveLength(8)
+		expect(maxInFlight).toBe(2)
+		expect(progress).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8])
+	})
+})
@@ -0,0 +1,215 @@
+import { getFromStorage, setToStorage } from '@/common/storage'
+import type { Bookmark } from '../types/bookmark.types'
+
+export const BOOKMARK_HEALTH_ALARM = 'bookmark-health'
+
+/** Checking any url needs access to every site, which is asked for on demand */
+export const BOOKMARK_HEALTH_ORIGINS = ['<all_urls>']
+
+export type BookmarkHealthStatus = 'ok' | 'redirected' | 'dead' | 'unreachable'
+
+export interface BookmarkHealth {
+	/** The url that was checked, a later edit makes the result stale */
+	url: string
+	status: BookmarkHealthStatus
+	httpStatus?: number
+	/** Where the url ended up after redirects */
+	finalUrl?: string
+	checkedAt: number
+}
+
+export const bookmarkHealthLabels: Record<BookmarkHealthStatus, string> = {
+	ok: 'سالم',
+	redirected: 'منتقل شده',
+	dead: 'لینک خراب',
+	unreachable: 'در دسترس نیست',
+}
+
+export interface BookmarkHealthOptions {
+	fetch?: typeof fetch
+	timeout?: number
+	concurrency?: number
+	/** Results younger than this are kept as they are */
+	maxAge?: number
+	onProgress?: (done: number, total: number) => void
+}
+
+const DEFAULT_TIMEOUT = 10 * 1000
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+
+// Gone for good. Other errors (5xx, rate limits) are often temporary.
+const DEAD_STATUSES = [404, 410]
+// Servers that reject HEAD usually answer a GET just fine
+const HEAD_UNSUPPORTED_STATUSES = [400, 403, 404, 405, 501]
+
+function normalizeUrl(url: string) {
+	try {
+		return new URL(url).href
+	} catch {
+		return url
+	}
+}
+
+async function request(
+	url: string,
+	method: 'HEAD' | 'GET',
+	fetcher: typeof fetch,
+	timeout: number
+) {
+	const controller = new AbortController()
+	const timer = setTimeout(() => controller.abort(), timeout)
+	try {
+		const response = await fetcher(url, {
+			method,
+			redirect: 'follow',
+			cache: 'no-store',
+			credentials: 'omit',
+			signal: controller.signal,
+		})
+		// Only the status matters, the body is left unread
+		response.body?.cancel().catch(() => {})
+		return response
+	} finally {
+		clearTimeout(timer)
+	}
+}
+
+export async function checkBookmarkUrl(
+	url: string,
+	{ fetch: fetcher = fetch, timeout = DEFAULT_TIMEOUT }: BookmarkHealthOptions = {}
+): Promise<BookmarkHealth> {
+	const checkedAt = Date.now()
+
+	let response: Response
+	try {
+		response = await request(url, 'HEAD', fetcher, timeout)
+		if (HEAD_UNSUPPORTED_STATUSES.includes(response.status)) {
+			response = await request(url, 'GET', fetcher, timeout)
+		}
+	} catch (headError) {
+		if ((headError as Error)?.name === 'AbortError') {
+			return { url, status: 'unreachable', checkedAt }
+		}
+		try {
+			response = await request(url, 'GET', fetcher, timeout)
+		} catch {
+			// A failed connection may as well be our own network, DNS or proxy.
+			// Only an answer from the server can tell a link is gone.
+			return { url, status: 'unreachable', checkedAt }
+		}
+	}
+
+	const httpStatus = response.status
+	const finalUrl =
+		response.url && normalizeUrl(response.url) !== normalizeUrl(url)
+			? response.url
+			: undefined
+
+	let status: BookmarkHealthStatus = 'ok'
+	if (DEAD_STATUSES.includes(httpStatus)) status = 'dead'
+	else if (httpStatus >= 500) status = 'unreachable'
+	else if (finalUrl) status = 'redirected'
+
+	return { url, status, httpStatus, finalUrl, checkedAt }
+}
+
+/**
+ * Checks the urls of `bookmarks` a few at a time and returns the health of every
+ * bookmark, reusing `previous` results that are still fresh.
+ */
+export async function checkBookmarksHealth(
+	bookmarks: Bookmark[],
+	previous: Record<string, BookmarkHealth>,
+	options: BookmarkHealthOptions = {}
+) {
+	const {
+		concurrency = DEFAULT_CONCURRENCY,
+		maxAge = DEFAULT_MAX_AGE,
+		onProgress,
+	} = options
+	const now = Date.now()
+	const results: Record<string, BookmarkHealth> = {}
+
+	const queue: Bookmark[] = []
+	for (const bookmark of bookmarks) {
+		if (bookmark.type !== 'BOOKMARK' || !/^https?:/i.test(bookmark.url)) continue
+
+		const known = previous[bookmark.id]
+		if (known && known.url === bookmark.url && now - known.checkedAt < maxAge) {
+			results[bookmark.id] = known
+		} else {
+			queue.push(bookmark)
+		}
+	}
+
+	const total = queue.length
+	let done = 0
+	onProgress?.(done, total)
+
+	const worker = async () => {
+		for (let bookmark = queue.shift(); bookmark; bookmark = queue.shift()) {
+			results[bookmark.id] = await checkBookmarkUrl(bookmark.url, options)
+			onProgress?.(++done, total)
+		}
+	}
+	await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker))
+
+	return results
+}
+
+export interface BookmarkHealthReportItem {
+	bookmark: Bookmark
+	health: BookmarkHealth
+}
+
+/** Bookmarks whose last check, for their current url, found a problem */
+export function getBookmarkHealthReport(
+	bookmarks: Bookmark[],
+	bookmarkHealth: Record<string, BookmarkHealth>
+) {
+	const dead: BookmarkHealthReportItem[] = []
+	const redirected: BookmarkHealthReportItem[] = []
+	for (const bookmark of bookmarks) {
+		const health = bookmarkHealth[bookmark.id]
+		if (!health || health.url !== bookmark.url) continue
+
+		if (health.status === 'dead') dead.push({ bookmark, health })
+		else if (health.status === 'redirected') redirected.push({ bookmark, health })
+	}
+	return { dead, redirected }
+}
+
+export async function hasBookmarkHealthPermission() {
+	return browser.permissions.contains({ origins: BOOKMARK_HEALTH_ORIGINS })
+}
+
+let running: Promise<Record<string, BookmarkHealth> | null> | null = null
+
+/**
+ * Checks the stored bookmarks and saves the results, once at a time. Resolves to
+ * null when offline or when the permission to reach other sites is missing.
+ */
+export function runBookmarkHealthCheck(options: BookmarkHealthOptions = {}) {
+	if (!running) {
+		running = (async () => {
+			if (!navigator.onLine) return null
+			if (!(await hasBookmarkHealthPermission())) return null
+
+			const [bookmarks, previous] = await Promise.all([
+				getFromStorage('bookmarks'),
+				getFromStorage('bookmarkHealth'),
+			])
+			const results = await checkBookmarksHealth(
+				bookmarks || [],
+				previous || {},
+				options
+			)
+			await setToStorage('bookmarkHealth', results)
+			return results
+		})().finally(() => {
+			running = null
+		})
+	}
+	return running
+}
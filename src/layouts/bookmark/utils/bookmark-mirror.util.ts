@@ -0,0 +1,426 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getFromStorage, removeFromStorage, setToStorage } from '@/common/storage'
+import { getFaviconFromUrl } from '@/common/utils/icon'
+import { drainSyncOutbox, enqueueSync } from '@/layouts/navbar/sync/sync-outbox'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
+import type { Bookmark } from '../types/bookmark.types'
+
+/** How a linked pair looked on both sides after the last mirror run */
+export interface BookmarkMirrorLink {
+	nativeId: string
+	title: string
+	url: string
+	/** Widgetify id of the parent folder, null for the root */
+	parentId: string | null
+	index: number
+}
+
+export interface BookmarkMirrorState {
+	/** The browser folder that stands for the Widgetify root */
+	rootId: string
+	/** Keyed by Widgetify bookmark id */
+	links: Record<string, BookmarkMirrorLink>
+}
+
+type NativeNode = globalThis.Browser.bookmarks.BookmarkTreeNode
+
+interface NativeItem {
+	id: string
+	parentId: string
+	title: string
+	url: string
+	index: number
+	isFolder: boolean
+}
+
+// Waits for a burst of browser events (e.g. an import) to settle
+const MIRROR_DELAY = 1000
+
+let pending: Promise<void> = Promise.resolve()
+let timer: ReturnType<typeof setTimeout> | null = null
+let isListening = false
+
+function isMirrorableUrl(url: string) {
+	// Bookmarklets and browser-internal pages cannot be opened from a new tab
+	return /^(https?|ftp|file):/i.test(url)
+}
+
+function isLocked(bookmark: Bookmark) {
+	return 'isManageable' in bookmark && bookmark.isManageable === false
+}
+
+function flattenNative(root: NativeNode) {
+	const items = new Map<string, NativeItem>()
+	const walk = (node: NativeNode) => {
+		for (const [index, child] of (node.children || []).entries()) {
+			if ('type' in child && child.type === 'separator') continue
+			if (child.url && !isMirrorableUrl(child.url)) continue
+
+			items.set(child.id, {
+				id: child.id,
+				parentId: node.id,
+				title: child.title,
+				url: child.url || '',
+				index,
+				isFolder: !child.url,
+			})
+			walk(child)
+		}
+	}
+	walk(root)
+	return items
+}
+
+function isSameItem(bookmark: Bookmark, item: NativeItem) {
+	if (item.isFolder) return bookmark.type === 'FOLDER' && bookmark.title === item.title
+	return bookmark.type === 'BOOKMARK' && bookmark.url === item.url
+}
+
+function isSameOrder(a: string[], b: string[]) {
+	return a.length === b.length && a.every((id, index) => id === b[index])
+}
+
+/**
+ * Runs one mirror pass. Both trees are compared to the snapshot of the previous
+ * pass, so each side's own changes are known: deletions, additions, renames,
+ * moves between folders and reordering are carried over to the other side, and
+ * Widgetify wins when both changed the same thing. Nothing outside the chosen
+ * browser folder is ever read or written.
+ */
+async function mirror() {
+	const state = await getFromStorage('bookmarkMirror')
+	if (!state || !browser.bookmarks) return
+
+	let root: NativeNode | undefined
+	try {
+		;[root] = await browser.bookmarks.getSubTree(state.rootId)
+	} catch {}
+	if (!root || root.url) {
+		// The folder was removed in the browser, there is nothing left to mirror
+		await removeFromStorage('bookmarkMirror')
+		return
+	}
+
+	const rootId = root.id
+	const native = flattenNative(root)
+	const links: Record<string, BookmarkMirrorLink> = { ...state.links }
+	const nativeToLocal = new Map<string, string>()
+	for (const [id, link] of Object.entries(links)) nativeToLocal.set(link.nativeId, id)
+
+	let bookmarks = (await getFromStorage('bookmarks')) || []
+	let localChanged = false
+	const deletedIds: string[] = []
+
+	const getLocal = (id: string) => bookmarks.find((bookmark) => bookmark.id === id)
+	const updateLocal = (id: string, changes: Partial<Bookmark>) => {
+		bookmarks = bookmarks.map((bookmark) =>
+			bookmark.id === id ? { ...bookmark, ...changes } : bookmark
+		)
+		localChanged = true
+	}
+	const getLocalChildren = (parentId: string | null) =>
+		bookmarks
+			.filter((bookmark) => bookmark.parentId === parentId)
+			.sort((a, b) => (a.order || 0) - (b.order || 0))
+	const getNativeChildren = (parentId: string) =>
+		[...native.values()]
+			.filter((item) => item.parentId === parentId)
+			.sort((a, b) => a.index - b.index)
+	const toNativeParent = (parentId: string | null) =>
+		parentId === null ? rootId : links[parentId]?.nativeId
+	const toLocalParent = (item: NativeItem) =>
+		item.parentId === rootId ? null : nativeToLocal.get(item.parentId)
+	const dropNative = (id: string) => {
+		native.delete(id)
+		for (const item of [...native.values()]) {
+			if (item.parentId === id) dropNative(item.id)
+		}
+	}
+	const link = (id: string, item: NativeItem) => {
+		const local = getLocal(id)
+		links[id] = {
+			nativeId: item.id,
+			title: local?.title ?? item.title,
+			url: local?.url ?? item.url,
+			parentId: local?.parentId ?? null,
+			index: item.index,
+		}
+		nativeToLocal.set(item.id, id)
+	}
+	const unlink = (id: string) => {
+		const nativeId = links[id]?.nativeId
+		if (nativeId) nativeToLocal.delete(nativeId)
+		delete links[id]
+	}
+
+	// Deletions on either side
+	const removedLocal = new Set<string>()
+	const collectLocal = (id: string) => {
+		removedLocal.add(id)
+		for (const child of bookmarks) {
+			if (child.parentId === id && !removedLocal.has(child.id))
+				collectLocal(child.id)
+		}
+	}
+	for (const [id, entry] of Object.entries(links)) {
+		const local = getLocal(id)
+		const item = native.get(entry.nativeId)
+		if (local && item) continue
+
+		unlink(id)
+		if (!local && item) {
+			await browser.bookmarks.removeTree(item.id).catch(() => {})
+			dropNative(item.id)
+		} else if (local && !item && !isLocked(local)) {
+			// Removed or moved out of the folder in the browser
+			collectLocal(id)
+		}
+	}
+	if (removedLocal.size) {
+		bookmarks = bookmarks.filter((bookmark) => !removedLocal.has(bookmark.id))
+		deletedIds.push(...removedLocal)
+		for (const id of removedLocal) unlink(id)
+		localChanged = true
+	}
+
+	// Additions on either side, parents first
+	const addMissing = async (localParent: string | null, nativeParent: string) => {
+		const nativeChildren = getNativeChildren(nativeParent)
+
+		// Pairs up look-alikes, mostly on the first run over existing trees
+		for (const item of nativeChildren) {
+			if (nativeToLocal.has(item.id)) continue
+			const twin = getLocalChildren(localParent).find(
+				(bookmark) => !links[bookmark.id] && isSameItem(bookmark, item)
+			)
+			if (twin) link(twin.id, item)
+		}
+
+		for (const item of nativeChildren) {
+			if (nativeToLocal.has(item.id)) continue
+
+			const bookmark: Bookmark = {
+				id: uuidv4(),
+				title: item.title,
+				type: item.isFolder ? 'FOLDER' : 'BOOKMARK',
+				parentId: localParent,
+				isLocal: true,
+				onlineId: null,
+				url: item.url,
+				icon: item.isFolder ? undefined : getFaviconFromUrl(item.url),
+				order: item.index,
+			}
+			bookmarks = [...bookmarks, bookmark]
+			localChanged = true
+			link(bookmark.id, item)
+		}
+
+		for (const bookmark of getLocalChildren(localParent)) {
+			if (links[bookmark.id]) continue
+			if (bookmark.type === 'BOOKMARK' && !isMirrorableUrl(bookmark.url)) continue
+
+			const created = await browser.bookmarks.create({
+				parentId: nativeParent,
+				title: bookmark.title,
+				url: bookmark.type === 'BOOKMARK' ? bookmark.url : undefined,
+			})
+			const item: NativeItem = {
+				id: created.id,
+				parentId: nativeParent,
+				title: created.title,
+				url: created.url || '',
+				index: created.index ?? native.size,
+				isFolder: bookmark.type === 'FOLDER',
+			}
+			native.set(item.id, item)
+			link(bookmark.id, item)
+		}
+
+		for (const bookmark of getLocalChildren(localParent)) {
+			const item = links[bookmark.id] && native.get(links[bookmark.id].nativeId)
+			if (bookmark.type === 'FOLDER' && item?.isFolder) {
+				await addMissing(bookmark.id, item.id)
+			}
+		}
+	}
+	await addMissing(null, rootId)
+
+	// Renames and moves between folders
+	for (const [id, entry] of Object.entries(links)) {
+		const local = getLocal(id)
+		const item = native.get(entry.nativeId)
+		if (!local || !item) continue
+		const localWins = isLocked(local)
+
+		const changes: { title?: string; url?: string } = {}
+		for (const field of ['title', 'url'] as const) {
+			if (local[field] === item[field]) continue
+			if (
+				localWins ||
+				local[field] !== entry[field] ||
+				item[field] === entry[field]
+			) {
+				changes[field] = local[field]
+			} else {
+				updateLocal(id, { [field]: item[field] })
+			}
+		}
+		if (changes.title !== undefined || (changes.url && !item.isFolder)) {
+			await browser.bookmarks.update(item.id, changes).catch(() => {})
+			native.set(item.id, { ...item, ...changes })
+		}
+
+		const nativeParent = toLocalParent(item)
+		if (nativeParent === undefined || nativeParent === local.parentId) continue
+		if (
+			localWins ||
+			local.parentId !== entry.parentId ||
+			nativeParent === entry.parentId
+		) {
+			const target = toNativeParent(local.parentId)
+			// A Widgetify folder that is not mirrored keeps its items to itself
+			if (!target) continue
+			try {
+				await browser.bookmarks.move(item.id, { parentId: target })
+				native.set(item.id, { ...item, parentId: target, index: native.size })
+			} catch {}
+		} else {
+			updateLocal(id, { parentId: nativeParent })
+		}
+	}
+
+	// Order inside each folder
+	const folders: (string | null)[] = [
+		null,
+		...bookmarks.filter((bookmark) => bookmark.type === 'FOLDER').map(({ id }) => id),
+	]
+	for (const folderId of folders) {
+		const nativeParent = toNativeParent(folderId)
+		if (!nativeParent) continue
+
+		const localOrder = getLocalChildren(folderId)
+			.map(({ id }) => id)
+			.filter((id) => links[id])
+		const nativeOrder = getNativeChildren(nativeParent)
+			.map((item) => nativeToLocal.get(item.id))
+			.filter((id): id is string => !!id && localOrder.includes(id))
+		if (isSameOrder(localOrder, nativeOrder)) continue
+
+		const previousOrder = [...localOrder].sort(
+			(a, b) => links[a].index - links[b].index
+		)
+		if (
+			!isSameOrder(localOrder, previousOrder) ||
+			isSameOrder(nativeOrder, previousOrder)
+		) {
+			for (const [index, id] of localOrder.entries()) {
+				const nativeId = links[id].nativeId
+				await browser.bookmarks
+					.move(nativeId, { parentId: nativeParent, index })
+					.catch(() => {})
+			}
+			const [fresh] = await browser.bookmarks.getSubTree(rootId)
+			for (const item of flattenNative(fresh).values()) {
+				if (native.has(item.id)) native.set(item.id, item)
+			}
+		} else {
+			const unlinked = getLocalChildren(folderId).filter(({ id }) => !links[id])
+			for (const [index, id] of [
+				...nativeOrder,
+				...unlinked.map((b) => b.id),
+			].entries()) {
+				if (getLocal(id)?.order !== index) updateLocal(id, { order: index })
+			}
+		}
+	}
+
+	// Snapshot for the next pass
+	const nextLinks: Record<string, BookmarkMirrorLink> = {}
+	for (const [id, entry] of Object.entries(links)) {
+		const local = getLocal(id)
+		if (!local || !native.has(entry.nativeId)) continue
+
+		nextLinks[id] = {
+			nativeId: entry.nativeId,
+			title: local.title,
+			url: local.url,
+			parentId: local.parentId,
+			index: getLocalChildren(local.parentId).findIndex((b) => b.id === id),
+		}
+	}
+
+	if (JSON.stringify(nextLinks) !== JSON.stringify(state.links)) {
+		await setToStorage('bookmarkMirror', { rootId, links: nextLinks })
+	}
+
+	if (localChanged) {
+		await setToStorage('bookmarks', bookmarks)
+		if (deletedIds.length) {
+			const deletedList = (await getFromStorage('deletedBookmarkIds')) || []
+			await setToStorage('deletedBookmarkIds', [...deletedList, ...deletedIds])
+		}
+		await enqueueSync(SyncTarget.BOOKMARKS)
+		await drainSyncOutbox()
+	}
+}
+
+export function syncBookmarkMirror() {
+	// Runs one at a time, the browser events of a pass schedule the next one
+	pending = pending.then(mirror).catch((error) => {
+		console.error('Bookmark mirror failed:', error)
+	})
+	return pending
+}
+
+export function scheduleBookmarkMirror() {
+	if (timer) clearTimeout(timer)
+	timer = setTimeout(() => {
+		timer = null
+		syncBookmarkMirror()
+	}, MIRROR_DELAY)
+}
+
+async function isInsideMirror(state: BookmarkMirrorState, id: string | undefined) {
+	const linkedIds = new Set(Object.values(state.links).map((link) => link.nativeId))
+
+	let current = id
+	while (current) {
+		if (current === state.rootId || linkedIds.has(current)) return true
+		try {
+			const [node] = await browser.bookmarks.get(current)
+			current = node.parentId
+		} catch {
+			return false
+		}
+	}
+	return false
+}
+
+/**
+ * Mirrors browser-side changes as they happen. The bookmarks permission is
+ * optional, so this is called again once it is granted.
+ */
+export function watchNativeBookmarks() {
+	if (isListening || !browser.bookmarks) return
+	isListening = true
+
+	const onChange = async (...ids: (string | undefined)[]) => {
+		const state = await getFromStorage('bookmarkMirror')
+		if (!state) return
+
+		for (const id of ids) {
+			if (await isInsideMirror(state, id)) {
+				scheduleBookmarkMirror()
+				return
+			}
+		}
+	}
+
+	browser.bookmarks.onCreated.addListener((_, node) => onChange(node.parentId))
+	browser.bookmarks.onChanged.addListener((id) => onChange(id))
+	browser.bookmarks.onRemoved.addListener((id, info) => onChange(id, info.parentId))
+	browser.bookmarks.onMoved.addListener((_, info) =>
+		onChange(info.parentId, info.oldParentId)
+	)
+	browser.bookmarks.onChildrenReordered?.addListener((id) => onChange(id))
+}
@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getFaviconFromUrl } from '@/common/utils/icon'
+import type { Bookmark } from '../types/bookmark.types'
+
+export interface NetscapeBookmarkNode {
+	title: string
+	/** Missing for folders */
+	url?: string
+	children?: NetscapeBookmarkNode[]
+	sticker?: string
+	customBackground?: string
+	customTextColor?: string
+	customImage?: string
+}
+
+// Widgetify-only fields travel in data attributes, browsers ignore them
+const customAttributes = {
+	sticker: 'data-sticker',
+	customBackground: 'data-custom-background',
+	customTextColor: 'data-custom-text-color',
+	customImage: 'data-custom-image',
+} as const
+
+function escapeHtml(value: string) {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+function getCustomAttributes(bookmark: Bookmark) {
+	return Object.entries(customAttributes)
+		.map(([field, attribute]) => {
+			const value = bookmark[field as keyof typeof customAttributes]
+			return value ? ` ${attribute}="${escapeHtml(value)}"` : ''
+		})
+		.join('')
+}
+
+export function exportNetscapeBookmarks(bookmarks: Bookmark[]) {
+	const now = Math.floor(Date.now() / 1000)
+	const getChildren = (parentId: string | null) =>
+		bookmarks
+			.filter((bookmark) => bookmark.parentId === parentId)
+			.sort((a, b) => (a.order || 0) - (b.order || 0))
+
+	const renderList = (parentId: string | null, depth: number): string[] => {
+		const indent = '    '.repeat(depth)
+		return getChildren(parentId).flatMap((bookmark) => {
+			const attributes = `ADD_DATE="${now}"${getCustomAttributes(bookmark)}`
+			if (bookmark.type === 'FOLDER') {
+				return [
+					`${indent}<DT><H3 ${attributes}>${escapeHtml(bookmark.title)}</H3>`,
+					`${indent}<DL><p>`,
+					...renderList(bookmark.id, depth + 1),
+					`${indent}</DL><p>`,
+				]
+			}
+
+			return [
+				`${indent}<DT><A HREF="${escapeHtml(bookmark.url)}" ${attributes}>${escapeHtml(bookmark.title)}</A>`,
+			]
+		})
+	}
+
+	return [
+		'<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+		'<!-- This is an automatically generated file.',
+		'     It will be read and overwritten.',
+		'     DO NOT EDIT! -->',
+		'<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+		'<TITLE>Bookmarks</TITLE>',
+		'<H1>Widgetify</H1>',
+		'<DL><p>',
+		...renderList(null, 1),
+		'</DL><p>',
+		'',
+	].join('\n')
+}
+
+export function downloadNetscapeBookmarks(bookmarks: Bookmark[]) {
+	const blob = new Blob([exportNetscapeBookmarks(bookmarks)], {
+		type: 'text/html;charset=utf-8',
+	})
+	const url = URL.createObjectURL(blob)
+	const date = new Date().toISOString().slice(0, 10)
+
+	const link = document.createElement('a')
+	link.href = url
+	link.download = `widgetify-bookmarks-${date}.html`
+	document.body.appendChild(link)
+	link.click()
+	link.remove()
+
+	URL.revokeObjectURL(url)
+}
+
+function readCustomFields(element: Element) {
+	const fields: Partial<NetscapeBookmarkNode> = {}
+	for (const [field, attribute] of Object.entries(customAttributes)) {
+		const value = element.getAttribute(attribute)
+		if (value) fields[field as keyof typeof customAttributes] = value
+	}
+	return fields
+}
+
+function findChild(element: Element, tag: string) {
+	return Array.from(element.children).find(
+		(child) => child.tagName.toUpperCase() === tag
+	)
+}
+
+/**
+ * Reads the tree of a `bookmarks.html` file. The format never closes its `<DT>`
+ * and `<p>` tags, so depending on the parser a folder's `<DL>` sits inside its
+ * `<DT>` or right after it, and items may be nested in the previous `<DT>` or a
+ * stray `<p>`. All of those shapes are accepted.
+ */
+export function parseNetscapeBookmarks(html: string): NetscapeBookmarkNode[] {
+	const document = new DOMParser().parseFromString(html, 'text/html')
+	const rootList = document.querySelector('dl')
+	if (!rootList) return []
+
+	const readList = (list: Element): NetscapeBookmarkNode[] => {
+		const nodes: NetscapeBookmarkNode[] = []
+
+		const readChildren = (parent: Element) => {
+			for (const child of Array.from(parent.children)) {
+				const tag = child.tagName.toUpperCase()
+				if (tag === 'P') {
+					readChildren(child)
+				} else if (tag === 'DL') {
+					// A folder list that the parser moved out of its <DT>
+					const folder = nodes[nodes.length - 1]
+					if (folder && !folder.url && !folder.children?.length) {
+						folder.children = readList(child)
+					}
+				} else if (tag === 'DT') {
+					const node = readItem(child)
+					if (node) nodes.push(node)
+					// Unclosed <DT>s can swallow the items that follow them
+					readChildren(child)
+				}
+			}
+		}
+
+		readChildren(list)
+		return nodes
+	}
+
+	const readItem = (item: Element): NetscapeBookmarkNode | null => {
+		const heading = findChild(item, 'H3')
+		if (heading) {
+			const list = findChild(item, 'DL')
+			return {
+				title: heading.textContent?.trim() || 'پوشه',
+				children: list ? readList(list) : [],
+				...readCustomFields(heading),
+			}
+		}
+
+		const link = findChild(item, 'A')
+		const url = link?.getAttribute('href')
+		// Bookmarklets and browser-internal pages cannot be opened from a new tab
+		if (!link || !url || !/^(https?|ftp):/i.test(url)) return null
+
+		return {
+			title: link.textContent?.trim() || url,
+			url,
+			...readCustomFields(link),
+		}
+	}
+
+	return readList(rootList)
+}
+
+export function countNetscapeBookmarks(nodes: NetscapeBookmarkNode[]) {
+	const total = { bookmarks: 0, folders: 0 }
+	for (const node of nodes) {
+		if (node.url) {
+			total.bookmarks++
+			continue
+		}
+
+		const nested = countNetscapeBookmarks(node.children || [])
+		total.bookmarks += nested.bookmarks
+		total.folders += nested.folders + 1
+	}
+	return total
+}
+
+/** Drops bookmarks whose url is already in `urls`, and folders left empty by it. */
+export function skipExistingUrls(
+	nodes: NetscapeBookmarkNode[],
+	urls: Set<string>
+): NetscapeBookmarkNode[] {
+	return nodes.flatMap((node) => {
+		if (node.url) return urls.has(node.url) ? [] : [node]
+
+		const children = skipExistingUrls(node.children || [], urls)
+		return node.children?.length && !children.length ? [] : [{ ...node, children }]
+	})
+}
+
+/**
+ * Turns the parsed tree into Widgetify bookmarks under `parentId`, keeping the
+ * file's order. Top-level items are placed after `startOrder`.
+ */
+export function buildImportedBookmarks(
+	nodes: NetscapeBookmarkNode[],
+	parentId: string | null,
+	startOrder = 0
+): Bookmark[] {
+	return nodes.flatMap((node, index) => {
+		const id = uuidv4()
+		const bookmark: Bookmark = {
+			id,
+			title: node.title,
+			type: node.url ? 'BOOKMARK' : 'FOLDER',
+			parentId,
+			isLocal: true,
+			onlineId: null,
+			url: node.url || '',
+			icon: node.url ? getFaviconFromUrl(node.url) : undefined,
+			sticker: node.sticker,
+			customBackground: node.customBackground,
+			customTextColor: node.customTextColor,
+			customImage: node.customImage,
+			order: startOrder + index,
+		}
+
+		return [bookmark, ...buildImportedBookmarks(node.children || [], id)]
+	})
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react'
+import { FiCheck, FiSettings } from 'react-icons/fi'
+import { callEvent } from '@/common/utils/call-event'
+import Tooltip from '@/components/toolTip'
+import { useDashboards } from '@/context/dashboard.context'
+
+export function DashboardSwitcher() {
+	const { dashboards, activeDashboard, switchDashboard } = useDashboards()
+	const [isOpen, setIsOpen] = useState(false)
+	const containerRef = useRef<HTMLDivElement>(null)
+
+	useEffect(() => {
+		if (!isOpen) return
+
+		const handleClickOutside = (event: MouseEvent) => {
+			if (!containerRef.current?.contains(event.target as Node)) {
+				setIsOpen(false)
+			}
+		}
+
+		document.addEventListener('mousedown', handleClickOutside)
+		return () => document.removeEventListener('mousedown', handleClickOutside)
+	}, [isOpen])
+
+	const onSelect = (id: string) => {
+		setIsOpen(false)
+		switchDashboard(id, 'navbar')
+	}
+
+	const onManage = () => {
+		setIsOpen(false)
+		callEvent('openSettings', 'dashboards')
+	}
+
+	return (
+		<div ref={containerRef} className="relative">
+			<Tooltip content="داشبوردها">
+				<div
+					className="flex items-center justify-center h-8 gap-1 px-2 transition-all border cursor-pointer border-content rounded-xl bg-content backdrop-blur-sm hover:opacity-80"
+					onClick={() => setIsOpen(!isOpen)}
+					id="dashboard-switcher"
+				>
+					<span className="text-sm">{activeDashboard.emoji}</span>
+					<span className="hidden text-xs md:block text-muted max-w-24 truncate">
+						{activeDashboard.name}
+					</span>
+				</div>
+			</Tooltip>
+
+			{isOpen && (
+				<div className="absolute left-0 z-50 p-1 mt-2 shadow-2xl w-52 top-full bg-widget widget-wrapper rounded-2xl">
+					{dashboards.map((dashboard, index) => (
+						<button
+							key={dashboard.id}
+							type="button"
+							onClick={() => onSelect(dashboard.id)}
+							className="flex items-center w-full gap-2 px-2 py-1.5 text-right rounded-lg cursor-pointer hover:bg-base-300"
+						>
+							<span>{dashboard.emoji}</span>
+							<span className="flex-1 text-sm truncate text-content">
+								{dashboard.name}
+							</span>
+							{dashboard.id === activeDashboard.id ? (
+								<FiCheck size={14} className="text-primary" />
+							) : (
+								index < 9 && (
+									<kbd className="text-[10px] text-muted" dir="ltr">
+										Alt+{index + 1}
+									</kbd>
+								)
+							)}
+						</button>
+					))}
+					<button
+						type="button"
+						onClick={onManage}
+						className="flex items-center w-full gap-2 px-2 py-1.5 mt-1 text-right border-t rounded-lg cursor-pointer border-content hover:bg-base-300"
+					>
+						<FiSettings size={14} className="text-muted" />
+						<span className="text-xs text-muted">مدیریت داشبوردها</span>
+					</button>
+				</div>
+			)}
+		</div>
+	)
+}
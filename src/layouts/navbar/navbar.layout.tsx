@@ -7,6 +7,7 @@ import { callEvent, listenEvent } from '@/common/utils/call-event'
 import Tooltip from '@/components/toolTip'
 import { getConfigData } from '@/services/config-data/config_data-api'
 import { SettingModal } from '../setting/setting-modal'
+import { DashboardSwitcher } from './dashboards/dashboard-switcher'
 import { FriendsList } from './friends-list/friends'
 import { ProfileNav } from './profile/profile'
 import { SyncButton } from './sync/sync'
@@ -147,6 +148,7 @@ export function NavbarLayout(): JSX.Element {
 					<FriendsList />
 					<ProfileNav />
 					<SyncButton />
+					<DashboardSwitcher />
 					<Tooltip content="مدیریت ویجت‌ها">
 						<div
 							className="relative flex items-center justify-center w-8 h-8 gap-2 transition-all border cursor-pointer border-content rounded-xl bg-content backdrop-blur-sm hover:opacity-80"
@@ -0,0 +1,25 @@
+import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
+
+/**
+ * Adds the incoming bookmarks to the stored ones, updating those already present by
+ * `id` or `onlineId`. The custom image only lives on this device, so it is kept.
+ */
+export function mergeBookmarkLists(current: Bookmark[], incoming: Bookmark[]) {
+	return [...current, ...incoming].reduce((acc: Bookmark[], bookmark: Bookmark) => {
+		if (!acc.some((b) => b.id === bookmark.id)) {
+			acc.push(bookmark)
+		} else {
+			const index = acc.findIndex(
+				(b) => b.id === bookmark.id || b.onlineId === bookmark.onlineId
+			)
+			if (index !== -1) {
+				acc[index] = {
+					...bookmark,
+					icon: bookmark.icon,
+					customImage: acc[index].customImage || bookmark.customImage,
+				}
+			}
+		}
+		return acc
+	}, [])
+}
@@ -0,0 +1,140 @@
+import moment from 'jalali-moment'
+import { FiDownloadCloud, FiUploadCloud } from 'react-icons/fi'
+import { Button } from '@/components/button/button'
+import Modal from '@/components/modal'
+import { OfflineIndicator } from '@/components/offline-indicator'
+import { translateError } from '@/utils/translate-error'
+import type { SyncOutboxEntry } from '../sync-outbox'
+import { type SyncTarget, type SyncTargetStatus, syncTargets } from '../sync-tasks'
+
+interface Prop {
+	isOpen: boolean
+	onClose: () => void
+	status: Partial<Record<SyncTarget, SyncTargetStatus>>
+	outbox: SyncOutboxEntry[]
+	conflictsCount: number
+	isOnline: boolean
+	busyTarget: SyncTarget | null
+	onPush: (target: SyncTarget) => void
+	onPull: (target: SyncTarget) => void
+	onOpenConflicts: () => void
+}
+
+function formatTime(time?: number) {
+	if (!time) return 'هرگز'
+	return moment(time).locale('fa').fromNow()
+}
+
+function formatError(error: string) {
+	const translated = translateError(error)
+	return typeof translated === 'string' ? translated : Object.values(translated)[0]
+}
+
+export function SyncCenterModal({
+	isOpen,
+	onClose,
+	status,
+	outbox,
+	conflictsCount,
+	isOnline,
+	busyTarget,
+	onPush,
+	onPull,
+	onOpenConflicts,
+}: Prop) {
+	return (
+		<Modal
+			isOpen={isOpen}
+			onClose={onClose}
+			size="md"
+			title="وضعیت همگام‌سازی"
+			direction="rtl"
+		>
+			<div className="space-y-3">
+				{!isOnline && (
+					<OfflineIndicator
+						mode="notification"
+						message="اتصال اینترنت برقرار نیست. تغییرات پس از اتصال به‌صورت خودکار ارسال می‌شوند."
+					/>
+				)}
+
+				{conflictsCount > 0 && (
+					<button
+						className="flex items-center justify-between w-full p-3 text-sm border rounded-lg cursor-pointer bg-warning/10 border-warning/20 text-warning"
+						onClick={onOpenConflicts}
+					>
+						<span>{conflictsCount} تداخل در وظایف نیاز به بررسی دارد</span>
+						<span className="text-xs">بررسی</span>
+					</button>
+				)}
+
+				{syncTargets.map(({ target, label }) => {
+					const targetStatus = status[target] || {}
+					// The outbox keeps one entry per target
+					const pending = outbox.find((entry) => entry.target === target)
+					const pendingCount = pending ? pending.changes || 1 : 0
+					const retrying = pending && pending.attempts > 0 ? pending : null
+					const hasError =
+						!!targetStatus.lastError &&
+						(targetStatus.lastErrorAt || 0) >
+							(targetStatus.lastSuccessAt || 0)
+					const isBusy = busyTarget === target
+
+					return (
+						<div
+							key={target}
+							className="p-3 space-y-2 border rounded-lg border-content"
+						>
+							<div className="flex items-center justify-between">
+								<p className="text-sm font-medium text-content">
+									{label}
+								</p>
+								{pendingCount > 0 && (
+									<span className="px-2 py-0.5 text-xs rounded-full bg-primary/15 text-primary">
+										{pendingCount} تغییر در انتظار ارسال
+									</span>
+								)}
+							</div>
+							<p className="text-xs text-muted">
+								آخرین همگام‌سازی موفق:{' '}
+								{formatTime(targetStatus.lastSuccessAt)}
+							</p>
+							{retrying && (
+								<p className="text-xs text-muted">
+									{retrying.attempts} تلاش ناموفق · تلاش بعدی{' '}
+									{formatTime(retrying.nextAttemptAt)}
+								</p>
+							)}
+							{hasError && targetStatus.lastError && (
+								<p className="text-xs text-error">
+									{formatError(targetStatus.lastError)} (
+									{formatTime(targetStatus.lastErrorAt)})
+								</p>
+							)}
+							<div className="flex gap-2">
+								<Button
+									size="xs"
+									onClick={() => onPush(target)}
+									disabled={isBusy || !isOnline}
+									className="flex-1 border border-content/20 text-content rounded-xl"
+								>
+									<FiUploadCloud size={14} />
+									<span>ارسال</span>
+								</Button>
+								<Button
+									size="xs"
+									onClick={() => onPull(target)}
+									disabled={isBusy || !isOnline}
+									className="flex-1 border border-content/20 text-content rounded-xl"
+								>
+									<FiDownloadCloud size={14} />
+									<span>دریافت</span>
+								</Button>
+							</div>
+						</div>
+					)
+				})}
+			</div>
+		</Modal>
+	)
+}
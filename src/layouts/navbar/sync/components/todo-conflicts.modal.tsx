@@ -0,0 +1,154 @@
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { callEvent } from '@/common/utils/call-event'
+import { Button } from '@/components/button/button'
+import Modal from '@/components/modal'
+import type {
+	Todo,
+	TodoRecurrence,
+	TodoSubtask,
+} from '@/layouts/widgets/calendar/interface/todo.interface'
+import { describeRecurrence } from '@/layouts/widgets/todos/recurrence'
+import { formatReminderOffset } from '@/layouts/widgets/todos/todo-reminders'
+import { SyncTarget } from '../sync-tasks'
+import {
+	type MergeableTodoField,
+	resolveTodoConflict,
+	type TodoConflict,
+} from '../todo-merge'
+
+interface Prop {
+	isOpen: boolean
+	onClose: () => void
+	conflicts: TodoConflict[]
+}
+
+const fieldLabels: Record<MergeableTodoField, string> = {
+	text: 'عنوان',
+	completed: 'وضعیت انجام',
+	date: 'تاریخ',
+	priority: 'اولویت',
+	category: 'دسته‌بندی',
+	notes: 'توضیحات',
+	order: 'ترتیب',
+	recurrence: 'تکرار',
+	completedDates: 'روزهای انجام شده',
+	subtasks: 'زیرکارها',
+	dueTime: 'ساعت',
+	reminders: 'یادآوری',
+	status: 'ستون',
+}
+
+const translatedStatus: Record<string, string> = {
+	todo: 'برای انجام',
+	in_progress: 'در حال انجام',
+	done: 'انجام شده',
+}
+
+const translatedPriority: Record<string, string> = {
+	low: 'کم',
+	medium: 'متوسط',
+	high: 'زیاد',
+}
+
+function formatValue(field: MergeableTodoField, value: Todo[MergeableTodoField]) {
+	if (field === 'completed') return value ? 'انجام شده' : 'انجام نشده'
+	if (field === 'priority') return translatedPriority[value as string] || '-'
+	if (field === 'status') return translatedStatus[value as string] || '-'
+	if (field === 'recurrence') {
+		return value ? describeRecurrence(value as TodoRecurrence) : 'بدون تکرار'
+	}
+	if (field === 'subtasks') {
+		return (
+			(value as TodoSubtask[] | undefined)
+				?.map((subtask) => `${subtask.completed ? '✓' : '○'} ${subtask.text}`)
+				.join('، ') || '-'
+		)
+	}
+	if (field === 'reminders') {
+		return (
+			(value as number[] | undefined)?.map(formatReminderOffset).join('، ') || '-'
+		)
+	}
+	if (field === 'completedDates') {
+		return (value as string[] | undefined)?.join('، ') || '-'
+	}
+	if (value === undefined || value === null || value === '') return '-'
+	return String(value)
+}
+
+export function TodoConflictsModal({ isOpen, onClose, conflicts }: Prop) {
+	const onResolve = async (conflict: TodoConflict, choice: 'local' | 'remote') => {
+		const [todos, storedConflicts] = await Promise.all([
+			getFromStorage('todos'),
+			getFromStorage('todoConflicts'),
+		])
+
+		const updatedTodos = resolveTodoConflict(todos || [], conflict, choice)
+		const remaining = (storedConflicts || []).filter(
+			(item) => item.todoId !== conflict.todoId || item.field !== conflict.field
+		)
+
+		await Promise.all([
+			setToStorage('todos', updatedTodos),
+			setToStorage('todoConflicts', remaining),
+		])
+
+		callEvent('todosChanged', updatedTodos)
+		callEvent('todoConflictsChanged', remaining)
+		callEvent('startSync', SyncTarget.TODOS)
+
+		if (!remaining.length) onClose()
+	}
+
+	return (
+		<Modal
+			isOpen={isOpen}
+			onClose={onClose}
+			size="md"
+			title="تداخل در همگام‌سازی وظایف"
+			direction="rtl"
+		>
+			<div className="space-y-3">
+				<p className="text-sm text-muted">
+					این موارد هم روی این دستگاه و هم روی دستگاه دیگری تغییر کرده‌اند. نسخه
+					مورد نظر را انتخاب کنید.
+				</p>
+				{conflicts.map((conflict) => (
+					<div
+						key={`${conflict.todoId}-${conflict.field}`}
+						className="p-3 space-y-2 border rounded-lg border-content"
+					>
+						<p className="text-sm font-medium truncate text-content">
+							{conflict.todoText}
+							<span className="mr-1 text-xs font-light text-muted">
+								({fieldLabels[conflict.field]})
+							</span>
+						</p>
+						<div className="grid grid-cols-2 gap-2">
+							<Button
+								size="sm"
+								onClick={() => onResolve(conflict, 'local')}
+								className="flex-col h-auto py-2 border border-content/20 rounded-xl"
+							>
+								<span className="text-xs text-muted">این دستگاه</span>
+								<span className="text-sm break-all text-content">
+									{formatValue(conflict.field, conflict.local)}
+								</span>
+							</Button>
+							<Button
+								size="sm"
+								onClick={() => onResolve(conflict, 'remote')}
+								className="flex-col h-auto py-2 border border-content/20 rounded-xl"
+							>
+								<span className="text-xs text-muted">سرور</span>
+								<span className="text-sm break-all text-content">
+									{formatValue(conflict.field, conflict.remote)}
+								</span>
+							</Button>
+						</div>
+					</div>
+				))}
+			</div>
+		</Modal>
+	)
+}
@@ -0,0 +1,64 @@
+import type { Note } from '@/context/notes.context'
+
+export interface NoteMergeResult {
+	notes: Note[]
+	/** Notes the server has an older copy of, or none at all */
+	toPush: Note[]
+}
+
+/** Whether the note was edited on this device since it was last synced. */
+export function isNoteDirty(note: Note) {
+	return !note.onlineId || note.updatedAt > (note.syncedAt || 0)
+}
+
+/**
+ * Merges the server notes into the local ones. Notes are matched by `onlineId` and the
+ * newer `updatedAt` wins as a whole. A note missing on the server was deleted there and
+ * is dropped, unless it was edited on this device since the last sync. Server notes
+ * deleted on this device (`deletedNotes`) are not brought back.
+ */
+export function mergeNotes(
+	local: Note[],
+	remote: Note[],
+	deletedNotes: Note[] = []
+): NoteMergeResult {
+	const remoteByOnlineId = new Map(remote.map((note) => [note.onlineId, note]))
+	const localOnlineIds = new Set(local.map((note) => note.onlineId).filter(Boolean))
+	const deletedOnlineIds = new Set(deletedNotes.map((note) => note.onlineId))
+
+	const notes: Note[] = []
+	const toPush: Note[] = []
+
+	for (const localNote of local) {
+		const remoteNote = localNote.onlineId
+			? remoteByOnlineId.get(localNote.onlineId)
+			: undefined
+
+		if (remoteNote) {
+			if (localNote.updatedAt > remoteNote.updatedAt && isNoteDirty(localNote)) {
+				notes.push(localNote)
+				toPush.push(localNote)
+			} else {
+				notes.push({ ...remoteNote, id: localNote.id })
+			}
+			continue
+		}
+
+		if (localNote.onlineId && !isNoteDirty(localNote)) continue
+
+		const pending = { ...localNote, onlineId: null }
+		notes.push(pending)
+		toPush.push(pending)
+	}
+
+	for (const remoteNote of remote) {
+		if (localOnlineIds.has(remoteNote.onlineId)) continue
+		if (deletedOnlineIds.has(remoteNote.onlineId)) continue
+
+		notes.push(remoteNote)
+	}
+
+	notes.sort((a, b) => b.createdAt - a.createdAt)
+
+	return { notes, toPush }
+}
@@ -0,0 +1,27 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { fakeBrowser } from 'wxt/testing'
+import { getFromStorage } from '@/common/storage'
+import { enqueueSync, ownSyncOutbox } from './sync-outbox'
+import { SyncTarget } from './sync-tasks'
+
+describe('sync outbox', () => {
+	beforeEach(() => {
+		fakeBrowser.reset()
+		ownSyncOutbox()
+	})
+
+	it('counts every change enqueued at the same time', async () => {
+		await Promise.all([
+			enqueueSync(SyncTarget.TODOS),
+			enqueueSync(SyncTarget.TODOS),
+			enqueueSync(SyncTarget.NOTES),
+			enqueueSync(SyncTarget.TODOS),
+		])
+
+		const outbox = await getFromStorage('syncOutbox')
+		expect(outbox?.map(({ target, changes }) => ({ target, changes }))).toEqual([
+			{ target: SyncTarget.TODOS, changes: 3 },
+			{ target: SyncTarget.NOTES, changes: 1 },
+		])
+	})
+})
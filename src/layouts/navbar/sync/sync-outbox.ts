@@ -0,0 +1,199 @@
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { isSyncActive } from '@/common/sync-checker'
+import { callEvent } from '@/common/utils/call-event'
+import { getSyncErrorMessage, runSyncTask, SyncTarget } from './sync-tasks'
+
+export const SYNC_OUTBOX_ALARM = 'sync-outbox'
+
+const BASE_RETRY_DELAY = 30 * 1000
+const MAX_RETRY_DELAY = 30 * 60 * 1000
+
+export interface SyncOutboxEntry {
+	target: SyncTarget
+	enqueuedAt: number
+	/** Local changes coalesced into this entry, one when queued before they were counted */
+	changes?: number
+	attempts: number
+	nextAttemptAt: number
+	lastError?: string
+}
+
+export function getRetryDelay(attempts: number) {
+	return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY)
+}
+
+async function saveOutbox(outbox: SyncOutboxEntry[]) {
+	await setToStorage('syncOutbox', outbox)
+	callEvent('syncOutboxChanged', outbox)
+}
+
+let outboxWrites: Promise<unknown> = Promise.resolve()
+
+/**
+ * Read-modify-write of the outbox, one at a time. Only the background script runs
+ * these (see `ownSyncOutbox`), so no update can overwrite another.
+ */
+function updateOutbox(update: (outbox: SyncOutboxEntry[]) => boolean) {
+	const run = outboxWrites.then(async () => {
+		const outbox = (await getFromStorage('syncOutbox')) || []
+		if (update(outbox)) await saveOutbox(outbox)
+	})
+	outboxWrites = run.catch(() => {})
+	return run
+}
+
+/**
+ * Records that a target has local changes to push. Each sync pushes the whole state
+ * of a target, so entries are coalesced per target.
+ */
+function enqueue(target: SyncTarget) {
+	return updateOutbox((outbox) => {
+		const now = Date.now()
+		const existing = outbox.find((entry) => entry.target === target)
+
+		if (existing) {
+			existing.enqueuedAt = now
+			existing.nextAttemptAt = now
+			existing.changes = (existing.changes || 1) + 1
+		} else {
+			outbox.push({
+				target,
+				enqueuedAt: now,
+				changes: 1,
+				attempts: 0,
+				nextAttemptAt: now,
+			})
+		}
+		return true
+	})
+}
+
+function settleEntry(processed: SyncOutboxEntry, error: unknown | null) {
+	return updateOutbox((outbox) => {
+		const index = outbox.findIndex((entry) => entry.target === processed.target)
+		if (index === -1) return false
+
+		const current = outbox[index]
+		if (error === null) {
+			// A change enqueued while the push was in flight still has to go out
+			if (current.enqueuedAt !== processed.enqueuedAt) {
+				outbox[index] = {
+					...current,
+					changes: Math.max(
+						(current.changes || 1) - (processed.changes || 1),
+						1
+					),
+				}
+			} else {
+				outbox.splice(index, 1)
+			}
+		} else {
+			const attempts = current.attempts + 1
+			outbox[index] = {
+				...current,
+				attempts,
+				nextAttemptAt: Date.now() + getRetryDelay(attempts),
+				lastError: getSyncErrorMessage(error),
+			}
+		}
+		return true
+	})
+}
+
+interface DrainOptions {
+	force?: boolean
+	target?: SyncTarget
+}
+
+async function drain({ force = false, target }: DrainOptions): Promise<boolean> {
+	const [token, isSyncEnabled] = await Promise.all([
+		getFromStorage('auth_token'),
+		isSyncActive(),
+	])
+	if (!token || !isSyncEnabled) return false
+	if (typeof navigator !== 'undefined' && navigator.onLine === false) return false
+
+	const outbox = (await getFromStorage('syncOutbox')) || []
+	const now = Date.now()
+	let isSuccessful = true
+
+	for (const entry of outbox) {
+		if (target !== undefined && entry.target !== target) continue
+		if (!force && entry.nextAttemptAt > now) continue
+
+		try {
+			await runSyncTask(entry.target, 'POST')
+			await settleEntry(entry, null)
+		} catch (error) {
+			console.error('Error during sync:', error)
+			isSuccessful = false
+			await settleEntry(entry, error)
+		}
+	}
+
+	return isSuccessful
+}
+
+let drainQueue: Promise<unknown> = Promise.resolve()
+
+function drainHere(options: DrainOptions) {
+	const run = drainQueue.then(() => drain(options))
+	drainQueue = run.catch(() => {})
+	return run
+}
+
+const SYNC_OUTBOX_MESSAGE = 'sync-outbox'
+
+type SyncOutboxMessage = { type: typeof SYNC_OUTBOX_MESSAGE } & (
+	| { action: 'enqueue'; target: SyncTarget }
+	| { action: 'drain'; options: DrainOptions }
+)
+
+function isSyncOutboxMessage(message: unknown): message is SyncOutboxMessage {
+	return (message as SyncOutboxMessage | null)?.type === SYNC_OUTBOX_MESSAGE
+}
+
+let isOwner = false
+
+/** Makes this context, the background script, the only one that writes the outbox */
+export function ownSyncOutbox() {
+	isOwner = true
+	browser.runtime.onMessage.addListener((message) => {
+		if (!isSyncOutboxMessage(message)) return
+		return message.action === 'enqueue'
+			? enqueue(message.target)
+			: drainHere(message.options)
+	})
+}
+
+async function runInOwner<T>(message: SyncOutboxMessage, run: () => Promise<T>) {
+	if (isOwner) return run()
+	try {
+		return (await browser.runtime.sendMessage(message)) as T
+	} catch {
+		// No background script to answer, e.g. while the extension is being updated
+		return run()
+	}
+}
+
+/** Queues a push of the target, through the background script when called from a page */
+export async function enqueueSync(target: SyncTarget) {
+	if (target === SyncTarget.ALL) return
+
+	await runInOwner({ type: SYNC_OUTBOX_MESSAGE, action: 'enqueue', target }, () =>
+		enqueue(target)
+	)
+}
+
+/**
+ * Pushes every due outbox entry. Used by the new tab page right after a change and by
+ * the background script on a timer and when the browser comes back online. Pages hand
+ * the work to the background script, so outbox updates from different contexts can
+ * never overwrite each other.
+ * @returns {boolean} - false when any entry failed or sync is currently not possible.
+ */
+export function drainSyncOutbox(options: DrainOptions = {}): Promise<boolean> {
+	return runInOwner({ type: SYNC_OUTBOX_MESSAGE, action: 'drain', options }, () =>
+		drainHere(options)
+	)
+}
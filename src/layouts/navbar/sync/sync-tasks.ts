@@ -0,0 +1,431 @@
+import type { AxiosInstance } from 'axios'
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { callEvent } from '@/common/utils/call-event'
+import type { Wallpaper } from '@/common/wallpaper.interface'
+import type { Note } from '@/context/notes.context'
+import type { Theme } from '@/context/theme.context'
+import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
+import type {
+	FetchedTodo,
+	Todo,
+} from '@/layouts/widgets/calendar/interface/todo.interface'
+import { getMainClient } from '@/services/api'
+import {
+	type FetchedBookmark,
+	getBookmarks,
+} from '@/services/hooks/bookmark/getBookmarks.hook'
+import type { FetchedNote } from '@/services/note/note-api'
+import { mergeBookmarkLists } from './bookmark-merge'
+import { mergeNotes } from './note-merge'
+import { hasUnsyncedChanges, mergeTodos } from './todo-merge'
+
+export enum SyncTarget {
+	ALL = 0,
+	TODOS = 1,
+	BOOKMARKS = 2,
+	NOTES = 3,
+}
+
+export interface SyncTargetStatus {
+	lastSuccessAt?: number
+	lastErrorAt?: number
+	lastError?: string
+}
+
+export const syncTargets: { target: SyncTarget; label: string }[] = [
+	{ target: SyncTarget.TODOS, label: 'وظایف' },
+	{ target: SyncTarget.BOOKMARKS, label: 'بوکمارک‌ها' },
+	{ target: SyncTarget.NOTES, label: 'یادداشت‌ها' },
+]
+
+export function getSyncErrorMessage(error: unknown): string {
+	return (
+		(error as any)?.response?.data?.message ||
+		(error as any)?.message ||
+		'NETWORK_ERROR'
+	)
+}
+
+async function recordSyncStatus(target: SyncTarget, error: unknown | null) {
+	// A full pull touches every target
+	const targets =
+		target === SyncTarget.ALL ? syncTargets.map((item) => item.target) : [target]
+	const status = (await getFromStorage('syncStatus')) || {}
+	const now = Date.now()
+
+	for (const item of targets) {
+		status[item] =
+			error === null
+				? { ...status[item], lastSuccessAt: now }
+				: {
+						...status[item],
+						lastErrorAt: now,
+						lastError: getSyncErrorMessage(error),
+					}
+	}
+
+	await setToStorage('syncStatus', status)
+	callEvent('syncStatusChanged', status)
+}
+
+/**
+ * Runs one sync round for the given target and records its outcome. Throws when the
+ * request fails so callers can decide whether to retry.
+ */
+export async function runSyncTask(target: SyncTarget, method: 'POST' | 'GET') {
+	try {
+		if (target === SyncTarget.ALL) await getAll()
+		if (target === SyncTarget.TODOS) await syncTodos(method)
+		if (target === SyncTarget.BOOKMARKS) await syncBookmarks(method)
+		if (target === SyncTarget.NOTES) await syncNotes()
+	} catch (error) {
+		await recordSyncStatus(target, error)
+		throw error
+	}
+
+	await recordSyncStatus(target, null)
+}
+
+async function syncTodos(method: 'POST' | 'GET') {
+	const apiClient = await getMainClient()
+	const response = await apiClient.get<FetchedTodo[]>('/todos/@me')
+
+	await reconcileTodos(apiClient, mapFetchedTodos(response.data), method === 'POST')
+}
+
+/** What `/todos/sync` receives, the server matches items by `offlineId` */
+export interface TodoSyncRequest {
+	todos: ReturnType<typeof mapTodos>
+	deletedTodos: ReturnType<typeof mapTodos>
+}
+
+function mapTodos(todos: Todo[] = []) {
+	return todos.map((todo) => ({
+		text: todo.text,
+		category: todo.category,
+		date: todo.date,
+		description: todo.notes,
+		priority: todo.priority,
+		completed: todo.completed,
+		offlineId: todo.id,
+		id: todo.onlineId,
+		order: todo.order || 0,
+		updatedAt: todo.updatedAt ? new Date(todo.updatedAt).toISOString() : undefined,
+		recurrence: todo.recurrence || null,
+		completedDates: todo.completedDates || [],
+		subtasks: todo.subtasks || [],
+		dueTime: todo.dueTime || null,
+		reminders: todo.reminders || [],
+		status: todo.status,
+	}))
+}
+
+/**
+ * Three-way merges the server list with the local list against the last synced base,
+ * pushes the result when it differs from the server and stores it as the new base.
+ */
+async function reconcileTodos(
+	apiClient: AxiosInstance,
+	remote: Todo[],
+	forcePush: boolean
+) {
+	const [todos, deletedTodos, syncBase, storedConflicts] = await Promise.all([
+		getFromStorage('todos'),
+		getFromStorage('deletedTodos'),
+		getFromStorage('todoSyncBase'),
+		getFromStorage('todoConflicts'),
+	])
+	const deleted = deletedTodos || []
+
+	const { todos: merged, conflicts } = mergeTodos(
+		syncBase || [],
+		todos || [],
+		remote,
+		deleted
+	)
+
+	let synced = merged
+	if (forcePush || deleted.length > 0 || hasUnsyncedChanges(merged, remote)) {
+		const request: TodoSyncRequest = {
+			todos: mapTodos(merged),
+			deletedTodos: mapTodos(deleted),
+		}
+		const response = await apiClient.post<FetchedTodo[]>('/todos/sync', request)
+
+		const mergedById = new Map(merged.map((todo) => [todo.id, todo]))
+		synced = mapFetchedTodos(response.data).map((todo) => {
+			const local = mergedById.get(todo.id)
+			return local
+				? { ...local, ...todo, updatedAt: todo.updatedAt ?? local.updatedAt }
+				: todo
+		})
+	}
+
+	// Keep earlier unresolved conflicts unless this round reported the same field again
+	const pendingConflicts = [
+		...(storedConflicts || []).filter(
+			(old) =>
+				synced.some((todo) => todo.id === old.todoId) &&
+				!conflicts.some(
+					(conflict) =>
+						conflict.todoId === old.todoId && conflict.field === old.field
+				)
+		),
+		...conflicts,
+	]
+
+	// Edits made on this device while the request was in flight win over the result
+	// and go out with the next round, as they now differ from the new base
+	const [current, currentDeleted] = await Promise.all([
+		getFromStorage('todos'),
+		getFromStorage('deletedTodos'),
+	])
+	const snapshotById = new Map((todos || []).map((todo) => [todo.id, todo]))
+	const currentById = new Map((current || []).map((todo) => [todo.id, todo]))
+	const remainingDeleted = (currentDeleted || []).filter(
+		(todo) => !deleted.some((item) => item.id === todo.id)
+	)
+	const localTodos: Todo[] = synced
+		// Removed here meanwhile, its deletion goes out with the next round
+		.filter((todo) => !snapshotById.has(todo.id) || currentById.has(todo.id))
+		.map((todo) => {
+			const latest = currentById.get(todo.id)
+			if (latest && latest.updatedAt !== snapshotById.get(todo.id)?.updatedAt) {
+				return { ...latest, onlineId: todo.onlineId }
+			}
+			return todo
+		})
+	const createdMeanwhile = (current || []).filter(
+		(todo) =>
+			!snapshotById.has(todo.id) && !localTodos.some((item) => item.id === todo.id)
+	)
+	const nextTodos = [...localTodos, ...createdMeanwhile]
+
+	await Promise.all([
+		setToStorage('todos', nextTodos),
+		setToStorage('deletedTodos', remainingDeleted),
+		setToStorage('todoSyncBase', synced),
+		setToStorage('todoConflicts', pendingConflicts),
+	])
+
+	callEvent('todosChanged', nextTodos)
+	callEvent('todoConflictsChanged', pendingConflicts)
+}
+
+function mapFetchedTodos(fetchedTodos: FetchedTodo[]): Todo[] {
+	return fetchedTodos.map((todo: FetchedTodo) => ({
+		id: todo.offlineId || todo.id,
+		text: todo.text,
+		onlineId: todo.id,
+		completed: todo.completed,
+		date: todo.date,
+		priority: todo.priority,
+		category: todo.category,
+		notes: todo.description,
+		order: todo.order || 0,
+		updatedAt: todo.updatedAt ? new Date(todo.updatedAt).getTime() : undefined,
+		recurrence: todo.recurrence || null,
+		completedDates: todo.completedDates || [],
+		subtasks: todo.subtasks || [],
+		dueTime: todo.dueTime || null,
+		reminders: todo.reminders || [],
+		status: todo.status,
+	}))
+}
+
+/**
+ * Pulls the server notes, merges them with the local ones and pushes local creations,
+ * edits and deletions one by one, as the notes API has no bulk endpoint.
+ */
+async function syncNotes() {
+	const [apiClient, localNotes, deletedNotes] = await Promise.all([
+		getMainClient(),
+		getFromStorage('notes_data'),
+		getFromStorage('deletedNotes'),
+	])
+	const local = localNotes || []
+	const deleted = deletedNotes || []
+
+	const response = await apiClient.get<{ notes: FetchedNote[] }>('/notes')
+	const { notes: merged, toPush } = mergeNotes(
+		local,
+		response.data.notes.map(mapFetchedNote),
+		deleted
+	)
+
+	const pushed = new Map<string, Note>()
+	for (const note of toPush) {
+		const { data } = await apiClient.post<FetchedNote>('/notes', {
+			id: note.onlineId || undefined,
+			title: note.title,
+			body: note.body,
+		})
+		pushed.set(note.id, { ...note, onlineId: data.id })
+	}
+
+	for (const note of deleted) {
+		if (!note.onlineId) continue
+		try {
+			await apiClient.delete(`/notes/${note.onlineId}`)
+		} catch (error) {
+			// Already gone on the server
+			if ((error as any)?.response?.status !== 404) throw error
+		}
+	}
+
+	// Edits made on this device while the requests were in flight win over the result
+	const current = (await getFromStorage('notes_data')) || []
+	const snapshotById = new Map(local.map((note) => [note.id, note]))
+	const currentById = new Map(current.map((note) => [note.id, note]))
+	const synced: Note[] = merged.map((note) => {
+		const result = pushed.get(note.id) || note
+		const latest = currentById.get(note.id)
+		if (latest && latest.updatedAt !== snapshotById.get(note.id)?.updatedAt) {
+			return { ...latest, onlineId: result.onlineId }
+		}
+		return { ...result, syncedAt: result.updatedAt }
+	})
+	const createdMeanwhile = current.filter(
+		(note) =>
+			!snapshotById.has(note.id) && !synced.some((item) => item.id === note.id)
+	)
+	const notes = [...createdMeanwhile, ...synced]
+
+	const remainingDeleted = ((await getFromStorage('deletedNotes')) || []).filter(
+		(note) => !deleted.some((item) => item.id === note.id)
+	)
+
+	await Promise.all([
+		setToStorage('notes_data', notes),
+		setToStorage('deletedNotes', remainingDeleted),
+	])
+	callEvent('notesChanged', notes)
+}
+
+function mapFetchedNote(note: FetchedNote): Note {
+	return {
+		id: note.id,
+		onlineId: note.id,
+		title: note.title || '',
+		body: note.body || '',
+		createdAt: new Date(note.createdAt).getTime(),
+		updatedAt: new Date(note.updatedAt).getTime(),
+	}
+}
+
+async function syncBookmarks(method: 'GET' | 'POST') {
+	const mapBookmark = (bookmarks: Bookmark[]) => {
+		return bookmarks
+			.map((bookmark) => ({
+				title: bookmark.title,
+				url: 'url' in bookmark ? bookmark.url : undefined,
+				parentId: bookmark.parentId,
+				offlineId: bookmark.id,
+				id: bookmark.onlineId,
+				type: bookmark.type,
+				sticker: bookmark.sticker,
+				customTextColor: bookmark.customTextColor,
+				customBackground: bookmark.customBackground,
+				order: bookmark.order || 0,
+			}))
+			.sort((a, b) => {
+				const parentCompare = (a.parentId ? 1 : -1) - (b.parentId ? 1 : -1)
+				if (parentCompare !== 0) return parentCompare
+
+				return (a.order || 0) - (b.order || 0)
+			})
+	}
+
+	const [apiClient, bookmarks, deletedBookmarks] = await Promise.all([
+		getMainClient(),
+		getFromStorage('bookmarks'),
+		getFromStorage('deletedBookmarkIds'),
+	])
+
+	let fetchedBookmarks: FetchedBookmark[] = []
+	if (method === 'GET') {
+		fetchedBookmarks = await getBookmarks()
+	} else {
+		const bookmarksInput = mapBookmark(bookmarks || [])
+
+		const response = await apiClient.post<FetchedBookmark[]>('/bookmarks/sync', {
+			bookmarks: bookmarksInput,
+			deletedBookmarks: deletedBookmarks || [],
+		})
+
+		fetchedBookmarks = response.data
+
+		// The server has these deletions now, ones made meanwhile stay pending
+		const sent = new Set(deletedBookmarks || [])
+		const remaining = ((await getFromStorage('deletedBookmarkIds')) || []).filter(
+			(id) => !sent.has(id)
+		)
+		await setToStorage('deletedBookmarkIds', remaining)
+	}
+
+	await storeFetchedBookmarks(mapBookmarks(fetchedBookmarks))
+}
+
+/**
+ * Stores the server bookmarks with their `onlineId`s. Without this a sync run from the
+ * background would leave them unmapped and create them on the server again next time.
+ */
+async function storeFetchedBookmarks(fetched: Bookmark[]) {
+	const current = (await getFromStorage('bookmarks')) || []
+	await setToStorage('bookmarks', mergeBookmarkLists(current, fetched))
+	callEvent('bookmarksChanged', fetched)
+}
+
+async function getAll() {
+	const client = await getMainClient()
+	const response = await client.get<{
+		bookmarks: FetchedBookmark[]
+		todos: FetchedTodo[]
+		wallpaper: Wallpaper
+		theme: Theme | null
+	}>('/extension/@me/sync')
+
+	const { bookmarks, todos, wallpaper, theme } = response.data
+
+	await storeFetchedBookmarks(mapBookmarks(bookmarks))
+
+	await reconcileTodos(client, mapFetchedTodos(todos), false)
+	await syncNotes()
+
+	const wallpaperStore = await getFromStorage('wallpaper')
+	if (wallpaper && wallpaperStore?.id !== wallpaper?.id) {
+		await setToStorage('wallpaper', {
+			...wallpaper,
+			isRetouchEnabled: false,
+		})
+		callEvent('wallpaperChanged', {
+			...wallpaper,
+			isRetouchEnabled: false,
+		})
+	}
+
+	const themeStore = await getFromStorage('theme')
+	if (theme && theme !== themeStore) {
+		callEvent('themeChanged', theme)
+	}
+}
+
+function mapBookmarks(fetchedBookmarks: FetchedBookmark[]) {
+	const mappedFetched: Bookmark[] = fetchedBookmarks.map((bookmark) => ({
+		id: bookmark.offlineId || bookmark.id,
+		title: bookmark.title,
+		type: bookmark.type,
+		parentId: bookmark.parentId,
+		isLocal: true,
+		isManageable: bookmark.isManageable,
+		url: bookmark.url,
+		icon: bookmark.icon,
+		onlineId: bookmark.id,
+		sticker: bookmark.sticker,
+		customTextColor: bookmark.customTextColor,
+		customBackground: bookmark.customBackground,
+		order: bookmark.order || 0,
+	}))
+
+	return mappedFetched
+}
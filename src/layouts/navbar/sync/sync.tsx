@@ -1,20 +1,16 @@
 import { useEffect, useRef, useState } from 'react'
-import { getFromStorage, setToStorage } from '@/common/storage'
+import { TbCloud, TbCloudCheck, TbCloudUpload, TbCloudX } from 'react-icons/tb'
+import { getFromStorage, watchStorage } from '@/common/storage'
 import { isSyncActive } from '@/common/sync-checker'
-import { callEvent } from '@/common/utils/call-event'
-import type { Wallpaper } from '@/common/wallpaper.interface'
+import { listenEvent } from '@/common/utils/call-event'
+import { OfflineIndicator } from '@/components/offline-indicator'
+import Tooltip from '@/components/toolTip'
 import { useAuth } from '@/context/auth.context'
-import type { Theme } from '@/context/theme.context'
-import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
-import type {
-	FetchedTodo,
-	Todo,
-} from '@/layouts/widgets/calendar/interface/todo.interface'
-import { getMainClient } from '@/services/api'
-import {
-	type FetchedBookmark,
-	getBookmarks,
-} from '@/services/hooks/bookmark/getBookmarks.hook'
+import { SyncCenterModal } from './components/sync-center.modal'
+import { TodoConflictsModal } from './components/todo-conflicts.modal'
+import { drainSyncOutbox, enqueueSync, type SyncOutboxEntry } from './sync-outbox'
+import { runSyncTask, SyncTarget, type SyncTargetStatus } from './sync-tasks'
+import type { TodoConflict } from './todo-merge'
 
 enum SyncState {
 	Syncing = 0,
@@ -22,18 +18,66 @@ enum SyncState {
 	Error = 2,
 }
 
-export enum SyncTarget {
-	ALL = 0,
-	TODOS = 1,
-	BOOKMARKS = 2,
-}
-
 export function SyncButton() {
 	const [syncState, setSyncState] = useState<SyncState | null>(null)
 	const { isAuthenticated } = useAuth()
-	const syncInProgressRef = useRef(false)
-	const lastSyncTimeRef = useRef<number>(0)
 	const initialSyncDoneRef = useRef(false)
+	const [todoConflicts, setTodoConflicts] = useState<TodoConflict[]>([])
+	const [showConflicts, setShowConflicts] = useState(false)
+	const [showSyncCenter, setShowSyncCenter] = useState(false)
+	const [outbox, setOutbox] = useState<SyncOutboxEntry[]>([])
+	const [status, setStatus] = useState<Partial<Record<SyncTarget, SyncTargetStatus>>>(
+		{}
+	)
+	const [busyTarget, setBusyTarget] = useState<SyncTarget | null>(null)
+	const [isOnline, setIsOnline] = useState(navigator.onLine)
+
+	useEffect(() => {
+		Promise.all([
+			getFromStorage('todoConflicts'),
+			getFromStorage('syncOutbox'),
+			getFromStorage('syncStatus'),
+		]).then(([conflicts, storedOutbox, storedStatus]) => {
+			setTodoConflicts(conflicts || [])
+			setOutbox(storedOutbox || [])
+			setStatus(storedStatus || {})
+		})
+
+		// Events cover changes made by this page, watchers the ones made by the
+		// background script or other tabs.
+		const unsubscribers = [
+			listenEvent('todoConflictsChanged', (conflicts) => {
+				setTodoConflicts(conflicts || [])
+			}),
+			watchStorage('todoConflicts', (conflicts) => {
+				setTodoConflicts(conflicts || [])
+			}),
+			listenEvent('syncOutboxChanged', (entries) => {
+				setOutbox(entries || [])
+			}),
+			watchStorage('syncOutbox', (entries) => {
+				setOutbox(entries || [])
+			}),
+			listenEvent('syncStatusChanged', (data) => {
+				setStatus(data || {})
+			}),
+			watchStorage('syncStatus', (data) => {
+				setStatus(data || {})
+			}),
+		]
+
+		const handleOnline = () => setIsOnline(true)
+		const handleOffline = () => setIsOnline(false)
+		window.addEventListener('online', handleOnline)
+		window.addEventListener('offline', handleOffline)
+
+		return () => {
+			for (const unsubscribe of unsubscribers) unsubscribe()
+			window.removeEventListener('online', handleOnline)
+			window.removeEventListener('offline', handleOffline)
+		}
+	}, [])
+
 	useEffect(() => {
 		if (syncState === SyncState.Success) {
 			const timer = setTimeout(() => setSyncState(null), 3000)
@@ -54,74 +98,64 @@ export function SyncButton() {
 
 			initialSyncDoneRef.current = true
 
-			setTimeout(() => {
-				syncData(SyncTarget.ALL, 'GET')
+			setTimeout(async () => {
+				await pullAll()
+				// push whatever was left in the outbox by a previous session
+				await pushChanges(true)
 			}, 1000)
 		}
 		initialSync()
 	}, [isAuthenticated])
 
-	const syncData = async (syncTarget: SyncTarget, method: 'POST' | 'GET') => {
-		const now = Date.now()
-		if (now - lastSyncTimeRef.current < 500) {
-			console.info('Sync request ignored due to rapid succession')
-			return
-		}
-		lastSyncTimeRef.current = now
-
-		if (!isAuthenticated) {
-			return
-		}
-
-		const isSyncEnabled = await isSyncActive()
-		if (!isSyncEnabled) {
-			return
+	useEffect(() => {
+		if (isOnline && isAuthenticated) {
+			pushChanges(true)
 		}
+	}, [isOnline])
 
-		if (syncInProgressRef.current) return
-
-		syncInProgressRef.current = true
+	const pullAll = async () => {
 		setSyncState(SyncState.Syncing)
-
 		try {
-			if (syncTarget === SyncTarget.ALL) {
-				try {
-					await getAll()
-					setSyncState(SyncState.Success)
-				} catch (error) {
-					console.error('Error during sync:', error)
-					setSyncState(SyncState.Error)
-				}
-			}
-
-			if (syncTarget === SyncTarget.TODOS) {
-				const isSyncTodoComplete = await SyncTodo(method)
+			await runSyncTask(SyncTarget.ALL, 'GET')
+			setSyncState(SyncState.Success)
+		} catch (error) {
+			console.error('Error during sync:', error)
+			setSyncState(SyncState.Error)
+		}
+	}
 
-				if (isSyncTodoComplete) {
-					setSyncState(SyncState.Success)
-				} else {
-					setSyncState(SyncState.Error)
-				}
-			}
+	const pushChanges = async (force = false) => {
+		setSyncState(SyncState.Syncing)
+		const isSuccessful = await drainSyncOutbox({ force })
+		setSyncState(isSuccessful ? SyncState.Success : SyncState.Error)
+	}
 
-			if (syncTarget === SyncTarget.BOOKMARKS) {
-				const isSyncBookmarkComplete = await SyncBookmark(method)
+	const pushTarget = async (target: SyncTarget) => {
+		setBusyTarget(target)
+		await enqueueSync(target)
+		const isSuccessful = await drainSyncOutbox({ force: true, target })
+		setSyncState(isSuccessful ? SyncState.Success : SyncState.Error)
+		setBusyTarget(null)
+	}
 
-				if (isSyncBookmarkComplete) {
-					setSyncState(SyncState.Success)
-				} else {
-					setSyncState(SyncState.Error)
-				}
-			}
+	const pullTarget = async (target: SyncTarget) => {
+		setBusyTarget(target)
+		try {
+			await runSyncTask(target, 'GET')
+			setSyncState(SyncState.Success)
+		} catch (error) {
+			console.error('Error during sync:', error)
+			setSyncState(SyncState.Error)
 		} finally {
-			syncInProgressRef.current = false
+			setBusyTarget(null)
 		}
 	}
 
 	useEffect(() => {
-		const handleSyncRequest = (eventData: any) => {
+		const handleSyncRequest = async (eventData: any) => {
 			const target = eventData.detail as SyncTarget
-			syncData(target, 'POST')
+			await enqueueSync(target)
+			pushChanges()
 		}
 
 		if (isAuthenticated) {
@@ -132,176 +166,77 @@ export function SyncButton() {
 		}
 
 		return undefined
-	}, [isAuthenticated, syncData])
-
-	return <></>
-}
-
-async function SyncTodo(method: 'POST' | 'GET'): Promise<boolean> {
-	try {
-		const mapTodos = (todos: Todo[] = []) => {
-			return todos.map((todo) => ({
-				text: todo.text,
-				category: todo.category,
-				date: todo.date,
-				description: todo.notes,
-				priority: todo.priority,
-				completed: todo.completed,
-				offlineId: todo.id,
-				id: todo.onlineId,
-				order: todo.order || 0,
-			}))
-		}
+	}, [isAuthenticated])
 
-		const [apiClient, todos, deletedTodos] = await Promise.all([
-			getMainClient(),
-			getFromStorage('todos'),
-			getFromStorage('deletedTodos'),
-		])
-		let fetchedTodos: FetchedTodo[] = []
-		if (method === 'POST') {
-			const todosInput = mapTodos(todos || [])
-			const deletedTodosInput = mapTodos(deletedTodos || [])
+	if (!isAuthenticated) return null
 
-			const response = await apiClient.post<FetchedTodo[]>('/todos/sync', {
-				todos: todosInput,
-				deletedTodos: deletedTodosInput,
-			})
+	const hasError = Object.values(status).some(
+		(item) => !!item?.lastError && (item.lastErrorAt || 0) > (item.lastSuccessAt || 0)
+	)
 
-			fetchedTodos = response.data
-		} else {
-			const response = await apiClient.get<FetchedTodo[]>('/todos/@me')
-			fetchedTodos = response.data
+	const getIcon = () => {
+		if (syncState === SyncState.Syncing || busyTarget !== null) {
+			return <TbCloudUpload size={20} className="text-muted animate-pulse" />
 		}
-
-		const mapped: Todo[] = mapFetchedTodos(fetchedTodos)
-
-		await setToStorage('deletedTodos', [])
-
-		callEvent('todosChanged', mapped)
-
-		return true
-	} catch (error) {
-		console.error('Error during sync:', error)
-		return false
-	}
-}
-
-function mapFetchedTodos(fetchedTodos: FetchedTodo[]) {
-	return fetchedTodos.map((todo: FetchedTodo) => ({
-		id: todo.offlineId || todo.id,
-		text: todo.text,
-		onlineId: todo.id,
-		completed: todo.completed,
-		date: todo.date,
-		priority: todo.priority,
-		category: todo.category,
-		notes: todo.description,
-		order: todo.order || 0,
-	}))
-}
-
-async function SyncBookmark(method: 'GET' | 'POST') {
-	const mapBookmark = (bookmarks: Bookmark[]) => {
-		return bookmarks
-			.map((bookmark) => ({
-				title: bookmark.title,
-				url: 'url' in bookmark ? bookmark.url : undefined,
-				parentId: bookmark.parentId,
-				offlineId: bookmark.id,
-				id: bookmark.onlineId,
-				type: bookmark.type,
-				sticker: bookmark.sticker,
-				customTextColor: bookmark.customTextColor,
-				customBackground: bookmark.customBackground,
-				order: bookmark.order || 0,
-			}))
-			.sort((a, b) => {
-				const parentCompare = (a.parentId ? 1 : -1) - (b.parentId ? 1 : -1)
-				if (parentCompare !== 0) return parentCompare
-
-				return (a.order || 0) - (b.order || 0)
-			})
-	}
-
-	const [apiClient, bookmarks, deletedBookmarks] = await Promise.all([
-		getMainClient(),
-		getFromStorage('bookmarks'),
-		getFromStorage('deletedBookmarkIds'),
-	])
-
-	let fetchedBookmarks: FetchedBookmark[] = []
-	if (method === 'GET') {
-		fetchedBookmarks = await getBookmarks()
-	} else {
-		const bookmarksInput = mapBookmark(bookmarks || [])
-
-		const response = await apiClient.post<FetchedBookmark[]>('/bookmarks/sync', {
-			bookmarks: bookmarksInput,
-			deletedBookmarks: deletedBookmarks || [],
-		})
-
-		fetchedBookmarks = response.data
-	}
-
-	const mappedFetched: Bookmark[] = mapBookmarks(fetchedBookmarks)
-
-	callEvent('bookmarksChanged', mappedFetched)
-
-	return true
-}
-
-async function getAll() {
-	const client = await getMainClient()
-	const response = await client.get<{
-		bookmarks: FetchedBookmark[]
-		todos: FetchedTodo[]
-		wallpaper: Wallpaper
-		theme: Theme | null
-	}>('/extension/@me/sync')
-
-	const { bookmarks, todos, wallpaper, theme } = response.data
-
-	const mappedFetched: Bookmark[] = mapBookmarks(bookmarks)
-	callEvent('bookmarksChanged', mappedFetched)
-
-	const mappedTodos: Todo[] = mapFetchedTodos(todos)
-	callEvent('todosChanged', mappedTodos)
-
-	const wallpaperStore = await getFromStorage('wallpaper')
-	if (wallpaper && wallpaperStore?.id !== wallpaper?.id) {
-		await setToStorage('wallpaper', {
-			...wallpaper,
-			isRetouchEnabled: false,
-		})
-		callEvent('wallpaperChanged', {
-			...wallpaper,
-			isRetouchEnabled: false,
-		})
+		if (hasError || syncState === SyncState.Error) {
+			return <TbCloudX size={20} className="text-error" />
+		}
+		if (syncState === SyncState.Success) {
+			return <TbCloudCheck size={20} className="text-success" />
+		}
+		return <TbCloud size={20} className="text-muted" />
 	}
 
-	const themeStore = await getFromStorage('theme')
-	if (theme && theme !== themeStore) {
-		callEvent('themeChanged', theme)
+	const getTooltip = () => {
+		if (!isOnline) return 'حالت آفلاین؛ تغییرات پس از اتصال همگام‌سازی می‌شوند'
+		if (todoConflicts.length) return 'تداخل در همگام‌سازی وظایف'
+		if (outbox.length) return `${outbox.length} مورد در انتظار همگام‌سازی`
+		return 'وضعیت همگام‌سازی'
 	}
-}
-
-function mapBookmarks(fetchedBookmarks: FetchedBookmark[]) {
-	const mappedFetched: Bookmark[] = fetchedBookmarks.map((bookmark) => ({
-		id: bookmark.offlineId || bookmark.id,
-		title: bookmark.title,
-		type: bookmark.type,
-		parentId: bookmark.parentId,
-		isLocal: true,
-		isManageable: bookmark.isManageable,
-		url: bookmark.url,
-		icon: bookmark.icon,
-		onlineId: bookmark.id,
-		sticker: bookmark.sticker,
-		customTextColor: bookmark.customTextColor,
-		customBackground: bookmark.customBackground,
-		order: bookmark.order || 0,
-	}))
 
-	return mappedFetched
+	const badgeCount = todoConflicts.length || outbox.length
+
+	return (
+		<>
+			<Tooltip content={getTooltip()}>
+				<div
+					className="relative flex items-center justify-center w-8 h-8 transition-all border cursor-pointer border-content rounded-xl bg-content backdrop-blur-sm hover:opacity-80"
+					onClick={() => setShowSyncCenter(true)}
+				>
+					{getIcon()}
+					{!isOnline ? (
+						<OfflineIndicator mode="badge" />
+					) : (
+						badgeCount > 0 && (
+							<span
+								className={`absolute flex items-center justify-center w-4 h-4 text-[.6rem] font-bold text-white rounded-full -bottom-1 -right-1 ${todoConflicts.length ? 'bg-warning' : 'bg-primary'}`}
+							>
+								{badgeCount}
+							</span>
+						)
+					)}
+				</div>
+			</Tooltip>
+			<SyncCenterModal
+				isOpen={showSyncCenter}
+				onClose={() => setShowSyncCenter(false)}
+				status={status}
+				outbox={outbox}
+				conflictsCount={todoConflicts.length}
+				isOnline={isOnline}
+				busyTarget={busyTarget}
+				onPush={pushTarget}
+				onPull={pullTarget}
+				onOpenConflicts={() => {
+					setShowSyncCenter(false)
+					setShowConflicts(true)
+				}}
+			/>
+			<TodoConflictsModal
+				isOpen={showConflicts}
+				onClose={() => setShowConflicts(false)}
+				conflicts={todoConflicts}
+			/>
+		</>
+	)
 }
@@ -0,0 +1,178 @@
+import type { Todo } from '@/layouts/widgets/calendar/interface/todo.interface'
+
+export const MERGEABLE_TODO_FIELDS = [
+	'text',
+	'completed',
+	'date',
+	'priority',
+	'category',
+	'notes',
+	'order',
+	'recurrence',
+	'completedDates',
+	'subtasks',
+	'dueTime',
+	'reminders',
+	'status',
+] as const
+
+export type MergeableTodoField = (typeof MERGEABLE_TODO_FIELDS)[number]
+
+export interface TodoConflict {
+	todoId: string
+	todoText: string
+	field: MergeableTodoField
+	base: Todo[MergeableTodoField]
+	local: Todo[MergeableTodoField]
+	remote: Todo[MergeableTodoField]
+}
+
+export interface TodoMergeResult {
+	todos: Todo[]
+	conflicts: TodoConflict[]
+}
+
+function normalize(value: unknown) {
+	if (value === undefined || value === '') return null
+	if (Array.isArray(value)) return value.length ? JSON.stringify(value) : null
+	if (value && typeof value === 'object') return JSON.stringify(value)
+	return value
+}
+
+function isSameValue(a: unknown, b: unknown) {
+	return normalize(a) === normalize(b)
+}
+
+function hasChanged(todo: Todo, base: Todo) {
+	return MERGEABLE_TODO_FIELDS.some((field) => !isSameValue(todo[field], base[field]))
+}
+
+function takeField<K extends MergeableTodoField>(target: Todo, source: Todo, field: K) {
+	target[field] = source[field]
+}
+
+function mergeTodo(
+	base: Todo | undefined,
+	local: Todo,
+	remote: Todo,
+	conflicts: TodoConflict[]
+): Todo {
+	const merged: Todo = {
+		...local,
+		onlineId: remote.onlineId || local.onlineId,
+		updatedAt: Math.max(local.updatedAt || 0, remote.updatedAt || 0) || undefined,
+	}
+
+	for (const field of MERGEABLE_TODO_FIELDS) {
+		const localValue = local[field]
+		const remoteValue = remote[field]
+
+		if (isSameValue(localValue, remoteValue)) continue
+
+		// Only one side moved away from the common ancestor: take that side.
+		if (base && isSameValue(localValue, base[field])) {
+			takeField(merged, remote, field)
+			continue
+		}
+		if (base && isSameValue(remoteValue, base[field])) {
+			takeField(merged, local, field)
+			continue
+		}
+
+		const preferLocal = (local.updatedAt || 0) > (remote.updatedAt || 0)
+		takeField(merged, preferLocal ? local : remote, field)
+
+		// Without a common ancestor (first sync) there is nothing to compare against,
+		// and `order` is positional bookkeeping never worth asking the user about.
+		if (!base || field === 'order') continue
+
+		conflicts.push({
+			todoId: local.id,
+			todoText: local.text,
+			field,
+			base: base[field],
+			local: localValue,
+			remote: remoteValue,
+		})
+	}
+
+	return merged
+}
+
+/**
+ * Three-way merge of the todo list, field by field.
+ * `base` is the list as it was after the last successful sync, `local` is what this
+ * device holds now and `remote` is what the server returned. Items deleted on one side
+ * are dropped unless the other side edited them since the base, in which case the
+ * edit wins. Fields changed on both sides to different values are reported as
+ * conflicts; the newer `updatedAt` is kept until the user resolves them.
+ */
+export function mergeTodos(
+	base: Todo[],
+	local: Todo[],
+	remote: Todo[],
+	deletedLocally: Todo[] = []
+): TodoMergeResult {
+	const baseById = new Map(base.map((todo) => [todo.id, todo]))
+	const remoteById = new Map(remote.map((todo) => [todo.id, todo]))
+	const localIds = new Set(local.map((todo) => todo.id))
+	const deletedIds = new Set(deletedLocally.map((todo) => todo.id))
+
+	const conflicts: TodoConflict[] = []
+	const todos: Todo[] = []
+
+	for (const localTodo of local) {
+		const remoteTodo = remoteById.get(localTodo.id)
+		const baseTodo = baseById.get(localTodo.id)
+
+		if (remoteTodo) {
+			todos.push(mergeTodo(baseTodo, localTodo, remoteTodo, conflicts))
+			continue
+		}
+
+		// Deleted on the server: keep only if edited locally since the last sync.
+		if (baseTodo && !hasChanged(localTodo, baseTodo)) continue
+
+		todos.push(baseTodo ? { ...localTodo, onlineId: null } : localTodo)
+	}
+
+	for (const remoteTodo of remote) {
+		if (localIds.has(remoteTodo.id)) continue
+		if (deletedIds.has(remoteTodo.id)) continue
+
+		// Deleted on this device: keep only if edited remotely since the last sync.
+		const baseTodo = baseById.get(remoteTodo.id)
+		if (baseTodo && !hasChanged(remoteTodo, baseTodo)) continue
+
+		todos.push(remoteTodo)
+	}
+
+	return { todos, conflicts }
+}
+
+/** Whether the merged list holds anything the server does not have yet. */
+export function hasUnsyncedChanges(merged: Todo[], remote: Todo[]) {
+	if (merged.length !== remote.length) return true
+
+	const remoteById = new Map(remote.map((todo) => [todo.id, todo]))
+	return merged.some((todo) => {
+		const remoteTodo = remoteById.get(todo.id)
+		return !remoteTodo || !todo.onlineId || hasChanged(todo, remoteTodo)
+	})
+}
+
+export function resolveTodoConflict(
+	todos: Todo[],
+	conflict: TodoConflict,
+	choice: 'local' | 'remote'
+): Todo[] {
+	return todos.map((todo) =>
+		todo.id === conflict.todoId
+			? {
+					...todo,
+					[conflict.field]: conflict[choice],
+					updatedAt: Date.now(),
+				}
+			: todo
+	)
+}
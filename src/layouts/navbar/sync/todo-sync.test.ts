@@ -0,0 +1,175 @@
+import type { AxiosInstance } from 'axios'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeBrowser } from 'wxt/testing'
+import { getFromStorage, setToStorage } from '@/common/storage'
+import type {
+	FetchedTodo,
+	Todo,
+} from '@/layouts/widgets/calendar/interface/todo.interface'
+import { getMainClient } from '@/services/api'
+import { runSyncTask, SyncTarget, type TodoSyncRequest } from './sync-tasks'
+
+vi.mock('@/services/api', () => ({ getMainClient: vi.fn() }))
+
+const syncedAt = Date.parse('2025-10-01T10:00:00.000Z')
+
+function todo(id: string, changes: Partial<Todo> = {}): Todo {
+	return {
+		id,
+		onlineId: `online-${id}`,
+		text: id,
+		completed: false,
+		date: '1404-07-26',
+		priority: 'medium',
+		order: 0,
+		updatedAt: syncedAt,
+		...changes,
+	}
+}
+
+function fetched(item: Todo): FetchedTodo {
+	return {
+		id: item.onlineId || `online-${item.id}`,
+		offlineId: item.id,
+		text: item.text,
+		completed: item.completed,
+		date: item.date,
+		priority: item.priority,
+		description: item.notes,
+		order: item.order,
+		updatedAt: new Date(item.updatedAt || syncedAt).toISOString(),
+	}
+}
+
+/** A server holding `remote` that stores whatever `/todos/sync` receives */
+function mockServer(remote: Todo[], onSync?: () => Promise<void>) {
+	let serverTodos = remote.map(fetched)
+	const client = {
+		get: vi.fn(async () => ({ data: serverTodos })),
+		post: vi.fn(async (_url: string, body: TodoSyncRequest) => {
+			await onSync?.()
+			serverTodos = body.todos.map((item) => ({
+				...item,
+				id: item.id || `online-${item.offlineId}`,
+				updatedAt: item.updatedAt || new Date(syncedAt).toISOString(),
+			}))
+			return { data: serverTodos }
+		}),
+	}
+	vi.mocked(getMainClient).mockResolvedValue(client as unknown as AxiosInstance)
+	return client
+}
+
+async function seed(local: Todo[], base: Todo[], deleted: Todo[] = []) {
+	await Promise.all([
+		setToStorage('todos', local),
+		setToStorage('todoSyncBase', base),
+		setToStorage('deletedTodos', deleted),
+	])
+}
+
+const texts = (todos: Todo[] | null) => (todos || []).map((item) => item.text)
+
+describe('todo sync', () => {
+	beforeEach(() => {
+		fakeBrowser.reset()
+		vi.mocked(getMainClient).mockReset()
+	})
+
+	it('merges edits to different fields from both sides and pushes the result', async () => {
+		const base = [todo('a')]
+		await seed([todo('a', { completed: true, updatedAt: syncedAt + 1 })], base)
+		const server = mockServer([
+			todo('a', { text: 'renamed', updatedAt: syncedAt + 2 }),
+		])
+
+		await runSyncTask(SyncTarget.TODOS, 'GET')
+
+		expect(server.post).toHaveBeenCalledOnce()
+		expect(server.post.mock.calls[0][1].todos[0]).toMatchObject({
+			text: 'renamed',
+			completed: true,
+		})
+		const stored = await getFromStorage('todos')
+		expect(stored?.[0]).toMatchObject({ text: 'renamed', completed: true })
+		expect(await getFromStorage('todoSyncBase')).toEqual(stored)
+		expect(await getFromStorage('todoConflicts')).toEqual([])
+	})
+
+	it('reports a field changed on both sides as a conflict', async () => {
+		await seed([todo('a', { text: 'local', updatedAt: syncedAt + 1 })], [todo('a')])
+		mockServer([todo('a', { text: 'remote', updatedAt: syncedAt + 2 })])
+
+		await runSyncTask(SyncTarget.TODOS, 'GET')
+
+		expect(await getFromStorage('todoConflicts')).toEqual([
+			expect.objectContaining({
+				todoId: 'a',
+				field: 'text',
+				base: 'a',
+				local: 'local',
+				remote: 'remote',
+			}),
+		])
+		// The newer side is kept until the user picks one
+		expect(texts(await getFromStorage('todos'))).toEqual(['remote'])
+	})
+
+	it('stores remote changes locally so the next round does not revert them', async () => {
+		await seed([todo('a')], [todo('a')])
+		const server = mockServer([
+			todo('a', { text: 'remote', updatedAt: syncedAt + 2 }),
+		])
+
+		await runSyncTask(SyncTarget.TODOS, 'GET')
+		expect(server.post).not.toHaveBeenCalled()
+		expect(texts(await getFromStorage('todos'))).toEqual(['remote'])
+
+		await runSyncTask(SyncTarget.TODOS, 'GET')
+		expect(server.post).not.toHaveBeenCalled()
+		expect(texts(await getFromStorage('todos'))).toEqual(['remote'])
+	})
+
+	it('drops todos deleted on the server and untouched here', async () => {
+		await seed([todo('a'), todo('b')], [todo('a'), todo('b')])
+		mockServer([todo('a')])
+
+		await runSyncTask(SyncTarget.TODOS, 'GET')
+
+		expect(texts(await getFromStorage('todos'))).toEqual(['a'])
+	})
+
+	it('pushes local deletions and clears them once sent', async () => {
+		await seed([], [todo('a')], [todo('a')])
+		const server = mockServer([todo('a')])
+
+		await runSyncTask(SyncTarget.TODOS, 'GET')
+
+		expect(server.post.mock.calls[0][1].deletedTodos).toEqual([
+			expect.objectContaining({ offlineId: 'a', id: 'online-a' }),
+		])
+		expect(await getFromStorage('todos')).toEqual([])
+		expect(await getFromStorage('deletedTodos')).toEqual([])
+	})
+
+	it('keeps edits, additions and removals made while the request was in flight', async () => {
+		await seed(
+			[todo('a', { text: 'local', updatedAt: syncedAt + 1 }), todo('b')],
+			[todo('a'), todo('b')]
+		)
+		mockServer([todo('a'), todo('b')], async () => {
+			await setToStorage('todos', [
+				todo('a', { text: 'edited meanwhile', updatedAt: syncedAt + 5 }),
+				todo('c', { onlineId: null }),
+			])
+		})
+
+		await runSyncTask(SyncTarget.TODOS, 'POST')
+
+		const stored = await getFromStorage('todos')
+		expect(texts(stored)).toEqual(['edited meanwhile', 'c'])
+		expect(stored?.[0].onlineId).toBe('online-a')
+		// The base is what the server holds, so the next round pushes these changes
+		expect(texts(await getFromStorage('todoSyncBase'))).toEqual(['local', 'b'])
+	})
+})
@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { getFaviconFromUrl } from '@/common/utils/icon'
+import type { RecommendedSite } from '@/services/hooks/trends/getTrends'
+
+export interface SearchEngine {
+	id: string
+	name: string
+	/** Search url where `%s` stands for the query */
+	url: string
+	/** Used as a bang, e.g. `yt` for `!yt` */
+	keyword: string
+	icon?: string
+}
+
+export interface SearchEngineSettings {
+	engines: SearchEngine[]
+	/** Null leaves the search to the browser's own engine */
+	defaultEngineId: string | null
+}
+
+export const QUERY_PLACEHOLDER = '%s'
+
+export const defaultSearchEngines: SearchEngine[] = [
+	{
+		id: 'google',
+		name: 'Google',
+		url: 'https://www.google.com/search?q=%s',
+		keyword: 'g',
+	},
+	{
+		id: 'youtube',
+		name: 'YouTube',
+		url: 'https://www.youtube.com/results?search_query=%s',
+		keyword: 'yt',
+	},
+	{
+		id: 'wikipedia',
+		name: 'ویکی‌پدیا',
+		url: 'https://fa.wikipedia.org/w/index.php?search=%s',
+		keyword: 'wiki',
+	},
+	{
+		id: 'github',
+		name: 'GitHub',
+		url: 'https://github.com/search?q=%s',
+		keyword: 'gh',
+	},
+	{
+		id: 'duckduckgo',
+		name: 'DuckDuckGo',
+		url: 'https://duckduckgo.com/?q=%s',
+		keyword: 'ddg',
+	},
+]
+
+export const defaultSearchEngineSettings: SearchEngineSettings = {
+	engines: defaultSearchEngines,
+	defaultEngineId: null,
+}
+
+export async function getSearchEngineSettings(): Promise<SearchEngineSettings> {
+	return (await getFromStorage('searchEngines')) || defaultSearchEngineSettings
+}
+
+export async function saveSearchEngineSettings(settings: SearchEngineSettings) {
+	await setToStorage('searchEngines', settings)
+}
+
+export function normalizeKeyword(keyword: string) {
+	return keyword.trim().replace(/^!+/, '').toLowerCase()
+}
+
+export function isValidEngineUrl(url: string) {
+	try {
+		const { protocol } = new URL(url.replace(QUERY_PLACEHOLDER, 'test'))
+		return /^https?:$/.test(protocol) && url.includes(QUERY_PLACEHOLDER)
+	} catch {
+		return false
+	}
+}
+
+export function buildSearchUrl(engine: SearchEngine, query: string) {
+	return engine.url.split(QUERY_PLACEHOLDER).join(encodeURIComponent(query))
+}
+
+export function findEngineByKeyword(engines: SearchEngine[], keyword: string) {
+	const normalized = normalizeKeyword(keyword)
+	if (!normalized) return undefined
+
+	return engines.find((engine) => engine.keyword === normalized)
+}
+
+/**
+ * Splits a `!bang` off either end of the query, e.g. `!yt lofi` or `lofi !yt`.
+ * Unknown bangs are left in the query.
+ */
+export function parseBang(text: string, engines: SearchEngine[]) {
+	const words = text.trim().split(/\s+/)
+	for (const index of [0, words.length - 1]) {
+		const word = words[index]
+		if (!word?.startsWith('!')) continue
+
+		const engine = findEngineByKeyword(engines, word)
+		if (engine) {
+			words.splice(index, 1)
+			return { engine, query: words.join(' ') }
+		}
+	}
+
+	return { engine: null, query: text.trim() }
+}
+
+/**
+ * Recommended sites only have a home page, so their engine searches within the
+ * site through Google.
+ */
+export function getEnginesFromRecommendedSites(sites: RecommendedSite[]): SearchEngine[] {
+	const engines: SearchEngine[] = []
+	for (const site of sites.flatMap((item) => [item, ...(item.subSites || [])])) {
+		if (!site.url) continue
+
+		let hostname: string
+		try {
+			hostname = new URL(site.url).hostname.replace(/^www\./, '')
+		} catch {
+			continue
+		}
+		if (engines.some((engine) => engine.url.includes(`site:${hostname}+`))) continue
+
+		const base = hostname.split('.')[0]
+		let keyword = base
+		for (let i = 2; engines.some((engine) => engine.keyword === keyword); i++) {
+			keyword = `${base}${i}`
+		}
+
+		engines.push({
+			id: uuidv4(),
+			name: site.name,
+			url: `https://www.google.com/search?q=site:${hostname}+%s`,
+			keyword,
+			icon: site.icon || undefined,
+		})
+	}
+	return engines
+}
+
+export function getEngineIcon(engine: SearchEngine) {
+	return engine.icon || getFaviconFromUrl(engine.url.replace(QUERY_PLACEHOLDER, ''))
+}
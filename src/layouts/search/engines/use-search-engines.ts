@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { watchStorage } from '@/common/storage'
+import {
+	defaultSearchEngineSettings,
+	getSearchEngineSettings,
+	type SearchEngineSettings,
+	saveSearchEngineSettings,
+} from './search-engines'
+
+export function useSearchEngines() {
+	const [settings, setSettings] = useState<SearchEngineSettings>(
+		defaultSearchEngineSettings
+	)
+
+	useEffect(() => {
+		getSearchEngineSettings().then(setSettings)
+
+		return watchStorage('searchEngines', (stored) =>
+			setSettings(stored || defaultSearchEngineSettings)
+		)
+	}, [])
+
+	const updateSettings = async (updated: SearchEngineSettings) => {
+		setSettings(updated)
+		await saveSearchEngineSettings(updated)
+	}
+
+	const defaultEngine =
+		settings.engines.find((engine) => engine.id === settings.defaultEngineId) || null
+
+	return { settings, defaultEngine, updateSettings }
+}
@@ -0,0 +1,127 @@
+import { useEffect, useRef } from 'react'
+import { CiSearch } from 'react-icons/ci'
+import { FiCheckSquare, FiFolder, FiSquare } from 'react-icons/fi'
+import { PiNotepad } from 'react-icons/pi'
+import { getFaviconFromUrl } from '@/common/utils/icon'
+import { type OmniboxResult, omniboxSections } from './omnibox-search'
+
+interface OmniboxResultsProps {
+	query: string
+	/** Where the web search row searches, the browser's engine when not set */
+	engineName?: string
+	results: OmniboxResult[]
+	/** -1 is the web search row */
+	activeIndex: number
+	onHover: (index: number) => void
+	onSelect: (result: OmniboxResult) => void
+	onWebSearch: () => void
+}
+
+function ResultIcon({ result }: { result: OmniboxResult }) {
+	if (result.type === 'todo') {
+		return result.todo.completed ? (
+			<FiCheckSquare size={16} className="text-success" />
+		) : (
+			<FiSquare size={16} className="text-muted" />
+		)
+	}
+	if (result.type === 'note') return <PiNotepad size={16} className="text-muted" />
+	if (result.type === 'bookmark' && result.bookmark.type === 'FOLDER') {
+		return <FiFolder size={16} className="text-muted" />
+	}
+
+	const url = result.type === 'tab' ? result.tab.url : result.bookmark.url
+	return <img src={getFaviconFromUrl(url)} alt="" className="w-4 h-4 rounded-sm" />
+}
+
+export function OmniboxResults({
+	query,
+	engineName,
+	results,
+	activeIndex,
+	onHover,
+	onSelect,
+	onWebSearch,
+}: OmniboxResultsProps) {
+	const listRef = useRef<HTMLDivElement>(null)
+
+	useEffect(() => {
+		listRef.current
+			?.querySelector('[data-active="true"]')
+			?.scrollIntoView({ block: 'nearest' })
+	}, [activeIndex])
+
+	const rowClass = (active: boolean) =>
+		`flex items-center w-full gap-2 px-2 py-1.5 text-right rounded-lg cursor-pointer transition-colors ${active ? 'bg-primary/15' : 'hover:bg-base-300'}`
+
+	return (
+		<div
+			ref={listRef}
+			className="absolute left-0 right-0 w-full p-2 overflow-y-auto shadow-2xl top-14 max-h-96 bg-widget widget-wrapper rounded-2xl"
+			style={{
+				zIndex: 9999,
+			}}
+		>
+			<button
+				type="button"
+				data-active={activeIndex === -1}
+				onMouseEnter={() => onHover(-1)}
+				onClick={onWebSearch}
+				className={rowClass(activeIndex === -1)}
+			>
+				<CiSearch size={16} className="text-muted" />
+				<span className="text-sm truncate text-content">
+					جستجوی «{query}» در {engineName || 'وب'}
+				</span>
+			</button>
+
+			{omniboxSections.map(({ type, label }) => {
+				const items = results.filter((result) => result.type === type)
+				if (!items.length) return null
+
+				return (
+					<div key={type} className="mt-2">
+						<p className="px-2 mb-1 text-[10px] font-medium text-muted">
+							{label}
+						</p>
+						{items.map((result) => {
+							const index = results.indexOf(result)
+							return (
+								<button
+									key={result.key}
+									type="button"
+									data-active={activeIndex === index}
+									onMouseEnter={() => onHover(index)}
+									onClick={() => onSelect(result)}
+									className={rowClass(activeIndex === index)}
+								>
+									<span className="flex items-center justify-center w-5 h-5 shrink-0">
+										<ResultIcon result={result} />
+									</span>
+									<span className="flex-1 min-w-0">
+										<span
+											className={`block text-sm truncate text-content ${result.type === 'todo' && result.todo.completed ? 'line-through opacity-60' : ''}`}
+										>
+											{result.title}
+										</span>
+										{result.subtitle && (
+											<span className="block text-[10px] truncate text-muted">
+												{result.subtitle}
+											</span>
+										)}
+									</span>
+								</button>
+							)
+						})}
+					</div>
+				)
+			})}
+
+			{!results.length && (
+				<p className="px-2 py-3 text-xs text-center text-muted">
+					در بوکمارک‌ها، وظایف و یادداشت‌ها چیزی پیدا نشد
+				</p>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,232 @@
+import type { Note } from '@/context/notes.context'
+import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
+import type { Todo } from '@/layouts/widgets/calendar/interface/todo.interface'
+
+export interface OmniboxTab {
+	id: number
+	windowId: number
+	title: string
+	url: string
+}
+
+export interface OmniboxSources {
+	bookmarks: Bookmark[]
+	todos: Todo[]
+	notes: Note[]
+	tabs: OmniboxTab[]
+}
+
+export type OmniboxResult = {
+	key: string
+	title: string
+	subtitle: string
+	score: number
+} & (
+	| { type: 'bookmark'; bookmark: Bookmark }
+	| { type: 'todo'; todo: Todo }
+	| { type: 'note'; note: Note }
+	| { type: 'tab'; tab: OmniboxTab }
+)
+
+export type OmniboxResultType = OmniboxResult['type']
+
+export const omniboxSections: { type: OmniboxResultType; label: string }[] = [
+	{ type: 'bookmark', label: 'بوکمارک‌ها' },
+	{ type: 'todo', label: 'وظایف' },
+	{ type: 'note', label: 'یادداشت‌ها' },
+	{ type: 'tab', label: 'تب‌های باز' },
+]
+
+const MAX_RESULTS_PER_SECTION = 5
+const SNIPPET_RADIUS = 40
+
+/** Lowercases and unifies Arabic/Persian letter variants so both match */
+export function normalizeSearchText(text: string) {
+	return text
+		.toLowerCase()
+		.replace(/[يى]/g, 'ی')
+		.replace(/ك/g, 'ک')
+		.replace(/[\u064B-\u0652]/g, '')
+		.replace(/\u200c/g, ' ')
+}
+
+function isWordStart(text: string, index: number) {
+	return index === 0 || /[\s/.\-_:?=&]/.test(text[index - 1])
+}
+
+/**
+ * Scores how well `term` matches `text`, 0 meaning no match. Substrings beat
+ * scattered letters, and matches at the start of a word beat the ones inside it.
+ */
+export function fuzzyScore(term: string, text: string) {
+	if (!term || !text) return 0
+
+	const index = text.indexOf(term)
+	if (index !== -1) {
+		let score = 100 - Math.min(index, 40)
+		if (isWordStart(text, index)) score += 50
+		if (text.length === term.length) score += 50
+		return score
+	}
+
+	// Letters in order with gaps, e.g. "gthb" in "github"
+	let position = -1
+	let first = -1
+	let consecutive = 0
+	for (const char of term) {
+		const next = text.indexOf(char, position + 1)
+		if (next === -1) return 0
+		if (next === position + 1) consecutive++
+		if (first === -1) first = next
+		position = next
+	}
+
+	const span = position - first + 1
+	return Math.round(40 * (term.length / span) + consecutive * 2)
+}
+
+/** Every term of the query has to match one of the weighted fields */
+function scoreFields(terms: string[], fields: [string, number][]) {
+	let total = 0
+	for (const term of terms) {
+		let best = 0
+		for (const [text, weight] of fields) {
+			best = Math.max(best, fuzzyScore(term, text) * weight)
+		}
+		if (!best) return 0
+		total += best
+	}
+	return total
+}
+
+// Normalizing drops diacritics, so the match is mapped back to its offset in `text`
+function indexOfNormalized(text: string, query: string) {
+	let normalized = ''
+	const offsets: number[] = []
+	for (let index = 0; index < text.length; index++) {
+		const char = normalizeSearchText(text[index])
+		normalized += char
+		for (let i = 0; i < char.length; i++) offsets.push(index)
+	}
+
+	const match = normalized.indexOf(query)
+	return match === -1 ? -1 : offsets[match]
+}
+
+function getSnippet(text: string, query: string) {
+	const plain = text
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+	const index = indexOfNormalized(plain, query)
+	if (index <= SNIPPET_RADIUS) return plain.slice(0, SNIPPET_RADIUS * 2)
+
+	return `…${plain.slice(index - SNIPPET_RADIUS, index + SNIPPET_RADIUS)}`
+}
+
+function getFolderPath(bookmark: Bookmark, byId: Map<string, Bookmark>) {
+	const titles: string[] = []
+	let parent = bookmark.parentId ? byId.get(bookmark.parentId) : undefined
+	while (parent && titles.length < 10) {
+		titles.unshift(parent.title)
+		parent = parent.parentId ? byId.get(parent.parentId) : undefined
+	}
+	return titles.join(' / ')
+}
+
+function topResults(results: OmniboxResult[]) {
+	return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS_PER_SECTION)
+}
+
+export function searchOmnibox(query: string, sources: OmniboxSources) {
+	const normalized = normalizeSearchText(query.trim())
+	const terms = normalized.split(/\s+/).filter(Boolean)
+	if (!terms.length) return []
+
+	const bookmarksById = new Map(sources.bookmarks.map((item) => [item.id, item]))
+	const bookmarks: OmniboxResult[] = []
+	for (const bookmark of sources.bookmarks) {
+		const path = getFolderPath(bookmark, bookmarksById)
+		const score = scoreFields(terms, [
+			[normalizeSearchText(bookmark.title), 1],
+			[normalizeSearchText(bookmark.url), 0.6],
+			[normalizeSearchText(path), 0.4],
+		])
+		if (!score) continue
+
+		bookmarks.push({
+			type: 'bookmark',
+			key: `bookmark:${bookmark.id}`,
+			title: bookmark.title,
+			subtitle: [path, bookmark.type === 'FOLDER' ? 'پوشه' : bookmark.url]
+				.filter(Boolean)
+				.join(' · '),
+			score,
+			bookmark,
+		})
+	}
+
+	const todos: OmniboxResult[] = []
+	for (const todo of sources.todos) {
+		const score = scoreFields(terms, [
+			[normalizeSearchText(todo.text), 1],
+			[normalizeSearchText(todo.notes || ''), 0.5],
+			[normalizeSearchText(todo.category || ''), 0.5],
+		])
+		if (!score) continue
+
+		todos.push({
+			type: 'todo',
+			key: `todo:${todo.id}`,
+			title: todo.text,
+			subtitle: [todo.date, todo.category].filter(Boolean).join(' · '),
+			// Open todos are more likely to be looked for
+			score: todo.completed ? score * 0.8 : score,
+			todo,
+		})
+	}
+
+	const notes: OmniboxResult[] = []
+	for (const note of sources.notes) {
+		const score = scoreFields(terms, [
+			[normalizeSearchText(note.title), 1],
+			[normalizeSearchText(note.body), 0.5],
+		])
+		if (!score) continue
+
+		notes.push({
+			type: 'note',
+			key: `note:${note.id}`,
+			title: note.title || 'بدون عنوان',
+			subtitle: getSnippet(note.body, terms[0]),
+			score,
+			note,
+		})
+	}
+
+	const tabs: OmniboxResult[] = []
+	for (const tab of sources.tabs) {
+		const score = scoreFields(terms, [
+			[normalizeSearchText(tab.title), 1],
+			[normalizeSearchText(tab.url), 0.6],
+		])
+		if (!score) continue
+
+		tabs.push({
+			type: 'tab',
+			key: `tab:${tab.id}`,
+			title: tab.title || tab.url,
+			subtitle: tab.url,
+			score,
+			tab,
+		})
+	}
+
+	// Flat and in section order, which is also the keyboard order
+	return [
+		...topResults(bookmarks),
+		...topResults(todos),
+		...topResults(notes),
+		...topResults(tabs),
+	]
+}
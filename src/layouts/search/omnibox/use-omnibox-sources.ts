@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react'
+import { getFromStorage } from '@/common/storage'
+import { useGeneralSetting } from '@/context/general-setting.context'
+import { useWidgetVisibility, WidgetKeys } from '@/context/widget-visibility.context'
+import type { OmniboxSources, OmniboxTab } from './omnibox-search'
+
+const emptySources: OmniboxSources = { bookmarks: [], todos: [], notes: [], tabs: [] }
+
+async function getOpenTabs(): Promise<OmniboxTab[]> {
+	const ownUrl = browser.runtime.getURL('/')
+	const tabs = await browser.tabs.query({})
+
+	return tabs
+		.filter((tab) => tab.id !== undefined && tab.url && !tab.url.startsWith(ownUrl))
+		.map((tab) => ({
+			id: tab.id as number,
+			windowId: tab.windowId as number,
+			title: tab.title || '',
+			url: tab.url as string,
+		}))
+}
+
+/**
+ * Everything the search bar can find, read fresh each time it opens. Todos and
+ * notes are only searched while their widget is on the page to open them in.
+ */
+export function useOmniboxSources(active: boolean) {
+	const { browserTabsEnabled } = useGeneralSetting()
+	const { visibility } = useWidgetVisibility()
+	const [sources, setSources] = useState<OmniboxSources>(emptySources)
+
+	const todosVisible = visibility.includes(WidgetKeys.todos)
+	const notesVisible = visibility.includes(WidgetKeys.notes)
+
+	useEffect(() => {
+		if (!active) return
+		let cancelled = false
+
+		async function loadSources() {
+			const [bookmarks, todos, notes, tabs] = await Promise.all([
+				getFromStorage('bookmarks'),
+				todosVisible ? getFromStorage('todos') : null,
+				notesVisible ? getFromStorage('notes_data') : null,
+				browserTabsEnabled && browser.tabs ? getOpenTabs().catch(() => []) : [],
+			])
+			if (cancelled) return
+
+			setSources({
+				bookmarks: bookmarks || [],
+				todos: todos || [],
+				notes: notes || [],
+				tabs,
+			})
+		}
+
+		loadSources()
+		return () => {
+			cancelled = true
+		}
+	}, [active, browserTabsEnabled, todosVisible, notesVisible])
+
+	return sources
+}
@@ -1,8 +1,20 @@
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { CiSearch } from 'react-icons/ci'
 import { MdOutlineClear } from 'react-icons/md'
 import Analytics from '@/analytics'
+import { callEvent } from '@/common/utils/call-event'
 import { BrowserBookmark } from './browser-bookmark/browser-bookmark'
+import {
+	buildSearchUrl,
+	findEngineByKeyword,
+	getEngineIcon,
+	parseBang,
+	type SearchEngine,
+} from './engines/search-engines'
+import { useSearchEngines } from './engines/use-search-engines'
+import { OmniboxResults } from './omnibox/omnibox-results'
+import { type OmniboxResult, searchOmnibox } from './omnibox/omnibox-search'
+import { useOmniboxSources } from './omnibox/use-omnibox-sources'
 import { TrendingSearches } from './trending/trending-searches'
 
 export function SearchLayout() {
@@ -10,18 +22,135 @@ export function SearchLayout() {
 	const [isInputFocused, setIsInputFocused] = useState(false)
 	const searchRef = useRef<HTMLDivElement>(null)
 	const inputRef = useRef<HTMLInputElement>(null)
+	const formRef = useRef<HTMLFormElement>(null)
+	const [activeIndex, setActiveIndex] = useState(-1)
+	const { settings: engineSettings, defaultEngine } = useSearchEngines()
+	// Undefined follows the default engine, null is the browser's own
+	const [selectedEngine, setSelectedEngine] = useState<SearchEngine | null>()
+
+	const engines = engineSettings.engines
+	const activeEngine = selectedEngine === undefined ? defaultEngine : selectedEngine
+	const bang = parseBang(searchQuery, engines)
+	const searchEngine = bang.engine || activeEngine
+
+	const sources = useOmniboxSources(isInputFocused)
+	const results = useMemo(
+		() => (bang.engine ? [] : searchOmnibox(searchQuery, sources)),
+		[searchQuery, sources, bang.engine]
+	)
+	const showResults = isInputFocused && searchQuery.trim() !== ''
+
+	const runSearch = (text: string) => {
+		const { engine, query } = parseBang(text, engines)
+		if (!query) return
+
+		const target = engine || activeEngine
+		if (target) {
+			window.location.href = buildSearchUrl(target, query)
+		} else {
+			browser.search.query({ text: query })
+		}
+		return target
+	}
 
 	const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
 		e.preventDefault()
 		const query = searchQuery.trim()
-		if (query) {
-			browser.search.query({ text: query })
-			Analytics.event('search_query_submitted')
+		if (bang.engine && !bang.query) {
+			// A lone bang picks the engine for the next search
+			setSearchQuery('')
+			switchEngine(bang.engine)
+		} else if (query) {
+			const engine = runSearch(query)
+			Analytics.event('search_query_submitted', {
+				engine: engine?.id || 'browser',
+				bang: !!bang.engine,
+			})
 		}
 	}
 
+	const switchEngine = (engine: SearchEngine | null) => {
+		setSelectedEngine(engine)
+		Analytics.event('search_engine_switched', { engine: engine?.id || 'browser' })
+	}
+
 	const handleSearchInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		setSearchQuery(e.target.value)
+		setActiveIndex(-1)
+	}
+
+	const openResult = (result: OmniboxResult, inNewTab = false) => {
+		setIsInputFocused(false)
+		setSearchQuery('')
+		setActiveIndex(-1)
+		inputRef.current?.blur()
+
+		switch (result.type) {
+			case 'bookmark':
+				if (result.bookmark.type === 'FOLDER') {
+					callEvent('openBookmarkFolder', result.bookmark.id)
+				} else if (inNewTab) {
+					window.open(result.bookmark.url)
+				} else {
+					window.location.href = result.bookmark.url
+				}
+				break
+			case 'todo':
+				callEvent('openTodo', result.todo.id)
+				break
+			case 'note':
+				callEvent('openNote', result.note.id)
+				break
+			case 'tab':
+				browser.tabs.update(result.tab.id, { active: true })
+				browser.windows?.update(result.tab.windowId, { focused: true })
+				break
+		}
+
+		Analytics.event('search_result_opened', { type: result.type })
+	}
+
+	const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		// An empty input without an engine chip leaves Tab to move the focus
+		const isPickingEngine = !!searchQuery || selectedEngine !== undefined
+		if (e.key === 'Tab' && engines.length && isPickingEngine) {
+			e.preventDefault()
+			// A typed keyword, like `yt`, jumps right to its engine
+			const keywordEngine = findEngineByKeyword(engines, searchQuery)
+			if (keywordEngine && !e.shiftKey) {
+				setSearchQuery('')
+				switchEngine(keywordEngine)
+				return
+			}
+
+			const cycle = [null, ...engines]
+			const current = cycle.findIndex((engine) => engine?.id === activeEngine?.id)
+			const step = e.shiftKey ? -1 : 1
+			switchEngine(cycle[(current + step + cycle.length) % cycle.length])
+			return
+		}
+
+		if (e.key === 'Backspace' && !searchQuery && selectedEngine !== undefined) {
+			setSelectedEngine(undefined)
+			return
+		}
+
+		if (!showResults) return
+
+		if (e.key === 'ArrowDown') {
+			e.preventDefault()
+			setActiveIndex((index) => Math.min(index + 1, results.length - 1))
+		} else if (e.key === 'ArrowUp') {
+			e.preventDefault()
+			setActiveIndex((index) => Math.max(index - 1, -1))
+		} else if (e.key === 'Escape') {
+			setIsInputFocused(false)
+			inputRef.current?.blur()
+		} else if (e.key === 'Enter' && results[activeIndex]) {
+			// The web search row (-1) is left to the form
+			e.preventDefault()
+			openResult(results[activeIndex], e.ctrlKey || e.metaKey)
+		}
 	}
 
 	const handleClearSearch = () => {
@@ -33,8 +162,7 @@ export function SearchLayout() {
 
 	const handleSelectTrend = (trend: string) => {
 		setIsInputFocused(false)
-		// Optional: auto-submit the search
-		browser.search.query({ text: trend })
+		runSearch(trend)
 		Analytics.event('search_trend_selected')
 	}
 
@@ -62,7 +190,7 @@ export function SearchLayout() {
 	return (
 		<div className="relative z-50 flex flex-col items-center justify-start h-24">
 			<div ref={searchRef} className="w-full bg-widget widget-wrapper rounded-2xl">
-				<form onSubmit={handleSubmit}>
+				<form ref={formRef} onSubmit={handleSubmit}>
 					<div
 						className={
 							'relative flex items-center gap-x-2 py-2 px-3 overflow-hidden transition-all duration-300 shadow-lg hover:shadow-xl bg-widget group  rounded-2xl search-box'
@@ -81,6 +209,22 @@ export function SearchLayout() {
 						>
 							<CiSearch size={22} strokeWidth={1} opacity={0.5} />
 						</button>
+						{selectedEngine !== undefined && (
+							<button
+								type="button"
+								onClick={() => setSelectedEngine(undefined)}
+								className="flex items-center gap-1 px-2 py-1 text-xs rounded-full cursor-pointer shrink-0 bg-primary/15 text-content hover:bg-primary/25"
+							>
+								{selectedEngine && (
+									<img
+										src={getEngineIcon(selectedEngine)}
+										alt=""
+										className="w-4 h-4 rounded-sm"
+									/>
+								)}
+								<span>{selectedEngine?.name || 'مرورگر'}</span>
+							</button>
+						)}
 						<input
 							ref={inputRef}
 							type="text"
@@ -88,10 +232,15 @@ export function SearchLayout() {
 							value={searchQuery}
 							onChange={handleSearchInputChange}
 							onFocus={() => onFocusInput()}
+							onKeyDown={handleInputKeyDown}
 							className={
 								'w-full py-1.5 text-base font-light text-right focus:outline-none text-content placeholder:text-content'
 							}
-							placeholder="جستجو ..."
+							placeholder={
+								activeEngine
+									? `جستجو در ${activeEngine.name} ...`
+									: 'جستجو ...'
+							}
 							autoComplete="off"
 						/>
 						<button
@@ -109,6 +258,17 @@ export function SearchLayout() {
 					</div>
 				</form>
 				<BrowserBookmark />
+				{showResults && (
+					<OmniboxResults
+						query={bang.query}
+						engineName={searchEngine?.name}
+						results={results}
+						activeIndex={activeIndex}
+						onHover={setActiveIndex}
+						onSelect={openResult}
+						onWebSearch={() => formRef.current?.requestSubmit()}
+					/>
+				)}
 			</div>
 			<TrendingSearches
 				visible={isInputFocused && searchQuery === ''}
@@ -2,12 +2,15 @@ import { MdOutlinePrivacyTip } from 'react-icons/md'
 import { TbApps } from 'react-icons/tb'
 import {
 	VscAccount,
+	VscArchive,
 	VscColorMode,
 	VscInfo,
+	VscLayout,
 	VscMegaphone,
 	VscPaintcan,
 	VscRecordKeys,
 	VscSettingsGear,
+	VscTrash,
 } from 'react-icons/vsc'
 import Analytics from '@/analytics'
 import { callEvent } from '@/common/utils/call-event'
@@ -17,9 +20,12 @@ import { UpdateReleaseNotesModal } from '@/components/UpdateReleaseNotesModal'
 import { AboutUsTab } from './tabs/about-us/about-us'
 import { AccountTab } from './tabs/account/account'
 import { AppearanceSettingTab } from './tabs/appearance/appearance'
+import { BackupTab } from './tabs/backup/backup'
+import { DashboardsTab } from './tabs/dashboards/dashboards'
 import { GeneralSettingTab } from './tabs/general/general'
 import { PrivacySettings } from './tabs/privacy/privacy-settings'
 import { ShortcutsTab } from './tabs/shortcuts/shortcuts'
+import { TrashTab } from './tabs/trash/trash'
 import { WallpaperSetting } from './tabs/wallpapers/wallpapers'
 
 interface SettingModalProps {
@@ -52,12 +58,30 @@ const tabs: TabItem[] = [
 		icon: <VscColorMode size={20} />,
 		element: <AppearanceSettingTab />,
 	},
+	{
+		label: 'داشبوردها',
+		value: 'dashboards',
+		icon: <VscLayout size={20} />,
+		element: <DashboardsTab />,
+	},
 	{
 		label: 'تصویر زمینه',
 		value: 'wallpapers',
 		icon: <VscPaintcan size={20} />,
 		element: <WallpaperSetting />,
 	},
+	{
+		label: 'پشتیبان‌گیری',
+		value: 'backup',
+		icon: <VscArchive size={20} />,
+		element: <BackupTab />,
+	},
+	{
+		label: 'سطل زباله',
+		value: 'trash',
+		icon: <VscTrash size={20} />,
+		element: <TrashTab />,
+	},
 	{
 		label: 'میانبرها',
 		value: 'shortcuts',
@@ -1,4 +1,5 @@
 import { useAppearanceSetting } from '@/context/appearance.context'
+import { AppearanceScheduleSettings } from './components/appearance-schedule-settings'
 import { ContentAlignmentSettings } from './components/content-alignment-settings'
 import { FontSelector } from './components/font-selector'
 import { ThemeSelector } from './components/theme-selector'
@@ -9,6 +10,7 @@ export function AppearanceSettingTab() {
 	return (
 		<div className="w-full max-w-xl mx-auto" dir="rtl">
 			<ThemeSelector />
+			<AppearanceScheduleSettings />
 			<ContentAlignmentSettings
 				contentAlignment={contentAlignment}
 				setContentAlignment={setContentAlignment}
@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react'
+import { FiTrash2 } from 'react-icons/fi'
+import { v4 as uuidv4 } from 'uuid'
+import Analytics from '@/analytics'
+import { getFromStorage } from '@/common/storage'
+import { getSunTimes } from '@/common/utils/sun-times'
+import type { StoredWallpaper } from '@/common/wallpaper.interface'
+import { Button } from '@/components/button/button'
+import { SectionPanel } from '@/components/section-panel'
+import { ToggleSwitch } from '@/components/toggle-switch.component'
+import { useGeneralSetting } from '@/context/general-setting.context'
+import { Theme } from '@/context/theme.context'
+import { useWallpaperSrc } from '@/hooks/useWallpaperSrc'
+import {
+	type AppearanceRule,
+	type AppearanceTrigger,
+	defaultAppearanceSchedule,
+	findActiveRule,
+	getAppearanceSchedule,
+	type AppearanceScheduleSettings as ScheduleSettings,
+	saveAppearanceSchedule,
+} from '../schedule/appearance-schedule'
+import { themes } from './theme-selector'
+
+const triggerTypes: { value: AppearanceTrigger['type']; label: string }[] = [
+	{ value: 'time', label: 'ساعت' },
+	{ value: 'sunrise', label: 'طلوع آفتاب' },
+	{ value: 'sunset', label: 'غروب آفتاب' },
+]
+
+const formatTime = (date: Date) =>
+	date.toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })
+
+function WallpaperPreview({ wallpaper }: { wallpaper: StoredWallpaper }) {
+	const src = useWallpaperSrc(wallpaper)
+
+	if (wallpaper.type === 'GRADIENT' && wallpaper.gradient) {
+		return (
+			<span
+				className="block w-10 h-6 rounded-md"
+				style={{
+					backgroundImage: `linear-gradient(to left, ${wallpaper.gradient.from}, ${wallpaper.gradient.to})`,
+				}}
+			/>
+		)
+	}
+	if (wallpaper.type === 'IMAGE') {
+		return <img src={src} alt="" className="object-cover w-10 h-6 rounded-md" />
+	}
+	return <span className="text-xs text-muted">ویدیو</span>
+}
+
+export function AppearanceScheduleSettings() {
+	const { selectedCity } = useGeneralSetting()
+	const [settings, setSettings] = useState<ScheduleSettings>(defaultAppearanceSchedule)
+
+	useEffect(() => {
+		getAppearanceSchedule().then(setSettings)
+	}, [])
+
+	const update = (next: ScheduleSettings) => {
+		setSettings(next)
+		saveAppearanceSchedule(next)
+	}
+
+	const updateRule = (id: string, changes: Partial<AppearanceRule>) => {
+		update({
+			...settings,
+			rules: settings.rules.map((rule) =>
+				rule.id === id ? { ...rule, ...changes } : rule
+			),
+		})
+	}
+
+	const onChangeTriggerType = (
+		rule: AppearanceRule,
+		type: AppearanceTrigger['type']
+	) => {
+		const trigger: AppearanceTrigger =
+			type === 'time' ? { type, time: '08:00' } : { type, offset: 0 }
+		updateRule(rule.id, { trigger })
+	}
+
+	const onUseCurrentWallpaper = async (id: string) => {
+		const wallpaper = await getFromStorage('wallpaper')
+		if (wallpaper) updateRule(id, { wallpaper })
+	}
+
+	const onAddRule = () => {
+		update({
+			...settings,
+			rules: [
+				...settings.rules,
+				{
+					id: uuidv4(),
+					trigger: { type: 'time', time: '08:00' },
+					theme: null,
+					wallpaper: null,
+				},
+			],
+		})
+		Analytics.event('appearance_schedule_rule_added')
+	}
+
+	const onAddDayNightRules = () => {
+		update({
+			enabled: true,
+			rules: [
+				...settings.rules,
+				{
+					id: uuidv4(),
+					trigger: { type: 'sunrise', offset: 0 },
+					theme: Theme.Light,
+					wallpaper: null,
+				},
+				{
+					id: uuidv4(),
+					trigger: { type: 'sunset', offset: 0 },
+					theme: Theme.Dark,
+					wallpaper: null,
+				},
+			],
+		})
+		Analytics.event('appearance_schedule_preset_added')
+	}
+
+	const onRemoveRule = (id: string) => {
+		update({ ...settings, rules: settings.rules.filter((rule) => rule.id !== id) })
+	}
+
+	const now = new Date()
+	const sunTimes = getSunTimes(now, selectedCity.lat, selectedCity.lon)
+	const activeRule = findActiveRule(settings.rules, now, selectedCity)
+
+	return (
+		<SectionPanel title="تغییر خودکار تم و تصویر زمینه" delay={0.3}>
+			<div className="space-y-4">
+				<div className="flex items-center justify-between gap-2">
+					<p className="text-sm text-muted">
+						تم و تصویر زمینه در ساعت‌های مشخص یا با طلوع و غروب آفتاب عوض شوند.
+						هر قانون تا شروع قانون بعدی برقرار می‌ماند.
+					</p>
+					<ToggleSwitch
+						enabled={settings.enabled}
+						onToggle={() =>
+							update({ ...settings, enabled: !settings.enabled })
+						}
+					/>
+				</div>
+
+				<p className="text-xs text-muted">
+					{sunTimes
+						? `امروز در ${selectedCity.name}: طلوع ${formatTime(sunTimes.sunrise)} · غروب ${formatTime(sunTimes.sunset)}`
+						: `امروز در ${selectedCity.name} طلوع و غروب ندارد`}
+				</p>
+
+				<div className="space-y-2">
+					{settings.rules.map((rule) => (
+						<div
+							key={rule.id}
+							className={`p-2 space-y-2 border rounded-xl ${
+								settings.enabled && activeRule?.rule.id === rule.id
+									? 'border-primary'
+									: 'border-content'
+							}`}
+						>
+							<div className="flex flex-wrap items-center gap-2 text-sm text-content">
+								<span>از</span>
+								<select
+									value={rule.trigger.type}
+									onChange={(e) =>
+										onChangeTriggerType(
+											rule,
+											e.target.value as AppearanceTrigger['type']
+										)
+									}
+									className="border rounded-lg select select-sm border-content"
+								>
+									{triggerTypes.map((type) => (
+										<option key={type.value} value={type.value}>
+											{type.label}
+										</option>
+									))}
+								</select>
+								{rule.trigger.type === 'time' ? (
+									<input
+										type="time"
+										value={rule.trigger.time}
+										onChange={(e) =>
+											updateRule(rule.id, {
+												trigger: {
+													type: 'time',
+													time: e.target.value,
+												},
+											})
+										}
+										className="px-2 py-1 border rounded-lg border-content bg-content"
+									/>
+								) : (
+									<>
+										<input
+											type="number"
+											step={15}
+											value={rule.trigger.offset}
+											onChange={(e) =>
+												updateRule(rule.id, {
+													trigger: {
+														type: rule.trigger.type as
+															| 'sunrise'
+															| 'sunset',
+														offset:
+															Number(e.target.value) || 0,
+													},
+												})
+											}
+											className="w-20 px-2 py-1 border rounded-lg border-content bg-content"
+											dir="ltr"
+										/>
+										<span className="text-xs text-muted">
+											دقیقه (+ بعد، − قبل)
+										</span>
+									</>
+								)}
+								<button
+									type="button"
+									onClick={() => onRemoveRule(rule.id)}
+									className="p-1 mr-auto rounded-md cursor-pointer text-error hover:bg-base-300"
+								>
+									<FiTrash2 size={14} />
+								</button>
+							</div>
+
+							<div className="flex flex-wrap items-center gap-2 text-sm text-content">
+								<select
+									value={rule.theme || ''}
+									onChange={(e) =>
+										updateRule(rule.id, {
+											theme: (e.target.value as Theme) || null,
+										})
+									}
+									className="border rounded-lg select select-sm border-content"
+								>
+									<option value="">تم بدون تغییر</option>
+									{themes.map((theme) => (
+										<option key={theme.id} value={theme.id}>
+											تم {theme.name}
+										</option>
+									))}
+								</select>
+
+								{rule.wallpaper ? (
+									<>
+										<WallpaperPreview wallpaper={rule.wallpaper} />
+										<button
+											type="button"
+											onClick={() =>
+												updateRule(rule.id, { wallpaper: null })
+											}
+											className="text-xs cursor-pointer text-muted hover:text-error"
+										>
+											حذف تصویر زمینه
+										</button>
+									</>
+								) : (
+									<button
+										type="button"
+										onClick={() => onUseCurrentWallpaper(rule.id)}
+										className="text-xs cursor-pointer text-primary hover:opacity-80"
+									>
+										استفاده از تصویر زمینه فعلی
+									</button>
+								)}
+							</div>
+						</div>
+					))}
+				</div>
+
+				<div className="flex flex-wrap gap-2">
+					<Button
+						onClick={onAddRule}
+						size="sm"
+						className="border border-content/20 text-content rounded-xl"
+					>
+						افزودن قانون
+					</Button>
+					<Button
+						onClick={onAddDayNightRules}
+						size="sm"
+						className="border border-content/20 text-content rounded-xl"
+					>
+						روشن در روز، تیره در شب
+					</Button>
+				</div>
+				<p className="text-xs text-muted">
+					برای تصویر زمینه، اول آن را از بخش تصویر زمینه انتخاب کنید و بعد
+					«استفاده از تصویر زمینه فعلی» را بزنید.
+				</p>
+			</div>
+		</SectionPanel>
+	)
+}
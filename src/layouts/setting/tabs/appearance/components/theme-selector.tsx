@@ -3,46 +3,46 @@ import { MdOutlineBlurOn } from 'react-icons/md'
 import { SectionPanel } from '@/components/section-panel'
 import { useTheme } from '@/context/theme.context'
 
+export const themes = [
+	{
+		id: 'glass',
+		name: 'شیشه‌ای',
+		icon: <MdOutlineBlurOn size={18} />,
+		buttonClass: 'backdrop-blur-md text-white bg-black/40',
+		activeClass: 'ring-2 ring-blue-500',
+	},
+	{
+		id: 'icy',
+		name: 'یخی (آزمایشی)',
+		icon: <MdOutlineBlurOn size={18} />,
+		buttonClass: 'backdrop-blur-md text-gray-800 bg-white/50 border border-white/20',
+		activeClass: 'ring-2 ring-blue-500',
+	},
+	{
+		id: 'light',
+		name: 'روشن',
+		icon: <IoMdSunny size={18} />,
+		buttonClass: 'bg-gray-100 text-gray-800 border border-gray-200',
+		activeClass: 'ring-2 ring-blue-500',
+	},
+	{
+		id: 'dark',
+		name: 'تیره',
+		icon: <IoMdMoon size={18} />,
+		buttonClass: 'text-white',
+		activeClass: 'ring-2 ring-blue-500',
+	},
+	{
+		id: 'zarna',
+		name: 'زرنا',
+		icon: <IoMdStar size={18} />,
+		buttonClass: 'text-content',
+		activeClass: 'ring-2 ring-blue-500',
+	},
+]
+
 export function ThemeSelector() {
 	const { setTheme, theme } = useTheme()
-	const themes = [
-		{
-			id: 'glass',
-			name: 'شیشه‌ای',
-			icon: <MdOutlineBlurOn size={18} />,
-			buttonClass: 'backdrop-blur-md text-white bg-black/40',
-			activeClass: 'ring-2 ring-blue-500',
-		},
-		{
-			id: 'icy',
-			name: 'یخی (آزمایشی)',
-			icon: <MdOutlineBlurOn size={18} />,
-			buttonClass:
-				'backdrop-blur-md text-gray-800 bg-white/50 border border-white/20',
-			activeClass: 'ring-2 ring-blue-500',
-		},
-		{
-			id: 'light',
-			name: 'روشن',
-			icon: <IoMdSunny size={18} />,
-			buttonClass: 'bg-gray-100 text-gray-800 border border-gray-200',
-			activeClass: 'ring-2 ring-blue-500',
-		},
-		{
-			id: 'dark',
-			name: 'تیره',
-			icon: <IoMdMoon size={18} />,
-			buttonClass: 'text-white',
-			activeClass: 'ring-2 ring-blue-500',
-		},
-		{
-			id: 'zarna',
-			name: 'زرنا',
-			icon: <IoMdStar size={18} />,
-			buttonClass: 'text-content',
-			activeClass: 'ring-2 ring-blue-500',
-		},
-	]
 
 	return (
 		<SectionPanel title="انتخاب تم" delay={0.2}>
@@ -0,0 +1,120 @@
+import { getFromStorage, removeFromStorage, setToStorage } from '@/common/storage'
+import { callEvent } from '@/common/utils/call-event'
+import { getSunTimes } from '@/common/utils/sun-times'
+import type { StoredWallpaper } from '@/common/wallpaper.interface'
+import type { Theme } from '@/context/theme.context'
+
+export type AppearanceTrigger =
+	| { type: 'time'; time: string }
+	| { type: 'sunrise' | 'sunset'; offset: number }
+
+/** From its trigger on, a rule's theme and wallpaper stay until the next rule */
+export interface AppearanceRule {
+	id: string
+	trigger: AppearanceTrigger
+	/** Left as is when null */
+	theme: Theme | null
+	wallpaper: StoredWallpaper | null
+}
+
+export interface AppearanceScheduleSettings {
+	enabled: boolean
+	rules: AppearanceRule[]
+}
+
+export interface ActiveAppearanceRule {
+	rule: AppearanceRule
+	startedAt: Date
+}
+
+interface Coordinates {
+	lat: number
+	lon: number
+}
+
+export const defaultAppearanceSchedule: AppearanceScheduleSettings = {
+	enabled: false,
+	rules: [],
+}
+
+export async function getAppearanceSchedule() {
+	return (await getFromStorage('appearanceSchedule')) || defaultAppearanceSchedule
+}
+
+export async function saveAppearanceSchedule(settings: AppearanceScheduleSettings) {
+	await setToStorage('appearanceSchedule', settings)
+	// Edited rules apply right away, even the one that already ran
+	await removeFromStorage('appearanceScheduleApplied')
+	callEvent('appearanceScheduleChanged', settings)
+}
+
+export function getRuleStart(
+	trigger: AppearanceTrigger,
+	day: Date,
+	coordinates: Coordinates
+): Date | null {
+	if (trigger.type === 'time') {
+		const [hours, minutes] = trigger.time.split(':').map(Number)
+		if (Number.isNaN(hours)) return null
+
+		return new Date(
+			day.getFullYear(),
+			day.getMonth(),
+			day.getDate(),
+			hours,
+			minutes || 0
+		)
+	}
+
+	const sunTimes = getSunTimes(day, coordinates.lat, coordinates.lon)
+	if (!sunTimes) return null
+
+	return new Date(sunTimes[trigger.type].getTime() + trigger.offset * 60 * 1000)
+}
+
+/** The rule whose trigger passed most recently, looking back into yesterday */
+export function findActiveRule(
+	rules: AppearanceRule[],
+	now: Date,
+	coordinates: Coordinates
+): ActiveAppearanceRule | null {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+	const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1)
+
+	let active: ActiveAppearanceRule | null = null
+	for (const day of [yesterday, today]) {
+		for (const rule of rules) {
+			const startedAt = getRuleStart(rule.trigger, day, coordinates)
+			if (
+				startedAt &&
+				startedAt <= now &&
+				(!active || startedAt > active.startedAt)
+			) {
+				active = { rule, startedAt }
+			}
+		}
+	}
+
+	return active
+}
+
+/**
+ * Applies the active rule once per trigger, so a theme or wallpaper picked by
+ * hand stays until the next rule starts, in this tab and in new ones.
+ */
+export async function applyAppearanceSchedule(coordinates: Coordinates) {
+	const settings = await getAppearanceSchedule()
+	if (!settings.enabled) return null
+
+	const active = findActiveRule(settings.rules, new Date(), coordinates)
+	if (!active) return null
+
+	const appliedKey = `${active.rule.id}@${active.startedAt.getTime()}`
+	if ((await getFromStorage('appearanceScheduleApplied')) === appliedKey) return null
+	await setToStorage('appearanceScheduleApplied', appliedKey)
+
+	if (active.rule.theme) callEvent('themeChanged', active.rule.theme)
+	if (active.rule.wallpaper) callEvent('wallpaperChanged', active.rule.wallpaper)
+
+	return active
+}
@@ -0,0 +1,33 @@
+import { useEffect } from 'react'
+import Analytics from '@/analytics'
+import { listenEvent } from '@/common/utils/call-event'
+import { useGeneralSetting } from '@/context/general-setting.context'
+import { applyAppearanceSchedule } from './appearance-schedule'
+
+/** Runs the theme and wallpaper schedule while the page is open */
+export function AppearanceScheduler() {
+	const { selectedCity } = useGeneralSetting()
+	const { lat, lon } = selectedCity
+
+	useEffect(() => {
+		const check = async () => {
+			const applied = await applyAppearanceSchedule({ lat, lon })
+			if (applied) {
+				Analytics.event('appearance_schedule_applied', {
+					trigger: applied.rule.trigger.type,
+				})
+			}
+		}
+
+		check()
+		const interval = setInterval(check, 60 * 1000)
+		const event = listenEvent('appearanceScheduleChanged', check)
+
+		return () => {
+			clearInterval(interval)
+			event()
+		}
+	}, [lat, lon])
+
+	return null
+}
@@ -0,0 +1,214 @@
+import { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { FiDownload, FiUploadCloud } from 'react-icons/fi'
+import Analytics from '@/analytics'
+import {
+	type BackupArchive,
+	type BackupSectionId,
+	backupSections,
+	createBackupArchive,
+	downloadBackupArchive,
+	getArchiveSectionIds,
+	getArchiveSectionKeys,
+	getBackupSectionLabel,
+	getDefaultBackupSelection,
+	parseBackupArchive,
+	restoreBackupArchive,
+} from '@/common/backup'
+import { Button } from '@/components/button/button'
+import CustomCheckbox from '@/components/checkbox'
+import { ConfirmationModal } from '@/components/modal/confirmation-modal'
+import { SectionPanel } from '@/components/section-panel'
+import { translateError } from '@/utils/translate-error'
+
+const exportableSections: { id: BackupSectionId; label: string }[] = [
+	...backupSections.map(({ id, label }) => ({ id, label })),
+	{ id: 'other', label: 'سایر' },
+]
+
+function toggleSection(list: BackupSectionId[], id: BackupSectionId) {
+	return list.includes(id) ? list.filter((item) => item !== id) : [...list, id]
+}
+
+export function BackupTab() {
+	const [exportSelection, setExportSelection] = useState<BackupSectionId[]>(
+		getDefaultBackupSelection
+	)
+	const [isExporting, setIsExporting] = useState(false)
+	const [archive, setArchive] = useState<BackupArchive | null>(null)
+	const [importSelection, setImportSelection] = useState<BackupSectionId[]>([])
+	const [showConfirm, setShowConfirm] = useState(false)
+	const [isRestoring, setIsRestoring] = useState(false)
+	const fileInputRef = useRef<HTMLInputElement>(null)
+
+	const onExport = async () => {
+		if (!exportSelection.length) return
+
+		setIsExporting(true)
+		try {
+			const created = await createBackupArchive(exportSelection)
+			downloadBackupArchive(created)
+			Analytics.event('backup_exported', {
+				sections: exportSelection.join(','),
+			})
+		} catch (error) {
+			console.error('Error creating backup:', error)
+			toast.error('خطا در ایجاد فایل پشتیبان')
+		} finally {
+			setIsExporting(false)
+		}
+	}
+
+	const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		if (!file) return
+
+		try {
+			const parsed = parseBackupArchive(await file.text())
+			const defaults = getDefaultBackupSelection()
+
+			setArchive(parsed)
+			setImportSelection(
+				getArchiveSectionIds(parsed).filter((id) => defaults.includes(id))
+			)
+		} catch (error) {
+			setArchive(null)
+			toast.error(translateError(error) as string)
+		}
+	}
+
+	const onRestore = async () => {
+		if (!archive) return
+
+		setIsRestoring(true)
+		try {
+			await restoreBackupArchive(archive, importSelection)
+			Analytics.event('backup_restored', {
+				sections: importSelection.join(','),
+			})
+			toast.success('اطلاعات با موفقیت بازگردانی شد')
+			window.location.reload()
+		} catch (error) {
+			console.error('Error restoring backup:', error)
+			toast.error('خطا در بازگردانی اطلاعات')
+			setIsRestoring(false)
+			setShowConfirm(false)
+		}
+	}
+
+	return (
+		<div className="w-full max-w-xl mx-auto">
+			<SectionPanel title="تهیه نسخه پشتیبان" delay={0.1}>
+				<div className="space-y-3">
+					<p className="text-sm text-muted">
+						تمام تنظیمات، بوکمارک‌ها، وظایف و یادداشت‌ها را در یک فایل ذخیره
+						کنید تا بدون نیاز به ورود، آن‌ها را به مرورگر دیگری منتقل کنید.
+					</p>
+					<div className="grid grid-cols-2 gap-2">
+						{exportableSections.map(({ id, label }) => (
+							<CustomCheckbox
+								key={id}
+								checked={exportSelection.includes(id)}
+								onChange={() =>
+									setExportSelection((prev) => toggleSection(prev, id))
+								}
+								label={label}
+								fontSize="font-light"
+							/>
+						))}
+					</div>
+					<Button
+						onClick={onExport}
+						size="md"
+						isPrimary={true}
+						disabled={isExporting || !exportSelection.length}
+						loading={isExporting}
+						loadingText="در حال آماده‌سازی..."
+						className="w-full rounded-2xl"
+					>
+						<FiDownload size={16} />
+						<span>دریافت فایل پشتیبان</span>
+					</Button>
+				</div>
+			</SectionPanel>
+
+			<SectionPanel title="بازگردانی نسخه پشتیبان" delay={0.2}>
+				<div className="space-y-3">
+					<Button
+						onClick={() => fileInputRef.current?.click()}
+						size="md"
+						className="w-full border border-content/20 text-content rounded-2xl"
+					>
+						<FiUploadCloud size={16} />
+						<span>انتخاب فایل پشتیبان</span>
+					</Button>
+					<input
+						type="file"
+						ref={fileInputRef}
+						className="hidden"
+						accept="application/json,.json"
+						onChange={onFileChange}
+					/>
+
+					{archive && (
+						<div className="p-3 space-y-3 border rounded-lg border-content">
+							<p className="text-xs text-muted">
+								تاریخ تهیه:{' '}
+								{new Date(archive.createdAt).toLocaleString('fa-IR')} ·
+								نسخه افزونه: {archive.extensionVersion}
+							</p>
+							<div className="space-y-2">
+								{getArchiveSectionIds(archive).map((id) => (
+									<div
+										key={id}
+										className="flex items-center justify-between"
+									>
+										<CustomCheckbox
+											checked={importSelection.includes(id)}
+											onChange={() =>
+												setImportSelection((prev) =>
+													toggleSection(prev, id)
+												)
+											}
+											label={getBackupSectionLabel(id)}
+											fontSize="font-light"
+										/>
+										<span className="text-xs text-muted">
+											{getArchiveSectionKeys(archive, id).length}{' '}
+											مورد
+										</span>
+									</div>
+								))}
+							</div>
+							<p className="text-xs text-warning">
+								اطلاعات فعلی بخش‌های انتخاب شده با محتوای فایل جایگزین
+								می‌شوند.
+							</p>
+							<Button
+								onClick={() => setShowConfirm(true)}
+								size="md"
+								isPrimary={true}
+								disabled={!importSelection.length}
+								className="w-full rounded-2xl"
+							>
+								بازگردانی بخش‌های انتخاب شده
+							</Button>
+						</div>
+					)}
+				</div>
+			</SectionPanel>
+
+			<ConfirmationModal
+				isOpen={showConfirm}
+				onClose={() => setShowConfirm(false)}
+				onConfirm={onRestore}
+				title="بازگردانی نسخه پشتیبان"
+				message="پس از بازگردانی، صفحه مجدداً بارگذاری می‌شود. ادامه می‌دهید؟"
+				confirmText="بازگردانی"
+				variant="warning"
+				isLoading={isRestoring}
+			/>
+		</div>
+	)
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react'
+import { getFromStorage } from '@/common/storage'
+import { TextInput } from '@/components/text-input'
+import { ToggleSwitch } from '@/components/toggle-switch.component'
+import type {
+	Dashboard,
+	DashboardChanges,
+	DashboardSchedule,
+} from '@/context/dashboard.context'
+import type { Bookmark } from '@/layouts/bookmark/types/bookmark.types'
+
+// Saturday first, values as in Date.getDay()
+const weekDays = [
+	{ value: 6, label: 'ش' },
+	{ value: 0, label: 'ی' },
+	{ value: 1, label: 'د' },
+	{ value: 2, label: 'س' },
+	{ value: 3, label: 'چ' },
+	{ value: 4, label: 'پ' },
+	{ value: 5, label: 'ج' },
+]
+
+const defaultSchedule: DashboardSchedule = { days: [], from: '09:00', to: '17:00' }
+
+function getFolderOptions(bookmarks: Bookmark[]) {
+	const getPath = (folder: Bookmark): string => {
+		const parent = bookmarks.find((b) => b.id === folder.parentId)
+		return parent ? `${getPath(parent)} / ${folder.title}` : folder.title
+	}
+
+	return bookmarks
+		.filter((b) => b.type === 'FOLDER')
+		.map((folder) => ({ id: folder.id, path: getPath(folder) }))
+		.sort((a, b) => a.path.localeCompare(b.path, 'fa'))
+}
+
+interface DashboardEditorProps {
+	dashboard: Dashboard
+	onChange: (changes: DashboardChanges) => void
+}
+
+export function DashboardEditor({ dashboard, onChange }: DashboardEditorProps) {
+	const [folders, setFolders] = useState<{ id: string; path: string }[]>([])
+	const { schedule } = dashboard
+
+	useEffect(() => {
+		getFromStorage('bookmarks').then((bookmarks) =>
+			setFolders(getFolderOptions(bookmarks || []))
+		)
+	}, [])
+
+	const updateSchedule = (changes: Partial<DashboardSchedule>) => {
+		onChange({ schedule: { ...(schedule || defaultSchedule), ...changes } })
+	}
+
+	const toggleDay = (day: number) => {
+		if (!schedule) return
+		updateSchedule({
+			days: schedule.days.includes(day)
+				? schedule.days.filter((value) => value !== day)
+				: [...schedule.days, day],
+		})
+	}
+
+	return (
+		<div className="p-3 space-y-3 border rounded-xl border-content">
+			<div className="grid grid-cols-[4rem_1fr] gap-2">
+				<TextInput
+					value={dashboard.emoji}
+					onChange={(emoji) => onChange({ emoji })}
+					placeholder="🙂"
+				/>
+				<TextInput
+					value={dashboard.name}
+					onChange={(name) => name.trim() && onChange({ name })}
+					placeholder="نام داشبورد"
+				/>
+			</div>
+
+			<div className="space-y-1">
+				<p className="text-sm text-content">پوشه بوکمارک‌ها</p>
+				<select
+					value={dashboard.bookmarkRootId || ''}
+					onChange={(e) => onChange({ bookmarkRootId: e.target.value || null })}
+					className="w-full border rounded-lg appearance-none border-content select focus:outline-none focus:ring-2 focus:ring-blue-500"
+				>
+					<option value="">همه بوکمارک‌ها</option>
+					{folders.map((folder) => (
+						<option key={folder.id} value={folder.id}>
+							{folder.path}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div className="space-y-2">
+				<div className="flex items-center justify-between">
+					<div>
+						<p className="text-sm text-content">انتخاب خودکار</p>
+						<p className="text-xs text-muted">
+							در روزها و ساعت‌های انتخاب‌شده این داشبورد باز می‌شود
+						</p>
+					</div>
+					<ToggleSwitch
+						enabled={!!schedule}
+						onToggle={() =>
+							onChange({ schedule: schedule ? null : defaultSchedule })
+						}
+					/>
+				</div>
+
+				{schedule && (
+					<>
+						<div className="flex gap-1">
+							{weekDays.map((day) => (
+								<button
+									key={day.value}
+									type="button"
+									onClick={() => toggleDay(day.value)}
+									className={`w-8 h-8 text-xs rounded-full cursor-pointer transition-colors ${
+										schedule.days.includes(day.value)
+											? 'bg-primary text-white'
+											: 'bg-base-300 text-muted'
+									}`}
+								>
+									{day.label}
+								</button>
+							))}
+						</div>
+						<p className="text-xs text-muted">
+							اگر روزی انتخاب نشود، هر روز در نظر گرفته می‌شود.
+						</p>
+						<div className="flex items-center gap-2 text-sm text-content">
+							<span>از</span>
+							<input
+								type="time"
+								value={schedule.from}
+								onChange={(e) => updateSchedule({ from: e.target.value })}
+								className="px-2 py-1 border rounded-lg border-content bg-content"
+							/>
+							<span>تا</span>
+							<input
+								type="time"
+								value={schedule.to}
+								onChange={(e) => updateSchedule({ to: e.target.value })}
+								className="px-2 py-1 border rounded-lg border-content bg-content"
+							/>
+						</div>
+					</>
+				)}
+			</div>
+		</div>
+	)
+}
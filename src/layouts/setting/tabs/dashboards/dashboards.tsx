@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { FiEdit2, FiTrash2 } from 'react-icons/fi'
+import { Button } from '@/components/button/button'
+import { ConfirmationModal } from '@/components/modal/confirmation-modal'
+import { SectionPanel } from '@/components/section-panel'
+import { TextInput } from '@/components/text-input'
+import { type Dashboard, useDashboards } from '@/context/dashboard.context'
+import { DashboardEditor } from './components/dashboard-editor'
+
+const suggestions = [
+	{ name: 'کار', emoji: '💼' },
+	{ name: 'خانه', emoji: '🏡' },
+	{ name: 'تمرکز', emoji: '🎯' },
+]
+
+export function DashboardsTab() {
+	const {
+		dashboards,
+		activeDashboard,
+		switchDashboard,
+		addDashboard,
+		updateDashboard,
+		removeDashboard,
+	} = useDashboards()
+	const [form, setForm] = useState({ name: '', emoji: '' })
+	const [editingId, setEditingId] = useState<string | null>(null)
+	const [dashboardToDelete, setDashboardToDelete] = useState<Dashboard | null>(null)
+
+	const onAdd = async (name: string, emoji: string) => {
+		if (!name.trim()) {
+			toast.error('نام داشبورد را وارد کنید')
+			return
+		}
+
+		await addDashboard(name.trim(), emoji.trim() || '🗂️')
+		setForm({ name: '', emoji: '' })
+	}
+
+	const onConfirmDelete = () => {
+		if (dashboardToDelete) {
+			removeDashboard(dashboardToDelete.id)
+			if (editingId === dashboardToDelete.id) setEditingId(null)
+		}
+		setDashboardToDelete(null)
+	}
+
+	const unusedSuggestions = suggestions.filter(
+		(suggestion) =>
+			!dashboards.some((dashboard) => dashboard.name === suggestion.name)
+	)
+
+	return (
+		<div className="w-full max-w-xl mx-auto">
+			<SectionPanel title="داشبوردها" delay={0.1}>
+				<div className="space-y-4">
+					<p className="text-sm text-muted">
+						هر داشبورد ویجت‌ها، ترتیب، تصویر زمینه و پوشه بوکمارک خودش را دارد.
+						از نوار بالا یا با کلیدهای <span dir="ltr">Alt + 1..9</span> بین
+						داشبوردها جابه‌جا شوید.
+					</p>
+
+					<div className="space-y-2">
+						{dashboards.map((dashboard, index) => {
+							const isActive = dashboard.id === activeDashboard.id
+							const isEditing = dashboard.id === editingId
+
+							return (
+								<div key={dashboard.id} className="space-y-2">
+									<div className="flex items-center gap-2 p-2 rounded-lg hover:bg-base-200">
+										<span className="text-lg">{dashboard.emoji}</span>
+										<div className="flex-1 min-w-0">
+											<p className="text-sm truncate text-content">
+												{dashboard.name}
+											</p>
+											<p className="text-xs text-muted">
+												{index < 9 && (
+													<span dir="ltr">Alt+{index + 1}</span>
+												)}
+												{dashboard.schedule && ' · انتخاب خودکار'}
+											</p>
+										</div>
+										{isActive ? (
+											<span className="px-2 py-0.5 text-xs rounded-full bg-primary/15 text-primary">
+												فعال
+											</span>
+										) : (
+											<Button
+												onClick={() =>
+													switchDashboard(
+														dashboard.id,
+														'settings'
+													)
+												}
+												size="xs"
+												className="border border-content/20 text-content rounded-xl"
+											>
+												نمایش
+											</Button>
+										)}
+										<button
+											type="button"
+											onClick={() =>
+												setEditingId(
+													isEditing ? null : dashboard.id
+												)
+											}
+											className="p-1 rounded-md cursor-pointer text-muted hover:bg-base-300"
+										>
+											<FiEdit2 size={14} />
+										</button>
+										{dashboards.length > 1 && (
+											<button
+												type="button"
+												onClick={() =>
+													setDashboardToDelete(dashboard)
+												}
+												className="p-1 rounded-md cursor-pointer text-error hover:bg-base-300"
+											>
+												<FiTrash2 size={14} />
+											</button>
+										)}
+									</div>
+									{isEditing && (
+										<DashboardEditor
+											dashboard={dashboard}
+											onChange={(changes) =>
+												updateDashboard(dashboard.id, changes)
+											}
+										/>
+									)}
+								</div>
+							)
+						})}
+					</div>
+
+					<div className="p-3 space-y-2 border rounded-xl border-content">
+						<h3 className="text-sm font-medium text-content">
+							افزودن داشبورد
+						</h3>
+						<div className="grid grid-cols-[4rem_1fr_auto] gap-2">
+							<TextInput
+								value={form.emoji}
+								onChange={(emoji) => setForm({ ...form, emoji })}
+								placeholder="🗂️"
+							/>
+							<TextInput
+								value={form.name}
+								onChange={(name) => setForm({ ...form, name })}
+								placeholder="نام داشبورد"
+							/>
+							<Button
+								onClick={() => onAdd(form.name, form.emoji)}
+								size="sm"
+								isPrimary={true}
+								className="rounded-xl"
+							>
+								افزودن
+							</Button>
+						</div>
+						{unusedSuggestions.length > 0 && (
+							<div className="flex flex-wrap gap-1">
+								{unusedSuggestions.map((suggestion) => (
+									<button
+										key={suggestion.name}
+										type="button"
+										onClick={() =>
+											onAdd(suggestion.name, suggestion.emoji)
+										}
+										className="px-2 py-1 text-xs rounded-full cursor-pointer bg-base-300 text-content hover:opacity-80"
+									>
+										{suggestion.emoji} {suggestion.name}
+									</button>
+								))}
+							</div>
+						)}
+						<p className="text-xs text-muted">
+							داشبورد جدید با ویجت‌های پیش‌فرض و تصویر زمینه فعلی ساخته می‌شود.
+						</p>
+					</div>
+				</div>
+			</SectionPanel>
+
+			<ConfirmationModal
+				isOpen={!!dashboardToDelete}
+				onClose={() => setDashboardToDelete(null)}
+				onConfirm={onConfirmDelete}
+				title="حذف داشبورد"
+				message={`داشبورد «${dashboardToDelete?.name}» و چیدمان ویجت‌هایش حذف شود؟`}
+				confirmText="حذف"
+			/>
+		</div>
+	)
+}
@@ -0,0 +1,283 @@
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { FiEdit2, FiTrash2 } from 'react-icons/fi'
+import { v4 as uuidv4 } from 'uuid'
+import Analytics from '@/analytics'
+import { getFromStorage } from '@/common/storage'
+import { Button } from '@/components/button/button'
+import CustomCheckbox from '@/components/checkbox'
+import { SectionPanel } from '@/components/section-panel'
+import { TextInput } from '@/components/text-input'
+import {
+	getEngineIcon,
+	getEnginesFromRecommendedSites,
+	isValidEngineUrl,
+	normalizeKeyword,
+	type SearchEngine,
+} from '@/layouts/search/engines/search-engines'
+import { useSearchEngines } from '@/layouts/search/engines/use-search-engines'
+
+const emptyForm = { name: '', keyword: '', url: '' }
+
+export function SearchEngineSettings() {
+	const { settings, updateSettings } = useSearchEngines()
+	const [form, setForm] = useState(emptyForm)
+	const [editingId, setEditingId] = useState<string | null>(null)
+	const [importCandidates, setImportCandidates] = useState<SearchEngine[] | null>(null)
+	const [selectedImports, setSelectedImports] = useState<string[]>([])
+
+	const { engines, defaultEngineId } = settings
+
+	const resetForm = () => {
+		setForm(emptyForm)
+		setEditingId(null)
+	}
+
+	const onSave = () => {
+		const name = form.name.trim()
+		const keyword = normalizeKeyword(form.keyword)
+		const url = form.url.trim()
+
+		if (!name || !keyword) {
+			toast.error('نام و کلمه کلیدی را وارد کنید')
+			return
+		}
+		if (/\s/.test(keyword)) {
+			toast.error('کلمه کلیدی نباید فاصله داشته باشد')
+			return
+		}
+		if (!isValidEngineUrl(url)) {
+			toast.error(
+				'آدرس باید با http شروع شود و %s را به جای عبارت جستجو داشته باشد'
+			)
+			return
+		}
+		if (
+			engines.some(
+				(engine) => engine.keyword === keyword && engine.id !== editingId
+			)
+		) {
+			toast.error(`کلمه کلیدی !${keyword} قبلاً استفاده شده است`)
+			return
+		}
+
+		const updated = editingId
+			? engines.map((engine) =>
+					engine.id === editingId ? { ...engine, name, keyword, url } : engine
+				)
+			: [...engines, { id: uuidv4(), name, keyword, url }]
+
+		updateSettings({ ...settings, engines: updated })
+		Analytics.event(editingId ? 'search_engine_edited' : 'search_engine_added')
+		resetForm()
+	}
+
+	const onEdit = (engine: SearchEngine) => {
+		setEditingId(engine.id)
+		setForm({ name: engine.name, keyword: engine.keyword, url: engine.url })
+	}
+
+	const onDelete = (id: string) => {
+		updateSettings({
+			engines: engines.filter((engine) => engine.id !== id),
+			defaultEngineId: defaultEngineId === id ? null : defaultEngineId,
+		})
+		if (editingId === id) resetForm()
+		Analytics.event('search_engine_deleted')
+	}
+
+	const onChangeDefault = (id: string) => {
+		updateSettings({ ...settings, defaultEngineId: id || null })
+		Analytics.event('search_engine_default_changed', { engine: id || 'browser' })
+	}
+
+	const onOpenImport = async () => {
+		const sites = (await getFromStorage('recommended_sites')) || []
+		const candidates = getEnginesFromRecommendedSites(sites).filter(
+			(candidate) =>
+				!engines.some(
+					(engine) =>
+						engine.url === candidate.url ||
+						engine.keyword === candidate.keyword
+				)
+		)
+		if (!candidates.length) {
+			toast('سایت پیشنهادی تازه‌ای برای افزودن نیست')
+			return
+		}
+
+		setImportCandidates(candidates)
+		setSelectedImports(candidates.map((candidate) => candidate.id))
+	}
+
+	const onImport = () => {
+		const imported = (importCandidates || []).filter((candidate) =>
+			selectedImports.includes(candidate.id)
+		)
+		if (imported.length) {
+			updateSettings({ ...settings, engines: [...engines, ...imported] })
+			toast.success(`${imported.length} موتور جستجو اضافه شد`)
+			Analytics.event('search_engines_imported', { count: imported.length })
+		}
+		setImportCandidates(null)
+	}
+
+	return (
+		<SectionPanel title="موتورهای جستجو" delay={0.2}>
+			<div className="space-y-4">
+				<p className="text-sm text-muted">
+					با نوشتن کلمه کلیدی و یک ! (مثل <span dir="ltr">!yt lofi</span>) در
+					نوار جستجو، در همان موتور جستجو کنید. کلید Tab هم موتور جستجو را عوض
+					می‌کند.
+				</p>
+
+				<select
+					value={defaultEngineId || ''}
+					onChange={(e) => onChangeDefault(e.target.value)}
+					className="w-full border rounded-lg appearance-none border-content select focus:outline-none focus:ring-2 focus:ring-blue-500"
+				>
+					<option value="">موتور جستجوی مرورگر (پیش‌فرض)</option>
+					{engines.map((engine) => (
+						<option key={engine.id} value={engine.id}>
+							{engine.name}
+						</option>
+					))}
+				</select>
+
+				<div className="space-y-1">
+					{engines.map((engine) => (
+						<div
+							key={engine.id}
+							className="flex items-center gap-2 p-2 rounded-lg hover:bg-base-200"
+						>
+							<img
+								src={getEngineIcon(engine)}
+								alt=""
+								className="w-5 h-5 rounded-sm shrink-0"
+							/>
+							<div className="flex-1 min-w-0">
+								<p className="text-sm truncate text-content">
+									{engine.name}
+								</p>
+								<p className="text-xs truncate text-muted" dir="ltr">
+									{engine.url}
+								</p>
+							</div>
+							<span className="px-2 py-0.5 text-xs rounded-full bg-base-300 text-content">
+								!{engine.keyword}
+							</span>
+							<button
+								type="button"
+								onClick={() => onEdit(engine)}
+								className="p-1 rounded-md cursor-pointer text-muted hover:bg-base-300"
+							>
+								<FiEdit2 size={14} />
+							</button>
+							<button
+								type="button"
+								onClick={() => onDelete(engine.id)}
+								className="p-1 rounded-md cursor-pointer text-error hover:bg-base-300"
+							>
+								<FiTrash2 size={14} />
+							</button>
+						</div>
+					))}
+				</div>
+
+				<div className="p-3 space-y-2 border rounded-xl border-content">
+					<h3 className="text-sm font-medium text-content">
+						{editingId ? 'ویرایش موتور جستجو' : 'افزودن موتور جستجو'}
+					</h3>
+					<div className="grid grid-cols-2 gap-2">
+						<TextInput
+							value={form.name}
+							onChange={(name) => setForm({ ...form, name })}
+							placeholder="نام"
+						/>
+						<TextInput
+							value={form.keyword}
+							onChange={(keyword) => setForm({ ...form, keyword })}
+							placeholder="کلمه کلیدی (مثل yt)"
+							direction="ltr"
+						/>
+					</div>
+					<TextInput
+						value={form.url}
+						onChange={(url) => setForm({ ...form, url })}
+						placeholder="https://example.com/search?q=%s"
+						direction="ltr"
+					/>
+					<div className="flex gap-2">
+						<Button
+							onClick={onSave}
+							size="sm"
+							isPrimary={true}
+							className="rounded-xl"
+						>
+							{editingId ? 'ذخیره' : 'افزودن'}
+						</Button>
+						{editingId && (
+							<Button
+								onClick={resetForm}
+								size="sm"
+								className="border border-content/20 text-content rounded-xl"
+							>
+								انصراف
+							</Button>
+						)}
+					</div>
+				</div>
+
+				{importCandidates ? (
+					<div className="p-3 space-y-2 border rounded-xl border-content">
+						<h3 className="text-sm font-medium text-content">
+							جستجو در سایت‌های پیشنهادی
+						</h3>
+						<div className="space-y-1 overflow-y-auto max-h-48">
+							{importCandidates.map((candidate) => (
+								<CustomCheckbox
+									key={candidate.id}
+									checked={selectedImports.includes(candidate.id)}
+									onChange={(checked) =>
+										setSelectedImports((prev) =>
+											checked
+												? [...prev, candidate.id]
+												: prev.filter((id) => id !== candidate.id)
+										)
+									}
+									label={`${candidate.name} (!${candidate.keyword})`}
+								/>
+							))}
+						</div>
+						<div className="flex gap-2">
+							<Button
+								onClick={onImport}
+								size="sm"
+								isPrimary={true}
+								disabled={!selectedImports.length}
+								className="rounded-xl"
+							>
+								افزودن ({selectedImports.length})
+							</Button>
+							<Button
+								onClick={() => setImportCandidates(null)}
+								size="sm"
+								className="border border-content/20 text-content rounded-xl"
+							>
+								انصراف
+							</Button>
+						</div>
+					</div>
+				) : (
+					<Button
+						onClick={onOpenImport}
+						size="sm"
+						className="border border-content/20 text-content rounded-xl"
+					>
+						افزودن از سایت‌های پیشنهادی
+					</Button>
+				)}
+			</div>
+		</SectionPanel>
+	)
+}
@@ -9,7 +9,13 @@ import { CityResultsList } from '../../weather/CityResultsList'
 import { CitySearchInput } from '../../weather/CitySearchInput'
 import { SelectedCityDisplay } from '../../weather/SelectedCityDisplay'
 
-export function SelectCity() {
+interface SelectCityProps {
+	/** Set with `onSelectCity` to pick a city for something else than the whole app */
+	city?: SelectedCity | null
+	onSelectCity?: (city: SelectedCity) => void
+}
+
+export function SelectCity({ city, onSelectCity }: SelectCityProps = {}) {
 	const [inputValue, setInputValue] = useState('')
 	const [isDropdownOpen, setIsDropdownOpen] = useState(false)
 	const inputRef = useRef<HTMLInputElement>(null)
@@ -23,8 +29,16 @@ export function SelectCity() {
 	const { data: relatedCities, isLoading, error } = useGetRelatedCities(debouncedValue)
 
 	const handleSelectCity = (city: SelectedCity) => {
-		setSelectedCity(city)
 		setIsDropdownOpen(false)
+		setInputValue('')
+		inputRef.current?.blur()
+
+		if (onSelectCity) {
+			onSelectCity(city)
+			return
+		}
+
+		setSelectedCity(city)
 
 		Analytics.event('city_selected', {
 			city_name: city.name,
@@ -39,9 +53,6 @@ export function SelectCity() {
 			name: city.name,
 			state: city.state,
 		})
-
-		setInputValue('')
-		inputRef.current?.blur()
 	}
 
 	const handleInputChange = (value: string) => {
@@ -79,7 +90,7 @@ export function SelectCity() {
 						</div>
 					)}
 				</div>
-				<SelectedCityDisplay city={selectedCity} />
+				<SelectedCityDisplay city={(onSelectCity && city) || selectedCity} />
 				{error && (
 					<div
 						className={
@@ -1,3 +1,4 @@
+import { SearchEngineSettings } from './components/search-engine-settings'
 import { SelectCity } from './components/select-city'
 import { TimezoneSettings } from './components/timezone-settings'
 
@@ -6,6 +7,7 @@ export function GeneralSettingTab() {
 		<div className="w-full max-w-xl mx-auto">
 			<SelectCity key={'selectCity'} />
 			<TimezoneSettings key="timezone" />
+			<SearchEngineSettings key="searchEngines" />
 		</div>
 	)
 }
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import Analytics from '@/analytics'
+import {
+	getFromStorage,
+	removeFromStorage,
+	setToStorage,
+	watchStorage,
+} from '@/common/storage'
+import { SectionPanel } from '@/components/section-panel'
+import { ToggleSwitch } from '@/components/toggle-switch.component'
+import type { BookmarkMirrorState } from '@/layouts/bookmark/utils/bookmark-mirror.util'
+import {
+	type FetchedBrowserBookmark,
+	getBrowserBookmarks,
+} from '@/layouts/bookmark/utils/browser-bookmarks.util'
+
+const NEW_FOLDER = 'new'
+const NEW_FOLDER_TITLE = 'Widgetify'
+
+interface NativeFolderOption {
+	id: string
+	label: string
+}
+
+function getFolderOptions(folders: FetchedBrowserBookmark[]) {
+	const byId = new Map(folders.map((folder) => [folder.id, folder]))
+	const getLabel = (folder: FetchedBrowserBookmark): string => {
+		const parent = folder.parentId ? byId.get(folder.parentId) : undefined
+		return parent ? `${getLabel(parent)} / ${folder.title}` : folder.title
+	}
+
+	return folders
+		.map((folder) => ({ id: folder.id, label: getLabel(folder) }))
+		.sort((a, b) => a.label.localeCompare(b.label))
+}
+
+export function BookmarkMirrorSettings() {
+	const [mirror, setMirror] = useState<BookmarkMirrorState | null>(null)
+	const [folders, setFolders] = useState<NativeFolderOption[]>([])
+	const [selectedFolder, setSelectedFolder] = useState(NEW_FOLDER)
+
+	useEffect(() => {
+		getFromStorage('bookmarkMirror').then(setMirror)
+		getBrowserBookmarks({ includeFolders: true }).then((items) =>
+			setFolders(getFolderOptions(items.filter((item) => item.type === 'FOLDER')))
+		)
+
+		return watchStorage('bookmarkMirror', setMirror)
+	}, [])
+
+	const onToggle = async () => {
+		if (mirror) {
+			await removeFromStorage('bookmarkMirror')
+			setMirror(null)
+			Analytics.event('bookmark_mirror_disabled')
+			return
+		}
+
+		try {
+			const rootId =
+				selectedFolder === NEW_FOLDER
+					? (await browser.bookmarks.create({ title: NEW_FOLDER_TITLE })).id
+					: selectedFolder
+			const state: BookmarkMirrorState = { rootId, links: {} }
+
+			await setToStorage('bookmarkMirror', state)
+			setMirror(state)
+			toast.success('همگام‌سازی با بوکمارک‌های مرورگر فعال شد')
+			Analytics.event('bookmark_mirror_enabled', {
+				new_folder: selectedFolder === NEW_FOLDER,
+			})
+		} catch (error) {
+			console.error('Error enabling bookmark mirror:', error)
+			toast.error('خطا در دسترسی به بوکمارک‌های مرورگر')
+		}
+	}
+
+	const mirrorFolder = folders.find((folder) => folder.id === mirror?.rootId)
+
+	return (
+		<SectionPanel title="همگام‌سازی با بوکمارک‌های مرورگر" delay={0.2}>
+			<div className="space-y-4">
+				<div className="flex items-center justify-between">
+					<div className="flex-1 space-y-2">
+						<h3 className="font-medium text-content">همگام‌سازی دوطرفه</h3>
+						<p className="text-sm font-light leading-relaxed text-muted">
+							بوکمارک‌های ویجتیفای با یک پوشه از بوکمارک‌های مرورگر یکی
+							می‌شوند. هر تغییری در یکی، در دیگری هم انجام می‌شود و پوشه‌های
+							دیگر مرورگر دست نمی‌خورند.
+						</p>
+					</div>
+					<div className="flex-shrink-0 ml-4">
+						<ToggleSwitch enabled={!!mirror} onToggle={onToggle} />
+					</div>
+				</div>
+
+				{mirror ? (
+					<p className="text-sm text-content">
+						پوشه مرورگر:{' '}
+						<span className="font-medium">
+							{mirrorFolder?.label || NEW_FOLDER_TITLE}
+						</span>
+					</p>
+				) : (
+					<select
+						value={selectedFolder}
+						onChange={(e) => setSelectedFolder(e.target.value)}
+						className="w-full border rounded-lg appearance-none border-content select focus:outline-none focus:ring-2 focus:ring-blue-500"
+					>
+						<option value={NEW_FOLDER}>
+							ساخت پوشه جدید «{NEW_FOLDER_TITLE}»
+						</option>
+						{folders.map((folder) => (
+							<option key={folder.id} value={folder.id}>
+								{folder.label}
+							</option>
+						))}
+					</select>
+				)}
+			</div>
+		</SectionPanel>
+	)
+}
@@ -1,6 +1,13 @@
+import { useEffect, useState } from 'react'
+import Analytics from '@/analytics'
 import { SectionPanel } from '@/components/section-panel'
 import { ToggleSwitch } from '@/components/toggle-switch.component'
 import { useGeneralSetting } from '@/context/general-setting.context'
+import {
+	BOOKMARK_HEALTH_ORIGINS,
+	hasBookmarkHealthPermission,
+} from '@/layouts/bookmark/utils/bookmark-health.util'
+import { BookmarkMirrorSettings } from './bookmark-mirror-settings'
 
 export function PrivacySettings() {
 	const {
@@ -11,6 +18,34 @@ export function PrivacySettings() {
 		browserTabsEnabled,
 		setBrowserTabsEnabled,
 	} = useGeneralSetting()
+	const [linkCheckEnabled, setLinkCheckEnabled] = useState(false)
+
+	useEffect(() => {
+		hasBookmarkHealthPermission().then(setLinkCheckEnabled)
+	}, [])
+
+	// Written without async/await, see the note on setBrowserTabsEnabled
+	const toggleLinkCheck = () => {
+		const permissions = { origins: BOOKMARK_HEALTH_ORIGINS }
+		if (linkCheckEnabled) {
+			browser.permissions
+				.remove(permissions)
+				.then(() => {
+					setLinkCheckEnabled(false)
+					Analytics.event('bookmark_health_disabled')
+				})
+				.catch(console.error)
+			return
+		}
+
+		browser.permissions
+			.request(permissions)
+			.then((granted) => {
+				setLinkCheckEnabled(granted)
+				if (granted) Analytics.event('bookmark_health_enabled')
+			})
+			.catch(console.error)
+	}
 
 	return (
 		<div className="w-full max-w-xl mx-auto">
@@ -53,6 +88,24 @@ export function PrivacySettings() {
 							/>
 						</div>
 					</div>
+					<div className="flex items-center justify-between">
+						<div className="flex-1 space-y-2">
+							<h3 className="font-medium text-content">
+								بررسی سلامت لینک‌های بوکمارک
+							</h3>
+							<p className="text-sm font-light leading-relaxed text-muted">
+								با فعال کردن این گزینه، افزونه روزی یک بار آدرس بوکمارک‌ها
+								را باز می‌کند تا لینک‌های خراب و منتقل شده را پیدا کند. برای
+								این کار به دسترسی به همه سایت‌ها نیاز است.
+							</p>
+						</div>
+						<div className="flex-shrink-0 ml-4">
+							<ToggleSwitch
+								enabled={linkCheckEnabled}
+								onToggle={toggleLinkCheck}
+							/>
+						</div>
+					</div>
 					<div className="flex items-center justify-between">
 						<div className="flex-1 space-y-2">
 							<h3 className="font-medium text-content">دسترسی به تب‌ها</h3>
@@ -73,6 +126,8 @@ export function PrivacySettings() {
 					</div>
 				</div>
 			</SectionPanel>
+
+			{browserBookmarksEnabled && <BookmarkMirrorSettings />}
 		</div>
 	)
 }
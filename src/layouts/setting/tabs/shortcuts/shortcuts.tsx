@@ -1,6 +1,5 @@
+import React, { useEffect, useState } from 'react'
 import { SectionPanel } from '@/components/section-panel'
-import React from 'react'
-import { useEffect, useState } from 'react'
 
 interface Shortcut {
 	id: string
@@ -56,6 +55,13 @@ export function ShortcutsTab() {
 			description: 'تغییر تم',
 			category: 'تم',
 		},
+		{
+			id: 'switch_dashboard',
+			windowsKey: 'ALT + 1..9',
+			macKey: '⌥ + 1..9',
+			description: 'رفتن به داشبورد شماره ۱ تا ۹',
+			category: 'داشبوردها',
+		},
 	]
 
 	const categories = shortcuts.reduce(
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import {
+	FiBookmark,
+	FiCheckSquare,
+	FiFileText,
+	FiFolder,
+	FiRotateCcw,
+	FiTrash2,
+} from 'react-icons/fi'
+import Analytics from '@/analytics'
+import { watchStorage } from '@/common/storage'
+import {
+	emptyTrash,
+	getTrash,
+	getTrashExpiry,
+	purgeTrashItem,
+	restoreTrashItem,
+	TRASH_RETENTION_DAYS,
+	type TrashItem,
+} from '@/common/trash'
+import { listenEvent } from '@/common/utils/call-event'
+import { Button } from '@/components/button/button'
+import { ConfirmationModal } from '@/components/modal/confirmation-modal'
+import { SectionPanel } from '@/components/section-panel'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getItemIcon(item: TrashItem) {
+	if (item.type === 'todo') return <FiCheckSquare size={16} />
+	if (item.type === 'note') return <FiFileText size={16} />
+	return item.bookmarks[0]?.type === 'FOLDER' ? (
+		<FiFolder size={16} />
+	) : (
+		<FiBookmark size={16} />
+	)
+}
+
+function getItemDescription(item: TrashItem) {
+	const daysLeft = Math.max(1, Math.ceil((getTrashExpiry(item) - Date.now()) / DAY_MS))
+	const parts = [`${daysLeft} روز تا حذف دائمی`]
+	if (item.type === 'bookmark' && item.bookmarks.length > 1) {
+		parts.unshift(`${item.bookmarks.length - 1} مورد داخل پوشه`)
+	}
+	return parts.join(' · ')
+}
+
+export function TrashTab() {
+	const [items, setItems] = useState<TrashItem[]>([])
+	const [showConfirm, setShowConfirm] = useState(false)
+
+	useEffect(() => {
+		const load = () => getTrash().then(setItems)
+		load()
+
+		const trashChangedEvent = listenEvent('trashChanged', load)
+		const trashWatcher = watchStorage('trash', load)
+
+		return () => {
+			trashChangedEvent()
+			trashWatcher()
+		}
+	}, [])
+
+	const onRestore = async (item: TrashItem) => {
+		if (await restoreTrashItem(item.id)) {
+			toast.success('بازگردانی شد')
+			Analytics.event('trash_item_restored', { type: item.type })
+		}
+	}
+
+	const onPurge = async (item: TrashItem) => {
+		await purgeTrashItem(item.id)
+		Analytics.event('trash_item_purged', { type: item.type })
+	}
+
+	const onEmpty = async () => {
+		await emptyTrash()
+		setShowConfirm(false)
+		Analytics.event('trash_emptied', { count: items.length })
+	}
+
+	return (
+		<div className="w-full max-w-xl mx-auto">
+			<SectionPanel title="سطل زباله" delay={0.1}>
+				<div className="space-y-3">
+					<p className="text-sm text-muted">
+						وظایف، یادداشت‌ها و بوکمارک‌های حذف شده تا {TRASH_RETENTION_DAYS}{' '}
+						روز اینجا نگه داشته می‌شوند و می‌توانید آن‌ها را بازگردانی کنید.
+					</p>
+
+					{items.length ? (
+						<div className="space-y-1">
+							{items.map((item) => (
+								<div
+									key={item.id}
+									className="flex items-center gap-3 p-2 rounded-lg hover:bg-base-200"
+								>
+									<span className="text-muted">
+										{getItemIcon(item)}
+									</span>
+									<div className="flex-1 min-w-0">
+										<p className="text-sm truncate text-content">
+											{item.title}
+										</p>
+										<p className="text-xs text-muted">
+											{getItemDescription(item)}
+										</p>
+									</div>
+									<button
+										onClick={() => onRestore(item)}
+										title="بازگردانی"
+										className="p-1.5 rounded-full cursor-pointer text-muted hover:bg-primary/10 hover:text-primary"
+									>
+										<FiRotateCcw size={14} />
+									</button>
+									<button
+										onClick={() => onPurge(item)}
+										title="حذف دائمی"
+										className="p-1.5 rounded-full cursor-pointer text-muted hover:bg-error/10 hover:text-error"
+									>
+										<FiTrash2 size={14} />
+									</button>
+								</div>
+							))}
+						</div>
+					) : (
+						<p className="py-6 text-sm text-center text-muted">
+							سطل زباله خالی است.
+						</p>
+					)}
+
+					<Button
+						onClick={() => setShowConfirm(true)}
+						size="md"
+						disabled={!items.length}
+						className="w-full border border-content/20 text-content rounded-2xl"
+					>
+						<FiTrash2 size={16} />
+						<span>خالی کردن سطل زباله</span>
+					</Button>
+				</div>
+			</SectionPanel>
+
+			<ConfirmationModal
+				isOpen={showConfirm}
+				onClose={() => setShowConfirm(false)}
+				onConfirm={onEmpty}
+				title="خالی کردن سطل زباله"
+				message="همه موارد سطل زباله برای همیشه حذف می‌شوند. ادامه می‌دهید؟"
+				confirmText="حذف دائمی"
+				variant="danger"
+			/>
+		</div>
+	)
+}
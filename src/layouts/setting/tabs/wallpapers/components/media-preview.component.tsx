@@ -1,27 +1,22 @@
 import type { Wallpaper } from '@/common/wallpaper.interface'
+import { useWallpaperSrc } from '@/hooks/useWallpaperSrc'
 
 interface MediaPreviewProps {
 	customWallpaper: Wallpaper
 }
 
 export function MediaPreview({ customWallpaper }: MediaPreviewProps) {
+	const src = useWallpaperSrc(customWallpaper)
+
 	if (customWallpaper.type === 'IMAGE') {
 		return (
 			<img
-				src={customWallpaper.src}
+				src={src}
 				alt="Custom wallpaper"
 				className="object-cover w-full h-full"
 			/>
 		)
 	}
 
-	return (
-		<video
-			src={customWallpaper.src}
-			className="object-cover w-full h-full"
-			autoPlay
-			muted
-			loop
-		/>
-	)
+	return <video src={src} className="object-cover w-full h-full" autoPlay muted loop />
 }
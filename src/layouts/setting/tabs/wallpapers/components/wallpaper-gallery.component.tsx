@@ -1,5 +1,5 @@
-import type { Wallpaper } from '@/common/wallpaper.interface'
 import { useRef } from 'react'
+import type { Wallpaper } from '@/common/wallpaper.interface'
 import { WallpaperItem } from '../item.wallpaper'
 
 interface WallpaperGalleryProps {
@@ -8,6 +8,8 @@ interface WallpaperGalleryProps {
 	wallpapers: Wallpaper[]
 	selectedBackground: Wallpaper | null
 	onSelectBackground: (wallpaper: Wallpaper) => void
+	isFavorite?: (wallpaper: Wallpaper) => boolean
+	onToggleFavorite?: (wallpaper: Wallpaper) => void
 }
 
 export function WallpaperGallery({
@@ -16,6 +18,8 @@ export function WallpaperGallery({
 	wallpapers,
 	selectedBackground,
 	onSelectBackground,
+	isFavorite,
+	onToggleFavorite,
 }: WallpaperGalleryProps) {
 	const galleryRef = useRef<HTMLDivElement>(null)
 
@@ -76,6 +80,8 @@ export function WallpaperGallery({
 									wallpaper={wallpaper}
 									selectedBackground={selectedBackground}
 									setSelectedBackground={onSelectBackground}
+									isFavorite={isFavorite?.(wallpaper)}
+									onToggleFavorite={onToggleFavorite}
 								/>
 							</div>
 						))}
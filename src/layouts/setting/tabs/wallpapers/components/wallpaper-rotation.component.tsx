@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react'
+import Analytics from '@/analytics'
+import { getFromStorage } from '@/common/storage'
+import { listenEvent } from '@/common/utils/call-event'
+import { Button } from '@/components/button/button'
+import { SectionPanel } from '@/components/section-panel'
+import { ToggleSwitch } from '@/components/toggle-switch.component'
+import { useGetWallpaperCategories } from '@/services/hooks/wallpapers/getWallpaperCategories.hook'
+import { useWallpaperFavorites } from '../hooks/use-wallpaper-favorites'
+import {
+	defaultWallpaperRotation,
+	getWallpaperRotation,
+	type RotationInterval,
+	type RotationSource,
+	rotateWallpaper,
+	saveWallpaperRotation,
+	type WallpaperRotationSettings,
+} from '../rotation/wallpaper-rotation'
+
+const intervals: { value: RotationInterval; label: string }[] = [
+	{ value: 'newTab', label: 'هر تب جدید' },
+	{ value: 'hourly', label: 'هر ساعت' },
+	{ value: 'daily', label: 'هر روز' },
+]
+
+export function WallpaperRotationPanel() {
+	const [settings, setSettings] = useState<WallpaperRotationSettings>(
+		defaultWallpaperRotation
+	)
+	const [customCount, setCustomCount] = useState(0)
+	const { favorites } = useWallpaperFavorites()
+	const { data: categories } = useGetWallpaperCategories()
+
+	useEffect(() => {
+		getWallpaperRotation().then(setSettings)
+
+		Promise.all([
+			getFromStorage('customWallpapers'),
+			getFromStorage('customWallpaper'),
+		]).then(([uploads, customWallpaper]) => {
+			setCustomCount(uploads?.length || (customWallpaper?.type === 'IMAGE' ? 1 : 0))
+		})
+
+		return listenEvent('wallpaperRotationChanged', setSettings)
+	}, [])
+
+	const update = (changes: Partial<WallpaperRotationSettings>) => {
+		const next = { ...settings, ...changes }
+		setSettings(next)
+		saveWallpaperRotation(next)
+	}
+
+	const onToggle = () => {
+		update({ enabled: !settings.enabled, paused: false })
+		Analytics.event('wallpaper_rotation_toggled', { enabled: !settings.enabled })
+	}
+
+	const sources: { value: RotationSource; label: string; count?: number }[] = [
+		{ value: 'category', label: 'دسته‌بندی گالری' },
+		{ value: 'favorites', label: 'علاقه‌مندی‌ها', count: favorites.length },
+		{ value: 'custom', label: 'تصاویر آپلودشده', count: customCount },
+	]
+
+	return (
+		<SectionPanel title="چرخش خودکار تصویر زمینه" size="md">
+			<div className="space-y-4">
+				<div className="flex items-center justify-between gap-2">
+					<p className="text-sm text-muted">
+						تصویر زمینه به‌صورت خودکار از یک مجموعه عوض شود.
+					</p>
+					<ToggleSwitch enabled={settings.enabled} onToggle={onToggle} />
+				</div>
+
+				{settings.enabled && (
+					<>
+						<div className="flex flex-wrap gap-2">
+							{sources.map((source) => (
+								<button
+									key={source.value}
+									type="button"
+									onClick={() => update({ source: source.value })}
+									className={`px-3 py-1.5 text-sm border rounded-xl cursor-pointer ${
+										settings.source === source.value
+											? 'border-primary text-primary'
+											: 'border-content text-content'
+									}`}
+								>
+									{source.label}
+									{source.count !== undefined && ` (${source.count})`}
+								</button>
+							))}
+						</div>
+
+						<div className="flex flex-wrap items-center gap-2 text-sm text-content">
+							{settings.source === 'category' && (
+								<select
+									value={settings.categoryId || ''}
+									onChange={(e) =>
+										update({ categoryId: e.target.value || null })
+									}
+									className="border rounded-lg select select-sm border-content"
+								>
+									<option value="">همه تصاویر</option>
+									{categories.map((category) => (
+										<option key={category.id} value={category.id}>
+											{category.name}
+										</option>
+									))}
+								</select>
+							)}
+							<select
+								value={settings.interval}
+								onChange={(e) =>
+									update({
+										interval: e.target.value as RotationInterval,
+									})
+								}
+								className="border rounded-lg select select-sm border-content"
+							>
+								{intervals.map((interval) => (
+									<option key={interval.value} value={interval.value}>
+										{interval.label}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div className="flex flex-wrap gap-2">
+							<Button
+								onClick={() => rotateWallpaper()}
+								size="sm"
+								className="border border-content/20 text-content rounded-xl"
+							>
+								تصویر بعدی
+							</Button>
+							<Button
+								onClick={() => update({ paused: !settings.paused })}
+								size="sm"
+								className="border border-content/20 text-content rounded-xl"
+							>
+								{settings.paused ? 'ادامه چرخش' : 'توقف چرخش'}
+							</Button>
+						</div>
+
+						<p className="text-xs text-muted">
+							برای افزودن به علاقه‌مندی‌ها، روی قلب هر تصویر در گالری بزنید.
+							از تصاویر آپلودشده، ۵ تصویر آخر (تا حدود ۴ مگابایت) نگه داشته
+							می‌شوند.
+						</p>
+					</>
+				)}
+			</div>
+		</SectionPanel>
+	)
+}
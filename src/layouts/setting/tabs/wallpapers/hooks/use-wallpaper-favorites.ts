@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import Analytics from '@/analytics'
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { callEvent, listenEvent } from '@/common/utils/call-event'
+import type { Wallpaper } from '@/common/wallpaper.interface'
+
+export function useWallpaperFavorites() {
+	const [favorites, setFavorites] = useState<Wallpaper[]>([])
+
+	useEffect(() => {
+		getFromStorage('wallpaperFavorites').then((stored) => setFavorites(stored || []))
+
+		return listenEvent('wallpaperFavoritesChanged', setFavorites)
+	}, [])
+
+	const isFavorite = (wallpaper: Wallpaper) =>
+		favorites.some((item) => item.id === wallpaper.id)
+
+	// Stable, so memoized gallery items do not re-render on every toggle
+	const toggleFavorite = useCallback(async (wallpaper: Wallpaper) => {
+		const stored = (await getFromStorage('wallpaperFavorites')) || []
+		const wasFavorite = stored.some((item) => item.id === wallpaper.id)
+		const next = wasFavorite
+			? stored.filter((item) => item.id !== wallpaper.id)
+			: [...stored, wallpaper]
+
+		setFavorites(next)
+		setToStorage('wallpaperFavorites', next)
+		callEvent('wallpaperFavoritesChanged', next)
+
+		Analytics.event('wallpaper_favorite_toggled', {
+			wallpaper_id: wallpaper.id,
+			favorite: !wasFavorite,
+		})
+	}, [])
+
+	return { favorites, isFavorite, toggleFavorite }
+}
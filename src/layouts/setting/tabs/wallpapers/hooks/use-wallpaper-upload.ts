@@ -1,5 +1,7 @@
 import type { Wallpaper } from '@/common/wallpaper.interface'
+import { saveWallpaperUpload } from '@/common/wallpaper-uploads'
 import Analytics from '../../../../../analytics'
+import { createCustomWallpaperId } from '../rotation/wallpaper-rotation'
 
 const MAX_FILE_SIZE = 6 * 1024 * 1024 // 6MB
 
@@ -8,7 +10,7 @@ interface UseWallpaperUploadProps {
 }
 
 export function useWallpaperUpload({ onWallpaperChange }: UseWallpaperUploadProps) {
-	const processFile = (file: File, uploadMethod: string) => {
+	const processFile = async (file: File, uploadMethod: string) => {
 		const isImage = file.type.startsWith('image/')
 		const isVideo = file.type.startsWith('video/')
 
@@ -24,28 +26,30 @@ export function useWallpaperUpload({ onWallpaperChange }: UseWallpaperUploadProp
 			return
 		}
 
-		const reader = new FileReader()
-		reader.onload = () => {
-			const newCustomWallpaper: Wallpaper = {
-				id: 'custom-wallpaper',
-				type: isImage ? 'IMAGE' : 'VIDEO',
-				previewSrc: '',
-				src: reader.result as string,
-				name: isImage ? 'تصویر سیستم' : 'ویدیو سیستم',
-				isCustom: true,
-			}
-
-			onWallpaperChange(newCustomWallpaper)
-
-			Analytics.event('custom_wallpaper_selected', {
-				file_type: file.type,
-				file_size: file.size,
-				media_type: isImage ? 'image' : 'video',
-				method: uploadMethod,
-			})
+		// The file is stored once, the wallpaper only refers to it by id
+		const id = createCustomWallpaperId()
+		if (!(await saveWallpaperUpload(id, file))) {
+			alert('فضای ذخیره‌سازی مرورگر برای نگه داشتن این فایل کافی نیست')
+			return
+		}
+
+		const newCustomWallpaper: Wallpaper = {
+			id,
+			type: isImage ? 'IMAGE' : 'VIDEO',
+			previewSrc: '',
+			src: '',
+			name: isImage ? 'تصویر سیستم' : 'ویدیو سیستم',
+			isCustom: true,
 		}
 
-		reader.readAsDataURL(file)
+		onWallpaperChange(newCustomWallpaper)
+
+		Analytics.event('custom_wallpaper_selected', {
+			file_type: file.type,
+			file_size: file.size,
+			media_type: isImage ? 'image' : 'video',
+			method: uploadMethod,
+		})
 	}
 
 	return { processFile }
@@ -4,6 +4,10 @@ import { callEvent } from '@/common/utils/call-event'
 import type { StoredWallpaper, Wallpaper } from '@/common/wallpaper.interface'
 import { useUpdateExtensionSettings } from '@/services/hooks/extension/updateSetting.hook'
 import Analytics from '../../../../../analytics'
+import {
+	isCustomWallpaperId,
+	rememberCustomWallpaper,
+} from '../rotation/wallpaper-rotation'
 
 export function useWallpaper(
 	fetchedWallpapers: Wallpaper[] | undefined,
@@ -20,8 +24,12 @@ export function useWallpaper(
 			if (wallpaper) {
 				setIsRetouchEnabled(wallpaper.isRetouchEnabled)
 
-				if (wallpaper.id === 'custom-wallpaper') {
-					const customWp = await getFromStorage('customWallpaper')
+				if (isCustomWallpaperId(wallpaper.id)) {
+					// The rotation may have picked an earlier upload
+					const uploads = (await getFromStorage('customWallpapers')) || []
+					const customWp =
+						uploads.find((upload) => upload.id === wallpaper.id) ||
+						(await getFromStorage('customWallpaper'))
 					if (customWp) {
 						setCustomWallpaper(customWp)
 						setSelectedBackground(customWp)
@@ -83,7 +91,7 @@ export function useWallpaper(
 
 		setToStorage('wallpaper', wallpaperData)
 
-		if (selectedBackground.id === 'custom-wallpaper') {
+		if (isCustomWallpaperId(selectedBackground.id)) {
 			setToStorage('customWallpaper', selectedBackground)
 		}
 
@@ -101,7 +109,9 @@ export function useWallpaper(
 
 		if (isAuthenticated) {
 			const wallpaperId =
-				wallpaper.type === 'GRADIENT' ? 'custom-wallpaper' : wallpaper.id
+				wallpaper.type === 'GRADIENT' || isCustomWallpaperId(wallpaper.id)
+					? 'custom-wallpaper'
+					: wallpaper.id
 
 			await mutateAsync({ wallpaperId })
 		}
@@ -119,6 +129,7 @@ export function useWallpaper(
 	const handleCustomWallpaperChange = (newWallpaper: Wallpaper) => {
 		setCustomWallpaper(newWallpaper)
 		handleSelectBackground(newWallpaper)
+		rememberCustomWallpaper(newWallpaper)
 	}
 
 	return {
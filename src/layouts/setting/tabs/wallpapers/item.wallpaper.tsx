@@ -8,6 +8,8 @@ interface WallpaperItemProps {
 	wallpaper: Wallpaper
 	selectedBackground: Wallpaper | null
 	setSelectedBackground: (wallpaper: Wallpaper) => void
+	isFavorite?: boolean
+	onToggleFavorite?: (wallpaper: Wallpaper) => void
 }
 
 export const WallpaperItem = React.memo(
@@ -15,6 +17,8 @@ export const WallpaperItem = React.memo(
 		wallpaper,
 		selectedBackground,
 		setSelectedBackground,
+		isFavorite,
+		onToggleFavorite,
 	}: WallpaperItemProps) {
 		const [loaded, setLoaded] = useState(false)
 		const [error, setError] = useState(false)
@@ -133,6 +137,31 @@ export const WallpaperItem = React.memo(
 							</div>
 						)}
 
+						{onToggleFavorite && wallpaper.type === 'IMAGE' && (
+							<button
+								type="button"
+								onClick={(e) => {
+									e.stopPropagation()
+									onToggleFavorite(wallpaper)
+								}}
+								className={`absolute z-10 top-2 right-2 p-1 rounded-full cursor-pointer bg-black/40 transition-opacity ${
+									isFavorite
+										? 'text-red-400'
+										: 'text-white opacity-0 group-hover:opacity-100'
+								}`}
+								title={
+									isFavorite
+										? 'حذف از علاقه‌مندی‌ها'
+										: 'افزودن به علاقه‌مندی‌ها'
+								}
+							>
+								<FiHeart
+									size={12}
+									className={isFavorite ? 'fill-current' : ''}
+								/>
+							</button>
+						)}
+
 						<div className="absolute inset-0 transition-opacity duration-300 opacity-0 pointer-events-none group-hover:opacity-100 bg-black/10"></div>
 					</>
 				)}
@@ -141,5 +170,7 @@ export const WallpaperItem = React.memo(
 	},
 	(prevProps, nextProps) =>
 		prevProps.wallpaper.id === nextProps.wallpaper.id &&
-		prevProps.selectedBackground?.id === nextProps.selectedBackground?.id
+		prevProps.selectedBackground?.id === nextProps.selectedBackground?.id &&
+		prevProps.isFavorite === nextProps.isFavorite &&
+		prevProps.onToggleFavorite === nextProps.onToggleFavorite
 )
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react'
+import { FiChevronLeft, FiChevronRight, FiPause, FiPlay } from 'react-icons/fi'
+import Analytics from '@/analytics'
+import { listenEvent } from '@/common/utils/call-event'
+import Tooltip from '@/components/toolTip'
+import {
+	defaultWallpaperRotation,
+	getWallpaperRotation,
+	rotateWallpaper,
+	rotateWallpaperIfDue,
+	saveWallpaperRotation,
+	type WallpaperRotationSettings,
+} from './wallpaper-rotation'
+
+/** Runs the wallpaper rotation while the page is open, with skip and pause controls */
+export function WallpaperRotation() {
+	const [settings, setSettings] = useState<WallpaperRotationSettings>(
+		defaultWallpaperRotation
+	)
+
+	useEffect(() => {
+		getWallpaperRotation().then(setSettings)
+		rotateWallpaperIfDue(true)
+
+		const interval = setInterval(() => rotateWallpaperIfDue(false), 60 * 1000)
+		const event = listenEvent('wallpaperRotationChanged', (next) => {
+			setSettings(next)
+			rotateWallpaperIfDue(false)
+		})
+
+		return () => {
+			clearInterval(interval)
+			event()
+		}
+	}, [])
+
+	if (!settings.enabled) return null
+
+	const onSkip = (step: number) => {
+		rotateWallpaper(step)
+		Analytics.event('wallpaper_rotation_skipped', {
+			direction: step > 0 ? 'next' : 'previous',
+		})
+	}
+
+	const onTogglePause = () => {
+		saveWallpaperRotation({ ...settings, paused: !settings.paused })
+		Analytics.event('wallpaper_rotation_paused', { paused: !settings.paused })
+	}
+
+	const buttonClass =
+		'flex items-center justify-center w-7 h-7 rounded-lg cursor-pointer text-content hover:bg-base-300'
+
+	return (
+		<div
+			dir="ltr"
+			className="fixed z-40 flex items-center gap-0.5 p-0.5 transition-opacity border bottom-3 left-3 rounded-xl bg-content border-content backdrop-blur-sm opacity-40 hover:opacity-100"
+		>
+			<Tooltip content="تصویر قبلی">
+				<button type="button" onClick={() => onSkip(-1)} className={buttonClass}>
+					<FiChevronLeft size={16} />
+				</button>
+			</Tooltip>
+			<Tooltip content={settings.paused ? 'ادامه چرخش' : 'توقف چرخش'}>
+				<button type="button" onClick={onTogglePause} className={buttonClass}>
+					{settings.paused ? <FiPlay size={14} /> : <FiPause size={14} />}
+				</button>
+			</Tooltip>
+			<Tooltip content="تصویر بعدی">
+				<button type="button" onClick={() => onSkip(1)} className={buttonClass}>
+					<FiChevronRight size={16} />
+				</button>
+			</Tooltip>
+		</div>
+	)
+}
@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from 'uuid'
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { callEvent } from '@/common/utils/call-event'
+import { preloadImages } from '@/common/utils/preloadImages'
+import type { StoredWallpaper, Wallpaper } from '@/common/wallpaper.interface'
+import { pruneWallpaperUploads } from '@/common/wallpaper-uploads'
+import { getWallpapersByCategory } from '@/services/hooks/wallpapers/getWallpaperCategories.hook'
+
+export type RotationSource = 'category' | 'favorites' | 'custom'
+export type RotationInterval = 'newTab' | 'hourly' | 'daily'
+
+export interface WallpaperRotationSettings {
+	enabled: boolean
+	source: RotationSource
+	/** All gallery wallpapers when null */
+	categoryId: string | null
+	interval: RotationInterval
+	paused: boolean
+}
+
+export interface WallpaperRotationState {
+	index: number
+	changedAt: number
+	// Gallery wallpapers of the chosen category, fetched once a day
+	categoryPool: StoredWallpaper[]
+	categoryPoolKey: string | null
+	categoryPoolFetchedAt: number
+}
+
+export const defaultWallpaperRotation: WallpaperRotationSettings = {
+	enabled: false,
+	source: 'category',
+	categoryId: null,
+	interval: 'daily',
+	paused: false,
+}
+
+const defaultRotationState: WallpaperRotationState = {
+	index: -1,
+	changedAt: 0,
+	categoryPool: [],
+	categoryPoolKey: null,
+	categoryPoolFetchedAt: 0,
+}
+
+const HOUR = 60 * 60 * 1000
+const CUSTOM_WALLPAPER_ID = 'custom-wallpaper'
+const MAX_CUSTOM_WALLPAPERS = 5
+
+export async function getWallpaperRotation() {
+	return (await getFromStorage('wallpaperRotation')) || defaultWallpaperRotation
+}
+
+export async function saveWallpaperRotation(settings: WallpaperRotationSettings) {
+	await setToStorage('wallpaperRotation', settings)
+	callEvent('wallpaperRotationChanged', settings)
+}
+
+export function toStoredWallpaper(
+	wallpaper: Wallpaper,
+	isRetouchEnabled: boolean
+): StoredWallpaper {
+	return {
+		id: wallpaper.id,
+		type: wallpaper.type,
+		src: wallpaper.src,
+		isRetouchEnabled,
+		...(wallpaper.gradient && { gradient: wallpaper.gradient }),
+	}
+}
+
+/** Uploads get their own id once, so the history can tell them apart */
+export function createCustomWallpaperId() {
+	return `${CUSTOM_WALLPAPER_ID}-${uuidv4()}`
+}
+
+// Uploads made before they had their own id are all `custom-wallpaper`
+export function isCustomWallpaperId(id: string) {
+	return id === CUSTOM_WALLPAPER_ID || id.startsWith(`${CUSTOM_WALLPAPER_ID}-`)
+}
+
+/** Uploads still shown somewhere, as the wallpaper or by a dashboard or rule */
+async function getUsedUploadIds(history: Wallpaper[]) {
+	const [wallpaper, customWallpaper, dashboards, schedule] = await Promise.all([
+		getFromStorage('wallpaper'),
+		getFromStorage('customWallpaper'),
+		getFromStorage('dashboards'),
+		getFromStorage('appearanceSchedule'),
+	])
+
+	return [
+		...history,
+		wallpaper,
+		customWallpaper,
+		...(dashboards?.dashboards || []).map((dashboard) => dashboard.wallpaper),
+		...(schedule?.rules || []).map((rule) => rule.wallpaper),
+	].flatMap((item) => (item && isCustomWallpaperId(item.id) ? [item.id] : []))
+}
+
+/** Keeps the latest uploaded images, newest first, and forgets the unused files */
+export async function rememberCustomWallpaper(wallpaper: Wallpaper) {
+	if (wallpaper.type !== 'IMAGE') return
+
+	const stored = (await getFromStorage('customWallpapers')) || []
+	const kept = [wallpaper, ...stored.filter((w) => w.id !== wallpaper.id)].slice(
+		0,
+		MAX_CUSTOM_WALLPAPERS
+	)
+
+	await setToStorage('customWallpapers', kept)
+	await pruneWallpaperUploads(await getUsedUploadIds(kept))
+}
+
+async function getCustomPool(): Promise<Wallpaper[]> {
+	const stored = await getFromStorage('customWallpapers')
+	if (stored?.length) return stored
+
+	// Uploaded before the history was kept
+	const customWallpaper = await getFromStorage('customWallpaper')
+	return customWallpaper?.type === 'IMAGE' ? [customWallpaper] : []
+}
+
+async function getRotationPool(
+	settings: WallpaperRotationSettings,
+	state: WallpaperRotationState,
+	isRetouchEnabled: boolean
+): Promise<{ pool: StoredWallpaper[]; state: WallpaperRotationState }> {
+	if (settings.source === 'favorites') {
+		const favorites = (await getFromStorage('wallpaperFavorites')) || []
+		return {
+			pool: favorites.map((w) => toStoredWallpaper(w, isRetouchEnabled)),
+			state,
+		}
+	}
+
+	if (settings.source === 'custom') {
+		const custom = await getCustomPool()
+		return { pool: custom.map((w) => toStoredWallpaper(w, isRetouchEnabled)), state }
+	}
+
+	const poolKey = settings.categoryId || 'all'
+	const isFresh =
+		state.categoryPoolKey === poolKey &&
+		state.categoryPool.length > 0 &&
+		Date.now() - state.categoryPoolFetchedAt < 24 * HOUR
+	if (isFresh) {
+		return {
+			pool: state.categoryPool.map((w) => ({ ...w, isRetouchEnabled })),
+			state,
+		}
+	}
+
+	try {
+		const wallpapers = await getWallpapersByCategory(settings.categoryId)
+		const pool = wallpapers
+			.filter((w) => w.type === 'IMAGE')
+			.map((w) => toStoredWallpaper(w, isRetouchEnabled))
+
+		return {
+			pool,
+			state: {
+				...state,
+				categoryPool: pool,
+				categoryPoolKey: poolKey,
+				categoryPoolFetchedAt: Date.now(),
+			},
+		}
+	} catch {
+		// Offline, keep cycling through what was fetched last time
+		return { pool: state.categoryPool, state }
+	}
+}
+
+export function isRotationDue(
+	settings: WallpaperRotationSettings,
+	state: WallpaperRotationState,
+	now: Date,
+	isPageLoad: boolean
+) {
+	if (!settings.enabled || settings.paused) return false
+	if (settings.interval === 'newTab') return isPageLoad
+	if (!state.changedAt) return true
+
+	if (settings.interval === 'hourly') return now.getTime() - state.changedAt >= HOUR
+	return new Date(state.changedAt).toDateString() !== now.toDateString()
+}
+
+/**
+ * Shows the next (or with -1 the previous) wallpaper of the rotation. A queued
+ * wallpaper is only stored and preloaded, so the next tab opens with it at once.
+ */
+export async function rotateWallpaper(step = 1, queue = false) {
+	const settings = await getWallpaperRotation()
+	const [storedState, current] = await Promise.all([
+		getFromStorage('wallpaperRotationState'),
+		getFromStorage('wallpaper'),
+	])
+
+	const { pool, state } = await getRotationPool(
+		settings,
+		storedState || defaultRotationState,
+		current?.isRetouchEnabled || false
+	)
+	if (!pool.length) return null
+
+	const currentIndex = pool.findIndex((w) => w.id === current?.id)
+	const base = currentIndex === -1 ? state.index : currentIndex
+	const index = (((base + step) % pool.length) + pool.length) % pool.length
+	const next = pool[index]
+
+	await setToStorage('wallpaperRotationState', {
+		...state,
+		index,
+		changedAt: Date.now(),
+	})
+
+	if (queue) {
+		await setToStorage('wallpaper', next)
+		preloadImages([next.src])
+	} else {
+		callEvent('wallpaperChanged', next)
+		if (pool.length > 1) {
+			preloadImages([pool[(index + step + pool.length) % pool.length].src])
+		}
+	}
+
+	return next
+}
+
+export async function rotateWallpaperIfDue(isPageLoad: boolean) {
+	const settings = await getWallpaperRotation()
+	const state = (await getFromStorage('wallpaperRotationState')) || defaultRotationState
+
+	if (!isRotationDue(settings, state, new Date(), isPageLoad)) return null
+	return rotateWallpaper(1, settings.interval === 'newTab')
+}
@@ -8,6 +8,7 @@ import { RetouchFilter } from '../components/retouch-filter.component'
 import { UploadArea } from '../components/upload-area.component'
 import { WallpaperGallery } from '../components/wallpaper-gallery.component'
 import { useWallpaper } from '../hooks/use-wallpaper'
+import { useWallpaperFavorites } from '../hooks/use-wallpaper-favorites'
 import { useWallpapersByCategory } from '../hooks/use-wallpapers-by-category'
 
 export function GalleryTab() {
@@ -32,6 +33,7 @@ export function GalleryTab() {
 		toggleRetouch,
 		handleCustomWallpaperChange,
 	} = useWallpaper(allWallpapers, isAuthenticated)
+	const { isFavorite, toggleFavorite } = useWallpaperFavorites()
 
 	const currentCategoryWallpapers = selectedCategoryId
 		? getCategoryWallpapers(selectedCategoryId)
@@ -148,6 +150,8 @@ export function GalleryTab() {
 								wallpapers={currentCategoryWallpapers}
 								selectedBackground={selectedBackground}
 								onSelectBackground={handleSelectBackground}
+								isFavorite={isFavorite}
+								onToggleFavorite={toggleFavorite}
 							/>
 							<BackButton />
 						</div>
@@ -1,5 +1,6 @@
 import { useState } from 'react'
 
+import { WallpaperRotationPanel } from './components/wallpaper-rotation.component'
 import { GalleryTab } from './tab/gallery.tab'
 import { GradientTab } from './tab/gradient.tab'
 
@@ -39,6 +40,7 @@ export function WallpaperSetting() {
 
 			<div className="flex flex-col gap-4">
 				{activeTab === 'gallery' ? <GalleryTab /> : <GradientTab />}
+				<WallpaperRotationPanel />
 			</div>
 		</div>
 	)
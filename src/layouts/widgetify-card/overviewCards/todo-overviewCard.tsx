@@ -3,6 +3,11 @@ import { FiClipboard } from 'react-icons/fi'
 import { useGeneralSetting } from '@/context/general-setting.context'
 import { TodoViewType, useTodoStore } from '@/context/todo.context'
 import { formatDateStr, getCurrentDate } from '@/layouts/widgets/calendar/utils'
+import {
+	getAllTodos,
+	getTodosForDate,
+	getTodosForMonth,
+} from '@/layouts/widgets/todos/recurrence'
 
 export function TodoOverviewCard() {
 	const { selected_timezone: timezone, blurMode } = useGeneralSetting()
@@ -11,16 +16,12 @@ export function TodoOverviewCard() {
 	const today = getCurrentDate(timezone.value)
 
 	const todayStr = formatDateStr(today)
-	const todayTodos = todos.filter((todo) => {
-		if (todoOptions.viewMode === TodoViewType.Day) {
-			return todo.date === todayStr
-		}
-		if (todoOptions.viewMode === TodoViewType.Monthly) {
-			const month = today.format('jMM')
-			return todo.date.startsWith(`${today.year()}-${month}`)
-		}
-		return true
-	})
+	const todayTodos =
+		todoOptions.viewMode === TodoViewType.Day
+			? getTodosForDate(todos, todayStr)
+			: todoOptions.viewMode === TodoViewType.Monthly
+				? getTodosForMonth(todos, today)
+				: getAllTodos(todos, todayStr)
 	const completedTodos = todayTodos.filter((todo) => todo.completed)
 	const pendingTodos = todayTodos.filter((todo) => !todo.completed)
 
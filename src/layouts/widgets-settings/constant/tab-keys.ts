@@ -4,5 +4,6 @@ export enum WidgetTabKeys {
 	wigiArz = 'wigiArz',
 	news_settings = 'news_settings',
 	weather_settings = 'weather_settings',
+	notes_settings = 'notes_settings',
 	Pet = 'pet_settings',
 }
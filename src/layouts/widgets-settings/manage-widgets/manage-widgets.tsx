@@ -1,17 +1,32 @@
+import { FiPlus, FiSettings, FiTrash2 } from 'react-icons/fi'
+import { callEvent } from '@/common/utils/call-event'
 import { SectionPanel } from '@/components/section-panel'
 import { useAuth } from '@/context/auth.context'
+import { isExtraInstance } from '@/context/widget-instance.context'
 import {
 	MAX_VISIBLE_WIDGETS,
 	useWidgetVisibility,
 	widgetItems,
 } from '@/context/widget-visibility.context'
 import { ItemSelector } from '../../../components/item-selector'
+import { hasInstanceSettings } from '../widget-instance-settings-modal'
 import { WidgetSettingWrapper } from '../widget-settings-wrapper'
 
 export function ManageWidgets() {
-	const { visibility, toggleWidget } = useWidgetVisibility()
+	const {
+		visibility,
+		instances,
+		toggleWidget,
+		addWidgetInstance,
+		removeWidgetInstance,
+	} = useWidgetVisibility()
 	const { isAuthenticated } = useAuth()
 
+	const canAddMore = isAuthenticated || instances.length < MAX_VISIBLE_WIDGETS
+	const multiInstanceWidgets = widgetItems.filter(
+		(widget) => widget.multiInstance && visibility.includes(widget.id)
+	)
+
 	return (
 		<WidgetSettingWrapper>
 			{!isAuthenticated && (
@@ -27,10 +42,7 @@ export function ManageWidgets() {
 				<div className="grid grid-cols-2 gap-2">
 					{widgetItems.map((widget) => {
 						const isActive = visibility.includes(widget.id)
-						const canToggle =
-							isAuthenticated ||
-							isActive ||
-							visibility.length < MAX_VISIBLE_WIDGETS
+						const canToggle = isActive || canAddMore
 
 						return (
 							<ItemSelector
@@ -44,6 +56,78 @@ export function ManageWidgets() {
 					})}
 				</div>
 			</SectionPanel>
+			{multiInstanceWidgets.length > 0 && (
+				<SectionPanel title="نسخه‌های ویجت" size="sm">
+					<p className="mb-3 text-sm text-muted">
+						از این ویجت‌ها می‌توانید چند نسخه با تنظیمات جداگانه داشته باشید.
+					</p>
+					<div className="space-y-3">
+						{multiInstanceWidgets.map((widget) => {
+							const widgetInstances = instances
+								.filter((instance) => instance.type === widget.id)
+								.sort((a, b) => a.order - b.order)
+
+							return (
+								<div
+									key={widget.id}
+									className="p-2 border rounded-lg border-content"
+								>
+									<div className="flex items-center justify-between mb-1">
+										<span className="text-sm font-medium text-content">
+											{widget.emoji} {widget.label}
+										</span>
+										<button
+											type="button"
+											disabled={!canAddMore}
+											onClick={() => addWidgetInstance(widget.id)}
+											className="flex items-center gap-1 px-2 py-1 text-xs rounded-md cursor-pointer text-primary hover:bg-primary/10 disabled:opacity-50 disabled:cursor-not-allowed"
+										>
+											<FiPlus size={12} />
+											افزودن نسخه
+										</button>
+									</div>
+									{widgetInstances.map((instance, index) => (
+										<div
+											key={instance.id}
+											className="flex items-center gap-2 px-2 py-1 rounded-md hover:bg-base-200"
+										>
+											<span className="flex-1 text-xs text-muted">
+												نسخه {index + 1}
+												{!isExtraInstance(instance) &&
+													' (تنظیمات اصلی ویجت)'}
+											</span>
+											{isExtraInstance(instance) &&
+												hasInstanceSettings(instance.type) && (
+													<button
+														type="button"
+														onClick={() =>
+															callEvent(
+																'openWidgetInstanceSettings',
+																instance.id
+															)
+														}
+														className="p-1 rounded-md cursor-pointer text-muted hover:bg-base-300"
+													>
+														<FiSettings size={14} />
+													</button>
+												)}
+											<button
+												type="button"
+												onClick={() =>
+													removeWidgetInstance(instance.id)
+												}
+												className="p-1 rounded-md cursor-pointer text-error hover:bg-base-300"
+											>
+												<FiTrash2 size={14} />
+											</button>
+										</div>
+									))}
+								</div>
+							)
+						})}
+					</div>
+				</SectionPanel>
+			)}
 			<SectionPanel title="ترتیب ویجت‌های فعال" size="sm">
 				<div className="flex items-start gap-3 p-3 border rounded-lg bg-primary/10 border-primary/20">
 					<span className="text-lg">💡</span>
@@ -55,6 +139,11 @@ export function ManageWidgets() {
 							در صفحه، روی بالای هر ویجت کلیک کرده و آن را بکشید تا ترتیب
 							آن‌ها را تغییر دهید. تغییرات به‌صورت خودکار ذخیره می‌شوند.
 						</p>
+						<p className="mt-1 leading-relaxed text-muted">
+							برای تغییر اندازه، دستگیره گوشه پایین ویجت را بکشید. هر ویجت
+							می‌تواند تا ۳ ستون و ۲ ردیف جا بگیرد و اندازه‌ها برای هر عرض
+							صفحه جداگانه ذخیره می‌شوند.
+						</p>
 					</div>
 				</div>
 			</SectionPanel>
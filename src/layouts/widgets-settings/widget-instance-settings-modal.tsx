@@ -0,0 +1,60 @@
+import type { JSX } from 'react'
+import Modal from '@/components/modal'
+import { WidgetInstanceProvider } from '@/context/widget-instance.context'
+import {
+	useWidgetVisibility,
+	WidgetKeys,
+	widgetItems,
+} from '@/context/widget-visibility.context'
+import { RssFeedSetting } from '../widgets/news/rss-feed-setting'
+import { NotesSetting } from '../widgets/notes/notes-setting'
+import { WeatherSetting } from '../widgets/weather/weather-setting'
+import { WigiArzSetting } from '../widgets/wigiArz/wigiArz-setting'
+
+const instanceSettings: Partial<Record<WidgetKeys, JSX.Element>> = {
+	[WidgetKeys.weather]: <WeatherSetting />,
+	[WidgetKeys.arzLive]: <WigiArzSetting />,
+	[WidgetKeys.news]: <RssFeedSetting />,
+	[WidgetKeys.notes]: <NotesSetting />,
+}
+
+export function hasInstanceSettings(widgetId: WidgetKeys) {
+	return widgetId in instanceSettings
+}
+
+interface WidgetInstanceSettingsModalProps {
+	instanceId: string | null
+	onClose: () => void
+}
+
+/** Settings of one extra widget instance, the first one is set in the widget tabs */
+export function WidgetInstanceSettingsModal({
+	instanceId,
+	onClose,
+}: WidgetInstanceSettingsModalProps) {
+	const { instances, updateInstanceSettings } = useWidgetVisibility()
+
+	const instance = instances.find((item) => item.id === instanceId)
+	const item = widgetItems.find((widget) => widget.id === instance?.type)
+	const settings = instance && instanceSettings[instance.type]
+
+	return (
+		<Modal
+			isOpen={!!settings}
+			onClose={onClose}
+			title={`تنظیمات ${item?.emoji} ${item?.label}`}
+			size="lg"
+			direction="rtl"
+			closeOnBackdropClick={true}
+		>
+			{instance && (
+				<WidgetInstanceProvider
+					instance={instance}
+					onUpdateSettings={updateInstanceSettings}
+				>
+					{settings}
+				</WidgetInstanceProvider>
+			)}
+		</Modal>
+	)
+}
@@ -1,6 +1,6 @@
 import type { JSX } from 'react'
 import { MdPets } from 'react-icons/md'
-import { TbApps, TbCalendarUser, TbCurrencyDollar, TbNews } from 'react-icons/tb'
+import { TbApps, TbCalendarUser, TbCurrencyDollar, TbNews, TbNotes } from 'react-icons/tb'
 import { TiWeatherCloudy } from 'react-icons/ti'
 import { VscSettings } from 'react-icons/vsc'
 import Analytics from '@/analytics'
@@ -9,6 +9,7 @@ import Modal from '@/components/modal'
 import { TabManager } from '@/components/tab-manager'
 import { PetSettings } from '../widgetify-card/pets/setting/pet-setting'
 import { RssFeedSetting } from '../widgets/news/rss-feed-setting'
+import { NotesSetting } from '../widgets/notes/notes-setting'
 import { WeatherSetting } from '../widgets/weather/weather-setting'
 import { WigiArzSetting } from '../widgets/wigiArz/wigiArz-setting'
 import { WigiPadSetting } from '../widgets/wigiPad/wigiPad-setting'
@@ -56,6 +57,12 @@ const tabs: {
 		value: WidgetTabKeys.weather_settings,
 		icon: <TiWeatherCloudy size={20} />,
 	},
+	{
+		label: 'یادداشت‌ها',
+		element: <NotesSetting />,
+		value: WidgetTabKeys.notes_settings,
+		icon: <TbNotes size={20} />,
+	},
 	{
 		label: 'حیوان خانگی',
 		value: WidgetTabKeys.Pet,
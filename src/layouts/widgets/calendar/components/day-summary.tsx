@@ -2,6 +2,7 @@ import type React from 'react'
 import { FiCalendar, FiClipboard } from 'react-icons/fi'
 import { useAuth } from '@/context/auth.context'
 import { useTodoStore } from '@/context/todo.context'
+import { getTodosForDate } from '@/layouts/widgets/todos/recurrence'
 import { useGetEvents } from '@/services/hooks/date/getEvents.hook'
 import { useGetGoogleCalendarEvents } from '@/services/hooks/date/getGoogleCalendarEvents.hook'
 import {
@@ -44,7 +45,7 @@ export const DaySummary: React.FC<DaySummaryProps> = ({ selectedDate }) => {
 
 	const googleEventCount = googleEventsForSelectedDate.length
 
-	const todosForSelectedDate = todos.filter((todo) => todo.date === selectedDateStr)
+	const todosForSelectedDate = getTodosForDate(todos, selectedDateStr)
 
 	const completedTodos = todosForSelectedDate.filter((todo) => todo.completed).length
 	const totalTodos = todosForSelectedDate.length
@@ -1,6 +1,7 @@
 import jalaliMoment from 'jalali-moment'
 import Analytics from '@/analytics'
 import Tooltip from '@/components/toolTip'
+import { occursOn } from '@/layouts/widgets/todos/recurrence'
 import type { FetchedAllEvents } from '@/services/hooks/date/getEvents.hook'
 import type { GoogleCalendarEvent } from '@/services/hooks/date/getGoogleCalendarEvents.hook'
 import type { Todo } from '../../interface/todo.interface'
@@ -50,7 +51,7 @@ export function DayItem({
 		...todayHijriEvents.filter((event) => event.icon).map((event) => event.icon),
 	].filter(Boolean) as string[]
 
-	const hasTodo = todos.some((todo) => todo.date === dateStr)
+	const hasTodo = todos.some((todo) => occursOn(todo, dateStr))
 	const isSelected = selectedDateStr === dateStr
 	const isCurrentDay = isToday(cellDate, timezone)
 
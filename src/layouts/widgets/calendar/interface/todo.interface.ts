@@ -1,3 +1,30 @@
+export type TodoRecurrenceFrequency =
+	| 'daily'
+	| 'weekdays'
+	| 'weekly'
+	| 'monthly'
+	| 'interval'
+
+export interface TodoRecurrence {
+	frequency: TodoRecurrenceFrequency
+	/** Days between occurrences, for `interval` */
+	interval?: number
+	/** Moment `day()` values (0 = Sunday), for `weekly` */
+	weekDays?: number[]
+	/** Calendar whose day of month repeats, for `monthly` */
+	monthCalendar?: 'jalali' | 'gregorian'
+	/** Last date of the series (inclusive), in the same format as `date` */
+	until?: string | null
+}
+
+export type TodoStatus = 'todo' | 'in_progress' | 'done'
+
+export interface TodoSubtask {
+	id: string
+	text: string
+	completed: boolean
+}
+
 export interface Todo {
 	id: string
 	text: string
@@ -8,6 +35,18 @@ export interface Todo {
 	category?: string
 	notes?: string
 	order?: number
+	updatedAt?: number
+	/** When set, `date` is the first occurrence of the series */
+	recurrence?: TodoRecurrence | null
+	/** Occurrence dates of a recurring todo that are done */
+	completedDates?: string[]
+	subtasks?: TodoSubtask[]
+	/** Due time on `date` (or on each occurrence), as `HH:mm` */
+	dueTime?: string | null
+	/** Minutes before the due time to remind at */
+	reminders?: number[]
+	/** Board column; kept in step with `completed` */
+	status?: TodoStatus
 }
 
 export interface FetchedTodo {
@@ -20,5 +59,12 @@ export interface FetchedTodo {
 	description?: string
 	offlineId?: string
 	createdAt?: string
+	updatedAt?: string
 	order?: number
+	recurrence?: TodoRecurrence | null
+	completedDates?: string[]
+	subtasks?: TodoSubtask[]
+	dueTime?: string | null
+	reminders?: number[]
+	status?: TodoStatus
 }
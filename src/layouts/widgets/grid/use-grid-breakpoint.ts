@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+import { getGridBreakpoint } from './widget-grid'
+
+export function useGridBreakpoint() {
+	const [breakpoint, setBreakpoint] = useState(() =>
+		getGridBreakpoint(window.innerWidth)
+	)
+
+	useEffect(() => {
+		const onResize = () => setBreakpoint(getGridBreakpoint(window.innerWidth))
+
+		window.addEventListener('resize', onResize)
+		return () => window.removeEventListener('resize', onResize)
+	}, [])
+
+	return breakpoint
+}
@@ -0,0 +1,88 @@
+export type GridBreakpoint = 'lg' | 'md' | 'sm'
+
+export interface WidgetSize {
+	/** Columns the widget spans */
+	w: number
+	/** Rows the widget spans */
+	h: number
+}
+
+export interface GridItem extends WidgetSize {
+	id: string
+}
+
+export interface GridPlacement extends GridItem {
+	x: number
+	y: number
+}
+
+export const MAX_WIDGET_COLUMNS = 3
+export const MAX_WIDGET_ROWS = 2
+export const DEFAULT_WIDGET_SIZE: WidgetSize = { w: 1, h: 1 }
+
+// Same widths as tailwind's md and lg, the grid used to switch columns there
+export const gridBreakpoints: {
+	name: GridBreakpoint
+	minWidth: number
+	columns: number
+}[] = [
+	{ name: 'lg', minWidth: 1024, columns: 4 },
+	{ name: 'md', minWidth: 768, columns: 2 },
+	{ name: 'sm', minWidth: 0, columns: 1 },
+]
+
+export function getGridBreakpoint(width: number) {
+	return (
+		gridBreakpoints.find((breakpoint) => width >= breakpoint.minWidth) ||
+		gridBreakpoints[gridBreakpoints.length - 1]
+	)
+}
+
+export function clampWidgetSize(size: WidgetSize, columns: number): WidgetSize {
+	const clamp = (value: number, max: number) =>
+		Math.min(Math.max(Math.round(value) || 1, 1), max)
+
+	return {
+		w: clamp(size.w, Math.min(MAX_WIDGET_COLUMNS, columns)),
+		h: clamp(size.h, MAX_WIDGET_ROWS),
+	}
+}
+
+/**
+ * Places the items in order, each one at the first free cell it fits in,
+ * so smaller widgets fill the gaps left by bigger ones and nothing overlaps.
+ */
+export function packGrid(items: GridItem[], columns: number): GridPlacement[] {
+	const occupied: boolean[][] = []
+
+	const isFree = (x: number, y: number, w: number, h: number) => {
+		for (let row = y; row < y + h; row++) {
+			for (let col = x; col < x + w; col++) {
+				if (occupied[row]?.[col]) return false
+			}
+		}
+		return true
+	}
+
+	const occupy = (x: number, y: number, w: number, h: number) => {
+		for (let row = y; row < y + h; row++) {
+			occupied[row] ??= []
+			for (let col = x; col < x + w; col++) {
+				occupied[row][col] = true
+			}
+		}
+	}
+
+	return items.map((item) => {
+		const { w, h } = clampWidgetSize(item, columns)
+
+		for (let y = 0; ; y++) {
+			for (let x = 0; x + w <= columns; x++) {
+				if (isFree(x, y, w, h)) {
+					occupy(x, y, w, h)
+					return { id: item.id, x, y, w, h }
+				}
+			}
+		}
+	})
+}
@@ -0,0 +1,103 @@
+import { useRef } from 'react'
+import { TbArrowsDiagonal } from 'react-icons/tb'
+import { clampWidgetSize, type WidgetSize } from './widget-grid'
+
+interface WidgetResizeHandleProps {
+	size: WidgetSize
+	columns: number
+	/** Called while dragging, to preview the new size */
+	onResize: (size: WidgetSize) => void
+	onResizeEnd: (size: WidgetSize) => void
+}
+
+interface ResizeStart {
+	x: number
+	y: number
+	width: number
+	height: number
+	columnStep: number
+	rowStep: number
+	isRtl: boolean
+}
+
+export function WidgetResizeHandle({
+	size,
+	columns,
+	onResize,
+	onResizeEnd,
+}: WidgetResizeHandleProps) {
+	const start = useRef<ResizeStart | null>(null)
+	const current = useRef(size)
+
+	const onPointerDown = (event: React.PointerEvent<HTMLButtonElement>) => {
+		const cell = event.currentTarget.closest('[data-widget-cell]')
+		const grid = event.currentTarget.closest('[data-widget-grid]')
+		if (!cell || !grid) return
+
+		event.preventDefault()
+		event.stopPropagation()
+		event.currentTarget.setPointerCapture(event.pointerId)
+
+		const gridStyle = getComputedStyle(grid)
+		const columnGap = Number.parseFloat(gridStyle.columnGap) || 0
+		const rowGap = Number.parseFloat(gridStyle.rowGap) || 0
+		const rowHeight = Number.parseFloat(gridStyle.gridAutoRows) || 0
+		const cellRect = cell.getBoundingClientRect()
+		const gridWidth = grid.getBoundingClientRect().width
+
+		current.current = size
+		start.current = {
+			x: event.clientX,
+			y: event.clientY,
+			// Measured with one gap so a whole number of steps is a whole span
+			width: cellRect.width + columnGap,
+			height: cellRect.height + rowGap,
+			columnStep: (gridWidth - columnGap * (columns - 1)) / columns + columnGap,
+			rowStep: rowHeight + rowGap,
+			isRtl: gridStyle.direction === 'rtl',
+		}
+	}
+
+	const onPointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+		const origin = start.current
+		if (!origin) return
+
+		// The handle sits on the inline end, which is the left side in rtl
+		const deltaX = (event.clientX - origin.x) * (origin.isRtl ? -1 : 1)
+		const deltaY = event.clientY - origin.y
+		const next = clampWidgetSize(
+			{
+				w: (origin.width + deltaX) / origin.columnStep,
+				h: (origin.height + deltaY) / origin.rowStep,
+			},
+			columns
+		)
+
+		if (next.w !== current.current.w || next.h !== current.current.h) {
+			current.current = next
+			onResize(next)
+		}
+	}
+
+	const onPointerUp = (event: React.PointerEvent<HTMLButtonElement>) => {
+		if (!start.current) return
+
+		start.current = null
+		event.currentTarget.releasePointerCapture(event.pointerId)
+		onResizeEnd(current.current)
+	}
+
+	return (
+		<button
+			type="button"
+			aria-label="تغییر اندازه ویجت"
+			onPointerDown={onPointerDown}
+			onPointerMove={onPointerMove}
+			onPointerUp={onPointerUp}
+			onPointerCancel={onPointerUp}
+			className="absolute z-10 flex items-center justify-center w-6 h-6 transition-opacity rounded-full opacity-0 bottom-1 end-1 cursor-nesw-resize bg-base-300/80 text-content group-hover:opacity-100 touch-none"
+		>
+			<TbArrowsDiagonal size={12} />
+		</button>
+	)
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import { getFromStorage, setToStorage } from '@/common/storage'
 import { callEvent, listenEvent } from '@/common/utils/call-event'
+import { useWidgetInstance } from '@/context/widget-instance.context'
 import { WidgetTabKeys } from '@/layouts/widgets-settings/constant/tab-keys'
 import { type NewsResponse, useGetNews } from '@/services/hooks/news/getNews.hook'
 import { WidgetContainer } from '../widget-container'
@@ -24,6 +25,9 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 	enableBackground = true,
 	inComboWidget,
 }) => {
+	const instance = useWidgetInstance()
+	// Extra instances keep their feeds and filters in the instance, not in storage
+	const ownSettings = instance?.ownSettings
 	const [newsData, setNewsData] = useState<ExtendedNewsResponse>({
 		news: [],
 		platform: {
@@ -40,12 +44,16 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 	})
 	const [rssItems, setRssItems] = useState<RssItem[]>([])
 	const [isLoadingRss, setIsLoadingRss] = useState(false)
-	const [filterSortState, setFilterSortState] = useState<FilterSortState>({
-		sortBy: 'random',
-		filterBySource: 'all',
-	})
+	const [filterSortState, setFilterSortState] = useState<FilterSortState>(
+		ownSettings?.news_filter_sort_state || {
+			sortBy: 'random',
+			filterBySource: 'all',
+		}
+	)
 
 	useEffect(() => {
+		if (ownSettings) return
+
 		const loadFilterPreferences = async () => {
 			const savedFilter = await getFromStorage('news_filter_sort_state')
 			if (savedFilter) {
@@ -56,6 +64,10 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 	}, [])
 
 	useEffect(() => {
+		if (instance?.ownSettings) {
+			instance.updateSettings({ news_filter_sort_state: filterSortState })
+			return
+		}
 		setToStorage('news_filter_sort_state', filterSortState)
 	}, [filterSortState])
 
@@ -122,7 +134,7 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 			}
 			setRssState(newRssState)
 
-			setToStorage('rss_news_state', newRssState)
+			if (!ownSettings) setToStorage('rss_news_state', newRssState)
 		} catch (error) {
 			console.error('Error fetching RSS feeds:', error)
 			const cachedItems = Object.values(lastFetched).flat() as RssItem[]
@@ -196,8 +208,43 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 		return Array.from(sources).sort((a, b) => a.localeCompare(b, 'fa'))
 	}
 
+	const applyNewsSettings = async (data: WigiNewsSetting) => {
+		if (data.useDefaultNews) {
+			const cachedNews = await getFromStorage('news')
+			if (cachedNews) {
+				setNewsData(cachedNews as ExtendedNewsResponse)
+			}
+
+			setRssState(structuredClone(data))
+			return
+		}
+
+		const enabledFeeds = data.customFeeds.filter((feed) => feed.enabled)
+		if (enabledFeeds.length > 0) {
+			const hasCachedItems = Object.values(data.lastFetchedItems).some(
+				(items) => items && items.length > 0
+			)
+
+			if (hasCachedItems) {
+				const cachedItems = Object.values(
+					data.lastFetchedItems
+				).flat() as RssItem[]
+				setRssItems(cachedItems)
+			} else {
+				setIsLoadingRss(true)
+			}
+
+			await fetchAllRssFeeds(enabledFeeds, data.lastFetchedItems)
+		} else {
+			setRssItems([])
+		}
+		setRssState(structuredClone(data))
+	}
+
 	useEffect(() => {
 		const loadInitialData = async () => {
+			if (ownSettings) return
+
 			const savedState = await getFromStorage('rss_news_state')
 			if (savedState) {
 				setRssState(savedState)
@@ -232,41 +279,9 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 			}
 		}
 
-		const event = listenEvent(
-			'wigiNewsSettingsChanged',
-			async (data: WigiNewsSetting) => {
-				if (data.useDefaultNews) {
-					const cachedNews = await getFromStorage('news')
-					if (cachedNews) {
-						setNewsData(cachedNews as ExtendedNewsResponse)
-					}
-
-					setRssState(structuredClone(data))
-					return
-				}
-
-				const enabledFeeds = data.customFeeds.filter((feed) => feed.enabled)
-				if (enabledFeeds.length > 0) {
-					const hasCachedItems = Object.values(data.lastFetchedItems).some(
-						(items) => items && items.length > 0
-					)
-
-					if (hasCachedItems) {
-						const cachedItems = Object.values(
-							data.lastFetchedItems
-						).flat() as RssItem[]
-						setRssItems(cachedItems)
-					} else {
-						setIsLoadingRss(true)
-					}
-
-					await fetchAllRssFeeds(enabledFeeds, data.lastFetchedItems)
-				} else {
-					setRssItems([])
-				}
-				setRssState(structuredClone(data))
-			}
-		)
+		const event = listenEvent('wigiNewsSettingsChanged', (data) => {
+			if (!ownSettings) applyNewsSettings(data)
+		})
 
 		loadInitialData()
 		return () => {
@@ -274,6 +289,15 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 		}
 	}, [])
 
+	const ownNewsState = ownSettings?.rss_news_state
+	const ownFeedsKey =
+		ownNewsState &&
+		JSON.stringify([ownNewsState.customFeeds, ownNewsState.useDefaultNews])
+
+	useEffect(() => {
+		if (ownNewsState) applyNewsSettings(ownNewsState)
+	}, [ownFeedsKey])
+
 	useEffect(() => {
 		if (rssState.useDefaultNews) {
 			if (data.news?.length) {
@@ -344,9 +368,14 @@ export const NewsLayout: React.FC<NewsLayoutProps> = ({
 						platformName={newsData.platform.name}
 						platformUrl={newsData.platform.url}
 						onSettingsClick={() =>
-							callEvent('openWidgetsSettings', {
-								tab: WidgetTabKeys.news_settings,
-							})
+							ownSettings
+								? callEvent(
+										'openWidgetInstanceSettings',
+										instance?.instance.id
+									)
+								: callEvent('openWidgetsSettings', {
+										tab: WidgetTabKeys.news_settings,
+									})
 						}
 					/>
 
@@ -9,6 +9,7 @@ import { CheckBoxWithDescription } from '@/components/checkbox-description.compo
 import { SectionPanel } from '@/components/section-panel'
 import { TextInput } from '@/components/text-input'
 import { ToggleSwitch } from '@/components/toggle-switch.component'
+import { useWidgetInstance } from '@/context/widget-instance.context'
 import { WidgetSettingWrapper } from '@/layouts/widgets-settings/widget-settings-wrapper'
 import type { WigiNewsSetting } from './news.interface'
 
@@ -28,6 +29,7 @@ const SUGGESTED_FEEDS = [
 ]
 
 export const RssFeedSetting = () => {
+	const instance = useWidgetInstance()
 	const [newFeed, setNewFeed] = useState<{ name: string; url: string }>({
 		name: '',
 		url: '',
@@ -152,13 +154,20 @@ export const RssFeedSetting = () => {
 	}
 
 	const save = async () => {
+		if (instance?.ownSettings) {
+			instance.updateSettings({ rss_news_state: rssState })
+			return
+		}
+
 		callEvent('wigiNewsSettingsChanged', rssState)
 		await setToStorage('rss_news_state', rssState)
 	}
 
 	useEffect(() => {
 		async function load() {
-			const settingFromStorage = await getFromStorage('rss_news_state')
+			const settingFromStorage = instance?.ownSettings
+				? instance.ownSettings.rss_news_state
+				: await getFromStorage('rss_news_state')
 			if (settingFromStorage) {
 				setRssState({
 					customFeeds: settingFromStorage.customFeeds || [],
@@ -6,15 +6,8 @@ import Tooltip from '@/components/toolTip'
 import { useNotes } from '@/context/notes.context'
 
 export function NoteNavigation() {
-	const {
-		notes,
-		activeNoteId,
-		addNote,
-		isCreatingNote,
-		setActiveNoteId,
-		isSaving,
-		deleteNote,
-	} = useNotes()
+	const { notes, activeNoteId, addNote, setActiveNoteId, isSaving, deleteNote } =
+		useNotes()
 	const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
 
 	const activeNoteIndex = useMemo(() => {
@@ -76,14 +69,9 @@ export function NoteNavigation() {
 						<Button
 							onClick={addNote}
 							size="xs"
-							disabled={isCreatingNote}
 							className={`h-6 w-6 text-xs !p-0 font-medium rounded-[0.55rem] transition-colors border-none shadow-none bg-primary text-white`}
 						>
-							{isCreatingNote ? (
-								<FiLoader className="block w-4 h-4 mx-2 animate-spin text-content" />
-							) : (
-								<FaPlus size={12} />
-							)}
+							<FaPlus size={12} />
 						</Button>
 					</Tooltip>
 				)}
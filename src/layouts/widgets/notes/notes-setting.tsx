@@ -0,0 +1,112 @@
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { callEvent } from '@/common/utils/call-event'
+import { SectionPanel } from '@/components/section-panel'
+import { SelectBox } from '@/components/selectbox/selectbox'
+import { TextInput } from '@/components/text-input'
+import type { Note } from '@/context/notes.context'
+import { useWidgetInstance } from '@/context/widget-instance.context'
+import { WidgetSettingWrapper } from '@/layouts/widgets-settings/widget-settings-wrapper'
+import {
+	DEFAULT_NOTES_VIEW,
+	type NotesSortBy,
+	type NotesViewSettings,
+} from './notes-view'
+
+const sortOptions: { value: NotesSortBy; label: string }[] = [
+	{ value: 'created', label: 'تاریخ ساخت' },
+	{ value: 'updated', label: 'آخرین ویرایش' },
+	{ value: 'title', label: 'عنوان' },
+]
+
+export function NotesSetting() {
+	const instance = useWidgetInstance()
+	const ownSettings = instance?.ownSettings
+	const [setting, setSetting] = useState<NotesViewSettings>(
+		ownSettings?.notesView || DEFAULT_NOTES_VIEW
+	)
+	const [notes, setNotes] = useState<Note[]>([])
+	const isInitialLoad = useRef(true)
+
+	function updateNotesView<K extends keyof NotesViewSettings>(
+		key: K,
+		value: NotesViewSettings[K]
+	) {
+		setSetting((prev) => ({ ...prev, [key]: value }))
+	}
+
+	useEffect(() => {
+		async function load() {
+			const [storedNotes, storedView] = await Promise.all([
+				getFromStorage('notes_data'),
+				ownSettings ? null : getFromStorage('notesView'),
+			])
+			setNotes(storedNotes || [])
+			if (storedView) setSetting({ ...DEFAULT_NOTES_VIEW, ...storedView })
+
+			isInitialLoad.current = false
+		}
+		load()
+	}, [])
+
+	useEffect(() => {
+		if (isInitialLoad.current) return
+		if (instance?.ownSettings) {
+			instance.updateSettings({ notesView: setting })
+			return
+		}
+		callEvent('notesViewChanged', setting)
+		setToStorage('notesView', setting)
+	}, [setting])
+
+	return (
+		<WidgetSettingWrapper>
+			<SectionPanel title="نمایش یادداشت‌ها">
+				<div className="flex flex-col space-y-4">
+					<div className="flex items-center justify-between">
+						<div>
+							<p className={'text-sm text-content'}>یادداشت سنجاق‌شده</p>
+							<p className={'text-xs font-light text-muted'}>
+								با باز شدن صفحه همین یادداشت نمایش داده می‌شود
+							</p>
+						</div>
+						<SelectBox
+							className="!w-32"
+							options={[
+								{ value: '', label: 'فهرست یادداشت‌ها' },
+								...notes.map((note) => ({
+									value: note.id,
+									label: note.title || 'بدون عنوان',
+								})),
+							]}
+							value={setting.pinnedNoteId || ''}
+							onChange={(value: string) =>
+								updateNotesView('pinnedNoteId', value || null)
+							}
+						/>
+					</div>
+
+					<div className="flex items-center justify-between">
+						<p className={'text-sm text-content'}>مرتب‌سازی فهرست</p>
+						<SelectBox
+							options={sortOptions}
+							value={setting.sortBy}
+							onChange={(value: NotesSortBy) =>
+								updateNotesView('sortBy', value)
+							}
+						/>
+					</div>
+
+					<div className="flex flex-col space-y-2">
+						<p className={'text-sm text-content'}>فیلتر</p>
+						<TextInput
+							value={setting.filter}
+							onChange={(value) => updateNotesView('filter', value)}
+							placeholder="فقط یادداشت‌های شامل این متن"
+							debounce
+						/>
+					</div>
+				</div>
+			</SectionPanel>
+		</WidgetSettingWrapper>
+	)
+}
@@ -0,0 +1,35 @@
+import type { Note } from '@/context/notes.context'
+
+export type NotesSortBy = 'created' | 'updated' | 'title'
+
+/** What a notes widget shows, extra instances keep their own copy */
+export interface NotesViewSettings {
+	/** Opened when the widget loads, the list when null */
+	pinnedNoteId: string | null
+	/** Only notes whose title or text contains it are listed */
+	filter: string
+	sortBy: NotesSortBy
+}
+
+export const DEFAULT_NOTES_VIEW: NotesViewSettings = {
+	pinnedNoteId: null,
+	filter: '',
+	sortBy: 'created',
+}
+
+export function getVisibleNotes(notes: Note[], view: NotesViewSettings) {
+	const filter = view.filter.trim().toLowerCase()
+	const matching = filter
+		? notes.filter((note) =>
+				`${note.title} ${note.body.replace(/<[^>]+>/g, ' ')}`
+					.toLowerCase()
+					.includes(filter)
+			)
+		: notes
+
+	return [...matching].sort((a, b) => {
+		if (view.sortBy === 'title') return a.title.localeCompare(b.title, 'fa')
+		if (view.sortBy === 'updated') return b.updatedAt - a.updatedAt
+		return b.createdAt - a.createdAt
+	})
+}
@@ -1,19 +1,54 @@
 import moment from 'jalali-moment'
+import { useEffect, useRef, useState } from 'react'
+import { FiSettings } from 'react-icons/fi'
 import { PiNotepad } from 'react-icons/pi'
 import Analytics from '@/analytics'
-import { RequireAuth } from '@/components/auth/require-auth'
+import { getFromStorage, watchStorage } from '@/common/storage'
+import { callEvent, listenEvent } from '@/common/utils/call-event'
 import { useGeneralSetting } from '@/context/general-setting.context'
-import { NotesProvider, useNotes } from '@/context/notes.context'
+import { type Note, NotesProvider, useNotes } from '@/context/notes.context'
+import { useWidgetInstance } from '@/context/widget-instance.context'
+import { WidgetTabKeys } from '@/layouts/widgets-settings/constant/tab-keys'
 import { WidgetContainer } from '../widget-container'
 import { NoteEditor } from './components/note-editor'
 import { NoteNavigation } from './components/note-navigation'
+import { DEFAULT_NOTES_VIEW, getVisibleNotes, type NotesViewSettings } from './notes-view'
 
-function NotesContent() {
-	const { notes, activeNoteId, addNote, updateNote } = useNotes()
+function useNotesView() {
+	const ownSettings = useWidgetInstance()?.ownSettings
+	const [sharedView, setSharedView] = useState<NotesViewSettings>(DEFAULT_NOTES_VIEW)
+
+	useEffect(() => {
+		// Extra instances get their view from the instance
+		if (ownSettings) return
+
+		getFromStorage('notesView').then((stored) => {
+			if (stored) setSharedView(stored)
+		})
+		const notesViewWatcher = watchStorage('notesView', (stored) =>
+			setSharedView(stored || DEFAULT_NOTES_VIEW)
+		)
+		const notesViewChangedEvent = listenEvent('notesViewChanged', setSharedView)
+
+		return () => {
+			notesViewWatcher()
+			notesViewChangedEvent()
+		}
+	}, [])
+
+	return ownSettings ? ownSettings.notesView || DEFAULT_NOTES_VIEW : sharedView
+}
+
+function NotesContent({ view }: { view: NotesViewSettings }) {
+	const { notes, activeNoteId, setActiveNoteId, addNote, updateNote } = useNotes()
 	const { blurMode } = useGeneralSetting()
 
 	const activeNote = notes.find((note) => note.id === activeNoteId)
 
+	useEffect(() => {
+		if (view.pinnedNoteId) setActiveNoteId(view.pinnedNoteId)
+	}, [view.pinnedNoteId])
+
 	if (!activeNote && !notes.length) {
 		return (
 			<div
@@ -32,7 +67,7 @@ function NotesContent() {
 	}
 
 	if (!activeNote) {
-		return <NoteList />
+		return <NoteList notes={getVisibleNotes(notes, view)} />
 	}
 
 	return (
@@ -46,8 +81,8 @@ function NotesContent() {
 	)
 }
 
-function NoteList() {
-	const { notes, setActiveNoteId } = useNotes()
+function NoteList({ notes }: { notes: Note[] }) {
+	const { setActiveNoteId } = useNotes()
 	const { blurMode } = useGeneralSetting()
 	function handleNoteClick(noteId: string) {
 		setActiveNoteId(noteId)
@@ -77,11 +112,30 @@ function NoteList() {
 }
 
 function NotesHeader() {
+	const instance = useWidgetInstance()
+
+	function onSettingClick() {
+		if (instance?.ownSettings) {
+			callEvent('openWidgetInstanceSettings', instance.instance.id)
+			return
+		}
+		callEvent('openWidgetsSettings', { tab: WidgetTabKeys.notes_settings })
+	}
+
 	return (
 		<div className="flex items-center justify-between">
-			<h4 className={'text-sm font-medium text-content truncate'}>
-				دفترچه یادداشت
-			</h4>
+			<div className="flex items-center gap-1 min-w-0">
+				<h4 className={'text-sm font-medium text-content truncate'}>
+					دفترچه یادداشت
+				</h4>
+				<button
+					type="button"
+					onClick={onSettingClick}
+					className="p-1 rounded-full cursor-pointer text-muted opacity-70 hover:bg-base-300 hover:opacity-100"
+				>
+					<FiSettings size={12} />
+				</button>
+			</div>
 
 			<NoteNavigation />
 		</div>
@@ -89,14 +143,21 @@ function NotesHeader() {
 }
 
 export function NotesLayout() {
+	const containerRef = useRef<HTMLDivElement>(null)
+	const view = useNotesView()
+
+	useEffect(() => {
+		return listenEvent('openNote', () =>
+			containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+		)
+	}, [])
+
 	return (
 		<WidgetContainer className="overflow-hidden">
 			<NotesProvider>
-				<div className="flex flex-col h-full">
-					<RequireAuth mode="preview">
-						<NotesHeader />
-						<NotesContent />
-					</RequireAuth>
+				<div ref={containerRef} className="flex flex-col h-full">
+					<NotesHeader />
+					<NotesContent view={view} />
 				</div>
 			</NotesProvider>
 		</WidgetContainer>
@@ -1,16 +1,22 @@
 import { AnimatePresence, motion } from 'framer-motion'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { FiFlag, FiMessageSquare, FiPlus, FiTag } from 'react-icons/fi'
 import Analytics from '@/analytics'
 import { Button } from '@/components/button/button'
 import { TextInput } from '@/components/text-input'
 import Tooltip from '@/components/toolTip'
+import { useDate } from '@/context/date.context'
 import { type AddTodoInput, TodoPriority } from '@/context/todo.context'
+import type { TodoRecurrence } from '../calendar/interface/todo.interface'
+import { parseTodoInput } from './quick-add-parser'
+import { QuickAddPreview } from './quick-add-preview'
+import { RecurrencePicker } from './recurrence-picker'
+import { ReminderPicker } from './reminder-picker'
 
 interface ExpandableTodoInputProps {
 	todoText: string
 	onChangeTodoText: (value: string) => void
-	onAddTodo: (input: Omit<AddTodoInput, 'date'>) => void
+	onAddTodo: (input: Omit<AddTodoInput, 'date'> & { date?: string }) => void
 }
 
 const PrIORITY_OPTIONS = [
@@ -39,10 +45,14 @@ export function ExpandableTodoInput({
 	onChangeTodoText,
 	onAddTodo,
 }: ExpandableTodoInputProps) {
+	const { today } = useDate()
 	const [isExpanded, setIsExpanded] = useState(false)
 	const [priority, setPriority] = useState<TodoPriority>(TodoPriority.Medium)
 	const [category, setCategory] = useState('')
 	const [notes, setNotes] = useState('')
+	const [recurrence, setRecurrence] = useState<TodoRecurrence | null>(null)
+	const [dueTime, setDueTime] = useState('')
+	const [reminders, setReminders] = useState<number[]>([])
 	const inputRef = useRef<HTMLInputElement | null>(null)
 	const containerRef = useRef<HTMLDivElement>(null)
 
@@ -69,13 +79,20 @@ export function ExpandableTodoInput({
 		setIsExpanded(true)
 	}
 
+	const parsed = useMemo(() => parseTodoInput(todoText, today), [todoText, today])
+
 	const handleAddTodo = () => {
 		if (todoText.trim()) {
+			// What was typed in the phrase wins over the separate controls
 			onAddTodo({
-				text: todoText.trim(),
-				category: category.trim() || undefined,
+				text: parsed.text || todoText.trim(),
+				date: parsed.date,
+				category: parsed.category || category.trim() || undefined,
 				notes: notes.trim() || undefined,
-				priority: priority,
+				priority: (parsed.priority as TodoPriority) || priority,
+				recurrence: parsed.recurrence || recurrence,
+				dueTime: parsed.dueTime || dueTime || null,
+				reminders,
 			})
 			Analytics.event('todo_added')
 			resetForm()
@@ -92,6 +109,9 @@ export function ExpandableTodoInput({
 		onChangeTodoText('')
 		setCategory('')
 		setNotes('')
+		setRecurrence(null)
+		setDueTime('')
+		setReminders([])
 		setPriority(TodoPriority.Medium)
 		setIsExpanded(false)
 	}
@@ -123,6 +143,7 @@ export function ExpandableTodoInput({
 						<FiPlus size={16} />
 					</Button>
 				</div>
+				<QuickAddPreview parsed={parsed} />
 
 				<AnimatePresence>
 					{isExpanded && (
@@ -208,6 +229,18 @@ export function ExpandableTodoInput({
 											className="text-xs placeholder:text-xs py-1.5"
 										/>
 									</div>
+
+									<ReminderPicker
+										dueTime={dueTime}
+										reminders={reminders}
+										onChangeDueTime={setDueTime}
+										onChangeReminders={setReminders}
+									/>
+
+									<RecurrencePicker
+										value={recurrence}
+										onChange={setRecurrence}
+									/>
 								</div>
 							</div>
 						</motion.div>
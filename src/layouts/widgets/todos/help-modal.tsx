@@ -26,6 +26,12 @@ export function TodoHelpModal({ show, onClose }: TodoHelpModalProps) {
 						وظیفه به یک روز خاص، ابتدا ویجت تقویم را فعال کنید، سپس روز مورد
 						نظر را انتخاب کنید و در نهایت وظیفه مورد نظر را وارد کنید.
 					</li>
+					<li>
+						<strong>افزودن سریع:</strong> می‌توانید زمان، تکرار، دسته‌بندی و
+						اولویت را در همان متن وظیفه بنویسید، مثلاً «فردا ساعت ۱۰ جلسه #کار
+						!بالا» یا «هر دوشنبه گزارش هفتگی». موارد شناسایی شده پیش از ثبت
+						زیر کادر نمایش داده می‌شوند.
+					</li>
 					<li>
 						<strong>حالت همه وظایف:</strong> با تغییر حالت به "همه وظایف"،
 						تمامی وظایف نمایش داده می‌شود.
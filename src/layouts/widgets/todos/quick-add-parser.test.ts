@@ -0,0 +1,194 @@
+import jalaliMoment from 'jalali-moment'
+import { describe, expect, it } from 'vitest'
+import { parseTodoInput, toEnglishDigits } from './quick-add-parser'
+
+// Saturday, 26 Mehr 1404
+const today = jalaliMoment('2025-10-18', 'YYYY-MM-DD').locale('fa')
+const parse = (input: string) => parseTodoInput(input, today)
+
+describe('parseTodoInput', () => {
+	it('reads a full Persian phrase', () => {
+		expect(parse('فردا ساعت ۱۰ جلسه #کار !بالا')).toEqual({
+			text: 'جلسه',
+			date: '1404-07-27',
+			dueTime: '10:00',
+			category: 'کار',
+			priority: 'high',
+		})
+	})
+
+	it('keeps plain text untouched', () => {
+		expect(parse('  خرید   نان ')).toEqual({ text: 'خرید نان' })
+	})
+
+	describe('relative days', () => {
+		it.each([
+			['امروز تماس', '1404-07-26'],
+			['today call', '1404-07-26'],
+			['فردا تماس', '1404-07-27'],
+			['tomorrow call', '1404-07-27'],
+			['پس‌فردا تماس', '1404-07-28'],
+			['پس فردا تماس', '1404-07-28'],
+			['day after tomorrow call', '1404-07-28'],
+			['۳ روز دیگر تماس', '1404-07-29'],
+			['3 روز بعد تماس', '1404-07-29'],
+			['in 5 days call', '1404-08-01'],
+		])('%s', (input, date) => {
+			expect(parse(input)).toEqual({
+				text: expect.stringMatching(/تماس|call/),
+				date,
+			})
+		})
+	})
+
+	describe('week days', () => {
+		it('does not read یکشنبه as شنبه', () => {
+			expect(parse('یکشنبه جلسه')).toEqual({ text: 'جلسه', date: '1404-07-27' })
+		})
+
+		it('moves the current week day to next week', () => {
+			expect(parse('شنبه جلسه').date).toBe('1404-08-03')
+		})
+
+		it.each([
+			['next friday party', '1404-08-02'],
+			['on sunday party', '1404-07-27'],
+			['پنج‌شنبه party', '1404-08-01'],
+		])('%s', (input, date) => {
+			expect(parse(input)).toEqual({ text: 'party', date })
+		})
+	})
+
+	describe('Jalali dates', () => {
+		it('reads a numeric Jalali date', () => {
+			expect(parse('1404/09/10 تحویل')).toEqual({
+				text: 'تحویل',
+				date: '1404-09-10',
+			})
+		})
+
+		it('reads Persian digits', () => {
+			expect(parse('۱۴۰۴/۰۹/۱۰ تحویل').date).toBe('1404-09-10')
+		})
+
+		it('reads a day and month name in this year', () => {
+			expect(parse('5 آبان تولد')).toEqual({ text: 'تولد', date: '1404-08-05' })
+		})
+
+		it('moves a passed day and month to next year', () => {
+			expect(parse('20 فروردین سفر').date).toBe('1405-01-20')
+		})
+
+		it('keeps an explicit year', () => {
+			expect(parse('20 فروردین 1404 سفر').date).toBe('1404-01-20')
+		})
+	})
+
+	describe('Gregorian dates', () => {
+		it('reads an ISO date', () => {
+			expect(parse('2025-12-25 christmas')).toEqual({
+				text: 'christmas',
+				date: '1404-10-04',
+			})
+		})
+
+		it.each([
+			['dec 25 party', '1404-10-04'],
+			['25 December party', '1404-10-04'],
+			['10 jan party', '1404-10-20'],
+		])('%s', (input, date) => {
+			expect(parse(input)).toEqual({ text: 'party', date })
+		})
+
+		it('ignores an invalid date', () => {
+			expect(parse('2025-13-40 x')).toEqual({ text: '2025-13-40 x' })
+		})
+	})
+
+	describe('times', () => {
+		it.each([
+			['at 3pm call', '15:00'],
+			['at 9:15 call', '09:15'],
+			['3:30 pm call', '15:30'],
+			['12am call', '00:00'],
+			['14:30 call', '14:30'],
+			['ساعت ۸ شب call', '20:00'],
+			['ساعت 8 صبح call', '08:00'],
+			['ساعت ۴ عصر call', '16:00'],
+		])('%s', (input, dueTime) => {
+			expect(parse(input)).toEqual({ text: 'call', dueTime })
+		})
+
+		it('leaves an impossible time in the text', () => {
+			expect(parse('ساعت 25 call')).toEqual({ text: 'ساعت 25 call' })
+		})
+	})
+
+	describe('priorities and tags', () => {
+		it.each([
+			['!high', 'high'],
+			['!مهم', 'high'],
+			['!med', 'medium'],
+			['!متوسط', 'medium'],
+			['!low', 'low'],
+			['!کم', 'low'],
+		])('%s', (token, priority) => {
+			expect(parse(`task ${token}`)).toEqual({ text: 'task', priority })
+		})
+
+		it('leaves an unknown priority in the text', () => {
+			expect(parse('task !urgent')).toEqual({ text: 'task !urgent' })
+		})
+
+		it('turns underscores in a tag into spaces', () => {
+			expect(parse('task #side_project')).toEqual({
+				text: 'task',
+				category: 'side project',
+			})
+		})
+
+		it('does not read a # inside a word as a tag', () => {
+			expect(parse('issue a#1')).toEqual({ text: 'issue a#1' })
+		})
+	})
+
+	describe('recurrence', () => {
+		it.each([
+			['هر روز ورزش', { frequency: 'daily' }],
+			['daily ورزش', { frequency: 'daily' }],
+			['every 3 days ورزش', { frequency: 'interval', interval: 3 }],
+			['هر ۲ روز ورزش', { frequency: 'interval', interval: 2 }],
+			['روزهای کاری ورزش', { frequency: 'weekdays' }],
+			['weekdays ورزش', { frequency: 'weekdays' }],
+			['هر دوشنبه ورزش', { frequency: 'weekly', weekDays: [1] }],
+			['every friday ورزش', { frequency: 'weekly', weekDays: [5] }],
+			['هر هفته ورزش', { frequency: 'weekly' }],
+			['هر ماه ورزش', { frequency: 'monthly', monthCalendar: 'jalali' }],
+			['monthly ورزش', { frequency: 'monthly', monthCalendar: 'jalali' }],
+		])('%s', (input, recurrence) => {
+			expect(parse(input)).toEqual({ text: 'ورزش', recurrence })
+		})
+
+		it('does not read the week day of a weekly rule as a date', () => {
+			expect(parse('every monday review PRs')).toEqual({
+				text: 'review PRs',
+				recurrence: { frequency: 'weekly', weekDays: [1] },
+			})
+		})
+
+		it('combines with a start date and time', () => {
+			expect(parse('هر روز از فردا ساعت 7 ورزش')).toEqual({
+				text: 'از ورزش',
+				date: '1404-07-27',
+				dueTime: '07:00',
+				recurrence: { frequency: 'daily' },
+			})
+		})
+	})
+})
+
+describe('toEnglishDigits', () => {
+	it('converts Persian and Arabic digits', () => {
+		expect(toEnglishDigits('۱۲۳ ٤٥٦')).toBe('123 456')
+	})
+})
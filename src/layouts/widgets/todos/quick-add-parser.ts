@@ -0,0 +1,306 @@
+import jalaliMoment from 'jalali-moment'
+import type { Todo, TodoRecurrence } from '../calendar/interface/todo.interface'
+import { formatDateStr, type WidgetifyDate } from '../calendar/utils'
+
+export interface ParsedTodoInput {
+	text: string
+	date?: string
+	dueTime?: string
+	priority?: Todo['priority']
+	category?: string
+	recurrence?: TodoRecurrence
+}
+
+// Persian words have no regex word boundary, so tokens are bounded by whitespace
+const START = '(?<=^|\\s)'
+const END = '(?=\\s|$)'
+
+const PRIORITY_WORDS: Record<string, Todo['priority']> = {
+	بالا: 'high',
+	زیاد: 'high',
+	مهم: 'high',
+	high: 'high',
+	متوسط: 'medium',
+	medium: 'medium',
+	med: 'medium',
+	کم: 'low',
+	پایین: 'low',
+	low: 'low',
+}
+
+// Longest names first, so "یکشنبه" is not read as "شنبه"
+const WEEK_DAY_NAMES: [string, number][] = [
+	['پنج‌شنبه', 4],
+	['پنجشنبه', 4],
+	['پنج شنبه', 4],
+	['چهارشنبه', 3],
+	['سه‌شنبه', 2],
+	['سه شنبه', 2],
+	['دوشنبه', 1],
+	['یکشنبه', 0],
+	['شنبه', 6],
+	['جمعه', 5],
+	['sunday', 0],
+	['monday', 1],
+	['tuesday', 2],
+	['wednesday', 3],
+	['thursday', 4],
+	['friday', 5],
+	['saturday', 6],
+]
+
+const JALALI_MONTHS = [
+	'فروردین',
+	'اردیبهشت',
+	'خرداد',
+	'تیر',
+	'مرداد',
+	'شهریور',
+	'مهر',
+	'آبان',
+	'آذر',
+	'دی',
+	'بهمن',
+	'اسفند',
+]
+
+const GREGORIAN_MONTHS = [
+	'jan(?:uary)?',
+	'feb(?:ruary)?',
+	'mar(?:ch)?',
+	'apr(?:il)?',
+	'may',
+	'june?',
+	'july?',
+	'aug(?:ust)?',
+	'sep(?:tember)?',
+	'oct(?:ober)?',
+	'nov(?:ember)?',
+	'dec(?:ember)?',
+]
+
+const AFTERNOON_WORDS = ['pm', 'ظهر', 'بعدازظهر', 'بعد از ظهر', 'عصر', 'شب']
+
+export function toEnglishDigits(value: string) {
+	return value
+		.replace(/[۰-۹]/g, (digit) => String('۰۱۲۳۴۵۶۷۸۹'.indexOf(digit)))
+		.replace(/[٠-٩]/g, (digit) => String('٠١٢٣٤٥٦٧٨٩'.indexOf(digit)))
+}
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const weekDayPattern = WEEK_DAY_NAMES.map(([name]) => escapeRegExp(name)).join('|')
+
+function getWeekDay(name: string) {
+	return WEEK_DAY_NAMES.find(([item]) => item === name.toLowerCase())?.[1]
+}
+
+function nextWeekDay(base: WidgetifyDate, weekDay: number) {
+	const diff = (weekDay - base.day() + 7) % 7 || 7
+	return base.clone().add(diff, 'days')
+}
+
+/**
+ * Reads dates, times, recurrence, `#category` and `!priority` out of a quick-add
+ * phrase such as "فردا ساعت ۱۰ جلسه #کار !بالا" or "every monday review PRs #work
+ * !high". Whatever is not recognised stays in `text`. Pure: `today` is the only
+ * source of the current date.
+ */
+export function parseTodoInput(input: string, today: WidgetifyDate): ParsedTodoInput {
+	const base = jalaliMoment(today.toDate()).locale('en').startOf('day')
+	const result: ParsedTodoInput = { text: '' }
+	let rest = ` ${toEnglishDigits(input)} `
+
+	const take = (pattern: RegExp, handle: (match: RegExpMatchArray) => boolean) => {
+		const match = rest.match(pattern)
+		if (!match || match.index === undefined) return
+		if (handle(match)) {
+			rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`
+		}
+	}
+
+	take(new RegExp(`${START}#([^\\s#!]+)`), (match) => {
+		result.category = match[1].replace(/_/g, ' ')
+		return true
+	})
+
+	take(new RegExp(`${START}!(\\S+)`), (match) => {
+		const priority = PRIORITY_WORDS[match[1].toLowerCase()]
+		if (!priority) return false
+		result.priority = priority
+		return true
+	})
+
+	// Recurrence
+	take(
+		new RegExp(`${START}(?:هر|every)\\s+(\\d+)\\s+(?:روز|days?)${END}`, 'i'),
+		(match) => {
+			result.recurrence = { frequency: 'interval', interval: Number(match[1]) }
+			return true
+		}
+	)
+	take(new RegExp(`${START}(?:هر روز|every day|daily)${END}`, 'i'), () => {
+		result.recurrence = { frequency: 'daily' }
+		return true
+	})
+	take(new RegExp(`${START}(?:روزهای کاری|every weekday|weekdays)${END}`, 'i'), () => {
+		result.recurrence = { frequency: 'weekdays' }
+		return true
+	})
+	take(
+		new RegExp(`${START}(?:هر|every)\\s+(${weekDayPattern})${END}`, 'i'),
+		(match) => {
+			const weekDay = getWeekDay(match[1])
+			if (weekDay === undefined) return false
+			result.recurrence = { frequency: 'weekly', weekDays: [weekDay] }
+			return true
+		}
+	)
+	take(new RegExp(`${START}(?:هر هفته|every week|weekly)${END}`, 'i'), () => {
+		result.recurrence = { frequency: 'weekly' }
+		return true
+	})
+	take(new RegExp(`${START}(?:هر ماه|every month|monthly)${END}`, 'i'), () => {
+		result.recurrence = { frequency: 'monthly', monthCalendar: 'jalali' }
+		return true
+	})
+
+	// Time
+	take(
+		new RegExp(
+			`${START}(?:ساعت|at)\\s*(\\d{1,2})(?::(\\d{2}))?(?:\\s*(am|pm|صبح|${AFTERNOON_WORDS.join('|')}))?${END}`,
+			'i'
+		),
+		(match) => setTime(result, match[1], match[2], match[3])
+	)
+	if (!result.dueTime) {
+		take(
+			new RegExp(`${START}(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)${END}`, 'i'),
+			(match) => setTime(result, match[1], match[2], match[3])
+		)
+	}
+	if (!result.dueTime) {
+		take(new RegExp(`${START}(\\d{1,2}):(\\d{2})${END}`), (match) =>
+			setTime(result, match[1], match[2])
+		)
+	}
+
+	// Dates
+	let date: WidgetifyDate | null = null
+	take(new RegExp(`${START}(\\d{4})[/-](\\d{1,2})[/-](\\d{1,2})${END}`), (match) => {
+		const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+		// Jalali years are in the 1300s and 1400s
+		const parsed =
+			year < 1700
+				? jalaliMoment(`${year}/${month}/${day}`, 'jYYYY/jM/jD')
+				: jalaliMoment(`${year}-${month}-${day}`, 'YYYY-M-D')
+		if (!parsed.isValid()) return false
+		date = parsed.locale('en')
+		return true
+	})
+	if (!date) {
+		take(
+			new RegExp(
+				`${START}(\\d{1,2})\\s+(${JALALI_MONTHS.join('|')})(?:\\s+(\\d{4}))?${END}`
+			),
+			(match) => {
+				const parsed = base
+					.clone()
+					.jMonth(JALALI_MONTHS.indexOf(match[2]))
+					.jDate(Number(match[1]))
+				if (match[3]) parsed.jYear(Number(match[3]))
+				else if (parsed.isBefore(base)) parsed.add(1, 'jYear')
+				date = parsed
+				return true
+			}
+		)
+	}
+	if (!date) {
+		const monthPattern = GREGORIAN_MONTHS.join('|')
+		take(
+			new RegExp(
+				`${START}(?:(\\d{1,2})\\s+(${monthPattern})|(${monthPattern})\\s+(\\d{1,2}))${END}`,
+				'i'
+			),
+			(match) => {
+				const monthName = (match[2] || match[3]).toLowerCase()
+				const month = GREGORIAN_MONTHS.findIndex((pattern) =>
+					new RegExp(`^(?:${pattern})$`).test(monthName)
+				)
+				const parsed = base
+					.clone()
+					.month(month)
+					.date(Number(match[1] || match[4]))
+				if (parsed.isBefore(base)) parsed.add(1, 'year')
+				date = parsed
+				return true
+			}
+		)
+	}
+	if (!date) {
+		take(new RegExp(`${START}(?:پس[‌ ]?فردا|day after tomorrow)${END}`, 'i'), () => {
+			date = base.clone().add(2, 'days')
+			return true
+		})
+	}
+	if (!date) {
+		take(new RegExp(`${START}(?:فردا|tomorrow)${END}`, 'i'), () => {
+			date = base.clone().add(1, 'day')
+			return true
+		})
+	}
+	if (!date) {
+		take(new RegExp(`${START}(?:امروز|today)${END}`, 'i'), () => {
+			date = base.clone()
+			return true
+		})
+	}
+	if (!date) {
+		take(
+			new RegExp(
+				`${START}(?:(\\d+)\\s+روز\\s+(?:دیگر|بعد)|in\\s+(\\d+)\\s+days?)${END}`,
+				'i'
+			),
+			(match) => {
+				date = base.clone().add(Number(match[1] || match[2]), 'days')
+				return true
+			}
+		)
+	}
+	if (!date && !result.recurrence) {
+		take(
+			new RegExp(`${START}(?:(?:on|next)\\s+)?(${weekDayPattern})${END}`, 'i'),
+			(match) => {
+				const weekDay = getWeekDay(match[1])
+				if (weekDay === undefined) return false
+				date = nextWeekDay(base, weekDay)
+				return true
+			}
+		)
+	}
+
+	if (date) result.date = formatDateStr(date)
+
+	result.text = rest.replace(/\s+/g, ' ').trim()
+	return result
+}
+
+function setTime(
+	result: ParsedTodoInput,
+	hoursText: string,
+	minutesText?: string,
+	period?: string
+) {
+	let hours = Number(hoursText)
+	const minutes = Number(minutesText || 0)
+	if (period && AFTERNOON_WORDS.includes(period.toLowerCase()) && hours < 12) {
+		hours += 12
+	}
+	if (period?.toLowerCase() === 'am' && hours === 12) hours = 0
+	if (hours > 23 || minutes > 59) return false
+
+	result.dueTime = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+	return true
+}
@@ -0,0 +1,59 @@
+import { FiCalendar, FiClock, FiFlag, FiRepeat, FiTag } from 'react-icons/fi'
+import type { ParsedTodoInput } from './quick-add-parser'
+import { describeRecurrence, parseTodoDate } from './recurrence'
+
+interface QuickAddPreviewProps {
+	parsed: ParsedTodoInput
+}
+
+const translatedPriority = {
+	low: 'کم',
+	medium: 'متوسط',
+	high: 'زیاد',
+}
+
+export function QuickAddPreview({ parsed }: QuickAddPreviewProps) {
+	const chips = [
+		parsed.date && {
+			key: 'date',
+			icon: <FiCalendar size={10} />,
+			label: parseTodoDate(parsed.date).locale('fa').format('dddd jD jMMMM'),
+		},
+		parsed.dueTime && {
+			key: 'time',
+			icon: <FiClock size={10} />,
+			label: parsed.dueTime,
+		},
+		parsed.recurrence && {
+			key: 'recurrence',
+			icon: <FiRepeat size={10} />,
+			label: describeRecurrence(parsed.recurrence),
+		},
+		parsed.category && {
+			key: 'category',
+			icon: <FiTag size={10} />,
+			label: parsed.category,
+		},
+		parsed.priority && {
+			key: 'priority',
+			icon: <FiFlag size={10} />,
+			label: `اولویت ${translatedPriority[parsed.priority]}`,
+		},
+	].filter((chip) => !!chip)
+
+	if (!chips.length) return null
+
+	return (
+		<div className="flex flex-wrap gap-1 px-2 pt-1.5">
+			{chips.map((chip) => (
+				<span
+					key={chip.key}
+					className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded-full bg-primary/10 text-primary"
+				>
+					{chip.icon}
+					{chip.label}
+				</span>
+			))}
+		</div>
+	)
+}
@@ -0,0 +1,114 @@
+import { FiRepeat } from 'react-icons/fi'
+import { TextInput } from '@/components/text-input'
+import type {
+	TodoRecurrence,
+	TodoRecurrenceFrequency,
+} from '../calendar/interface/todo.interface'
+import { getWeekDayLabel, WEEK_DAYS_ORDER } from './recurrence'
+
+interface RecurrencePickerProps {
+	value: TodoRecurrence | null
+	onChange: (value: TodoRecurrence | null) => void
+}
+
+const RECURRENCE_OPTIONS: { value: string; label: string }[] = [
+	{ value: 'none', label: 'بدون تکرار' },
+	{ value: 'daily', label: 'هر روز' },
+	{ value: 'weekdays', label: 'روزهای کاری (شنبه تا چهارشنبه)' },
+	{ value: 'weekly', label: 'هفتگی' },
+	{ value: 'monthly-jalali', label: 'ماهانه (روز شمسی)' },
+	{ value: 'monthly-gregorian', label: 'ماهانه (روز میلادی)' },
+	{ value: 'interval', label: 'هر چند روز یکبار' },
+]
+
+function getOptionValue(value: TodoRecurrence | null) {
+	if (!value) return 'none'
+	if (value.frequency === 'monthly') {
+		return `monthly-${value.monthCalendar || 'jalali'}`
+	}
+	return value.frequency
+}
+
+export function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
+	const onSelect = (option: string) => {
+		if (option === 'none') return onChange(null)
+
+		const [frequency, monthCalendar] = option.split('-') as [
+			TodoRecurrenceFrequency,
+			'jalali' | 'gregorian' | undefined,
+		]
+		onChange({
+			frequency,
+			monthCalendar,
+			interval: frequency === 'interval' ? 2 : undefined,
+			weekDays: frequency === 'weekly' ? [] : undefined,
+		})
+	}
+
+	const onToggleWeekDay = (day: number) => {
+		if (!value) return
+		const weekDays = value.weekDays || []
+		onChange({
+			...value,
+			weekDays: weekDays.includes(day)
+				? weekDays.filter((item) => item !== day)
+				: [...weekDays, day],
+		})
+	}
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center gap-3">
+				<div className="flex-shrink-0 text-center">
+					<FiRepeat className="text-indigo-400" size={16} />
+				</div>
+				<select
+					value={getOptionValue(value)}
+					onChange={(e) => onSelect(e.target.value)}
+					className="select select-xs w-full text-xs rounded-lg !outline-none !border-none !shadow-none text-content bg-base-200 cursor-pointer"
+				>
+					{RECURRENCE_OPTIONS.map((option) => (
+						<option key={option.value} value={option.value}>
+							{option.label}
+						</option>
+					))}
+				</select>
+			</div>
+
+			{value?.frequency === 'weekly' && (
+				<div className="flex flex-wrap gap-1 pr-7">
+					{WEEK_DAYS_ORDER.map((day) => (
+						<button
+							key={day}
+							type="button"
+							onClick={() => onToggleWeekDay(day)}
+							className={`px-1.5 py-0.5 rounded-full text-[10px] cursor-pointer ${value.weekDays?.includes(day) ? 'bg-primary text-white' : 'text-muted bg-base-200'}`}
+						>
+							{getWeekDayLabel(day)}
+						</button>
+					))}
+				</div>
+			)}
+
+			{value?.frequency === 'interval' && (
+				<div className="flex items-center gap-2 pr-7 text-xs text-content">
+					<span>هر</span>
+					<TextInput
+						type="number"
+						value={String(value.interval || 1)}
+						onChange={(interval) =>
+							onChange({
+								...value,
+								interval: Math.max(Number(interval) || 1, 1),
+							})
+						}
+						min={1}
+						max={365}
+						className="!w-16 text-xs py-1"
+					/>
+					<span>روز</span>
+				</div>
+			)}
+		</div>
+	)
+}
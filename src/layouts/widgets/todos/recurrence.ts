@@ -0,0 +1,166 @@
+import jalaliMoment from 'jalali-moment'
+import type {
+	Todo,
+	TodoRecurrence,
+	TodoStatus,
+} from '../calendar/interface/todo.interface'
+import { formatDateStr, type WidgetifyDate } from '../calendar/utils'
+
+// Saturday to Wednesday, the Iranian working week
+const WORKING_DAYS = [6, 0, 1, 2, 3]
+
+const WEEK_DAY_LABELS: Record<number, string> = {
+	6: 'شنبه',
+	0: 'یکشنبه',
+	1: 'دوشنبه',
+	2: 'سه‌شنبه',
+	3: 'چهارشنبه',
+	4: 'پنجشنبه',
+	5: 'جمعه',
+}
+
+export const WEEK_DAYS_ORDER = [6, 0, 1, 2, 3, 4, 5]
+
+// Long enough to reach the next occurrence of any supported rule
+const MAX_LOOKAHEAD_DAYS = 400
+
+export function parseTodoDate(dateStr: string) {
+	return jalaliMoment(dateStr, 'jYYYY-jMM-jDD').startOf('day')
+}
+
+export function getWeekDayLabel(day: number) {
+	return WEEK_DAY_LABELS[day]
+}
+
+function matchesRule(rule: TodoRecurrence, start: WidgetifyDate, date: WidgetifyDate) {
+	switch (rule.frequency) {
+		case 'daily':
+			return true
+		case 'weekdays':
+			return WORKING_DAYS.includes(date.day())
+		case 'weekly': {
+			const weekDays = rule.weekDays?.length ? rule.weekDays : [start.day()]
+			return weekDays.includes(date.day())
+		}
+		case 'monthly':
+			// Months shorter than the start day repeat on their last day
+			if (rule.monthCalendar === 'gregorian') {
+				return date.date() === Math.min(start.date(), date.daysInMonth())
+			}
+			return date.jDate() === Math.min(start.jDate(), date.jDaysInMonth())
+		case 'interval':
+			return date.diff(start, 'days') % Math.max(rule.interval || 1, 1) === 0
+		default:
+			return false
+	}
+}
+
+/** Whether the todo, or one occurrence of its series, falls on the given date. */
+export function occursOn(todo: Todo, dateStr: string) {
+	const rule = todo.recurrence
+	if (!rule) return todo.date === dateStr
+
+	// Dates are zero padded, so they compare as strings
+	if (dateStr < todo.date) return false
+	if (rule.until && dateStr > rule.until) return false
+
+	return matchesRule(rule, parseTodoDate(todo.date), parseTodoDate(dateStr))
+}
+
+/**
+ * The occurrence of a recurring todo on the given date, as a regular todo whose `date`
+ * is the occurrence date and `completed` reflects that occurrence only.
+ */
+export function getOccurrence(todo: Todo, dateStr: string): Todo {
+	return {
+		...todo,
+		date: dateStr,
+		completed: !!todo.completedDates?.includes(dateStr),
+	}
+}
+
+export function getTodosForDate(todos: Todo[], dateStr: string) {
+	return todos
+		.filter((todo) => occursOn(todo, dateStr))
+		.map((todo) => (todo.recurrence ? getOccurrence(todo, dateStr) : todo))
+}
+
+/** Every todo and every occurrence in the jalali month of the given date. */
+export function getTodosForMonth(todos: Todo[], date: WidgetifyDate) {
+	const monthPrefix = formatDateStr(date).slice(0, 7)
+	const result = todos.filter(
+		(todo) => !todo.recurrence && todo.date.startsWith(monthPrefix)
+	)
+
+	const recurring = todos.filter((todo) => todo.recurrence)
+	for (let day = 1; day <= date.jDaysInMonth(); day++) {
+		const dateStr = formatDateStr(date.clone().jDate(day))
+		for (const todo of recurring) {
+			if (occursOn(todo, dateStr)) result.push(getOccurrence(todo, dateStr))
+		}
+	}
+
+	return result
+}
+
+/** First occurrence on or after the given date, or null when the series has ended. */
+export function getNextOccurrenceDate(todo: Todo, fromDateStr: string) {
+	if (!todo.recurrence || fromDateStr <= todo.date) return todo.date
+
+	const date = parseTodoDate(fromDateStr)
+	for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+		const dateStr = formatDateStr(date)
+		if (todo.recurrence.until && dateStr > todo.recurrence.until) return null
+		if (occursOn(todo, dateStr)) return dateStr
+		date.add(1, 'day')
+	}
+
+	return null
+}
+
+/**
+ * Todos for the "all" view. A recurring todo shows up once, as its next occurrence
+ * from the given date, or as its last state when the series has ended.
+ */
+export function getAllTodos(todos: Todo[], fromDateStr: string) {
+	return todos.map((todo) => {
+		if (!todo.recurrence) return todo
+
+		const next = getNextOccurrenceDate(todo, fromDateStr)
+		return getOccurrence(todo, next || todo.recurrence.until || todo.date)
+	})
+}
+
+/** Board column of a todo. Occurrences are completed per date, so `completed` wins. */
+export function getTodoStatus(todo: Todo): TodoStatus {
+	if (todo.completed) return 'done'
+	return todo.status === 'in_progress' ? 'in_progress' : 'todo'
+}
+
+/** Stable key of a list item; occurrences of the same series share the todo id. */
+export function getTodoKey(todo: Todo) {
+	return todo.recurrence ? `${todo.id}:${todo.date}` : todo.id
+}
+
+export function describeRecurrence(rule: TodoRecurrence) {
+	switch (rule.frequency) {
+		case 'daily':
+			return 'هر روز'
+		case 'weekdays':
+			return 'روزهای کاری'
+		case 'weekly': {
+			const days = WEEK_DAYS_ORDER.filter((day) => rule.weekDays?.includes(day))
+			return days.length
+				? `هر هفته (${days.map(getWeekDayLabel).join('، ')})`
+				: 'هر هفته'
+		}
+		case 'monthly':
+			return rule.monthCalendar === 'gregorian'
+				? 'هر ماه (میلادی)'
+				: 'هر ماه (شمسی)'
+		case 'interval':
+			return `هر ${rule.interval || 1} روز`
+		default:
+			return ''
+	}
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import { FiBell, FiClock } from 'react-icons/fi'
+import { RequestNotificationModal } from '../tools/pomodoro/components/requestNotification-modal'
+import {
+	formatReminderOffset,
+	hasNotificationPermission,
+	REMINDER_OFFSETS,
+} from './todo-reminders'
+
+interface ReminderPickerProps {
+	dueTime: string
+	reminders: number[]
+	onChangeDueTime: (value: string) => void
+	onChangeReminders: (value: number[]) => void
+}
+
+export function ReminderPicker({
+	dueTime,
+	reminders,
+	onChangeDueTime,
+	onChangeReminders,
+}: ReminderPickerProps) {
+	const [showRequireNotificationModal, setShowRequireNotificationModal] =
+		useState(false)
+	const [pendingOffset, setPendingOffset] = useState<number | null>(null)
+
+	const toggleOffset = (offset: number) => {
+		onChangeReminders(
+			reminders.includes(offset)
+				? reminders.filter((item) => item !== offset)
+				: [...reminders, offset].sort((a, b) => a - b)
+		)
+	}
+
+	const onClickOffset = async (offset: number) => {
+		if (!reminders.includes(offset) && !(await hasNotificationPermission())) {
+			setPendingOffset(offset)
+			setShowRequireNotificationModal(true)
+			return
+		}
+		toggleOffset(offset)
+	}
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center gap-3">
+				<div className="flex-shrink-0 text-center">
+					<FiClock className="text-indigo-400" size={16} />
+				</div>
+				<input
+					type="time"
+					value={dueTime}
+					onChange={(e) => onChangeDueTime(e.target.value)}
+					className="w-full px-2 py-1 text-xs rounded-lg outline-none text-content bg-base-200"
+				/>
+			</div>
+
+			{dueTime && (
+				<div className="flex items-center gap-3">
+					<div className="flex-shrink-0 text-center">
+						<FiBell className="text-indigo-400" size={16} />
+					</div>
+					<div className="flex flex-wrap gap-1">
+						{REMINDER_OFFSETS.map((offset) => (
+							<button
+								key={offset}
+								type="button"
+								onClick={() => onClickOffset(offset)}
+								className={`px-1.5 py-0.5 rounded-full text-[10px] cursor-pointer ${reminders.includes(offset) ? 'bg-primary text-white' : 'text-muted bg-base-200'}`}
+							>
+								{formatReminderOffset(offset)}
+							</button>
+						))}
+					</div>
+				</div>
+			)}
+
+			<RequestNotificationModal
+				showRequireNotificationModal={showRequireNotificationModal}
+				setShowRequireNotificationModal={setShowRequireNotificationModal}
+				extensionPermission
+				onGranted={() => {
+					if (pendingOffset !== null) toggleOffset(pendingOffset)
+					setPendingOffset(null)
+				}}
+			/>
+		</div>
+	)
+}
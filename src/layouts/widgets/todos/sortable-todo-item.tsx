@@ -1,12 +1,13 @@
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import type { Todo } from '../calendar/interface/todo.interface'
+import type { Todo, TodoSubtask } from '../calendar/interface/todo.interface'
 import { TodoItem } from './todo.item'
 
 interface SortableTodoItemProps {
 	todo: Todo
-	toggleTodo: (id: string) => void
+	toggleTodo: (id: string, occurrenceDate?: string) => void
 	deleteTodo: (id: string) => void
+	updateSubtasks: (id: string, subtasks: TodoSubtask[]) => void
 	blurMode?: boolean
 	id: string
 }
@@ -15,6 +16,7 @@ export function SortableTodoItem({
 	todo,
 	toggleTodo,
 	deleteTodo,
+	updateSubtasks,
 	blurMode = false,
 	id,
 }: SortableTodoItemProps) {
@@ -33,12 +35,14 @@ export function SortableTodoItem({
 		<div
 			ref={setNodeRef}
 			style={style}
+			data-todo-id={todo.id}
 			className={`transition-transform duration-200 ${isDragging ? 'z-10' : ''}`}
 		>
 			<TodoItem
 				todo={todo}
 				toggleTodo={toggleTodo}
 				deleteTodo={deleteTodo}
+				updateSubtasks={updateSubtasks}
 				blurMode={blurMode}
 				isDragging={isDragging}
 				dragHandle={{ ...attributes, ...listeners }}
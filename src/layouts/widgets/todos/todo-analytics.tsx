@@ -0,0 +1,297 @@
+import {
+	BarElement,
+	CategoryScale,
+	type ChartData,
+	Chart as ChartJS,
+	type ChartOptions,
+	Legend,
+	LinearScale,
+	Tooltip,
+} from 'chart.js'
+import jalaliMoment from 'jalali-moment'
+import { useEffect, useState } from 'react'
+import { Bar } from 'react-chartjs-2'
+import { getFromStorage, watchStorage } from '@/common/storage'
+import { formatDateStr, type WidgetifyDate } from '../calendar/utils'
+import { parseTodoDate } from './recurrence'
+import type { TodoCompletionEvent } from './todo-history'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
+
+const TREND_DAYS = 14
+const CATEGORY_WEEKS = 6
+const TOP_CATEGORIES = 4
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const categoryColors = [
+	'rgba(99, 102, 241, 0.7)',
+	'rgba(34, 197, 94, 0.7)',
+	'rgba(234, 179, 8, 0.7)',
+	'rgba(239, 68, 68, 0.7)',
+	'rgba(156, 163, 175, 0.7)',
+]
+
+const chartOptions: ChartOptions<'bar'> = {
+	responsive: true,
+	maintainAspectRatio: false,
+	scales: {
+		x: {
+			stacked: true,
+			grid: { display: false },
+			ticks: { color: '#9ca3af', font: { size: 8 } },
+		},
+		y: {
+			stacked: true,
+			beginAtZero: true,
+			grid: { color: 'rgba(156, 163, 175, 0.15)' },
+			ticks: { color: '#9ca3af', font: { size: 8 }, precision: 0 },
+		},
+	},
+	plugins: {
+		legend: { display: false },
+		tooltip: {
+			backgroundColor: 'rgba(0, 0, 0, 0.7)',
+			rtl: true,
+		},
+	},
+}
+
+function getCompletedDay(event: TodoCompletionEvent) {
+	return formatDateStr(jalaliMoment(event.completedAt).locale('en'))
+}
+
+// Jalali weeks start on Saturday
+function getWeekStart(date: WidgetifyDate) {
+	return date
+		.clone()
+		.startOf('day')
+		.subtract((date.day() + 1) % 7, 'days')
+}
+
+function getStreaks(completedDays: Set<string>, today: WidgetifyDate) {
+	const day = today.clone()
+	// Today still counts as part of the streak until it ends
+	if (!completedDays.has(formatDateStr(day))) day.subtract(1, 'day')
+
+	let current = 0
+	while (completedDays.has(formatDateStr(day))) {
+		current++
+		day.subtract(1, 'day')
+	}
+
+	const timestamps = [...completedDays]
+		.map((dateStr) => parseTodoDate(dateStr).valueOf())
+		.sort((a, b) => a - b)
+
+	let longest = 0
+	let run = 0
+	timestamps.forEach((timestamp, index) => {
+		const gap = index ? Math.round((timestamp - timestamps[index - 1]) / DAY_MS) : 0
+		run = gap === 1 ? run + 1 : 1
+		longest = Math.max(longest, run)
+	})
+
+	return { current, longest }
+}
+
+function getAverageLag(events: TodoCompletionEvent[]) {
+	if (!events.length) return null
+
+	const total = events.reduce((sum, event) => {
+		const completed = parseTodoDate(getCompletedDay(event))
+		return (
+			sum +
+			Math.round(
+				(completed.valueOf() - parseTodoDate(event.date).valueOf()) / DAY_MS
+			)
+		)
+	}, 0)
+
+	return total / events.length
+}
+
+function describeLag(lag: number | null) {
+	if (lag === null) return '-'
+	if (Math.abs(lag) < 0.1) return 'سر موعد'
+
+	const days = Math.abs(lag).toFixed(1).replace(/\.0$/, '')
+	return lag > 0 ? `${days} روز دیرتر` : `${days} روز زودتر`
+}
+
+function getAnalytics(events: TodoCompletionEvent[]) {
+	const today = jalaliMoment().locale('en').startOf('day')
+	const countsByDay: Record<string, number> = {}
+	for (const event of events) {
+		const day = getCompletedDay(event)
+		countsByDay[day] = (countsByDay[day] || 0) + 1
+	}
+
+	const trendDays = Array.from({ length: TREND_DAYS }, (_, index) =>
+		today.clone().subtract(TREND_DAYS - 1 - index, 'days')
+	)
+
+	const thisWeekStart = getWeekStart(today)
+	const weekStarts = Array.from({ length: CATEGORY_WEEKS }, (_, index) =>
+		thisWeekStart.clone().subtract(CATEGORY_WEEKS - 1 - index, 'weeks')
+	)
+	const windowStart = weekStarts[0].valueOf()
+	const windowEvents = events.filter((event) => event.completedAt >= windowStart)
+
+	const categoryTotals: Record<string, number> = {}
+	for (const event of windowEvents) {
+		const category = event.category || 'بدون دسته'
+		categoryTotals[category] = (categoryTotals[category] || 0) + 1
+	}
+	const topCategories = Object.entries(categoryTotals)
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, TOP_CATEGORIES)
+		.map(([category]) => category)
+	const hasOther = Object.keys(categoryTotals).length > topCategories.length
+	const categoryGroups = hasOther ? [...topCategories, 'سایر'] : topCategories
+
+	const getCategoryGroup = (event: TodoCompletionEvent) => {
+		const category = event.category || 'بدون دسته'
+		return topCategories.includes(category) ? category : 'سایر'
+	}
+
+	const countInWeek = (weekStart: WidgetifyDate, group?: string) => {
+		const start = weekStart.valueOf()
+		const end = weekStart.clone().add(1, 'week').valueOf()
+		return events.filter(
+			(event) =>
+				event.completedAt >= start &&
+				event.completedAt < end &&
+				(!group || getCategoryGroup(event) === group)
+		).length
+	}
+
+	const lastWeekStart = thisWeekStart.clone().subtract(1, 'week')
+	const thisWeek = countInWeek(thisWeekStart)
+	const lastWeek = countInWeek(lastWeekStart)
+
+	return {
+		streaks: getStreaks(new Set(Object.keys(countsByDay)), today),
+		averageLag: getAverageLag(events),
+		thisWeek,
+		lastWeek,
+		weekChange: lastWeek
+			? Math.round(((thisWeek - lastWeek) / lastWeek) * 100)
+			: null,
+		trend: {
+			labels: trendDays.map((day) => day.clone().locale('fa').format('jD jMMM')),
+			datasets: [
+				{
+					label: 'تکمیل شده',
+					data: trendDays.map((day) => countsByDay[formatDateStr(day)] || 0),
+					backgroundColor: categoryColors[0],
+					borderRadius: 3,
+				},
+			],
+		} satisfies ChartData<'bar'>,
+		categories: {
+			labels: weekStarts.map((week) => week.clone().locale('fa').format('jD jMMM')),
+			datasets: categoryGroups.map((group, index) => ({
+				label: group,
+				data: weekStarts.map((week) => countInWeek(week, group)),
+				backgroundColor: categoryColors[index % categoryColors.length],
+				borderRadius: 3,
+			})),
+		} satisfies ChartData<'bar'>,
+	}
+}
+
+export function TodoAnalytics() {
+	const [events, setEvents] = useState<TodoCompletionEvent[]>([])
+
+	useEffect(() => {
+		getFromStorage('todoHistory').then((history) => setEvents(history || []))
+
+		return watchStorage('todoHistory', (history) => setEvents(history || []))
+	}, [])
+
+	if (!events.length) {
+		return (
+			<p className="px-2 py-6 text-xs text-center text-muted">
+				هنوز وظیفه‌ای تکمیل نکرده‌اید. با تکمیل وظایف، روند کارتان اینجا نمایش داده
+				می‌شود.
+			</p>
+		)
+	}
+
+	const analytics = getAnalytics(events)
+
+	return (
+		<div className="flex flex-col gap-1 p-2">
+			<div className="grid grid-cols-2 gap-1">
+				<StatCard
+					title="رکورد پیاپی"
+					value={`${analytics.streaks.current} روز`}
+					hint={`بیشترین: ${analytics.streaks.longest} روز`}
+				/>
+				<StatCard
+					title="میانگین تأخیر"
+					value={describeLag(analytics.averageLag)}
+					hint="نسبت به تاریخ وظیفه"
+				/>
+				<StatCard
+					title="این هفته"
+					value={`${analytics.thisWeek} وظیفه`}
+					hint={`هفته قبل: ${analytics.lastWeek}`}
+				/>
+				<StatCard
+					title="تغییر هفتگی"
+					value={
+						analytics.weekChange === null
+							? '-'
+							: `${analytics.weekChange > 0 ? '+' : ''}${analytics.weekChange}٪`
+					}
+					hint="نسبت به هفته قبل"
+				/>
+			</div>
+
+			<div className="p-1 border rounded-lg border-content">
+				<span className="text-xs text-content">تکمیل روزانه</span>
+				<div className="h-28" dir="ltr">
+					<Bar data={analytics.trend} options={chartOptions} />
+				</div>
+			</div>
+
+			<div className="p-1 border rounded-lg border-content">
+				<span className="text-xs text-content">دسته‌بندی‌ها در هفته‌های اخیر</span>
+				<div className="h-28" dir="ltr">
+					<Bar data={analytics.categories} options={chartOptions} />
+				</div>
+				<div className="flex flex-wrap gap-1.5 mt-1">
+					{analytics.categories.datasets.map((dataset) => (
+						<span
+							key={dataset.label}
+							className="flex items-center gap-1 text-[10px] text-muted"
+						>
+							<span
+								className="w-2 h-2 rounded-full"
+								style={{ backgroundColor: dataset.backgroundColor }}
+							/>
+							{dataset.label}
+						</span>
+					))}
+				</div>
+			</div>
+		</div>
+	)
+}
+
+interface StatCardProps {
+	title: string
+	value: string
+	hint: string
+}
+
+function StatCard({ title, value, hint }: StatCardProps) {
+	return (
+		<div className="p-1 border rounded-lg border-content">
+			<span className="text-[10px] text-muted">{title}</span>
+			<div className="text-sm font-medium text-content">{value}</div>
+			<span className="text-[10px] text-muted">{hint}</span>
+		</div>
+	)
+}
@@ -0,0 +1,340 @@
+import {
+	closestCorners,
+	DndContext,
+	type DragEndEvent,
+	DragOverlay,
+	type DragStartEvent,
+	PointerSensor,
+	useDroppable,
+	useSensor,
+	useSensors,
+} from '@dnd-kit/core'
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { type ReactNode, useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import Analytics from '@/analytics'
+import { type TodoBoardGroupBy, useTodoStore } from '@/context/todo.context'
+import type { Todo, TodoStatus } from '../calendar/interface/todo.interface'
+import { getTodoKey, getTodoStatus } from './recurrence'
+import { SortableTodoItem } from './sortable-todo-item'
+import { TodoItem } from './todo.item'
+
+interface TodoBoardProps {
+	todos: Todo[]
+	blurMode: boolean
+}
+
+interface BoardColumn {
+	key: string
+	title: string
+	todos: Todo[]
+}
+
+const COLUMN_PREFIX = 'column:'
+
+const statusColumns: { key: TodoStatus; title: string }[] = [
+	{ key: 'todo', title: 'برای انجام' },
+	{ key: 'in_progress', title: 'در حال انجام' },
+	{ key: 'done', title: 'انجام شده' },
+]
+
+function getColumns(todos: Todo[], groupBy: TodoBoardGroupBy): BoardColumn[] {
+	if (groupBy === 'status') {
+		return statusColumns.map((column) => ({
+			...column,
+			todos: todos.filter((todo) => getTodoStatus(todo) === column.key),
+		}))
+	}
+
+	const categories = [
+		...new Set(todos.map((todo) => todo.category).filter((item) => !!item)),
+	] as string[]
+
+	return [
+		{
+			key: '',
+			title: 'بدون دسته',
+			todos: todos.filter((todo) => !todo.category),
+		},
+		...categories.map((category) => ({
+			key: category,
+			title: category,
+			todos: todos.filter((todo) => todo.category === category),
+		})),
+	]
+}
+
+function moveToColumn(
+	todo: Todo,
+	occurrence: Todo,
+	groupBy: TodoBoardGroupBy,
+	columnKey: string
+): Todo {
+	if (groupBy === 'category') {
+		return { ...todo, category: columnKey || undefined, updatedAt: Date.now() }
+	}
+
+	const status = columnKey as TodoStatus
+	if (!todo.recurrence) {
+		return { ...todo, status, completed: status === 'done', updatedAt: Date.now() }
+	}
+
+	const completedDates = (todo.completedDates || []).filter(
+		(date) => date !== occurrence.date
+	)
+	if (status === 'done') completedDates.push(occurrence.date)
+
+	return {
+		...todo,
+		status: status === 'done' ? todo.status : status,
+		completedDates: completedDates.sort(),
+		updatedAt: Date.now(),
+	}
+}
+
+export function TodoBoard({ todos: boardTodos, blurMode }: TodoBoardProps) {
+	const {
+		todos,
+		todoOptions,
+		updateOptions,
+		reorderTodos,
+		removeTodo,
+		toggleTodo,
+		updateTodo,
+	} = useTodoStore()
+	const [activeKey, setActiveKey] = useState<string | null>(null)
+	const groupBy = todoOptions.boardGroupBy || 'status'
+	const wipLimits = todoOptions.wipLimits || {}
+	const columns = getColumns(boardTodos, groupBy)
+
+	const sensors = useSensors(
+		useSensor(PointerSensor, {
+			activationConstraint: {
+				distance: 5,
+			},
+		})
+	)
+
+	const getLimit = (columnKey: string) => wipLimits[`${groupBy}:${columnKey}`] || 0
+
+	const onChangeLimit = (columnKey: string, value: number) => {
+		const limits = { ...wipLimits }
+		if (value > 0) limits[`${groupBy}:${columnKey}`] = value
+		else delete limits[`${groupBy}:${columnKey}`]
+
+		updateOptions({ wipLimits: limits })
+	}
+
+	const onChangeGroupBy = (value: TodoBoardGroupBy) => {
+		updateOptions({ boardGroupBy: value })
+		Analytics.event('todo_board_group_by', { group_by: value })
+	}
+
+	const findColumn = (id: string) => {
+		if (id.startsWith(COLUMN_PREFIX)) {
+			return columns.find((column) => column.key === id.slice(COLUMN_PREFIX.length))
+		}
+		return columns.find((column) =>
+			column.todos.some((todo) => getTodoKey(todo) === id)
+		)
+	}
+
+	const handleDragStart = ({ active }: DragStartEvent) => {
+		setActiveKey(String(active.id))
+	}
+
+	const handleDragEnd = ({ active, over }: DragEndEvent) => {
+		setActiveKey(null)
+		if (!over || active.id === over.id) return
+
+		const activeId = String(active.id)
+		const overId = String(over.id)
+		const fromColumn = findColumn(activeId)
+		const toColumn = findColumn(overId)
+		if (!fromColumn || !toColumn) return
+
+		const occurrence = fromColumn.todos.find((todo) => getTodoKey(todo) === activeId)
+		const todo = todos.find((item) => item.id === occurrence?.id)
+		if (!occurrence || !todo) return
+
+		const changesColumn = fromColumn.key !== toColumn.key
+		const limit = getLimit(toColumn.key)
+		if (changesColumn && limit && toColumn.todos.length >= limit) {
+			toast.error(`ستون «${toColumn.title}» به سقف ${limit} وظیفه رسیده است`)
+			return
+		}
+
+		const targetTodos = toColumn.todos.filter((item) => getTodoKey(item) !== activeId)
+		const overIndex = targetTodos.findIndex((item) => getTodoKey(item) === overId)
+		targetTodos.splice(
+			overIndex === -1 ? targetTodos.length : overIndex,
+			0,
+			occurrence
+		)
+
+		// Column by column, occurrences of a recurring todo move with their series
+		const boardIds = [
+			...new Set(
+				columns.flatMap((column) =>
+					(column.key === toColumn.key
+						? targetTodos
+						: column.todos.filter((item) => getTodoKey(item) !== activeId)
+					).map((item) => item.id)
+				)
+			),
+		]
+		const movedTodo = changesColumn
+			? moveToColumn(todo, occurrence, groupBy, toColumn.key)
+			: todo
+		const boardTodosInOrder = boardIds
+			.map((id) =>
+				id === movedTodo.id ? movedTodo : todos.find((item) => item.id === id)
+			)
+			.filter((item): item is Todo => !!item)
+		const otherTodos = todos.filter((item) => !boardIds.includes(item.id))
+
+		reorderTodos([...otherTodos, ...boardTodosInOrder])
+
+		Analytics.event(changesColumn ? 'todo_board_move' : 'todo_reorder', {
+			group_by: groupBy,
+		})
+	}
+
+	const activeTodo = activeKey
+		? boardTodos.find((todo) => getTodoKey(todo) === activeKey)
+		: null
+
+	return (
+		<div className="flex flex-col h-full gap-1.5">
+			<div className="flex gap-0.5">
+				<button
+					onClick={() => onChangeGroupBy('status')}
+					className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${groupBy === 'status' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
+				>
+					وضعیت
+				</button>
+				<button
+					onClick={() => onChangeGroupBy('category')}
+					className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${groupBy === 'category' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
+				>
+					دسته‌بندی
+				</button>
+			</div>
+
+			<DndContext
+				sensors={sensors}
+				collisionDetection={closestCorners}
+				onDragStart={handleDragStart}
+				onDragEnd={handleDragEnd}
+				onDragCancel={() => setActiveKey(null)}
+			>
+				<div
+					className={`flex flex-grow gap-1.5 overflow-x-auto overflow-y-hidden ${blurMode ? 'blur-mode' : 'disabled-blur-mode'}`}
+				>
+					{columns.map((column) => (
+						<BoardColumnView
+							key={column.key}
+							column={column}
+							limit={getLimit(column.key)}
+							onChangeLimit={(value) => onChangeLimit(column.key, value)}
+						>
+							{column.todos.map((todo) => (
+								<SortableTodoItem
+									key={getTodoKey(todo)}
+									id={getTodoKey(todo)}
+									todo={todo}
+									deleteTodo={removeTodo}
+									toggleTodo={toggleTodo}
+									updateSubtasks={(id, subtasks) =>
+										updateTodo(id, { subtasks })
+									}
+									blurMode={blurMode}
+								/>
+							))}
+						</BoardColumnView>
+					))}
+				</div>
+
+				<DragOverlay>
+					{activeTodo && (
+						<TodoItem
+							todo={activeTodo}
+							deleteTodo={removeTodo}
+							toggleTodo={toggleTodo}
+							updateSubtasks={() => {}}
+							isDragging
+						/>
+					)}
+				</DragOverlay>
+			</DndContext>
+		</div>
+	)
+}
+
+interface BoardColumnViewProps {
+	column: BoardColumn
+	limit: number
+	onChangeLimit: (value: number) => void
+	children: ReactNode
+}
+
+function BoardColumnView({
+	column,
+	limit,
+	onChangeLimit,
+	children,
+}: BoardColumnViewProps) {
+	const { setNodeRef, isOver } = useDroppable({ id: `${COLUMN_PREFIX}${column.key}` })
+	const [isEditingLimit, setIsEditingLimit] = useState(false)
+	const limitInputRef = useRef<HTMLInputElement>(null)
+	const isFull = limit > 0 && column.todos.length >= limit
+
+	useEffect(() => {
+		if (isEditingLimit) limitInputRef.current?.focus()
+	}, [isEditingLimit])
+
+	return (
+		<div
+			ref={setNodeRef}
+			className={`flex flex-col flex-shrink-0 w-40 h-full p-1 rounded-xl transition-colors ${isOver ? 'bg-primary/10' : 'bg-base-200/60'}`}
+		>
+			<div className="flex items-center justify-between px-1 mb-1">
+				<span className="text-[10px] font-medium truncate text-content">
+					{column.title}
+				</span>
+				{isEditingLimit ? (
+					<input
+						type="number"
+						min={0}
+						ref={limitInputRef}
+						defaultValue={limit || ''}
+						placeholder="∞"
+						onBlur={(e) => {
+							onChangeLimit(Math.max(0, Number(e.target.value) || 0))
+							setIsEditingLimit(false)
+						}}
+						onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+						className="w-10 px-1 text-[10px] rounded outline-none text-content bg-base-300"
+					/>
+				) : (
+					<button
+						onClick={() => setIsEditingLimit(true)}
+						title="محدودیت تعداد وظایف این ستون"
+						className={`px-1 rounded text-[10px] cursor-pointer hover:bg-base-300 ${isFull ? 'text-error' : 'text-muted'}`}
+					>
+						{limit ? `${column.todos.length}/${limit}` : column.todos.length}
+					</button>
+				)}
+			</div>
+
+			<div className="flex-grow space-y-1.5 overflow-y-auto">
+				<SortableContext
+					items={column.todos.map(getTodoKey)}
+					strategy={verticalListSortingStrategy}
+				>
+					{children}
+				</SortableContext>
+			</div>
+		</div>
+	)
+}
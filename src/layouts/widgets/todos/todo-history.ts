@@ -0,0 +1,82 @@
+import { getFromStorage, setToStorage } from '@/common/storage'
+import type { Todo } from '../calendar/interface/todo.interface'
+import { parseTodoDate } from './recurrence'
+
+export interface TodoCompletionEvent {
+	todoId: string
+	/** Jalali date the todo (or occurrence) was planned for */
+	date: string
+	completedAt: number
+	category?: string
+	priority?: Todo['priority']
+}
+
+// About two years of a busy list
+const MAX_HISTORY_EVENTS = 5000
+
+let pending: Promise<void> = Promise.resolve()
+
+function getEventKey(todoId: string, date: string) {
+	return `${todoId}|${date}`
+}
+
+function getCompletedKeys(todo: Todo) {
+	if (todo.recurrence) {
+		return (todo.completedDates || []).map((date) => getEventKey(todo.id, date))
+	}
+	return todo.completed ? [getEventKey(todo.id, todo.date)] : []
+}
+
+/**
+ * Brings the local completion history in line with the todos. Completions that
+ * happened anywhere (this tab, the reminder notification, another device through
+ * sync) are added with the todo's `updatedAt`, or its planned day when it has
+ * none, and completions that were undone are dropped. Deleted todos keep their
+ * history.
+ */
+export function reconcileTodoHistory(todos: Todo[]) {
+	// Runs one at a time, overlapping read-modify-writes would duplicate events
+	pending = pending.then(() => reconcile(todos)).catch(() => {})
+	return pending
+}
+
+async function reconcile(todos: Todo[]) {
+	const history = (await getFromStorage('todoHistory')) || []
+	const historyKeys = new Set(
+		history.map((event) => getEventKey(event.todoId, event.date))
+	)
+
+	const completedKeys = new Set<string>()
+	const added: TodoCompletionEvent[] = []
+	for (const todo of todos) {
+		for (const key of getCompletedKeys(todo)) {
+			completedKeys.add(key)
+			if (historyKeys.has(key)) continue
+
+			const date = key.slice(todo.id.length + 1)
+			added.push({
+				todoId: todo.id,
+				date,
+				// Not now, that would pile up old completions on today
+				completedAt: todo.updatedAt || parseTodoDate(date).valueOf(),
+				category: todo.category,
+				priority: todo.priority,
+			})
+		}
+	}
+
+	const todoIds = new Set(todos.map((todo) => todo.id))
+	const kept = history.filter(
+		(event) =>
+			!todoIds.has(event.todoId) ||
+			completedKeys.has(getEventKey(event.todoId, event.date))
+	)
+
+	if (!added.length && kept.length === history.length) return
+
+	const updated = [...kept, ...added]
+		.sort((a, b) => a.completedAt - b.completedAt)
+		.slice(-MAX_HISTORY_EVENTS)
+
+	await setToStorage('todoHistory', updated)
+}
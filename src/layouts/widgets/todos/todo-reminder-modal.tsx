@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react'
+import { FiBell } from 'react-icons/fi'
+import Analytics from '@/analytics'
+import { getFromStorage } from '@/common/storage'
+import { Button } from '@/components/button/button'
+import Modal from '@/components/modal'
+import type { Todo } from '../calendar/interface/todo.interface'
+import {
+	isOccurrenceDone,
+	parseTodoReminderNotification,
+	SNOOZE_MINUTES,
+	TODO_REMINDER_MESSAGE,
+	type TodoReminderAction,
+	type TodoReminderMessage,
+} from './todo-reminders'
+
+/**
+ * Opened from a clicked reminder notification with the same actions as its buttons,
+ * which Firefox does not show.
+ */
+export function TodoReminderModal() {
+	const [notificationId] = useState(() =>
+		new URLSearchParams(window.location.search).get('reminder')
+	)
+	const [todo, setTodo] = useState<Todo | null>(null)
+	const occurrence = notificationId
+		? parseTodoReminderNotification(notificationId)
+		: null
+
+	useEffect(() => {
+		if (!occurrence) return
+
+		async function loadTodo() {
+			const todos = (await getFromStorage('todos')) || []
+			const found = todos.find((item) => item.id === occurrence?.todoId)
+			if (found && occurrence && !isOccurrenceDone(found, occurrence.date)) {
+				setTodo(found)
+			}
+		}
+
+		loadTodo()
+	}, [])
+
+	const onClose = () => {
+		setTodo(null)
+		// A reload must not ask about the same reminder again
+		window.history.replaceState(null, '', window.location.pathname)
+	}
+
+	const onAction = async (action: TodoReminderAction) => {
+		if (!notificationId) return
+
+		// The background owns the alarms and the sync outbox
+		const message: TodoReminderMessage = {
+			type: TODO_REMINDER_MESSAGE,
+			notificationId,
+			action,
+		}
+		await browser.runtime.sendMessage(message)
+		Analytics.event(`todo_reminder_${action}`)
+		onClose()
+	}
+
+	if (!todo || !occurrence) return null
+
+	return (
+		<Modal isOpen={true} onClose={onClose} size="sm" title="یادآوری" direction="rtl">
+			<div className="flex flex-col gap-4 p-2">
+				<div className="flex items-start gap-3">
+					<FiBell className="flex-shrink-0 mt-1 text-primary" size={18} />
+					<div>
+						<p className="font-medium break-words text-content">
+							{todo.text}
+						</p>
+						<p className="mt-1 text-xs text-muted">
+							{todo.dueTime
+								? `موعد: ${occurrence.date} ساعت ${todo.dueTime}`
+								: occurrence.date}
+						</p>
+					</div>
+				</div>
+
+				<div className="flex gap-3">
+					<Button
+						onClick={() => onAction('snooze')}
+						className="flex-1 px-4 py-2 text-sm font-medium border rounded-2xl border-content text-content"
+						size="md"
+					>
+						{`${SNOOZE_MINUTES} دقیقه بعد یادآوری کن`}
+					</Button>
+					<Button
+						isPrimary={true}
+						onClick={() => onAction('done')}
+						className="flex-1 px-4 py-2 text-sm font-medium text-white rounded-2xl"
+						size="md"
+					>
+						انجام شد
+					</Button>
+				</div>
+			</div>
+		</Modal>
+	)
+}
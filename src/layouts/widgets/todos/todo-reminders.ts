@@ -0,0 +1,239 @@
+import jalaliMoment from 'jalali-moment'
+import { getFromStorage, setToStorage } from '@/common/storage'
+import { drainSyncOutbox, enqueueSync } from '@/layouts/navbar/sync/sync-outbox'
+import { SyncTarget } from '@/layouts/navbar/sync/sync-tasks'
+import type { Todo } from '../calendar/interface/todo.interface'
+import { formatDateStr } from '../calendar/utils'
+import { occursOn, parseTodoDate } from './recurrence'
+
+export const TODO_REMINDER_ALARM_PREFIX = 'todo-reminder:'
+export const TODO_REMINDER_REFRESH_ALARM = 'todo-reminder-refresh'
+
+export const REMINDER_OFFSETS = [0, 10, 30, 60, 1440]
+
+export const SNOOZE_MINUTES = 10
+const SNOOZE_KEY = 'snooze'
+// Occurrences of recurring todos are scheduled this far ahead; the refresh alarm
+// rolls the window forward.
+const RECURRING_WINDOW_DAYS = 3
+
+export function formatReminderOffset(minutes: number) {
+	if (minutes === 0) return 'سر موعد'
+	if (minutes % 1440 === 0) return `${minutes / 1440} روز قبل`
+	if (minutes % 60 === 0) return `${minutes / 60} ساعت قبل`
+	return `${minutes} دقیقه قبل`
+}
+
+export function getDueTimestamp(dateStr: string, dueTime: string) {
+	const [hours, minutes] = dueTime.split(':').map(Number)
+	return parseTodoDate(dateStr).hours(hours).minutes(minutes).valueOf()
+}
+
+// Todo ids and dates both contain dashes, so parts are joined with a pipe
+function getAlarmName(todoId: string, date: string, key: number | string) {
+	return `${TODO_REMINDER_ALARM_PREFIX}${todoId}|${date}|${key}`
+}
+
+function parseAlarmName(name: string) {
+	if (!name.startsWith(TODO_REMINDER_ALARM_PREFIX)) return null
+
+	const [todoId, date, key] = name.slice(TODO_REMINDER_ALARM_PREFIX.length).split('|')
+	if (!todoId || !date) return null
+
+	return { todoId, date, key }
+}
+
+/** Reads the todo and the date of an occurrence back from its notification id */
+export function parseTodoReminderNotification(notificationId: string) {
+	return parseAlarmName(notificationId)
+}
+
+/** Notifications are optional, reminders stay silent until they are granted */
+export function hasNotificationPermission() {
+	return browser.permissions.contains({ permissions: ['notifications'] })
+}
+
+export function isOccurrenceDone(todo: Todo, date: string) {
+	return todo.recurrence ? !!todo.completedDates?.includes(date) : todo.completed
+}
+
+function getPendingDates(todo: Todo) {
+	if (!todo.recurrence) return todo.completed ? [] : [todo.date]
+
+	const dates: string[] = []
+	const date = jalaliMoment().startOf('day')
+	for (let i = 0; i < RECURRING_WINDOW_DAYS; i++) {
+		const dateStr = formatDateStr(date)
+		if (occursOn(todo, dateStr) && !isOccurrenceDone(todo, dateStr)) {
+			dates.push(dateStr)
+		}
+		date.add(1, 'day')
+	}
+
+	return dates
+}
+
+/**
+ * Replaces the reminder alarms with the ones due for the current todos. Snoozed
+ * reminders are kept, they are cancelled when they fire for a finished todo.
+ */
+export async function scheduleTodoReminders() {
+	const [todos, alarms] = await Promise.all([
+		getFromStorage('todos'),
+		browser.alarms.getAll(),
+	])
+
+	await Promise.all(
+		alarms
+			.filter((alarm) => {
+				const parsed = parseAlarmName(alarm.name)
+				return parsed && parsed.key !== SNOOZE_KEY
+			})
+			.map((alarm) => browser.alarms.clear(alarm.name))
+	)
+
+	const now = Date.now()
+	for (const todo of todos || []) {
+		if (!todo.dueTime || !todo.reminders?.length) continue
+
+		for (const date of getPendingDates(todo)) {
+			const due = getDueTimestamp(date, todo.dueTime)
+			for (const offset of todo.reminders) {
+				const when = due - offset * 60 * 1000
+				if (when <= now) continue
+
+				browser.alarms.create(getAlarmName(todo.id, date, offset), { when })
+			}
+		}
+	}
+}
+
+export async function showTodoReminder(alarmName: string) {
+	const parsed = parseAlarmName(alarmName)
+	if (!parsed || !(await hasNotificationPermission())) return
+
+	const todos = (await getFromStorage('todos')) || []
+	const todo = todos.find((item) => item.id === parsed.todoId)
+	if (!todo || isOccurrenceDone(todo, parsed.date)) return
+
+	await browser.notifications.create(
+		`${TODO_REMINDER_ALARM_PREFIX}${todo.id}|${parsed.date}`,
+		{
+			type: 'basic',
+			iconUrl: browser.runtime.getURL('/icons/icon128.png'),
+			title: todo.text,
+			message: todo.dueTime
+				? `موعد: ${parsed.date} ساعت ${todo.dueTime}`
+				: parsed.date,
+			// Firefox does not support notification buttons, clicking the
+			// notification opens the same actions in a new tab
+			...(import.meta.env.FIREFOX
+				? {}
+				: {
+						buttons: [
+							{ title: `${SNOOZE_MINUTES} دقیقه بعد یادآوری کن` },
+							{ title: 'انجام شد' },
+						],
+						requireInteraction: true,
+					}),
+		}
+	)
+}
+
+async function completeTodoOccurrence(todoId: string, date: string) {
+	const todos = (await getFromStorage('todos')) || []
+	const updatedTodos = todos.map((todo) => {
+		if (todo.id !== todoId) return todo
+
+		if (todo.recurrence) {
+			const completedDates = todo.completedDates || []
+			return completedDates.includes(date)
+				? todo
+				: {
+						...todo,
+						completedDates: [...completedDates, date].sort(),
+						updatedAt: Date.now(),
+					}
+		}
+
+		return {
+			...todo,
+			completed: true,
+			status: 'done' as const,
+			updatedAt: Date.now(),
+		}
+	})
+
+	await setToStorage('todos', updatedTodos)
+	await scheduleTodoReminders()
+	await enqueueSync(SyncTarget.TODOS)
+	await drainSyncOutbox()
+}
+
+export type TodoReminderAction = 'snooze' | 'done'
+
+export interface TodoReminderMessage {
+	type: typeof TODO_REMINDER_MESSAGE
+	notificationId: string
+	action: TodoReminderAction
+}
+
+export const TODO_REMINDER_MESSAGE = 'todo-reminder-action'
+
+export function isTodoReminderMessage(message: unknown): message is TodoReminderMessage {
+	return (message as TodoReminderMessage | null)?.type === TODO_REMINDER_MESSAGE
+}
+
+export async function handleTodoReminderAction(
+	notificationId: string,
+	action: TodoReminderAction
+) {
+	const parsed = parseAlarmName(notificationId)
+	if (!parsed) return
+
+	await browser.notifications?.clear(notificationId)
+
+	if (action === 'snooze') {
+		browser.alarms.create(getAlarmName(parsed.todoId, parsed.date, SNOOZE_KEY), {
+			when: Date.now() + SNOOZE_MINUTES * 60 * 1000,
+		})
+	} else {
+		await completeTodoOccurrence(parsed.todoId, parsed.date)
+	}
+}
+
+export function isTodoReminderNotification(notificationId: string) {
+	return notificationId.startsWith(TODO_REMINDER_ALARM_PREFIX)
+}
+
+let isListening = false
+
+/**
+ * The notifications API only exists once the optional permission is granted, so this
+ * is called again whenever a permission is added.
+ */
+export function watchTodoReminderNotifications() {
+	if (isListening || !browser.notifications) return
+	isListening = true
+
+	browser.notifications.onButtonClicked?.addListener(
+		async (notificationId, buttonIndex) => {
+			if (isTodoReminderNotification(notificationId)) {
+				await handleTodoReminderAction(
+					notificationId,
+					buttonIndex === 0 ? 'snooze' : 'done'
+				)
+			}
+		}
+	)
+	// Opens a tab with the snooze and done actions, Firefox shows no buttons
+	browser.notifications.onClicked.addListener(async (notificationId) => {
+		if (isTodoReminderNotification(notificationId)) {
+			await browser.notifications.clear(notificationId)
+			const query = new URLSearchParams({ reminder: notificationId })
+			browser.tabs.create({
+				url: `${browser.runtime.getURL('/newtab.html')}?${query}`,
+			})
+		}
+	})
+}
@@ -0,0 +1,164 @@
+import {
+	closestCenter,
+	DndContext,
+	type DragEndEvent,
+	PointerSensor,
+	useSensor,
+	useSensors,
+} from '@dnd-kit/core'
+import {
+	arrayMove,
+	SortableContext,
+	useSortable,
+	verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { useState } from 'react'
+import { FiPlus, FiX } from 'react-icons/fi'
+import { MdDragIndicator } from 'react-icons/md'
+import { v4 as uuidv4 } from 'uuid'
+import Analytics from '@/analytics'
+import CustomCheckbox from '@/components/checkbox'
+import { TextInput } from '@/components/text-input'
+import type { TodoSubtask } from '../calendar/interface/todo.interface'
+
+interface TodoSubtasksProps {
+	subtasks: TodoSubtask[]
+	onChange: (subtasks: TodoSubtask[]) => void
+}
+
+export function TodoSubtasks({ subtasks, onChange }: TodoSubtasksProps) {
+	const [text, setText] = useState('')
+
+	const sensors = useSensors(
+		useSensor(PointerSensor, {
+			activationConstraint: {
+				distance: 5,
+			},
+		})
+	)
+
+	const onAdd = () => {
+		if (!text.trim()) return
+
+		onChange([...subtasks, { id: uuidv4(), text: text.trim(), completed: false }])
+		setText('')
+		Analytics.event('todo_subtask_added')
+	}
+
+	const onToggle = (id: string) => {
+		onChange(
+			subtasks.map((subtask) =>
+				subtask.id === id
+					? { ...subtask, completed: !subtask.completed }
+					: subtask
+			)
+		)
+	}
+
+	const onRemove = (id: string) => {
+		onChange(subtasks.filter((subtask) => subtask.id !== id))
+	}
+
+	const handleDragEnd = ({ active, over }: DragEndEvent) => {
+		if (!over || active.id === over.id) return
+
+		const activeIndex = subtasks.findIndex((subtask) => subtask.id === active.id)
+		const overIndex = subtasks.findIndex((subtask) => subtask.id === over.id)
+		if (activeIndex === -1 || overIndex === -1) return
+
+		onChange(arrayMove(subtasks, activeIndex, overIndex))
+	}
+
+	return (
+		<div className="mt-1 space-y-1">
+			<DndContext
+				sensors={sensors}
+				collisionDetection={closestCenter}
+				onDragEnd={handleDragEnd}
+			>
+				<SortableContext
+					items={subtasks.map((subtask) => subtask.id)}
+					strategy={verticalListSortingStrategy}
+				>
+					{subtasks.map((subtask) => (
+						<SortableSubtask
+							key={subtask.id}
+							subtask={subtask}
+							onToggle={onToggle}
+							onRemove={onRemove}
+						/>
+					))}
+				</SortableContext>
+			</DndContext>
+
+			<div className="flex items-center gap-1">
+				<TextInput
+					value={text}
+					onChange={setText}
+					onKeyDown={(e) => e.key === 'Enter' && onAdd()}
+					placeholder="افزودن زیرکار..."
+					className="text-[10px] placeholder:text-[10px] py-1"
+				/>
+				<button
+					onClick={onAdd}
+					disabled={!text.trim()}
+					className="p-1 rounded-full cursor-pointer text-muted hover:bg-primary/10 disabled:opacity-40 disabled:cursor-not-allowed"
+				>
+					<FiPlus size={13} />
+				</button>
+			</div>
+		</div>
+	)
+}
+
+interface SortableSubtaskProps {
+	subtask: TodoSubtask
+	onToggle: (id: string) => void
+	onRemove: (id: string) => void
+}
+
+function SortableSubtask({ subtask, onToggle, onRemove }: SortableSubtaskProps) {
+	const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
+		useSortable({
+			id: subtask.id,
+		})
+
+	const style = {
+		transform: CSS.Transform.toString(transform),
+		transition,
+	}
+
+	return (
+		<div
+			ref={setNodeRef}
+			style={style}
+			className={`flex items-center gap-1 group/subtask ${isDragging ? 'opacity-50' : ''}`}
+		>
+			<div
+				{...attributes}
+				{...listeners}
+				className="flex-shrink-0 cursor-grab active:cursor-grabbing p-0.5"
+			>
+				<MdDragIndicator size={10} className="text-muted" />
+			</div>
+			<CustomCheckbox
+				checked={subtask.completed}
+				onChange={() => onToggle(subtask.id)}
+				className="!w-3.5 !h-3.5 !border"
+			/>
+			<span
+				onClick={() => onToggle(subtask.id)}
+				className={`flex-1 break-words cursor-pointer ${subtask.completed ? 'line-through opacity-60' : ''}`}
+			>
+				{subtask.text}
+			</span>
+			<button
+				onClick={() => onRemove(subtask.id)}
+				className="p-0.5 rounded-full cursor-pointer opacity-0 group-hover/subtask:opacity-100 hover:bg-red-500/10 hover:text-error transition-opacity"
+			>
+				<FiX size={10} />
+			</button>
+		</div>
+	)
+}
@@ -0,0 +1,181 @@
+import jalaliMoment from 'jalali-moment'
+import { describe, expect, it } from 'vitest'
+import type { Todo } from '../calendar/interface/todo.interface'
+import { formatDateStr } from '../calendar/utils'
+import {
+	buildImportedTodos,
+	exportTodos,
+	getDefaultTodoMapping,
+	parseTodoFile,
+} from './todo-transfer'
+
+const today = jalaliMoment('2025-10-18', 'YYYY-MM-DD').locale('fa')
+
+function todo(changes: Partial<Todo> = {}): Todo {
+	return {
+		id: 't1',
+		onlineId: null,
+		text: 'اجاره',
+		completed: false,
+		date: '1404-06-31',
+		priority: 'medium',
+		order: 0,
+		...changes,
+	}
+}
+
+function roundTrip(todos: Todo[]) {
+	const table = parseTodoFile(exportTodos(todos, 'csv'), 'csv', today)
+	return buildImportedTodos(table, getDefaultTodoMapping(table.columns), [], today)
+		.todos
+}
+
+describe('CSV export', () => {
+	it('keeps the recurrence of a todo', () => {
+		const [imported] = roundTrip([
+			todo({ recurrence: { frequency: 'weekly', weekDays: [1, 3] } }),
+		])
+
+		expect(imported.recurrence).toEqual({ frequency: 'weekly', weekDays: [1, 3] })
+	})
+
+	it('keeps Jalali and Gregorian monthly rules apart', () => {
+		const [jalali, gregorian] = roundTrip([
+			todo({ recurrence: { frequency: 'monthly', monthCalendar: 'jalali' } }),
+			todo({
+				id: 't2',
+				recurrence: { frequency: 'monthly', monthCalendar: 'gregorian' },
+			}),
+		])
+
+		expect(jalali.recurrence).toEqual({
+			frequency: 'monthly',
+			monthCalendar: 'jalali',
+		})
+		expect(gregorian.recurrence).toEqual({
+			frequency: 'monthly',
+			monthCalendar: 'gregorian',
+		})
+	})
+
+	it('leaves the column empty for a single todo', () => {
+		expect(roundTrip([todo()])[0].recurrence).toBeNull()
+	})
+})
+
+describe('ICS export', () => {
+	it('lists the dates of a Jalali monthly series', () => {
+		const ics = exportTodos(
+			[
+				todo({
+					recurrence: {
+						frequency: 'monthly',
+						monthCalendar: 'jalali',
+						until: '1404-09-30',
+					},
+				}),
+			],
+			'ics'
+		)
+
+		expect(ics).not.toContain('RRULE')
+		// 30 Mehr, 30 Aban and 30 Azar
+		expect(ics).toContain('RDATE;VALUE=DATE:20251022,20251121,20251221\r\n')
+	})
+
+	it('keeps the due time on listed dates', () => {
+		const ics = exportTodos(
+			[
+				todo({
+					dueTime: '09:30',
+					recurrence: { frequency: 'monthly', until: '1404-07-30' },
+				}),
+			],
+			'ics'
+		)
+
+		expect(ics).toContain('RDATE:20251022T093000\r\n')
+	})
+
+	it('writes an RRULE for Gregorian months', () => {
+		const ics = exportTodos(
+			[todo({ recurrence: { frequency: 'monthly', monthCalendar: 'gregorian' } })],
+			'ics'
+		)
+
+		expect(ics).toContain('RRULE:FREQ=MONTHLY\r\n')
+		expect(ics).not.toContain('RDATE')
+	})
+})
+
+describe('ICS import', () => {
+	function icsRoundTrip(todos: Todo[]) {
+		const table = parseTodoFile(exportTodos(todos, 'ics'), 'ics', today)
+		return buildImportedTodos(table, getDefaultTodoMapping(table.columns), [], today)
+			.todos
+	}
+
+	it('reads back a Gregorian rule', () => {
+		const [imported] = icsRoundTrip([
+			todo({
+				recurrence: {
+					frequency: 'weekly',
+					weekDays: [1, 3],
+					until: '1404-09-30',
+				},
+			}),
+		])
+
+		expect(imported.date).toBe('1404-06-31')
+		expect(imported.recurrence).toEqual({
+			frequency: 'weekly',
+			weekDays: [1, 3],
+			until: '1404-09-30',
+		})
+	})
+
+	it('reads back a Jalali monthly series as one todo', () => {
+		const [imported, ...rest] = icsRoundTrip([
+			todo({
+				dueTime: '09:30',
+				recurrence: {
+					frequency: 'monthly',
+					monthCalendar: 'jalali',
+					until: '1404-09-30',
+				},
+			}),
+		])
+
+		expect(rest).toHaveLength(0)
+		expect(imported.dueTime).toBe('09:30')
+		expect(imported.recurrence).toEqual({
+			frequency: 'monthly',
+			monthCalendar: 'jalali',
+			until: '1404-09-30',
+		})
+	})
+
+	it('converts a UTC due time to local time', () => {
+		const ics = [
+			'BEGIN:VCALENDAR',
+			'BEGIN:VTODO',
+			'UID:utc',
+			'SUMMARY:جلسه',
+			'DUE:20251021T223000Z',
+			'END:VTODO',
+			'END:VCALENDAR',
+		].join('\r\n')
+		const table = parseTodoFile(ics, 'ics', today)
+		const [imported] = buildImportedTodos(
+			table,
+			getDefaultTodoMapping(table.columns),
+			[],
+			today
+		).todos
+
+		// 02:00 the next day in Tehran
+		const local = jalaliMoment(Date.UTC(2025, 9, 21, 22, 30)).locale('en')
+		expect(imported.date).toBe(formatDateStr(local))
+		expect(imported.dueTime).toBe(local.format('HH:mm'))
+	})
+})
@@ -0,0 +1,669 @@
+import jalaliMoment from 'jalali-moment'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+	Todo,
+	TodoRecurrence,
+	TodoStatus,
+	TodoSubtask,
+} from '../calendar/interface/todo.interface'
+import { formatDateStr, type WidgetifyDate } from '../calendar/utils'
+import { parseTodoInput, toEnglishDigits } from './quick-add-parser'
+import { getTodoStatus, parseTodoDate } from './recurrence'
+
+export type TodoTransferFormat = 'csv' | 'markdown' | 'ics'
+
+export type TodoImportField =
+	| 'id'
+	| 'text'
+	| 'completed'
+	| 'date'
+	| 'dueTime'
+	| 'priority'
+	| 'category'
+	| 'notes'
+	| 'recurrence'
+
+/** Source column index for each todo field */
+export type TodoFieldMapping = Partial<Record<TodoImportField, number>>
+
+export interface ImportedTodoRow {
+	values: string[]
+	subtasks?: TodoSubtask[]
+}
+
+export interface ImportedTodoTable {
+	format: TodoTransferFormat
+	columns: string[]
+	rows: ImportedTodoRow[]
+}
+
+export const todoImportFields: { field: TodoImportField; label: string }[] = [
+	{ field: 'text', label: 'عنوان' },
+	{ field: 'date', label: 'تاریخ' },
+	{ field: 'dueTime', label: 'ساعت' },
+	{ field: 'completed', label: 'وضعیت' },
+	{ field: 'priority', label: 'اولویت' },
+	{ field: 'category', label: 'دسته‌بندی' },
+	{ field: 'notes', label: 'یادداشت' },
+	{ field: 'recurrence', label: 'تکرار' },
+	{ field: 'id', label: 'شناسه' },
+]
+
+const fieldAliases: Record<TodoImportField, string[]> = {
+	id: ['id', 'uid', 'شناسه'],
+	text: ['text', 'title', 'summary', 'task', 'name', 'content', 'عنوان', 'متن'],
+	completed: ['completed', 'done', 'status', 'state', 'وضعیت'],
+	date: ['date', 'due', 'due date', 'deadline', 'تاریخ'],
+	dueTime: ['duetime', 'time', 'due time', 'ساعت'],
+	priority: ['priority', 'اولویت'],
+	category: ['category', 'categories', 'tag', 'tags', 'project', 'list', 'دسته‌بندی'],
+	notes: ['notes', 'note', 'description', 'یادداشت'],
+	recurrence: ['recurrence', 'rrule', 'repeat', 'تکرار'],
+}
+
+const ICS_WEEK_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// Same days as the "weekdays" frequency: Saturday to Wednesday
+const WORK_WEEK_DAYS = [6, 0, 1, 2, 3]
+
+// Carries the full rule next to the listed dates, so our own export imports back
+// as one Jalali series
+const ICS_RECURRENCE_PROPERTY = 'X-WIDGETIFY-RECURRENCE'
+
+// Occurrences listed for a Jalali monthly series that has no end
+const MAX_ICS_MONTHLY_OCCURRENCES = 24
+
+const COMPLETED_VALUES = [
+	'true',
+	'1',
+	'x',
+	'yes',
+	'done',
+	'completed',
+	'بله',
+	'انجام شده',
+]
+const IN_PROGRESS_VALUES = ['in_progress', 'in-process', 'in progress', 'در حال انجام']
+
+export function detectTodoFormat(fileName: string): TodoTransferFormat | null {
+	const extension = fileName.split('.').pop()?.toLowerCase()
+	if (extension === 'csv') return 'csv'
+	if (extension === 'md' || extension === 'markdown' || extension === 'txt') {
+		return 'markdown'
+	}
+	if (extension === 'ics' || extension === 'ical') return 'ics'
+	return null
+}
+
+// Export
+
+function toGregorian(dateStr: string) {
+	return parseTodoDate(dateStr).locale('en').format('YYYYMMDD')
+}
+
+function toIcsDate(dateStr: string, dueTime?: string | null) {
+	const date = toGregorian(dateStr)
+	return dueTime ? `${date}T${dueTime.replace(':', '')}00` : date
+}
+
+function escapeCsv(value: string) {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+const icsStatuses: Record<TodoStatus, string> = {
+	todo: 'NEEDS-ACTION',
+	in_progress: 'IN-PROCESS',
+	done: 'COMPLETED',
+}
+
+function todosToCsv(todos: Todo[]) {
+	const header = [
+		'id',
+		'text',
+		'status',
+		'date',
+		'dueTime',
+		'priority',
+		'category',
+		'notes',
+		'recurrence',
+	]
+	const rows = todos.map((todo) =>
+		[
+			todo.id,
+			todo.text,
+			getTodoStatus(todo),
+			todo.date,
+			todo.dueTime || '',
+			todo.priority,
+			todo.category || '',
+			todo.notes || '',
+			recurrenceToRRule(todo) || '',
+		]
+			.map(escapeCsv)
+			.join(',')
+	)
+
+	// The BOM lets spreadsheet apps read the Persian text as UTF-8
+	return `\uFEFF${[header.join(','), ...rows].join('\r\n')}\r\n`
+}
+
+function todosToMarkdown(todos: Todo[]) {
+	const lines = todos.flatMap((todo) => {
+		const parts = [`- [${todo.completed ? 'x' : ' '}] ${todo.text}`, todo.date]
+		if (todo.dueTime) parts.push(todo.dueTime)
+		if (todo.category) parts.push(`#${todo.category.replace(/\s+/g, '_')}`)
+		parts.push(`!${todo.priority}`, `<!-- id:${todo.id} -->`)
+
+		return [
+			parts.join(' '),
+			...(todo.subtasks || []).map(
+				(subtask) => `  - [${subtask.completed ? 'x' : ' '}] ${subtask.text}`
+			),
+		]
+	})
+
+	return `${lines.join('\n')}\n`
+}
+
+function escapeIcsText(value: string) {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n')
+}
+
+// Content lines are folded at 75 octets, never inside a multi-byte character
+function foldIcsLine(line: string) {
+	const encoder = new TextEncoder()
+	const chunks: string[] = []
+	let chunk = ''
+	let size = 0
+	for (const char of line) {
+		const charSize = encoder.encode(char).length
+		if (size + charSize > (chunks.length ? 74 : 75)) {
+			chunks.push(chunk)
+			chunk = ''
+			size = 0
+		}
+		chunk += char
+		size += charSize
+	}
+	chunks.push(chunk)
+
+	return chunks.join('\r\n ')
+}
+
+function isJalaliMonthly(rule: TodoRecurrence) {
+	return rule.frequency === 'monthly' && rule.monthCalendar !== 'gregorian'
+}
+
+/** Dates after the first one of a Jalali monthly series, up to its end */
+function getJalaliMonthlyDates(todo: Todo) {
+	const start = parseTodoDate(todo.date)
+	const until = todo.recurrence?.until
+	const dates: string[] = []
+	for (let month = 1; month <= MAX_ICS_MONTHLY_OCCURRENCES; month++) {
+		// Adding to the start, so a short month does not move the later ones
+		const date = formatDateStr(start.clone().add(month, 'jMonth'))
+		if (until && date > until) break
+		dates.push(date)
+	}
+	return dates
+}
+
+function recurrenceToRRule(todo: Todo) {
+	const rule = todo.recurrence
+	if (!rule) return null
+
+	const parts: string[] = []
+	switch (rule.frequency) {
+		case 'daily':
+			parts.push('FREQ=DAILY')
+			break
+		case 'interval':
+			parts.push('FREQ=DAILY', `INTERVAL=${rule.interval || 1}`)
+			break
+		case 'weekdays':
+			parts.push(
+				'FREQ=WEEKLY',
+				`BYDAY=${WORK_WEEK_DAYS.map((day) => ICS_WEEK_DAYS[day]).join(',')}`
+			)
+			break
+		case 'weekly': {
+			const days = rule.weekDays?.length
+				? rule.weekDays
+				: [parseTodoDate(todo.date).day()]
+			parts.push(
+				'FREQ=WEEKLY',
+				`BYDAY=${days.map((day) => ICS_WEEK_DAYS[day]).join(',')}`
+			)
+			break
+		}
+		case 'monthly':
+			// Months shorter than the start day repeat on their last day
+			if (isJalaliMonthly(rule)) parts.push('RSCALE=PERSIAN')
+			parts.push('FREQ=MONTHLY')
+			if (isJalaliMonthly(rule)) parts.push('SKIP=BACKWARD')
+			break
+	}
+	if (rule.until) parts.push(`UNTIL=${toGregorian(rule.until)}`)
+
+	return parts.join(';')
+}
+
+function todosToIcs(todos: Todo[]) {
+	const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`
+	const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Widgetify//Todos//FA']
+
+	for (const todo of todos) {
+		const due = toIcsDate(todo.date, todo.dueTime)
+		// Few calendar apps support RSCALE, so Jalali months are listed date by date
+		const rdates =
+			todo.recurrence && isJalaliMonthly(todo.recurrence)
+				? getJalaliMonthlyDates(todo).map((date) => toIcsDate(date, todo.dueTime))
+				: null
+		const rrule = rdates ? null : recurrenceToRRule(todo)
+
+		lines.push(
+			'BEGIN:VTODO',
+			`UID:${todo.id}`,
+			`DTSTAMP:${stamp}`,
+			`SUMMARY:${escapeIcsText(todo.text)}`,
+			todo.dueTime ? `DUE:${due}` : `DUE;VALUE=DATE:${due}`,
+			`STATUS:${icsStatuses[getTodoStatus(todo)]}`,
+			`PRIORITY:${todo.priority === 'high' ? 1 : todo.priority === 'medium' ? 5 : 9}`
+		)
+		if (todo.category) lines.push(`CATEGORIES:${escapeIcsText(todo.category)}`)
+		if (todo.notes) lines.push(`DESCRIPTION:${escapeIcsText(todo.notes)}`)
+		if (rrule) lines.push(`RRULE:${rrule}`)
+		if (rdates) lines.push(`${ICS_RECURRENCE_PROPERTY}:${recurrenceToRRule(todo)}`)
+		if (rdates?.length) {
+			lines.push(`RDATE${todo.dueTime ? '' : ';VALUE=DATE'}:${rdates.join(',')}`)
+		}
+		lines.push('END:VTODO')
+	}
+	lines.push('END:VCALENDAR')
+
+	return `${lines.map(foldIcsLine).join('\r\n')}\r\n`
+}
+
+export function exportTodos(todos: Todo[], format: TodoTransferFormat) {
+	if (format === 'csv') return todosToCsv(todos)
+	if (format === 'markdown') return todosToMarkdown(todos)
+	return todosToIcs(todos)
+}
+
+const fileTypes: Record<TodoTransferFormat, { extension: string; mime: string }> = {
+	csv: { extension: 'csv', mime: 'text/csv' },
+	markdown: { extension: 'md', mime: 'text/markdown' },
+	ics: { extension: 'ics', mime: 'text/calendar' },
+}
+
+export function downloadTodos(todos: Todo[], format: TodoTransferFormat) {
+	const { extension, mime } = fileTypes[format]
+	const blob = new Blob([exportTodos(todos, format)], {
+		type: `${mime};charset=utf-8`,
+	})
+	const url = URL.createObjectURL(blob)
+	const date = new Date().toISOString().slice(0, 10)
+
+	const link = document.createElement('a')
+	link.href = url
+	link.download = `widgetify-todos-${date}.${extension}`
+	document.body.appendChild(link)
+	link.click()
+	link.remove()
+
+	URL.revokeObjectURL(url)
+}
+
+// Import
+
+// Spreadsheet apps in some locales save with semicolons or tabs
+function detectCsvDelimiter(text: string) {
+	const header = text.split(/\r?\n/, 1)[0]
+	const counts = [',', ';', '\t'].map(
+		(delimiter) => [delimiter, header.split(delimiter).length] as const
+	)
+	return counts.sort((a, b) => b[1] - a[1])[0][0]
+}
+
+function parseCsv(text: string): ImportedTodoTable {
+	const records: string[][] = []
+	let record: string[] = []
+	let field = ''
+	let quoted = false
+	const input = text.replace(/^\uFEFF/, '')
+	const delimiter = detectCsvDelimiter(input)
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i]
+		if (quoted) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				quoted = false
+			} else {
+				field += char
+			}
+		} else if (char === '"') {
+			quoted = true
+		} else if (char === delimiter) {
+			record.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') i++
+			record.push(field)
+			records.push(record)
+			record = []
+			field = ''
+		} else {
+			field += char
+		}
+	}
+	if (field || record.length) {
+		record.push(field)
+		records.push(record)
+	}
+
+	const [columns = [], ...rows] = records.filter((row) =>
+		row.some((value) => value.trim())
+	)
+
+	return {
+		format: 'csv',
+		columns: columns.map((column) => column.trim()),
+		rows: rows.map((values) => ({ values })),
+	}
+}
+
+const MARKDOWN_COLUMNS = ['status', 'text', 'date', 'time', 'category', 'priority', 'id']
+
+function parseMarkdown(text: string, today: WidgetifyDate): ImportedTodoTable {
+	const rows: ImportedTodoRow[] = []
+
+	for (const line of text.split(/\r?\n/)) {
+		const match = line.match(/^(\s*)[-*+]\s+(?:\[( |x|X)\]\s+)?(.+)$/)
+		if (!match) continue
+
+		const [, indent, checked = ' ', content] = match
+		const completed = checked.toLowerCase() === 'x'
+		const parent = rows[rows.length - 1]
+
+		if (indent.length >= 2 && parent) {
+			parent.subtasks = [
+				...(parent.subtasks || []),
+				{ id: uuidv4(), text: content.trim(), completed },
+			]
+			continue
+		}
+
+		// Ids are kept in a trailing comment so re-imports are recognised
+		const id = content.match(/<!--\s*id:(\S+)\s*-->/)?.[1] || ''
+		const parsed = parseTodoInput(content.replace(/<!--.*?-->/g, ''), today)
+		rows.push({
+			values: [
+				completed ? 'done' : 'todo',
+				parsed.text,
+				parsed.date || '',
+				parsed.dueTime || '',
+				parsed.category || '',
+				parsed.priority || '',
+				id,
+			],
+		})
+	}
+
+	return { format: 'markdown', columns: MARKDOWN_COLUMNS, rows }
+}
+
+function unescapeIcsText(value: string) {
+	return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+		char.toLowerCase() === 'n' ? '\n' : char
+	)
+}
+
+function parseIcs(text: string): ImportedTodoTable {
+	const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+	const items: Record<string, string>[] = []
+	let current: Record<string, string> | null = null
+
+	for (const line of lines) {
+		if (line === 'BEGIN:VTODO') {
+			current = {}
+		} else if (line === 'END:VTODO') {
+			if (current) {
+				const { [ICS_RECURRENCE_PROPERTY]: rule, ...item } = current
+				// Other apps only see the listed dates, we read the series back
+				if (rule && !item.RRULE) item.RRULE = rule
+				items.push(item)
+			}
+			current = null
+		} else if (current) {
+			const separator = line.indexOf(':')
+			if (separator === -1) continue
+
+			const name = line.slice(0, separator).split(';')[0].toUpperCase()
+			const value = line.slice(separator + 1)
+			current[name] =
+				name === 'RRULE' || name === ICS_RECURRENCE_PROPERTY
+					? value
+					: unescapeIcsText(value)
+		}
+	}
+
+	const columns = [...new Set(items.flatMap((item) => Object.keys(item)))]
+	return {
+		format: 'ics',
+		columns,
+		rows: items.map((item) => ({
+			values: columns.map((column) => item[column] || ''),
+		})),
+	}
+}
+
+export function parseTodoFile(
+	text: string,
+	format: TodoTransferFormat,
+	today: WidgetifyDate
+): ImportedTodoTable {
+	if (format === 'csv') return parseCsv(text)
+	if (format === 'markdown') return parseMarkdown(text, today)
+	return parseIcs(text)
+}
+
+export function getDefaultTodoMapping(columns: string[]): TodoFieldMapping {
+	const mapping: TodoFieldMapping = {}
+	const normalized = columns.map((column) => column.trim().toLowerCase())
+
+	for (const { field } of todoImportFields) {
+		const index = normalized.findIndex((column) =>
+			fieldAliases[field].includes(column)
+		)
+		if (index !== -1 && !Object.values(mapping).includes(index)) {
+			mapping[field] = index
+		}
+	}
+
+	return mapping
+}
+
+function parseImportedDate(value: string) {
+	const input = toEnglishDigits(value.trim())
+
+	const compact = input.match(
+		/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(?:\d{2})?(Z)?)?/
+	)
+	if (compact) {
+		// A trailing Z is UTC, todos keep the local date and time
+		if (compact[6]) {
+			const utc = jalaliMoment
+				.utc(compact.slice(1, 6).join(''), 'YYYYMMDDHHmm')
+				.local()
+				.locale('en')
+			if (!utc.isValid()) return null
+
+			return { date: formatDateStr(utc), time: utc.format('HH:mm') }
+		}
+
+		const date = jalaliMoment(
+			`${compact[1]}-${compact[2]}-${compact[3]}`,
+			'YYYY-MM-DD'
+		).locale('en')
+		if (!date.isValid()) return null
+
+		const time = compact[4] ? `${compact[4]}:${compact[5]}` : null
+		return { date: formatDateStr(date), time }
+	}
+
+	const match = input.match(
+		/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?/
+	)
+	if (!match) return null
+
+	// Jalali years are in the 1300s and 1400s
+	const date =
+		Number(match[1]) < 1700
+			? jalaliMoment(`${match[1]}/${match[2]}/${match[3]}`, 'jYYYY/jM/jD')
+			: jalaliMoment(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-M-D')
+	if (!date.isValid()) return null
+
+	const time = match[4] ? `${match[4].padStart(2, '0')}:${match[5]}` : null
+	return { date: formatDateStr(date.locale('en')), time }
+}
+
+function parseImportedTime(value: string) {
+	const match = toEnglishDigits(value.trim()).match(/^(\d{1,2}):(\d{2})/)
+	if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null
+
+	return `${match[1].padStart(2, '0')}:${match[2]}`
+}
+
+function parseImportedPriority(value: string): Todo['priority'] {
+	const input = value.trim().toLowerCase()
+	const level = Number(input)
+	// iCalendar: 1-4 high, 5 medium, 6-9 low, 0 undefined
+	if (input && !Number.isNaN(level)) {
+		if (level >= 1 && level <= 4) return 'high'
+		if (level === 5) return 'medium'
+		return 'low'
+	}
+
+	if (['high', 'زیاد', 'بالا', 'مهم'].includes(input)) return 'high'
+	if (['medium', 'med', 'normal', 'متوسط'].includes(input)) return 'medium'
+	return 'low'
+}
+
+function parseRRule(value: string): TodoRecurrence | null {
+	const parts = Object.fromEntries(
+		value
+			.toUpperCase()
+			.split(';')
+			.map((part) => part.split('='))
+	)
+	const interval = Number(parts.INTERVAL) || 1
+	const until = parts.UNTIL ? parseImportedDate(parts.UNTIL)?.date : null
+	const weekDays = parts.BYDAY
+		? (parts.BYDAY as string)
+				.split(',')
+				.map((day) => ICS_WEEK_DAYS.indexOf(day.slice(-2)))
+				.filter((day) => day !== -1)
+		: []
+
+	let rule: TodoRecurrence | null = null
+	if (parts.FREQ === 'DAILY') {
+		rule = interval > 1 ? { frequency: 'interval', interval } : { frequency: 'daily' }
+	} else if (parts.FREQ === 'WEEKLY') {
+		const isWorkWeek =
+			weekDays.length === WORK_WEEK_DAYS.length &&
+			WORK_WEEK_DAYS.every((day) => weekDays.includes(day))
+		rule = isWorkWeek
+			? { frequency: 'weekdays' }
+			: { frequency: 'weekly', weekDays: weekDays.length ? weekDays : undefined }
+	} else if (parts.FREQ === 'MONTHLY') {
+		rule = {
+			frequency: 'monthly',
+			monthCalendar: parts.RSCALE === 'PERSIAN' ? 'jalali' : 'gregorian',
+		}
+	}
+
+	if (rule && until) rule.until = until
+	return rule
+}
+
+export interface TodoImportResult {
+	todos: Todo[]
+	duplicates: number
+	skipped: number
+}
+
+/**
+ * Builds todos from the imported rows. Rows without a title are skipped, and rows
+ * whose id already exists (in the list or earlier in the file) are counted as
+ * duplicates.
+ */
+export function buildImportedTodos(
+	table: ImportedTodoTable,
+	mapping: TodoFieldMapping,
+	existingTodos: Todo[],
+	today: WidgetifyDate
+): TodoImportResult {
+	const knownIds = new Set(existingTodos.map((todo) => todo.id))
+	const maxOrder = Math.max(0, ...existingTodos.map((todo) => todo.order || 0))
+	const todos: Todo[] = []
+	let duplicates = 0
+	let skipped = 0
+
+	const read = (row: ImportedTodoRow, field: TodoImportField) => {
+		const index = mapping[field]
+		return index === undefined ? '' : (row.values[index] || '').trim()
+	}
+
+	for (const row of table.rows) {
+		const text = read(row, 'text')
+		if (!text) {
+			skipped++
+			continue
+		}
+
+		const id = read(row, 'id') || uuidv4()
+		if (knownIds.has(id)) {
+			duplicates++
+			continue
+		}
+		knownIds.add(id)
+
+		const parsedDate = parseImportedDate(read(row, 'date'))
+		const dueTime =
+			parseImportedTime(read(row, 'dueTime')) || parsedDate?.time || null
+		const status = read(row, 'completed').toLowerCase()
+		const completed = COMPLETED_VALUES.includes(status)
+
+		todos.push({
+			id,
+			text,
+			onlineId: null,
+			completed,
+			status: completed
+				? 'done'
+				: IN_PROGRESS_VALUES.includes(status)
+					? 'in_progress'
+					: 'todo',
+			date: parsedDate?.date || formatDateStr(today.clone()),
+			dueTime,
+			priority: parseImportedPriority(read(row, 'priority')),
+			category: read(row, 'category').split(',')[0].trim(),
+			notes: read(row, 'notes'),
+			recurrence: parseRRule(read(row, 'recurrence')),
+			subtasks: row.subtasks,
+			reminders: [],
+			order: maxOrder + todos.length + 1,
+			updatedAt: Date.now(),
+		})
+	}
+
+	return { todos, duplicates, skipped }
+}
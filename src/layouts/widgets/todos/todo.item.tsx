@@ -1,15 +1,18 @@
 import type React from 'react'
 import { useEffect, useState } from 'react'
-import { FiChevronDown, FiRotateCcw, FiTrash2 } from 'react-icons/fi'
+import { FiBell, FiChevronDown, FiRepeat, FiRotateCcw, FiTrash2 } from 'react-icons/fi'
 import { MdDragIndicator } from 'react-icons/md'
 import { Button } from '@/components/button/button'
 import CustomCheckbox from '@/components/checkbox'
-import type { Todo } from '../calendar/interface/todo.interface'
+import type { Todo, TodoSubtask } from '../calendar/interface/todo.interface'
+import { describeRecurrence } from './recurrence'
+import { TodoSubtasks } from './todo-subtasks'
 
 interface Prop {
 	todo: Todo
-	toggleTodo: (id: string) => void
+	toggleTodo: (id: string, occurrenceDate?: string) => void
 	deleteTodo: (id: string) => void
+	updateSubtasks: (id: string, subtasks: TodoSubtask[]) => void
 	blurMode?: boolean
 	isDragging?: boolean
 	dragHandle?: any
@@ -25,6 +28,7 @@ export function TodoItem({
 	todo,
 	deleteTodo,
 	toggleTodo,
+	updateSubtasks,
 	blurMode = false,
 	isDragging = false,
 	dragHandle,
@@ -58,6 +62,13 @@ export function TodoItem({
 		setExpanded(!expanded)
 	}
 
+	const subtasks = todo.subtasks || []
+	const completedSubtasks = subtasks.filter((subtask) => subtask.completed).length
+
+	const onToggle = () => {
+		toggleTodo(todo.id, todo.recurrence ? todo.date : undefined)
+	}
+
 	const handleUndo = () => {
 		setIsDeleting(false)
 		setCountdown(5)
@@ -139,7 +150,7 @@ export function TodoItem({
 			) : (
 				<>
 					<div
-						onClick={() => toggleTodo(todo.id)}
+						onClick={onToggle}
 						className={'flex items-center gap-2 pr-0.5 py-1'}
 					>
 						<div className="flex flex-row items-center gap-1">
@@ -154,7 +165,7 @@ export function TodoItem({
 							<div className="flex-shrink-0">
 								<CustomCheckbox
 									checked={todo.completed}
-									onChange={() => toggleTodo(todo.id)}
+									onChange={onToggle}
 									className={`!w-[1.125rem] !h-[1.125rem] !border ${getBorderStyle()}`}
 									unCheckedCheckBoxClassName={`${getUnCheckedCheckboxStyle()}`}
 									checkedCheckBoxClassName={`${getCheckedCheckboxStyle()}`}
@@ -168,6 +179,25 @@ export function TodoItem({
 							{todo.text}
 						</span>
 
+						{subtasks.length > 0 && (
+							<span
+								className={`flex-shrink-0 text-[9px] px-1 rounded-full ${completedSubtasks === subtasks.length ? 'bg-success/10 text-success' : 'bg-base-200 text-muted'}`}
+							>
+								{completedSubtasks}/{subtasks.length}
+							</span>
+						)}
+
+						{todo.dueTime && (
+							<span className="flex items-center flex-shrink-0 gap-0.5 text-[9px] text-muted">
+								{!!todo.reminders?.length && <FiBell size={9} />}
+								{todo.dueTime}
+							</span>
+						)}
+
+						{todo.recurrence && (
+							<FiRepeat size={11} className="flex-shrink-0 text-muted" />
+						)}
+
 						{/* Actions */}
 						<div className="flex items-center gap-x-1">
 							<button
@@ -215,10 +245,30 @@ export function TodoItem({
 									{translatedPriority[todo.priority]}
 								</span>
 								<span>{todo.date}</span>
+								{todo.recurrence && (
+									<span className="text-muted">
+										{describeRecurrence(todo.recurrence)}
+									</span>
+								)}
 							</div>
 
 							{/* Notes */}
 							{todo.notes && <NoteLinkRenderer note={todo.notes} />}
+
+							{subtasks.length > 0 && (
+								<div className="w-full h-1 mt-1.5 overflow-hidden rounded-full bg-base-200">
+									<div
+										className="h-full transition-all duration-300 rounded-full bg-success"
+										style={{
+											width: `${(completedSubtasks / subtasks.length) * 100}%`,
+										}}
+									/>
+								</div>
+							)}
+							<TodoSubtasks
+								subtasks={subtasks}
+								onChange={(updated) => updateSubtasks(todo.id, updated)}
+							/>
 						</div>
 					)}
 				</>
@@ -11,30 +11,45 @@ import {
 	SortableContext,
 	verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { FaChartSimple } from 'react-icons/fa6'
 import { FiList } from 'react-icons/fi'
 import { IoMdHelp } from 'react-icons/io'
+import { TbFileExport } from 'react-icons/tb'
 import Analytics from '@/analytics'
+import { listenEvent } from '@/common/utils/call-event'
 import { Button } from '@/components/button/button'
 import Tooltip from '@/components/toolTip'
 import { useDate } from '@/context/date.context'
 import { useGeneralSetting } from '@/context/general-setting.context'
 import { type AddTodoInput, TodoViewType, useTodoStore } from '@/context/todo.context'
+import type { Todo } from '../calendar/interface/todo.interface'
 import { formatDateStr } from '../calendar/utils'
 import { WidgetContainer } from '../widget-container'
 import { ExpandableTodoInput } from './expandable-todo-input'
 import { TodoHelpModal } from './help-modal'
+import {
+	getAllTodos,
+	getNextOccurrenceDate,
+	getTodoKey,
+	getTodosForDate,
+	getTodosForMonth,
+	parseTodoDate,
+} from './recurrence'
 import { SortableTodoItem } from './sortable-todo-item'
+import { TodoAnalytics } from './todo-analytics'
+import { TodoBoard } from './todo-board'
 import { TodoStats } from './todo-stats'
+import { TodoTransferModal } from './transfer-modal'
 
 export function TodosLayout() {
-	const { selectedDate, isToday } = useDate()
+	const { selectedDate, setSelectedDate, today, isToday } = useDate()
 	const {
 		addTodo,
 		todos,
 		removeTodo,
 		toggleTodo,
+		updateTodo,
 		updateOptions,
 		todoOptions,
 		reorderTodos,
@@ -44,6 +59,7 @@ export function TodosLayout() {
 	const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all')
 	const [showHelpModal, setShowHelpModal] = useState<boolean>(false)
 	const [showStats, setShowStats] = useState<boolean>(false)
+	const [showTransferModal, setShowTransferModal] = useState<boolean>(false)
 	const [todoText, setTodoText] = useState('')
 	const selectedDateStr = formatDateStr(selectedDate.clone())
 
@@ -55,22 +71,54 @@ export function TodosLayout() {
 		})
 	)
 
+	useEffect(() => {
+		// Opened from the search bar: show the day it is on and point it out
+		return listenEvent('openTodo', (todoId) => {
+			const todo = todos.find((item) => item.id === todoId)
+			if (!todo) return
+
+			setShowStats(false)
+			setFilter('all')
+			const date = getNextOccurrenceDate(todo, formatDateStr(today.clone()))
+			setSelectedDate(parseTodoDate(date || todo.date))
+
+			setTimeout(() => {
+				const element = document.querySelector(`[data-todo-id="${todoId}"]`)
+				if (!element) return
+
+				element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+				element.classList.add('ring-2', 'ring-primary', 'rounded-lg')
+				setTimeout(
+					() =>
+						element.classList.remove('ring-2', 'ring-primary', 'rounded-lg'),
+					1500
+				)
+			}, 100)
+		})
+	}, [todos, today])
+
 	const handleChangeViewMode = (viewMode: TodoViewType) => {
 		updateOptions({ viewMode })
 	}
 
-	let selectedDateTodos = todos.filter((todo) => todo.date === selectedDateStr)
+	const getViewTodos = () => {
+		let viewTodos: Todo[]
+		if (todoOptions.viewMode === TodoViewType.Monthly) {
+			viewTodos = getTodosForMonth(todos, selectedDate)
+		} else if (
+			todoOptions.viewMode === TodoViewType.All ||
+			todoOptions.viewMode === TodoViewType.Board
+		) {
+			viewTodos = getAllTodos(todos, selectedDateStr)
+		} else {
+			viewTodos = getTodosForDate(todos, selectedDateStr)
+		}
 
-	if (todoOptions.viewMode === TodoViewType.Monthly) {
-		const currentMonth = selectedDate.format('jMM')
-		selectedDateTodos = todos.filter((todo) => {
-			return todo.date.startsWith(`${selectedDate.year()}-${currentMonth}`)
-		})
-	} else if (todoOptions.viewMode === TodoViewType.All) {
-		selectedDateTodos = todos
+		return viewTodos.sort((a, b) => (a.order || 0) - (b.order || 0))
 	}
 
-	selectedDateTodos = selectedDateTodos.sort((a, b) => (a.order || 0) - (b.order || 0))
+	const viewTodos = getViewTodos()
+	let selectedDateTodos = viewTodos
 
 	if (filter === 'active') {
 		selectedDateTodos = selectedDateTodos.filter((todo) => !todo.completed)
@@ -78,10 +126,10 @@ export function TodosLayout() {
 		selectedDateTodos = selectedDateTodos.filter((todo) => todo.completed)
 	}
 
-	const handleAddTodo = (todoInput: Omit<AddTodoInput, 'date'>) => {
+	const handleAddTodo = (todoInput: Omit<AddTodoInput, 'date'> & { date?: string }) => {
 		addTodo({
 			...todoInput,
-			date: selectedDateStr,
+			date: todoInput.date || selectedDateStr,
 		})
 		setTodoText('')
 	}
@@ -93,54 +141,28 @@ export function TodosLayout() {
 			return
 		}
 
-		const activeIndex = selectedDateTodos.findIndex((todo) => todo.id === active.id)
-		const overIndex = selectedDateTodos.findIndex((todo) => todo.id === over.id)
+		// Reorder within everything the view shows, ignoring the completion filter
+		const viewTodos = getViewTodos()
+		const activeIndex = viewTodos.findIndex((todo) => getTodoKey(todo) === active.id)
+		const overIndex = viewTodos.findIndex((todo) => getTodoKey(todo) === over.id)
 
 		if (activeIndex !== -1 && overIndex !== -1) {
-			let allSelectedDateTodos = todos
-				.filter((todo) => {
-					if (todoOptions.viewMode === TodoViewType.Monthly) {
-						const currentMonth = selectedDate.format('jMM')
-						return todo.date.startsWith(
-							`${selectedDate.year()}-${currentMonth}`
-						)
-					} else if (todoOptions.viewMode === TodoViewType.All) {
-						return true
-					}
-					return todo.date === selectedDateStr
-				})
-				.sort((a, b) => (a.order || 0) - (b.order || 0))
-
-			const fullActiveIndex = allSelectedDateTodos.findIndex(
-				(todo) => todo.id === active.id
-			)
-			const fullOverIndex = allSelectedDateTodos.findIndex(
-				(todo) => todo.id === over.id
+			// Occurrences of a recurring todo all move with their series
+			const reorderedIds = [
+				...new Set(
+					arrayMove(viewTodos, activeIndex, overIndex).map((todo) => todo.id)
+				),
+			]
+			const reorderedTodos = reorderedIds
+				.map((id) => todos.find((todo) => todo.id === id))
+				.filter((todo): todo is Todo => !!todo)
+			const todosFromOtherDates = todos.filter(
+				(todo) => !reorderedIds.includes(todo.id)
 			)
 
-			if (fullActiveIndex !== -1 && fullOverIndex !== -1) {
-				const reorderedDateTodos = arrayMove(
-					allSelectedDateTodos,
-					fullActiveIndex,
-					fullOverIndex
-				)
+			reorderTodos([...todosFromOtherDates, ...reorderedTodos])
 
-				const todosFromOtherDates = todos.filter((todo) => {
-					if (todoOptions.viewMode === 'monthly') {
-						const currentMonth = selectedDate.format('jMM')
-						return !todo.date.startsWith(
-							`${selectedDate.year()}-${currentMonth}`
-						)
-					} else if (todoOptions.viewMode === 'all') {
-						return false
-					}
-					return todo.date !== selectedDateStr
-				})
-
-				reorderTodos([...todosFromOtherDates, ...reorderedDateTodos])
-
-				Analytics.event('todo_reorder')
-			}
+			Analytics.event('todo_reorder')
 		}
 	}
 
@@ -176,6 +198,15 @@ export function TodosLayout() {
 									<IoMdHelp size={12} />
 								</Button>
 							</Tooltip>
+							<Tooltip content={'ورود و خروج'}>
+								<Button
+									onClick={() => setShowTransferModal(true)}
+									size="xs"
+									className={`h-7 w-7 text-xs font-medium rounded-[0.55rem] transition-colors border-none shadow-none text-muted hover:bg-base-300`}
+								>
+									<TbFileExport size={12} />
+								</Button>
+							</Tooltip>
 							<Tooltip content={showStats ? 'بازگشت به لیست' : 'آمار'}>
 								<Button
 									onClick={() => setShowStats(!showStats)}
@@ -192,26 +223,31 @@ export function TodosLayout() {
 						<TodoStats />
 					) : (
 						<div className="flex justify-between mb-2">
-							<div className="flex gap-0.5">
-								<button
-									onClick={() => setFilter('all')}
-									className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${filter === 'all' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
-								>
-									همه
-								</button>
-								<button
-									onClick={() => setFilter('active')}
-									className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${filter === 'active' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
-								>
-									فعال
-								</button>
-								<button
-									onClick={() => setFilter('completed')}
-									className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${filter === 'completed' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
-								>
-									تکمیل شده
-								</button>
-							</div>
+							{/* Cards moved on the board would vanish from a filtered column */}
+							{todoOptions.viewMode === TodoViewType.Board ? (
+								<div />
+							) : (
+								<div className="flex gap-0.5">
+									<button
+										onClick={() => setFilter('all')}
+										className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${filter === 'all' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
+									>
+										همه
+									</button>
+									<button
+										onClick={() => setFilter('active')}
+										className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${filter === 'active' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
+									>
+										فعال
+									</button>
+									<button
+										onClick={() => setFilter('completed')}
+										className={`px-1.5 py-0.5 rounded-full border-none text-[10px] leading-none cursor-pointer active:scale-95 ${filter === 'completed' ? 'bg-primary text-white' : 'text-muted bg-base-300'}`}
+									>
+										تکمیل شده
+									</button>
+								</div>
+							)}
 							<div className="relative">
 								{showNewBadge && (
 									<span className="absolute w-2 h-2 rounded-full left-4 -bottom-0.5 bg-error animate-pulse z-30"></span>
@@ -258,7 +294,15 @@ export function TodosLayout() {
 					)}
 				</div>
 				<div className="mt-0.5 flex-grow overflow-hidden">
-					{!showStats && (
+					{showStats && (
+						<div className="h-full overflow-y-auto">
+							<TodoAnalytics />
+						</div>
+					)}
+					{!showStats && todoOptions.viewMode === TodoViewType.Board && (
+						<TodoBoard todos={viewTodos} blurMode={blurMode} />
+					)}
+					{!showStats && todoOptions.viewMode !== TodoViewType.Board && (
 						<DndContext
 							sensors={sensors}
 							collisionDetection={closestCenter}
@@ -269,16 +313,19 @@ export function TodosLayout() {
 							>
 								{selectedDateTodos.length > 0 ? (
 									<SortableContext
-										items={selectedDateTodos.map((todo) => todo.id)}
+										items={selectedDateTodos.map(getTodoKey)}
 										strategy={verticalListSortingStrategy}
 									>
 										{selectedDateTodos.map((todo) => (
 											<SortableTodoItem
-												key={todo.id}
-												id={todo.id}
+												key={getTodoKey(todo)}
+												id={getTodoKey(todo)}
 												todo={todo}
 												deleteTodo={removeTodo}
 												toggleTodo={toggleTodo}
+												updateSubtasks={(id, subtasks) =>
+													updateTodo(id, { subtasks })
+												}
 												blurMode={blurMode}
 											/>
 										))}
@@ -318,6 +365,10 @@ export function TodosLayout() {
 			</div>
 
 			<TodoHelpModal show={showHelpModal} onClose={() => setShowHelpModal(false)} />
+			<TodoTransferModal
+				show={showTransferModal}
+				onClose={() => setShowTransferModal(false)}
+			/>
 		</WidgetContainer>
 	)
 }
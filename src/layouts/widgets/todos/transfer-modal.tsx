@@ -0,0 +1,245 @@
+import { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { FiDownload, FiUploadCloud } from 'react-icons/fi'
+import Analytics from '@/analytics'
+import { Button } from '@/components/button/button'
+import Modal from '@/components/modal'
+import { useDate } from '@/context/date.context'
+import { useTodoStore } from '@/context/todo.context'
+import {
+	buildImportedTodos,
+	detectTodoFormat,
+	downloadTodos,
+	getDefaultTodoMapping,
+	type ImportedTodoTable,
+	parseTodoFile,
+	type TodoFieldMapping,
+	type TodoImportField,
+	type TodoTransferFormat,
+	todoImportFields,
+} from './todo-transfer'
+
+interface TodoTransferModalProps {
+	show: boolean
+	onClose: () => void
+}
+
+const formats: { format: TodoTransferFormat; label: string }[] = [
+	{ format: 'csv', label: 'CSV' },
+	{ format: 'markdown', label: 'Markdown' },
+	{ format: 'ics', label: 'iCalendar' },
+]
+
+const PREVIEW_ROWS = 5
+
+const translatedPriority = {
+	low: 'کم',
+	medium: 'متوسط',
+	high: 'زیاد',
+}
+
+export function TodoTransferModal({ show, onClose }: TodoTransferModalProps) {
+	const { todos, importTodos } = useTodoStore()
+	const { today } = useDate()
+	const [table, setTable] = useState<ImportedTodoTable | null>(null)
+	const [mapping, setMapping] = useState<TodoFieldMapping>({})
+	const fileInputRef = useRef<HTMLInputElement>(null)
+
+	const onExport = (format: TodoTransferFormat) => {
+		if (!todos.length) {
+			toast.error('وظیفه‌ای برای خروجی گرفتن وجود ندارد')
+			return
+		}
+
+		downloadTodos(todos, format)
+		Analytics.event('todo_exported', { format, count: todos.length })
+	}
+
+	const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		if (!file) return
+
+		const format = detectTodoFormat(file.name)
+		if (!format) {
+			toast.error('فقط فایل‌های CSV، Markdown و ics پشتیبانی می‌شوند')
+			return
+		}
+
+		const parsed = parseTodoFile(await file.text(), format, today)
+		if (!parsed.rows.length) {
+			toast.error('وظیفه‌ای در این فایل پیدا نشد')
+			return
+		}
+
+		setTable(parsed)
+		setMapping(getDefaultTodoMapping(parsed.columns))
+	}
+
+	const onChangeMapping = (field: TodoImportField, value: string) => {
+		setMapping((prev) => {
+			const next = { ...prev }
+			if (value === '') delete next[field]
+			else next[field] = Number(value)
+			return next
+		})
+	}
+
+	const result = table ? buildImportedTodos(table, mapping, todos, today) : null
+
+	const onImport = () => {
+		if (!table || !result?.todos.length) return
+
+		importTodos(result.todos)
+		Analytics.event('todo_imported', {
+			format: table.format,
+			count: result.todos.length,
+			duplicates: result.duplicates,
+		})
+		toast.success(`${result.todos.length} وظیفه اضافه شد`)
+		onCloseModal()
+	}
+
+	const onCloseModal = () => {
+		setTable(null)
+		setMapping({})
+		onClose()
+	}
+
+	return (
+		<Modal
+			isOpen={show}
+			onClose={onCloseModal}
+			title="ورود و خروج وظایف"
+			direction="rtl"
+			size="lg"
+		>
+			<div className="p-2 space-y-4">
+				<div className="space-y-2">
+					<p className="text-sm text-muted">
+						فهرست وظایف را برای استفاده در برنامه‌های دیگر ذخیره کنید.
+					</p>
+					<div className="grid grid-cols-3 gap-2">
+						{formats.map(({ format, label }) => (
+							<Button
+								key={format}
+								onClick={() => onExport(format)}
+								size="sm"
+								className="border border-content/20 text-content rounded-xl"
+							>
+								<FiDownload size={14} />
+								<span>{label}</span>
+							</Button>
+						))}
+					</div>
+				</div>
+
+				<div className="space-y-2">
+					<p className="text-sm text-muted">
+						وظایف را از فایل CSV، چک‌لیست Markdown یا iCalendar وارد کنید.
+						وظایفی که شناسه‌شان از قبل وجود دارد دوباره اضافه نمی‌شوند.
+					</p>
+					<Button
+						onClick={() => fileInputRef.current?.click()}
+						size="md"
+						className="w-full border border-content/20 text-content rounded-2xl"
+					>
+						<FiUploadCloud size={16} />
+						<span>انتخاب فایل</span>
+					</Button>
+					<input
+						type="file"
+						ref={fileInputRef}
+						className="hidden"
+						accept=".csv,.md,.markdown,.txt,.ics,text/csv,text/markdown,text/calendar"
+						onChange={onFileChange}
+					/>
+				</div>
+
+				{table && result && (
+					<div className="p-3 space-y-3 border rounded-lg border-content">
+						<div className="grid grid-cols-2 gap-2">
+							{todoImportFields.map(({ field, label }) => (
+								<label
+									key={field}
+									className="flex items-center justify-between gap-2 text-xs text-content"
+								>
+									<span>{label}</span>
+									<select
+										value={mapping[field] ?? ''}
+										onChange={(e) =>
+											onChangeMapping(field, e.target.value)
+										}
+										className="w-32 px-2 py-1 text-xs rounded-lg outline-none cursor-pointer text-content bg-base-200"
+									>
+										<option value="">نادیده بگیر</option>
+										{table.columns.map((column, index) => (
+											<option
+												key={`${column}-${index}`}
+												value={index}
+											>
+												{column || `ستون ${index + 1}`}
+											</option>
+										))}
+									</select>
+								</label>
+							))}
+						</div>
+
+						<div className="overflow-x-auto">
+							<table className="w-full text-xs text-right text-content">
+								<thead>
+									<tr className="text-muted">
+										<th className="p-1 font-normal">عنوان</th>
+										<th className="p-1 font-normal">تاریخ</th>
+										<th className="p-1 font-normal">ساعت</th>
+										<th className="p-1 font-normal">اولویت</th>
+										<th className="p-1 font-normal">دسته‌بندی</th>
+									</tr>
+								</thead>
+								<tbody>
+									{result.todos.slice(0, PREVIEW_ROWS).map((todo) => (
+										<tr
+											key={todo.id}
+											className="border-t border-content/10"
+										>
+											<td
+												className={`p-1 ${todo.completed ? 'line-through opacity-60' : ''}`}
+											>
+												{todo.text}
+											</td>
+											<td className="p-1">{todo.date}</td>
+											<td className="p-1">{todo.dueTime || '-'}</td>
+											<td className="p-1">
+												{translatedPriority[todo.priority]}
+											</td>
+											<td className="p-1">
+												{todo.category || '-'}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+
+						<p className="text-xs text-muted">
+							{result.todos.length} وظیفه جدید
+							{result.duplicates > 0 && ` · ${result.duplicates} تکراری`}
+							{result.skipped > 0 && ` · ${result.skipped} بدون عنوان`}
+						</p>
+
+						<Button
+							onClick={onImport}
+							size="md"
+							isPrimary={true}
+							disabled={!result.todos.length}
+							className="w-full rounded-2xl"
+						>
+							افزودن وظایف
+						</Button>
+					</div>
+				)}
+			</div>
+		</Modal>
+	)
+}
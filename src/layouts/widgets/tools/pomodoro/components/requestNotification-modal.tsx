@@ -6,12 +6,15 @@ import Modal from '@/components/modal'
 interface Prop {
 	showRequireNotificationModal: boolean
 	setShowRequireNotificationModal: (value: boolean) => void
-	startPomodoro: () => void
+	onGranted: () => void
+	/** Asks for the extension's notifications permission instead of the page's */
+	extensionPermission?: boolean
 }
 export function RequestNotificationModal({
 	showRequireNotificationModal,
 	setShowRequireNotificationModal,
-	startPomodoro,
+	onGranted,
+	extensionPermission = false,
 }: Prop) {
 	useEffect(() => {
 		if (showRequireNotificationModal)
@@ -20,11 +23,14 @@ export function RequestNotificationModal({
 
 	async function onRequestPermission() {
 		try {
-			const perm = await Notification.requestPermission()
-			if (perm === 'granted') {
+			// Firefox only grants permissions requested straight from the click
+			const granted = extensionPermission
+				? await browser.permissions.request({ permissions: ['notifications'] })
+				: (await Notification.requestPermission()) === 'granted'
+			if (granted) {
 				toast.success('اعلان‌ها با موفقیت فعال شدند!')
 				setShowRequireNotificationModal(false)
-				startPomodoro()
+				onGranted()
 				Analytics.event('grant_notification_permission')
 			} else {
 				toast.error('برای شروع باید اعلان‌ها را فعال کنید.')
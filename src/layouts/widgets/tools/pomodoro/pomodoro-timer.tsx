@@ -403,7 +403,7 @@ export const PomodoroTimer: React.FC<PomodoroTimerProps> = ({ onComplete }) => {
 			<RequestNotificationModal
 				setShowRequireNotificationModal={setShowRequireNotificationModal}
 				showRequireNotificationModal={showRequireNotificationModal}
-				startPomodoro={handleStart}
+				onGranted={handleStart}
 			/>
 		</div>
 	)
@@ -3,18 +3,19 @@ import { callEvent } from '@/common/utils/call-event'
 import { SectionPanel } from '@/components/section-panel'
 import { SelectBox } from '@/components/selectbox/selectbox'
 import { ToggleSwitch } from '@/components/toggle-switch.component'
+import { useWidgetInstance } from '@/context/widget-instance.context'
 import { SelectCity } from '@/layouts/setting/tabs/general/components/select-city'
 import { WidgetSettingWrapper } from '@/layouts/widgets-settings/widget-settings-wrapper'
 import type { WeatherSettings } from './weather.interface'
+import { DEFAULT_WEATHER_SETTINGS } from './weather.layout'
 
 const count = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
 export function WeatherSetting() {
-	const [setting, setSetting] = useState<WeatherSettings>({
-		useAI: true,
-		forecastCount: 4,
-		temperatureUnit: 'metric',
-		enableShowName: true,
-	})
+	const instance = useWidgetInstance()
+	const ownSettings = instance?.ownSettings
+	const [setting, setSetting] = useState<WeatherSettings>(
+		ownSettings?.weatherSettings || DEFAULT_WEATHER_SETTINGS
+	)
 	const isInitialLoad = useRef(true)
 
 	function updateWeatherSettings(key: keyof WeatherSettings, value: any) {
@@ -25,6 +26,11 @@ export function WeatherSetting() {
 	}
 
 	useEffect(() => {
+		if (ownSettings) {
+			isInitialLoad.current = false
+			return
+		}
+
 		async function load() {
 			const settingFromStorage = await getFromStorage('weatherSettings')
 			if (settingFromStorage) {
@@ -38,13 +44,24 @@ export function WeatherSetting() {
 
 	useEffect(() => {
 		if (isInitialLoad.current) return
+		if (instance?.ownSettings) {
+			instance.updateSettings({ weatherSettings: setting })
+			return
+		}
 		callEvent('weatherSettingsChanged', setting)
 		setToStorage('weatherSettings', setting)
 	}, [setting])
 
 	return (
 		<WidgetSettingWrapper>
-			<SelectCity key={'selectCity'} />
+			<SelectCity
+				key={'selectCity'}
+				{...(instance?.ownSettings && {
+					city: instance.ownSettings.selectedCity,
+					onSelectCity: (selectedCity) =>
+						instance.updateSettings({ selectedCity }),
+				})}
+			/>
 			<SectionPanel title="تنظیمات نمایش">
 				<div className="flex flex-col space-y-4">
 					<div className="flex flex-col space-y-2">
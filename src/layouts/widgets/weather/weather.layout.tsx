@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react'
 import { getFromStorage, setToStorage } from '@/common/storage'
 import { listenEvent } from '@/common/utils/call-event'
 import { useGeneralSetting } from '@/context/general-setting.context'
+import { useWidgetInstance } from '@/context/widget-instance.context'
 import type {
 	FetchedForecast,
 	FetchedWeather,
@@ -13,9 +14,22 @@ import { WidgetContainer } from '../widget-container'
 import { CurrentWeatherBox } from './current/current-box.weather'
 import { Forecast } from './forecast/forecast'
 import { unitsFlag } from './unitSymbols'
+
+export const DEFAULT_WEATHER_SETTINGS: WeatherSettings = {
+	useAI: true,
+	forecastCount: 4,
+	temperatureUnit: 'metric',
+	enableShowName: true,
+}
+
 export function WeatherLayout() {
-	const { selectedCity } = useGeneralSetting()
-	const [weatherSettings, setWeatherSettings] = useState<WeatherSettings | null>(null)
+	const ownSettings = useWidgetInstance()?.ownSettings
+	const { selectedCity: sharedCity } = useGeneralSetting()
+	const [sharedSettings, setWeatherSettings] = useState<WeatherSettings | null>(null)
+	const selectedCity = ownSettings?.selectedCity || sharedCity
+	const weatherSettings = ownSettings
+		? ownSettings.weatherSettings || DEFAULT_WEATHER_SETTINGS
+		: sharedSettings
 	const [selectedTab, setSelectedTab] = useState<'overview' | 'forecast'>('overview')
 	const [weatherState, setWeather] = useState<FetchedWeather | null>(null)
 	const [forecastWeather, setForecastWeather] = useState<FetchedForecast[] | null>(null)
@@ -39,6 +53,9 @@ export function WeatherLayout() {
 		})
 
 	useEffect(() => {
+		// Extra instances get their settings from the instance and skip the cache
+		if (ownSettings) return
+
 		async function load() {
 			const [
 				weatherSettingFromStorage,
@@ -57,16 +74,7 @@ export function WeatherLayout() {
 				setForecastWeather(forecastWeatherFromStorage)
 			}
 
-			if (weatherSettingFromStorage) {
-				setWeatherSettings(weatherSettingFromStorage)
-			} else {
-				setWeatherSettings({
-					useAI: true,
-					forecastCount: 4,
-					temperatureUnit: 'metric',
-					enableShowName: true,
-				})
-			}
+			setWeatherSettings(weatherSettingFromStorage || DEFAULT_WEATHER_SETTINGS)
 		}
 
 		const event = listenEvent('weatherSettingsChanged', (data) => {
@@ -82,14 +90,14 @@ export function WeatherLayout() {
 
 	useEffect(() => {
 		if (data) {
-			setToStorage('currentWeather', data)
+			if (!ownSettings) setToStorage('currentWeather', data)
 			setWeather(data)
 		}
 	}, [data, dataUpdatedAt])
 
 	useEffect(() => {
 		if (forecastData) {
-			setToStorage('forecastWeather', forecastData)
+			if (!ownSettings) setToStorage('forecastWeather', forecastData)
 			setForecastWeather(forecastData)
 		}
 	}, [forecastDataUpdatedAt])
@@ -7,12 +7,14 @@ import { SectionPanel } from '@/components/section-panel'
 import { SelectBox } from '@/components/selectbox/selectbox'
 import { TextInput } from '@/components/text-input'
 import { CurrencyColorMode } from '@/context/currency.context'
+import { useWidgetInstance } from '@/context/widget-instance.context'
 import { WidgetSettingWrapper } from '@/layouts/widgets-settings/widget-settings-wrapper'
 import { useGetSupportCurrencies } from '@/services/hooks/currency/getSupportCurrencies.hook'
 import { CurrencyBox } from './components/currency-box'
 import { CurrenciesType, type SupportedCurrencies } from './wigiArz-setting.interface'
 
 export function WigiArzSetting() {
+	const instance = useWidgetInstance()
 	const { data: supportCurrencies } = useGetSupportCurrencies()
 	const [selectedCurrencies, setSelectedCurrencies] = useState<string[]>([])
 	const [currencyColorMode, setCurrencyColorMode] = useState<CurrencyColorMode>(
@@ -21,6 +23,15 @@ export function WigiArzSetting() {
 	const [currencyType, setCurrencyType] = useState<string>('all')
 	const [searchQuery, setSearchQuery] = useState('')
 
+	const saveSettings = (currencies: string[], colorMode: CurrencyColorMode) => {
+		if (instance?.ownSettings) {
+			instance.updateSettings({ currencies, currencyColorMode: colorMode })
+			return
+		}
+
+		callEvent('currencies_updated', { currencies, colorMode })
+	}
+
 	const toggleCurrency = (currencyKey: string) => {
 		const isRemoving = selectedCurrencies.includes(currencyKey)
 		const modifiedCurrencySelection = isRemoving
@@ -32,10 +43,7 @@ export function WigiArzSetting() {
 			action: isRemoving ? 'remove' : 'add',
 		})
 
-		callEvent('currencies_updated', {
-			currencies: modifiedCurrencySelection,
-			colorMode: currencyColorMode,
-		})
+		saveSettings(modifiedCurrencySelection, currencyColorMode)
 		setSelectedCurrencies(modifiedCurrencySelection)
 	}
 
@@ -44,11 +52,7 @@ export function WigiArzSetting() {
 			mode,
 		})
 
-		callEvent('currencies_updated', {
-			currencies: selectedCurrencies,
-			colorMode: mode,
-		})
-
+		saveSettings(selectedCurrencies, mode)
 		setCurrencyColorMode(mode)
 	}
 
@@ -67,6 +71,15 @@ export function WigiArzSetting() {
 		.filter((group) => group.options.length > 0)
 
 	useEffect(() => {
+		const ownSettings = instance?.ownSettings
+		if (ownSettings) {
+			setCurrencyColorMode(
+				ownSettings.currencyColorMode || CurrencyColorMode.NORMAL
+			)
+			setSelectedCurrencies(ownSettings.currencies || [])
+			return
+		}
+
 		async function load() {
 			const [color, currencies] = await Promise.all([
 				getFromStorage('currencyColorMode'),
@@ -2,6 +2,7 @@ import { FiDollarSign } from 'react-icons/fi'
 import { callEvent } from '@/common/utils/call-event'
 import { Button } from '@/components/button/button'
 import { useCurrencyStore } from '@/context/currency.context'
+import { useWidgetInstance } from '@/context/widget-instance.context'
 import { WidgetTabKeys } from '@/layouts/widgets-settings/constant/tab-keys'
 import { WidgetContainer } from '../widget-container'
 import { ArzHeader } from './components/arz-header'
@@ -17,8 +18,13 @@ export function WigiArzLayout({
 	inComboWidget,
 }: WigiArzLayoutProps) {
 	const { selectedCurrencies, currencyColorMode } = useCurrencyStore()
+	const instance = useWidgetInstance()
 
 	function onSettingClick() {
+		if (instance?.ownSettings) {
+			callEvent('openWidgetInstanceSettings', instance.instance.id)
+			return
+		}
 		callEvent('openWidgetsSettings', { tab: WidgetTabKeys.wigiArz })
 	}
 
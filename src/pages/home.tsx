@@ -5,13 +5,20 @@ import Analytics from '@/analytics'
 import { ConfigKey } from '@/common/constant/config.key'
 import { getFromStorage, setToStorage } from '@/common/storage'
 import { listenEvent } from '@/common/utils/call-event'
+import { preloadImage } from '@/common/utils/preloadImages'
 import type { StoredWallpaper } from '@/common/wallpaper.interface'
+import { resolveWallpaperSrc } from '@/common/wallpaper-uploads'
 import { ExtensionInstalledModal } from '@/components/extension-installed-modal'
 import { UpdateReleaseNotesModal } from '@/components/UpdateReleaseNotesModal'
+import { DashboardProvider } from '@/context/dashboard.context'
 import { GeneralSettingProvider } from '@/context/general-setting.context'
 import { WidgetVisibilityProvider } from '@/context/widget-visibility.context'
 import { NavbarLayout } from '@/layouts/navbar/navbar.layout'
+import { AppearanceScheduler } from '@/layouts/setting/tabs/appearance/schedule/appearance-scheduler'
+import { WallpaperRotation } from '@/layouts/setting/tabs/wallpapers/rotation/wallpaper-rotation-controls'
+import { TodoReminderModal } from '@/layouts/widgets/todos/todo-reminder-modal'
 import type { WidgetTabKeys } from '@/layouts/widgets-settings/constant/tab-keys'
+import { WidgetInstanceSettingsModal } from '@/layouts/widgets-settings/widget-instance-settings-modal'
 import { WidgetSettingsModal } from '@/layouts/widgets-settings/widget-settings-modal'
 import { getRandomWallpaper } from '@/services/hooks/wallpapers/getWallpaperCategories.hook'
 import { ContentSection } from './home/content-section'
@@ -49,11 +56,15 @@ const steps: Step[] = [
 			'این محیط اصلی ویجت‌ها است. شما می‌توانید بدون محدودیت از ویجت‌ها استفاده کنید، اما برای جلوگیری از شلوغی بیش از حد، پیشنهاد می‌کنیم حداکثر ۴ ویجت را همزمان فعال نگه دارید.',
 	},
 ]
+// Drops a slow-loading wallpaper once a newer one was picked
+let wallpaperRequestId = 0
+
 export function HomePage() {
 	const [showWelcomeModal, setShowWelcomeModal] = useState(false)
 	const [showReleaseNotes, setShowReleaseNotes] = useState(false)
 	const [showWidgetSettings, setShowWidgetSettings] = useState(false)
 	const [tab, setTab] = useState<string | null>(null)
+	const [settingsInstanceId, setSettingsInstanceId] = useState<string | null>(null)
 	const [showTour, setShowTour] = useState(false)
 
 	useEffect(() => {
@@ -126,11 +137,17 @@ export function HomePage() {
 			}
 		)
 
+		const openWidgetInstanceSettingsEvent = listenEvent(
+			'openWidgetInstanceSettings',
+			setSettingsInstanceId
+		)
+
 		Analytics.pageView('Home', '/')
 
 		return () => {
 			wallpaperChangedEvent()
 			openWidgetsSettingsEvent()
+			openWidgetInstanceSettingsEvent()
 		}
 	}, [])
 
@@ -150,7 +167,22 @@ export function HomePage() {
 		setShowReleaseNotes(false)
 	}
 
-	function changeWallpaper(wallpaper: StoredWallpaper) {
+	async function changeWallpaper(wallpaper: StoredWallpaper) {
+		const requestId = ++wallpaperRequestId
+		const src = await resolveWallpaperSrc(wallpaper)
+		if (requestId !== wallpaperRequestId) return
+
+		const hasPrevious =
+			!!document.body.style.backgroundImage ||
+			!!document.getElementById('background-video')
+
+		if (hasPrevious && wallpaper.type === 'IMAGE') {
+			// Fade only once the new image can be painted in full
+			await preloadImage(src)
+			if (requestId !== wallpaperRequestId) return
+		}
+		if (hasPrevious) fadeOutCurrentWallpaper()
+
 		const existingVideo = document.getElementById('background-video')
 		if (existingVideo) {
 			existingVideo.remove()
@@ -161,7 +193,7 @@ export function HomePage() {
 				? 'linear-gradient(rgb(53 53 53 / 42%), rgb(0 0 0 / 16%)), '
 				: ''
 
-			document.body.style.backgroundImage = `${gradient}url(${wallpaper.src})`
+			document.body.style.backgroundImage = `${gradient}url(${src})`
 			document.body.style.backgroundPosition = 'center'
 			document.body.style.backgroundRepeat = 'no-repeat'
 			document.body.style.backgroundSize = 'cover'
@@ -188,7 +220,7 @@ export function HomePage() {
 
 			const video = document.createElement('video')
 			video.id = 'background-video'
-			video.src = wallpaper.src
+			video.src = src
 			video.autoplay = true
 			video.loop = true
 			video.muted = true
@@ -220,6 +252,41 @@ export function HomePage() {
 		}
 	}
 
+	function fadeOutCurrentWallpaper() {
+		document.getElementById('background-fade')?.remove()
+
+		const { backgroundImage, backgroundPosition, backgroundRepeat, backgroundSize } =
+			document.body.style
+		const fade = document.createElement('div')
+		fade.id = 'background-fade'
+		Object.assign(fade.style, {
+			position: 'fixed',
+			inset: '0',
+			zIndex: '-1',
+			pointerEvents: 'none',
+			backgroundImage,
+			backgroundPosition,
+			backgroundRepeat,
+			backgroundSize,
+			transition: 'opacity 0.8s ease',
+		})
+
+		const video = document.getElementById('background-video')
+		if (video) {
+			// Keep showing the old video, detached from the id the new one takes
+			video.removeAttribute('id')
+			fade.appendChild(video)
+		}
+
+		document.body.prepend(fade)
+		requestAnimationFrame(() =>
+			requestAnimationFrame(() => {
+				fade.style.opacity = '0'
+			})
+		)
+		setTimeout(() => fade.remove(), 1000)
+	}
+
 	function onDoneTour(data: any) {
 		if (data.status === 'finished' || data.status === 'skipped') {
 			setToStorage('hasSeenTour', true)
@@ -231,19 +298,27 @@ export function HomePage() {
 	return (
 		<div className="w-full min-h-screen px-2 mx-auto md:px-4 lg:px-0 max-w-[1080px] flex flex-col h-[100vh] overflow-y-auto scrollbar-none">
 			<GeneralSettingProvider>
+				<AppearanceScheduler />
+				<WallpaperRotation />
 				<WidgetVisibilityProvider>
-					<div data-tour="navbar">
-						<NavbarLayout />
-					</div>
-					<ContentSection />
-					<WidgetSettingsModal
-						isOpen={showWidgetSettings}
-						onClose={() => {
-							setShowWidgetSettings(false)
-							setTab(null)
-						}}
-						selectedTab={tab}
-					/>
+					<DashboardProvider>
+						<div data-tour="navbar">
+							<NavbarLayout />
+						</div>
+						<ContentSection />
+						<WidgetSettingsModal
+							isOpen={showWidgetSettings}
+							onClose={() => {
+								setShowWidgetSettings(false)
+								setTab(null)
+							}}
+							selectedTab={tab}
+						/>
+						<WidgetInstanceSettingsModal
+							instanceId={settingsInstanceId}
+							onClose={() => setSettingsInstanceId(null)}
+						/>
+					</DashboardProvider>
 				</WidgetVisibilityProvider>
 			</GeneralSettingProvider>
 			<Joyride
@@ -295,6 +370,8 @@ export function HomePage() {
 				onClose={() => onCloseReleaseNotes()}
 				counterValue={10}
 			/>
+
+			<TodoReminderModal />
 		</div>
 	)
 }
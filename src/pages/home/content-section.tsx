@@ -8,15 +8,28 @@ import {
 } from '@dnd-kit/core'
 import { rectSortingStrategy, SortableContext, useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
+import { useState } from 'react'
 import Analytics from '@/analytics'
 import { useAppearanceSetting } from '@/context/appearance.context'
 import { BookmarkProvider } from '@/context/bookmark.context'
 import { DateProvider } from '@/context/date.context'
 import { TodoProvider } from '@/context/todo.context'
-import { useWidgetVisibility, type WidgetItem } from '@/context/widget-visibility.context'
+import { WidgetInstanceProvider } from '@/context/widget-instance.context'
+import {
+	type ActiveWidget,
+	useWidgetVisibility,
+} from '@/context/widget-visibility.context'
 import { BookmarksComponent } from '@/layouts/bookmark/bookmarks'
 import { SearchLayout } from '@/layouts/search/search'
 import { WidgetifyLayout } from '@/layouts/widgetify-card/widgetify.layout'
+import { useGridBreakpoint } from '@/layouts/widgets/grid/use-grid-breakpoint'
+import {
+	DEFAULT_WIDGET_SIZE,
+	type GridPlacement,
+	packGrid,
+	type WidgetSize,
+} from '@/layouts/widgets/grid/widget-grid'
+import { WidgetResizeHandle } from '@/layouts/widgets/grid/widget-resize-handle'
 import { WigiPadWidget } from '@/layouts/widgets/wigiPad/wigiPad.layout'
 
 const layoutPositions: Record<string, string> = {
@@ -24,17 +37,35 @@ const layoutPositions: Record<string, string> = {
 	top: 'justify-start',
 }
 
-function SortableWidget({ widget }: { widget: WidgetItem }) {
+interface SortableWidgetProps {
+	widget: ActiveWidget
+	placement: GridPlacement
+	columns: number
+	onResize: (size: WidgetSize) => void
+	onResizeEnd: (size: WidgetSize) => void
+}
+
+function SortableWidget({
+	widget,
+	placement,
+	columns,
+	onResize,
+	onResizeEnd,
+}: SortableWidgetProps) {
+	const { updateInstanceSettings } = useWidgetVisibility()
 	const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
 		useSortable({
-			id: widget.id,
+			id: widget.instance.id,
 			disabled: false,
 		})
 
 	const style = {
-		transform: CSS.Transform.toString(transform),
+		// Translate only, widgets of different sizes should not be stretched while sorting
+		transform: CSS.Translate.toString(transform),
 		transition,
 		zIndex: isDragging ? 999 : 'auto',
+		gridColumn: `${placement.x + 1} / span ${placement.w}`,
+		gridRow: `${placement.y + 1} / span ${placement.h}`,
 	}
 
 	const dragListeners = {
@@ -64,23 +95,47 @@ function SortableWidget({ widget }: { widget: WidgetItem }) {
 			style={style}
 			{...attributes}
 			{...dragListeners}
-			className={`h-widget transition-all duration-200 ${
+			data-widget-cell
+			className={`relative group min-w-0 transition-all duration-200 ${
 				isDragging
 					? 'opacity-50 scale-105 shadow-2xl cursor-grabbing'
 					: 'cursor-grab hover:scale-[1.02]'
 			}`}
 		>
-			{widget.node}
+			<WidgetInstanceProvider
+				instance={widget.instance}
+				onUpdateSettings={updateInstanceSettings}
+			>
+				{widget.item.node}
+			</WidgetInstanceProvider>
+			<WidgetResizeHandle
+				size={placement}
+				columns={columns}
+				onResize={onResize}
+				onResizeEnd={onResizeEnd}
+			/>
 		</div>
 	)
 }
 
 export function ContentSection() {
 	const { contentAlignment } = useAppearanceSetting()
-	const { getSortedWidgets, reorderWidgets } = useWidgetVisibility()
+	const { getSortedWidgets, reorderWidgets, resizeWidget } = useWidgetVisibility()
+	const breakpoint = useGridBreakpoint()
+	const [resizing, setResizing] = useState<{ id: string; size: WidgetSize } | null>(
+		null
+	)
 	const sortedWidgets = getSortedWidgets()
 
-	const totalWidgetCount = sortedWidgets.length
+	const placements = packGrid(
+		sortedWidgets.map(({ instance }) => ({
+			id: instance.id,
+			...(resizing?.id === instance.id
+				? resizing.size
+				: instance.sizes?.[breakpoint.name] || DEFAULT_WIDGET_SIZE),
+		})),
+		breakpoint.columns
+	)
 
 	const sensors = useSensors(
 		useSensor(PointerSensor, {
@@ -97,8 +152,12 @@ export function ContentSection() {
 			return
 		}
 
-		const oldIndex = sortedWidgets.findIndex((item) => item.id === active.id)
-		const newIndex = sortedWidgets.findIndex((item) => item.id === over.id)
+		const oldIndex = sortedWidgets.findIndex(
+			({ instance }) => instance.id === active.id
+		)
+		const newIndex = sortedWidgets.findIndex(
+			({ instance }) => instance.id === over.id
+		)
 
 		if (oldIndex !== -1 && newIndex !== -1) {
 			reorderWidgets(oldIndex, newIndex)
@@ -107,11 +166,13 @@ export function ContentSection() {
 		Analytics.event('widget_reorder')
 	}
 
-	let layoutClasses =
-		'grid w-full grid-cols-1 gap-2 transition-all duration-300 md:grid-cols-2 lg:grid-cols-4 md:gap-4'
-	if (totalWidgetCount === 2) {
-		layoutClasses =
-			'flex flex-col flex-wrap w-full gap-2 lg:flex-nowrap md:flex-row md:gap-4 justify-between transition-all duration-300 items-center'
+	const onResizeEnd = (instanceId: string, size: WidgetSize) => {
+		setResizing(null)
+		resizeWidget(instanceId, breakpoint.name, size)
+		Analytics.event('widget_resize', {
+			breakpoint: breakpoint.name,
+			size: `${size.w}x${size.h}`,
+		})
 	}
 
 	return (
@@ -152,28 +213,35 @@ export function ContentSection() {
 								onDragEnd={handleDragEnd}
 							>
 								<SortableContext
-									items={sortedWidgets.map((widget) => widget.id)}
+									items={sortedWidgets.map(
+										({ instance }) => instance.id
+									)}
 									strategy={rectSortingStrategy}
 								>
-									<div className={layoutClasses}>
-										{sortedWidgets.map((widget) => {
-											if (totalWidgetCount === 2) {
-												return (
-													<div
-														key={widget.id}
-														className="flex-shrink-0 w-full lg:w-3/12"
-													>
-														<SortableWidget widget={widget} />
-													</div>
-												)
-											}
-											return (
-												<SortableWidget
-													key={widget.id}
-													widget={widget}
-												/>
-											)
-										})}
+									<div
+										data-widget-grid
+										className="grid w-full gap-2 auto-rows-[20rem] md:gap-4"
+										style={{
+											gridTemplateColumns: `repeat(${breakpoint.columns}, minmax(0, 1fr))`,
+										}}
+									>
+										{sortedWidgets.map((widget, index) => (
+											<SortableWidget
+												key={widget.instance.id}
+												widget={widget}
+												placement={placements[index]}
+												columns={breakpoint.columns}
+												onResize={(size) =>
+													setResizing({
+														id: widget.instance.id,
+														size,
+													})
+												}
+												onResizeEnd={(size) =>
+													onResizeEnd(widget.instance.id, size)
+												}
+											/>
+										))}
 									</div>
 								</SortableContext>
 							</DndContext>
@@ -1,6 +1,6 @@
+import { useQuery } from '@tanstack/react-query'
 import type { Category, Wallpaper, WallpaperResponse } from '@/common/wallpaper.interface'
 import { getMainClient } from '@/services/api'
-import { useQuery } from '@tanstack/react-query'
 
 export const useGetWallpaperCategories = () => {
 	return useQuery<Category[]>({
@@ -26,3 +26,12 @@ export async function getRandomWallpaper(): Promise<Wallpaper | null> {
 		return null
 	}
 }
+
+export async function getWallpapersByCategory(
+	categoryId: string | null
+): Promise<Wallpaper[]> {
+	const client = await getMainClient()
+	const endpoint = categoryId ? `/wallpapers?categoryId=${categoryId}` : '/wallpapers'
+	const { data } = await client.get<WallpaperResponse>(endpoint)
+	return data.wallpapers || []
+}
@@ -69,6 +69,11 @@ const errorTranslations: Record<string, string> = {
 	FIRST_VERIFY_YOUR_ACCOUNT: 'ابتدا حساب کاربری خود را تایید کنید',
 	USERNAME_ALREADY_EXISTS: 'این نام کاربری قبلا وجود داشته است',
 	INVALID_FILE_TYPE: 'نوع فایل نامعتبر است',
+
+	// Backup-related errors
+	INVALID_BACKUP_FILE: 'فایل پشتیبان نامعتبر است',
+	UNSUPPORTED_BACKUP_VERSION:
+		'این فایل پشتیبان با نسخه جدیدتری از افزونه ساخته شده است. ابتدا افزونه را بروزرسانی کنید',
 }
 
 const validationTranslations: Record<string, string> = {
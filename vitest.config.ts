@@ -0,0 +1,6 @@
+import { defineConfig } from 'vitest/config'
+import { WxtVitest } from 'wxt/testing'
+
+export default defineConfig({
+	plugins: [WxtVitest()],
+})
@@ -52,8 +52,9 @@ export default defineConfig({
 		name: 'Widgetify',
 		description:
 			'Transform your new tab into a smart dashboard with Widgetify! Get currency rates, crypto prices, weather & more.',
-		permissions: ['storage', 'search'],
-		optional_permissions: ['tabs', 'tabGroups', 'bookmarks'],
+		permissions: ['storage', 'search', 'alarms'],
+		optional_permissions: ['tabs', 'tabGroups', 'bookmarks', 'notifications'],
+		optional_host_permissions: ['<all_urls>'],
 		browser_specific_settings: {
 			gecko: {
 				id: 'widgetify@widgetify-app.github.io',